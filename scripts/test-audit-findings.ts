@@ -0,0 +1,164 @@
+/**
+ * Structured Audit Findings Test
+ * ==============================
+ * Checks the AUDITOR JSON contract: validateAuditFindings on well-formed,
+ * wrapped and malformed responses, and the repair loop of
+ * ModelRouter.generateStructuredAuditFindings, which sends an invalid
+ * response back with its validation error until the JSON is valid or the
+ * repair attempts run out.  The AUDITOR is a scripted stand-in, so no API
+ * key or network access is needed.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:audit-findings
+ *
+ * Exits with status 1 if any check fails.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { KnowledgeContext, LLMResponse } from '@phaser/shared-types';
+import { LLMService } from '../src/llm-service/src/index';
+import { ModelRouter } from '../src/llm-service/src/model-router';
+import { AuditValidationResult, meetsSeverity, validateAuditFindings } from '../src/llm-service/src/audit-schema';
+import { DEFAULT_DIRECT_CONFIG, ModelRole } from '../src/llm-service/src/provider-config';
+
+const VALID_RESPONSE = JSON.stringify({
+  findings: [
+    {
+      id: 'F1',
+      severity: 'major',
+      standardClause: 'ISO 14971:2019 clause 7.1',
+      offendingPassage: 'Risks are acceptable.',
+      issue: 'No risk control measures are named',
+      suggestedFix: 'List the risk control measures for each hazard',
+    },
+  ],
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+function describe(result: AuditValidationResult): string {
+  return result.valid ? `${result.findings.length} finding(s)` : result.error;
+}
+
+function expectInvalid(name: string, raw: string, error: string): void {
+  const result = validateAuditFindings(raw);
+  check(name, !result.valid && result.error.includes(error), describe(result));
+}
+
+/** AUDITOR stand-in that replies with the queued responses in order and records each prompt. */
+class ScriptedAuditor implements LLMService {
+  readonly prompts: string[] = [];
+
+  constructor(private responses: string[]) {}
+
+  async generateText(prompt: string, _context?: KnowledgeContext): Promise<LLMResponse> {
+    this.prompts.push(prompt);
+    const generatedText = this.responses[Math.min(this.prompts.length, this.responses.length) - 1];
+    return { generatedText, usageStats: { tokensUsed: 100, cost: 0.01 } };
+  }
+}
+
+/** A router whose AUDITOR role is answered by `auditor`. */
+function routerWith(auditor: ScriptedAuditor): ModelRouter {
+  const router = new ModelRouter({ ...DEFAULT_DIRECT_CONFIG, openaiApiKey: 'sk-test-not-used' });
+  (router as unknown as { services: Map<ModelRole, LLMService> }).services.set(ModelRole.AUDITOR, auditor);
+  return router;
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Structured Audit Findings — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  // ── 1. Valid responses ──────────────────────────────────────────────────
+  console.log('── Valid responses ─────────────────────────────────────');
+  const plain = validateAuditFindings(VALID_RESPONSE);
+  check('a response in the contract shape is valid', plain.valid && plain.findings[0].standardClause === 'ISO 14971:2019 clause 7.1', describe(plain));
+
+  const wrapped = validateAuditFindings(`Here are my findings:\n\`\`\`json\n${VALID_RESPONSE}\n\`\`\`\nLet me know if you need more.`);
+  check('code fences and surrounding prose are tolerated', wrapped.valid && wrapped.findings.length === 1, describe(wrapped));
+
+  const bare = validateAuditFindings(JSON.stringify([
+    { severity: 'CRITICAL', standardClause: '21 CFR 820.30(c)', issue: 'No design inputs', suggestedFix: 'Add them' },
+    { severity: 'Minor', standardClause: 'ISO 13485 7.3.3', issue: 'Vague wording', suggestedFix: 'Be specific' },
+  ]));
+  check('a bare array of findings is accepted', bare.valid && bare.findings.length === 2, describe(bare));
+  check('…missing ids are assigned in order', bare.valid && bare.findings.map(f => f.id).join() === 'F1,F2');
+  check('…severities are matched case-insensitively', bare.valid && bare.findings.map(f => f.severity).join() === 'critical,minor');
+  check('…a missing offendingPassage becomes an empty string', bare.valid && bare.findings[0].offendingPassage === '');
+
+  const none = validateAuditFindings('{"findings": []}');
+  check('an empty findings list is valid', none.valid && none.findings.length === 0, describe(none));
+
+  // ── 2. Invalid responses ────────────────────────────────────────────────
+  console.log('\n── Invalid responses ───────────────────────────────────');
+  expectInvalid('prose without JSON', 'The draft looks fine to me.', 'does not contain a JSON object');
+  expectInvalid('truncated JSON', VALID_RESPONSE.slice(0, -3) + '}', 'Invalid JSON');
+  expectInvalid('an object without findings', '{"issues": []}', 'Expected an object with a "findings" array');
+  expectInvalid('an unknown severity', '{"findings": [{"severity": "high", "standardClause": "x", "issue": "y", "suggestedFix": "z"}]}',
+    'findings[0].severity must be one of: critical, major, minor, observation');
+  expectInvalid('an empty issue', '{"findings": [{"severity": "major", "standardClause": "x", "issue": " ", "suggestedFix": "z"}]}',
+    'findings[0].issue must be a non-empty string');
+  expectInvalid('a non-string offendingPassage', '{"findings": [{"severity": "major", "standardClause": "x", "issue": "y", "suggestedFix": "z", "offendingPassage": 3}]}',
+    'findings[0].offendingPassage must be a string');
+  expectInvalid('a finding that is not an object', '{"findings": ["missing risk controls"]}', 'findings[0] is not an object');
+
+  check('critical meets a major threshold', meetsSeverity('critical', 'major'));
+  check('minor does not meet a major threshold', !meetsSeverity('minor', 'major'));
+
+  // ── 3. Repair loop ──────────────────────────────────────────────────────
+  console.log('\n── Repair loop ─────────────────────────────────────────');
+  const firstTime = new ScriptedAuditor([VALID_RESPONSE]);
+  const direct = await routerWith(firstTime).generateStructuredAuditFindings('Audit this draft.');
+  check('valid JSON on the first attempt needs no repair', direct.valid && direct.attempts === 1 && firstTime.prompts.length === 1,
+    `${direct.attempts} attempt(s)`);
+  check('…the audit prompt carries the JSON contract', firstTime.prompts[0].includes('Audit this draft.') && firstTime.prompts[0].includes('"findings"'));
+
+  const repaired = new ScriptedAuditor(['Findings: the risk file is incomplete.', VALID_RESPONSE]);
+  const afterRepair = await routerWith(repaired).generateStructuredAuditFindings('Audit this draft.');
+  check('an invalid response is repaired on the next attempt', afterRepair.valid && afterRepair.attempts === 2 && afterRepair.findings.length === 1,
+    `${afterRepair.attempts} attempt(s)`);
+  check('…the repair prompt quotes the validation error', repaired.prompts[1]?.includes('Validation error: Response does not contain a JSON object'));
+  check('…and the previous response', repaired.prompts[1]?.includes('Findings: the risk file is incomplete.'));
+  check('…usage covers both calls', afterRepair.usageStats.tokensUsed === 200, `${afterRepair.usageStats.tokensUsed} tokens`);
+
+  const chained = new ScriptedAuditor(['not json', '{"findings": [{"severity": "high"}]}', VALID_RESPONSE]);
+  const secondRepair = await routerWith(chained).generateStructuredAuditFindings('Audit this draft.');
+  check('a second repair quotes the second error', secondRepair.valid && secondRepair.attempts === 3 &&
+    !!chained.prompts[2]?.includes('findings[0].severity must be one of'), `${secondRepair.attempts} attempt(s)`);
+
+  const hopeless = new ScriptedAuditor(['still not json']);
+  const exhausted = await routerWith(hopeless).generateStructuredAuditFindings('Audit this draft.');
+  check('repairs stop after maxRepairAttempts (default 2)', !exhausted.valid && exhausted.attempts === 3 && hopeless.prompts.length === 3,
+    `${exhausted.attempts} attempt(s)`);
+  check('…with no findings and the last raw text', exhausted.findings.length === 0 && exhausted.rawText === 'still not json');
+
+  const noRepairs = new ScriptedAuditor(['still not json']);
+  const unrepaired = await routerWith(noRepairs).generateStructuredAuditFindings('Audit this draft.', { maxRepairAttempts: 0 });
+  check('maxRepairAttempts 0 makes a single call', !unrepaired.valid && noRepairs.prompts.length === 1, `${noRepairs.prompts.length} call(s)`);
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-audit-findings] Unhandled error:', err);
+  process.exit(1);
+});
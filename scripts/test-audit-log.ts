@@ -0,0 +1,217 @@
+/**
+ * Audit Log Test
+ * ==============
+ * Writes a short hash-chained audit log with the api-server's AuditLog, then
+ * tampers with copies of it and checks that verifyAuditLog reports each
+ * change: an edited, removed or reordered entry, a rewritten chain, a
+ * truncated or deleted log and a missing checkpoint.  Works in a temporary
+ * directory and removes it afterwards.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:audit-log
+ *
+ * Exits with status 1 if any check fails.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditActor, AuditLogEntry, AuditVerificationResult, ReviewAuditRecord } from '@phaser/shared-types';
+import { AuditLog } from '../src/api-server/src/audit-log';
+import { defaultCheckpointPath, GENESIS_HASH, hashEntry, sha256, verifyAuditLog } from '../src/api-server/src/audit-chain';
+
+const ENTRY_COUNT = 5;
+
+const ACTOR: AuditActor = { id: 'user_test', username: 'audit-test', role: 'author', authenticatedBy: 'session' };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+function describe(result: AuditVerificationResult): string {
+  return result.valid
+    ? `valid, ${result.entries} entries`
+    : `line ${result.error?.line}: ${result.error?.reason}`;
+}
+
+/** Check that verification fails on `line` with a reason containing `reason`. */
+function expectInvalid(name: string, result: AuditVerificationResult, line: number, reason: string): void {
+  check(name, !result.valid && result.error?.line === line && !!result.error?.reason.includes(reason), describe(result));
+}
+
+function reviewRecord(revision: number): ReviewAuditRecord {
+  return {
+    projectPath: '/projects/pulse-oximeter',
+    promptFilePath: '/projects/pulse-oximeter/Prompts/design-inputs.md',
+    reviewId: 'review_test',
+    runId: 'run_test',
+    action: revision === 1 ? 'created' : 'edited',
+    revision,
+    status: 'draft',
+    contentHash: sha256(`Draft revision ${revision}`),
+  };
+}
+
+/** Re-hash entries from `from` (0-based) onwards so the chain links up again. */
+function rechain(entries: AuditLogEntry[], from: number): AuditLogEntry[] {
+  const result = entries.map(entry => ({ ...entry }));
+  for (let i = from; i < result.length; i++) {
+    const { hash: _hash, ...unsigned } = result[i];
+    unsigned.sequence = i + 1;
+    unsigned.previousHash = i === 0 ? GENESIS_HASH : result[i - 1].hash;
+    result[i] = { ...unsigned, hash: hashEntry(unsigned) };
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Audit Log — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const base = await fs.mkdtemp(path.join(os.tmpdir(), 'phaser-audit-'));
+  try {
+    const logPath = path.join(base, 'audit-log.jsonl');
+    const checkpointPath = defaultCheckpointPath(logPath);
+    const auditLog = new AuditLog(logPath);
+
+    // ── 1. An untouched log ────────────────────────────────────────────────
+    console.log('── Untouched log ───────────────────────────────────────');
+    for (let revision = 1; revision <= ENTRY_COUNT; revision++) {
+      await auditLog.appendReview(ACTOR, reviewRecord(revision));
+    }
+    const pristine = await fs.readFile(logPath, 'utf8');
+    const pristineCheckpoint = await fs.readFile(checkpointPath, 'utf8');
+    const entries: AuditLogEntry[] = pristine.trim().split('\n').map(line => JSON.parse(line));
+
+    const untouched = await verifyAuditLog(logPath);
+    check(`${ENTRY_COUNT} appended entries verify`, untouched.valid && untouched.entries === ENTRY_COUNT, describe(untouched));
+    check('the checkpoint records the last entry', untouched.checkpoint?.sequence === ENTRY_COUNT &&
+      untouched.checkpoint?.hash === entries[ENTRY_COUNT - 1].hash && untouched.headHash === entries[ENTRY_COUNT - 1].hash);
+    check('the first entry links to the genesis hash', entries[0].previousHash === GENESIS_HASH);
+
+    /** Verify a tampered copy of the log, with the untouched checkpoint. */
+    const verifyTampered = async (tampered: AuditLogEntry[] | string): Promise<AuditVerificationResult> => {
+      const content = typeof tampered === 'string'
+        ? tampered
+        : tampered.map(entry => `${JSON.stringify(entry)}\n`).join('');
+      await fs.writeFile(logPath, content);
+      await fs.writeFile(checkpointPath, pristineCheckpoint);
+      return verifyAuditLog(logPath);
+    };
+
+    // ── 2. Edited entries ──────────────────────────────────────────────────
+    console.log('\n── Edited entries ──────────────────────────────────────');
+    const edited = entries.map(entry => ({ ...entry }));
+    edited[2] = { ...edited[2], actor: { ...edited[2].actor, username: 'someone-else' } };
+    expectInvalid('an edited actor', await verifyTampered(edited), 3, 'entry modified');
+
+    const editedData = entries.map(entry => ({ ...entry }));
+    editedData[1] = { ...editedData[1], data: { ...(editedData[1].data as ReviewAuditRecord), contentHash: sha256('other content') } };
+    expectInvalid('an edited content hash', await verifyTampered(editedData), 2, 'entry modified');
+
+    const rehashed = entries.map(entry => ({ ...entry }));
+    const { hash: _hash, ...unsigned } = { ...rehashed[2], timestamp: new Date(0).toISOString() };
+    rehashed[2] = { ...unsigned, hash: hashEntry(unsigned) };
+    expectInvalid('an edited entry with a recomputed hash', await verifyTampered(rehashed), 4, 'previousHash does not match');
+
+    const rewritten = rechain(editedData, 1);
+    expectInvalid('a rewritten chain after an edit', await verifyTampered(rewritten), ENTRY_COUNT, 'does not match the checkpoint hash');
+
+    const lines = pristine.trim().split('\n');
+    lines[3] = lines[3].slice(0, -1);
+    expectInvalid('a line that is no longer JSON', await verifyTampered(`${lines.join('\n')}\n`), 4, 'not valid JSON');
+
+    // ── 3. Removed entries ─────────────────────────────────────────────────
+    console.log('\n── Removed entries ─────────────────────────────────────');
+    const removed = entries.filter((_, i) => i !== 2);
+    expectInvalid('a removed entry', await verifyTampered(removed), 3, 'Expected sequence 3, found 4');
+
+    const renumbered = removed.map((entry, i) => ({ ...entry, sequence: i + 1 }));
+    expectInvalid('a removed entry, renumbered', await verifyTampered(renumbered), 3, 'previousHash does not match');
+
+    expectInvalid('a removed first entry', await verifyTampered(entries.slice(1)), 1, 'Expected sequence 1, found 2');
+    expectInvalid('a removed last entry', await verifyTampered(entries.slice(0, -1)), ENTRY_COUNT, 'entries removed from the end');
+    expectInvalid('a rewritten chain without the last entry', await verifyTampered(rechain(entries.slice(0, -1), 0)), ENTRY_COUNT, 'entries removed from the end');
+    expectInvalid('an emptied log', await verifyTampered(''), 1, 'entries removed from the end');
+
+    await fs.rm(logPath);
+    expectInvalid('a deleted log', await verifyAuditLog(logPath), 1, 'log deleted');
+
+    // ── 4. Reordered entries ───────────────────────────────────────────────
+    console.log('\n── Reordered entries ───────────────────────────────────');
+    const swapped = [entries[0], entries[2], entries[1], ...entries.slice(3)];
+    expectInvalid('two swapped entries', await verifyTampered(swapped), 2, 'Expected sequence 2, found 3');
+
+    const swappedRenumbered = swapped.map((entry, i) => ({ ...entry, sequence: i + 1 }));
+    expectInvalid('two swapped entries, renumbered', await verifyTampered(swappedRenumbered), 2, 'previousHash does not match');
+
+    // ── 5. Checkpoint ──────────────────────────────────────────────────────
+    console.log('\n── Checkpoint ──────────────────────────────────────────');
+    await verifyTampered(entries);
+    await fs.rm(checkpointPath);
+    expectInvalid('a missing checkpoint', await verifyAuditLog(logPath), ENTRY_COUNT + 1, 'Checkpoint file not found');
+
+    await verifyTampered(entries);
+    await auditLog.appendReview(ACTOR, reviewRecord(ENTRY_COUNT + 1));
+    await fs.writeFile(checkpointPath, pristineCheckpoint);
+    const oneAhead = await verifyAuditLog(logPath);
+    check('one entry past the checkpoint (crash before its write) verifies', oneAhead.valid, describe(oneAhead));
+
+    await auditLog.appendReview(ACTOR, reviewRecord(ENTRY_COUNT + 2));
+    await fs.writeFile(checkpointPath, pristineCheckpoint);
+    expectInvalid('two entries past the checkpoint', await verifyAuditLog(logPath), ENTRY_COUNT + 2, 'entries after the checkpoint');
+
+    // ── 6. Appending to a damaged log ──────────────────────────────────────
+    console.log('\n── Appending to a damaged log ──────────────────────────');
+    await verifyTampered(entries.slice(0, 2));
+    let appendError = '';
+    try {
+      await auditLog.appendReview(ACTOR, reviewRecord(ENTRY_COUNT + 1));
+    } catch (error) {
+      appendError = error instanceof Error ? error.message : String(error);
+    }
+    check('an append to a truncated log is refused', appendError.includes('deleted, truncated or replaced'), appendError || 'appended');
+    check('…and writes nothing', (await fs.readFile(logPath, 'utf8')).trim().split('\n').length === 2);
+
+    await fs.rm(logPath);
+    let recreateError = '';
+    try {
+      await auditLog.appendReview(ACTOR, reviewRecord(ENTRY_COUNT + 1));
+    } catch (error) {
+      recreateError = error instanceof Error ? error.message : String(error);
+    }
+    check('an append to a deleted log is refused', recreateError.includes('deleted, truncated or replaced'), recreateError || 'appended');
+
+    await verifyTampered(entries);
+    const next = await auditLog.appendReview(ACTOR, reviewRecord(ENTRY_COUNT + 1));
+    const restored = await verifyAuditLog(logPath);
+    check('the restored log accepts the next entry', next.sequence === ENTRY_COUNT + 1 && restored.valid, describe(restored));
+  } finally {
+    await fs.rm(base, { recursive: true, force: true });
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-audit-log] Unhandled error:', err);
+  process.exit(1);
+});
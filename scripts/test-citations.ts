@@ -0,0 +1,121 @@
+/**
+ * Citation Resolution Test
+ * ========================
+ * Checks FootnoteTracker.resolveCitations on generated text: markers citing
+ * no tracked source are removed and reported, sources the text never cites
+ * are pruned, and the remaining sources and markers are renumbered 1..n.
+ * Also checks that detectDiscrepancies reports each dangling marker as a
+ * `citation` discrepancy.  Runs offline: no project folder or API key needed.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:citations
+ *
+ * Exits with status 1 if any check fails.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { FootnoteTracker } from '../src/rag-service/src/footnote-tracker';
+import { detectDiscrepancies } from '../src/orchestrator/src/discrepancy-engine';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+function expectText(name: string, actual: string, expected: string): void {
+  check(name, actual === expected, JSON.stringify(actual));
+}
+
+/** A tracker with four sources, numbered [1]..[4] in this order. */
+function trackerWithSources(): FootnoteTracker {
+  const tracker = new FootnoteTracker();
+  tracker.addSource({ fileName: 'SOP-Design-Control.md', category: 'procedure', chunkIndex: 0, procedureSubcategory: 'sops', procedureCategoryId: 'design_control' });
+  tracker.addSource({ fileName: 'SOP-Risk-Management.md', category: 'procedure', chunkIndex: 2 });
+  tracker.addSource({ fileName: 'Predicate-Comparison.md', category: 'context', chunkIndex: 1 });
+  tracker.addStandardReference('ISO 14971:2019', 'clause 7.1');
+  return tracker;
+}
+
+function sourceList(tracker: FootnoteTracker): string {
+  return tracker.getSourcesArray().map(source => `${source.id}:${source.fileName}`).join(', ');
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function main(): void {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Citation Resolution — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  // ── 1. Every source cited ───────────────────────────────────────────────
+  console.log('── Every source cited ──────────────────────────────────');
+  const full = trackerWithSources();
+  const allCited = full.resolveCitations('Inputs are reviewed [1]. Risks are controlled [2, 4]. The predicate differs [3].');
+  expectText('the text is unchanged', allCited.text, 'Inputs are reviewed [1]. Risks are controlled [2, 4]. The predicate differs [3].');
+  check('nothing dangles or is pruned', allCited.danglingMarkers.length === 0 && allCited.unusedSourceCount === 0);
+  check('the source numbers are unchanged', sourceList(full) ===
+    '1:SOP-Design-Control.md, 2:SOP-Risk-Management.md, 3:Predicate-Comparison.md, 4:ISO 14971:2019', sourceList(full));
+
+  // ── 2. Renumbering ──────────────────────────────────────────────────────
+  console.log('\n── Renumbering ─────────────────────────────────────────');
+  const partial = trackerWithSources();
+  const renumbered = partial.resolveCitations('Risks are controlled [2]. See the standard [4] and again [2,4].');
+  expectText('markers are renumbered to the kept sources', renumbered.text, 'Risks are controlled [1]. See the standard [2] and again [1, 2].');
+  check('uncited sources are pruned and counted', renumbered.unusedSourceCount === 2 && sourceList(partial) === '1:SOP-Risk-Management.md, 2:ISO 14971:2019',
+    sourceList(partial));
+  check('a new source continues after the kept ones', partial.addSource({ fileName: 'Kickoff-Notes.md', category: 'context' }) === 3);
+
+  const duplicates = trackerWithSources().resolveCitations('Both [3, 3] and [03].');
+  expectText('repeated and zero-padded ids collapse to one marker', duplicates.text, 'Both [1] and [1].');
+
+  // ── 3. Dangling markers ─────────────────────────────────────────────────
+  console.log('\n── Dangling markers ────────────────────────────────────');
+  const dangling = trackerWithSources();
+  const withDangling = dangling.resolveCitations('Inputs are reviewed [1]. Unknown claim [7]. Mixed [3, 9]. Again [7].');
+  expectText('a dangling marker is removed with its leading space', withDangling.text, 'Inputs are reviewed [1]. Unknown claim. Mixed [2]. Again.');
+  check('dangling markers are reported once each', withDangling.danglingMarkers.join() === '[7],[9]', withDangling.danglingMarkers.join(', '));
+  check('only cited sources are kept', sourceList(dangling) === '1:SOP-Design-Control.md, 2:Predicate-Comparison.md', sourceList(dangling));
+
+  const onlyDangling = trackerWithSources();
+  const noneValid = onlyDangling.resolveCitations('A claim [8]. Another [12].');
+  expectText('with only dangling markers every marker is removed', noneValid.text, 'A claim. Another.');
+  check('…and no source is pruned', onlyDangling.getSourcesArray().length === 4 && noneValid.unusedSourceCount === 4,
+    sourceList(onlyDangling));
+
+  // ── 4. Text that is not a citation ──────────────────────────────────────
+  console.log('\n── Text that is not a citation ─────────────────────────');
+  const uncited = trackerWithSources();
+  const noMarkers = uncited.resolveCitations('Per ISO 14971 [2019 edition] and 21 CFR 820 [2019].');
+  expectText('years and words in brackets are left alone', noMarkers.text, 'Per ISO 14971 [2019 edition] and 21 CFR 820 [2019].');
+  check('text without markers keeps every source', uncited.getSourcesArray().length === 4 && noMarkers.danglingMarkers.length === 0);
+
+  // ── 5. Discrepancies ────────────────────────────────────────────────────
+  console.log('\n── Discrepancies ───────────────────────────────────────');
+  const discrepancies = detectDiscrepancies({ danglingCitations: withDangling.danglingMarkers });
+  const citationDiscrepancies = discrepancies.filter(d => d.origin === 'citation');
+  check('each dangling marker becomes a citation discrepancy',
+    citationDiscrepancies.map(d => d.location).join() === '[7],[9]' && citationDiscrepancies.every(d => d.type === 'missing_information'),
+    citationDiscrepancies.map(d => d.description).join(' | '));
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('\n[test-citations] Unhandled error:', err);
+  process.exit(1);
+}
@@ -0,0 +1,181 @@
+/**
+ * HNSW Index Test
+ * ===============
+ * Checks the rag-core HNSW index against an exact brute-force search over the
+ * same vectors, and that its binary form round-trips.  Runs offline on
+ * generated vectors: no project folder, embedding model or API key needed.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:hnsw-index
+ *
+ * Exits with status 1 if any check fails.
+ *
+ * ── Optional env vars ────────────────────────────────────────────────────────
+ *   HNSW_TEST_VECTORS=2000           vectors in the recall check (default: 2000)
+ *   HNSW_TEST_MIN_RECALL=0.95        minimum mean recall@10 at ef=100 (default: 0.95)
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { HnswIndex, HnswMatch } from '../src/rag-core/src/hnsw-index';
+
+const DIMENSIONS = 32;
+const TOP_K = 10;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+/** Seeded PRNG (mulberry32) so every run uses the same vectors. */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+function makeItems(count: number, seed: number): { id: string; embedding: number[] }[] {
+  const next = random(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    id: `chunk-${String(i).padStart(5, '0')}`,
+    embedding: Array.from({ length: DIMENSIONS }, () => next() * 2 - 1),
+  }));
+}
+
+/** L2-normalize into a Float32Array, as the index stores vectors. */
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  const norm = Math.sqrt(normalized.reduce((sum, x) => sum + x * x, 0));
+  return norm > 0 ? normalized.map(x => x / norm) : normalized;
+}
+
+/** Exact top-k by dot product over the normalized vectors. */
+function bruteForce(items: { id: string; embedding: number[] }[], query: number[], k: number): HnswMatch[] {
+  const q = normalize(query);
+  return items
+    .map(item => {
+      const v = normalize(item.embedding);
+      let similarity = 0;
+      for (let i = 0; i < DIMENSIONS; i++) similarity += q[i] * v[i];
+      return { id: item.id, similarity };
+    })
+    .sort((a, b) => b.similarity - a.similarity || a.id.localeCompare(b.id))
+    .slice(0, k);
+}
+
+function sameMatches(a: HnswMatch[], b: HnswMatch[]): boolean {
+  return a.length === b.length &&
+    a.every((match, i) => match.id === b[i].id && Math.abs(match.similarity - b[i].similarity) < 1e-6);
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function main(): void {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser HNSW Index — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const vectorCount = Number(process.env.HNSW_TEST_VECTORS) || 2000;
+  const minRecall = Number(process.env.HNSW_TEST_MIN_RECALL) || 0.95;
+  const queries = makeItems(50, 7).map(item => item.embedding);
+
+  // ── 1. Small index: ef above the node count visits every node ────────────
+  console.log('── Small index (exact) ─────────────────────────────────');
+  const smallItems = makeItems(60, 1);
+  const small = HnswIndex.build(smallItems, DIMENSIONS);
+  check('size matches the entries', small.size === smallItems.length, `${small.size}`);
+  check(
+    'search with ef > size equals brute force',
+    queries.every(query => sameMatches(small.search(query, TOP_K, 100), bruteForce(smallItems, query, TOP_K)))
+  );
+  check('empty index returns no matches', HnswIndex.build([], DIMENSIONS).search(queries[0], TOP_K).length === 0);
+  check('k = 0 returns no matches', small.search(queries[0], 0).length === 0);
+
+  let dimensionError = false;
+  try {
+    small.search([1, 2, 3], TOP_K);
+  } catch {
+    dimensionError = true;
+  }
+  check('query with the wrong dimensions throws', dimensionError);
+
+  // ── 2. Large index: recall against brute force ───────────────────────────
+  console.log('\n── Recall against brute force ──────────────────────────');
+  const items = makeItems(vectorCount, 2);
+  const buildStart = Date.now();
+  const index = HnswIndex.build(items, DIMENSIONS);
+  console.log(`  built ${vectorCount} × ${DIMENSIONS} dims in ${Date.now() - buildStart}ms`);
+
+  let recallSum = 0;
+  for (const query of queries) {
+    const exact = new Set(bruteForce(items, query, TOP_K).map(match => match.id));
+    recallSum += index.search(query, TOP_K, 100).filter(match => exact.has(match.id)).length / TOP_K;
+  }
+  const recall = recallSum / queries.length;
+  check(`mean recall@${TOP_K} at ef=100 >= ${minRecall}`, recall >= minRecall, recall.toFixed(3));
+
+  const selfHits = items.slice(0, 50).filter(item => index.search(item.embedding, 1)[0]?.id === item.id).length;
+  check('a stored vector finds itself first', selfHits === 50, `${selfHits}/50`);
+
+  const sorted = queries.every(query => {
+    const matches = index.search(query, TOP_K);
+    return matches.every((match, i) => i === 0 || matches[i - 1].similarity >= match.similarity);
+  });
+  check('matches are sorted by similarity', sorted);
+
+  // ── 3. Binary serialization ──────────────────────────────────────────────
+  console.log('\n── Serialize / deserialize ─────────────────────────────');
+  const buffer = index.serialize();
+  const restored = HnswIndex.deserialize(buffer);
+  check('restored size and dimensions match', restored.size === index.size && restored.dimensions === DIMENSIONS);
+  check('re-serializing gives the same bytes', restored.serialize().equals(buffer), `${buffer.length} bytes`);
+  check(
+    'restored index returns the same matches',
+    queries.every(query => sameMatches(restored.search(query, TOP_K), index.search(query, TOP_K)))
+  );
+
+  const reversed = HnswIndex.build([...items].reverse(), DIMENSIONS);
+  check('build is independent of input order', reversed.serialize().equals(buffer));
+
+  let trailingError = false;
+  try {
+    HnswIndex.deserialize(Buffer.concat([buffer, Buffer.alloc(1)]));
+  } catch {
+    trailingError = true;
+  }
+  check('trailing bytes are rejected', trailingError);
+
+  let truncatedError = false;
+  try {
+    HnswIndex.deserialize(buffer.subarray(0, buffer.length - 4));
+  } catch {
+    truncatedError = true;
+  }
+  check('a truncated buffer is rejected', truncatedError);
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('\n[test-hnsw-index] Unhandled error:', err);
+  process.exit(1);
+}
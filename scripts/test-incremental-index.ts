@@ -0,0 +1,223 @@
+/**
+ * Incremental Index Test
+ * ======================
+ * Checks the incremental rebuild path of rag-core: per-file source
+ * fingerprints detect added, changed and removed files (Context/Prompt/
+ * excluded), updateVectorStore re-embeds only those files and ends with
+ * the same entries as a full rebuild, the updated store survives a
+ * save/load round trip, and stale summary cache entries are pruned.
+ * Builds a small project folder in a temporary directory and removes it
+ * afterwards.  Embeddings come from a deterministic stand-in, so no
+ * embedding model is needed.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:incremental-index
+ *
+ * Exits with status 1 if any check fails.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ParsedDocument } from '@phaser/shared-types';
+import { CacheManager } from '../src/rag-core/src/cache-manager';
+import { chunkSectionAware, chunkWithOverlap } from '../src/rag-core/src/chunking-strategy';
+import { EmbeddingService } from '../src/rag-core/src/embedding-service';
+import { buildVectorStore, ProcedureDoc, updateVectorStore } from '../src/rag-core/src/vector-builder';
+import { VectorStore } from '../src/rag-core/src/vector-store';
+
+const DIMENSIONS = 16;
+
+const CHUNKING = { chunkSectionAware, chunkWithOverlap };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+/**
+ * Embedding stand-in: a vector derived from the SHA-256 of the text, and a
+ * record of every file whose chunks were embedded.
+ */
+class CountingEmbeddings {
+  embeddedFiles: string[] = [];
+
+  async embedBatch(texts: string[], filePaths?: string[]): Promise<Float32Array[]> {
+    this.embeddedFiles.push(...new Set(filePaths ?? []));
+    return texts.map(text => {
+      const digest = crypto.createHash('sha256').update(text).digest();
+      return Float32Array.from({ length: DIMENSIONS }, (_, i) => digest[i] / 255 - 0.5);
+    });
+  }
+
+  getModelInfo() {
+    return { name: 'test-embeddings', version: 'test-v1', dimensions: DIMENSIONS, backend: 'local' };
+  }
+}
+
+function asEmbeddingService(embeddings: CountingEmbeddings): EmbeddingService {
+  return embeddings as unknown as EmbeddingService;
+}
+
+function paragraph(topic: string, count: number): string {
+  return Array.from({ length: count }, (_, i) =>
+    `${topic} paragraph ${i + 1}: the design input is reviewed, verified against the user need and traced to the risk file.`
+  ).join('\n\n');
+}
+
+async function parse(filePath: string): Promise<ParsedDocument> {
+  return {
+    id: filePath,
+    filePath,
+    fileName: path.basename(filePath),
+    content: await fs.readFile(filePath, 'utf8'),
+    mimeType: 'text/markdown',
+  };
+}
+
+/** Parse the project's Procedures/ and Context/ files the way the loader groups them. */
+async function loadProject(projectPath: string, files: string[]): Promise<{ procedures: ProcedureDoc[]; context: { doc: ParsedDocument; contextCategory: string }[] }> {
+  const procedures: ProcedureDoc[] = [];
+  const context: { doc: ParsedDocument; contextCategory: string }[] = [];
+  for (const filePath of files.sort()) {
+    const doc = await parse(filePath);
+    if (filePath.startsWith(path.join(projectPath, 'Procedures'))) {
+      procedures.push({ doc, procedureSubcategory: 'sops' });
+    } else {
+      context.push({ doc, contextCategory: path.basename(path.dirname(filePath)).toLowerCase() });
+    }
+  }
+  return { procedures, context };
+}
+
+function entrySummary(store: VectorStore): string[] {
+  return store.getAllEntries()
+    .map(e => `${e.id}|${e.metadata.contextCategory ?? e.metadata.procedureSubcategory}|${e.embedding.slice(0, 3).join(',')}`)
+    .sort();
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Incremental Index — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const base = await fs.mkdtemp(path.join(os.tmpdir(), 'phaser-incremental-'));
+  const projectPath = path.join(base, 'pulse-oximeter');
+  const cacheManager = new CacheManager(true);
+  try {
+    const sop = path.join(projectPath, 'Procedures', 'SOPs', 'SOP-Design-Control.md');
+    const risk = path.join(projectPath, 'Procedures', 'SOPs', 'SOP-Risk-Management.md');
+    const kickoff = path.join(projectPath, 'Context', 'Initiation', 'Kickoff-Notes.md');
+    const predicate = path.join(projectPath, 'Context', 'Predicates', 'Predicate-Comparison.md');
+    const labeling = path.join(projectPath, 'Context', 'Labeling', 'IFU-Draft.md');
+    const prompt = path.join(projectPath, 'Context', 'Prompt', 'design-inputs.md');
+    const primaryContextPath = path.join(base, 'primary-context.yaml');
+
+    for (const dir of [path.dirname(sop), path.dirname(kickoff), path.dirname(predicate), path.dirname(labeling), path.dirname(prompt)]) {
+      await fs.mkdir(dir, { recursive: true });
+    }
+    await fs.writeFile(sop, paragraph('Design control', 40));
+    await fs.writeFile(risk, paragraph('Risk management', 30));
+    await fs.writeFile(kickoff, paragraph('Kickoff', 20));
+    await fs.writeFile(predicate, paragraph('Predicate', 25));
+    await fs.writeFile(prompt, 'Write the design inputs.');
+    await fs.writeFile(primaryContextPath, 'knowledge_sources: {}\n');
+
+    // ── 1. Source fingerprints ──────────────────────────────────────────────
+    console.log('── Source fingerprints ─────────────────────────────────');
+    const before = await cacheManager.computeSourceFingerprints(projectPath, primaryContextPath, 'test-v1');
+    const tracked = Object.keys(before.files).sort();
+    check('Procedures/ and Context/ files are fingerprinted', tracked.length === 4 && [sop, risk, kickoff, predicate].every(f => f in before.files),
+      tracked.map(f => path.basename(f)).join(', '));
+    check('Context/Prompt/ is excluded', !(prompt in before.files));
+
+    const embeddings = new CountingEmbeddings();
+    const initial = await loadProject(projectPath, tracked);
+    const storePath = path.join(base, 'vector-store.json');
+    const store = await buildVectorStore(initial.procedures, initial.context, projectPath, asEmbeddingService(embeddings), CHUNKING, storePath, true);
+    const initialCount = store.getEntryCount();
+    check('the full build indexes every tracked file', new Set(store.getAllEntries().map(e => e.metadata.filePath)).size === 4, `${initialCount} chunks`);
+
+    // Change one file, add one and remove one; edits under Context/Prompt/ must not count
+    await fs.writeFile(risk, paragraph('Risk management (revised)', 32));
+    await fs.writeFile(labeling, paragraph('Labeling', 12));
+    await fs.rm(kickoff);
+    await fs.writeFile(prompt, 'Write the design inputs, with citations.');
+
+    const after = await cacheManager.computeSourceFingerprints(projectPath, primaryContextPath, 'test-v1');
+    const changes = CacheManager.diffSourceFiles(before.files, after.files);
+    check('the added file is detected', changes.added.join() === labeling, changes.added.map(f => path.basename(f)).join(', '));
+    check('the changed file is detected', changes.changed.join() === risk, changes.changed.map(f => path.basename(f)).join(', '));
+    check('the removed file is detected', changes.removed.join() === kickoff, changes.removed.map(f => path.basename(f)).join(', '));
+    check('the primary context fingerprint is unchanged', after.primaryContext === before.primaryContext);
+    const unchanged = CacheManager.diffSourceFiles(after.files, after.files);
+    check('an unchanged tree has no changes', unchanged.added.length + unchanged.changed.length + unchanged.removed.length === 0);
+
+    // ── 2. Incremental update ──────────────────────────────────────────────
+    console.log('\n── Incremental update ──────────────────────────────────');
+    const reindexed = await loadProject(projectPath, [...changes.added, ...changes.changed]);
+    embeddings.embeddedFiles = [];
+    const result = await updateVectorStore(
+      store,
+      { removedFiles: changes.removed, proceduresFiles: reindexed.procedures, contextFiles: reindexed.context },
+      projectPath, asEmbeddingService(embeddings), CHUNKING, storePath, true
+    );
+    check('only added and changed files are embedded', embeddings.embeddedFiles.sort().join() === [labeling, risk].sort().join(),
+      embeddings.embeddedFiles.map(f => path.basename(f)).join(', '));
+    check('entries of the removed file are gone', !store.getAllEntries().some(e => e.metadata.filePath === kickoff));
+    check('the counts add up', store.getEntryCount() === initialCount - result.removedEntries + result.addedEntries,
+      `-${result.removedEntries} / +${result.addedEntries} → ${store.getEntryCount()}`);
+
+    const rebuilt = await loadProject(projectPath, Object.keys(after.files));
+    const fresh = await buildVectorStore(rebuilt.procedures, rebuilt.context, projectPath, asEmbeddingService(new CountingEmbeddings()),
+      CHUNKING, path.join(base, 'fresh-store.json'), false);
+    const incrementalEntries = entrySummary(store);
+    const freshEntries = entrySummary(fresh);
+    check('the updated store matches a full rebuild', incrementalEntries.length === freshEntries.length &&
+      incrementalEntries.every((summary, i) => summary === freshEntries[i]), `${incrementalEntries.length} vs ${freshEntries.length} entries`);
+
+    const reloaded = await VectorStore.load(storePath, projectPath);
+    check('the saved store reloads with the update', reloaded.getEntryCount() === store.getEntryCount() &&
+      entrySummary(reloaded).every((summary, i) => summary === incrementalEntries[i]), `${reloaded.getEntryCount()} entries`);
+    const reloadedHits = reloaded.search(Array(DIMENSIONS).fill(0.1), 50, 'context');
+    check('search sees the added file', reloadedHits.some(r => r.entry.metadata.filePath === labeling));
+
+    // ── 3. Summary caches ──────────────────────────────────────────────────
+    console.log('\n── Summary caches ──────────────────────────────────────');
+    const sopSummaries = cacheManager.getSOPSummariesCachePath(projectPath);
+    await fs.mkdir(path.dirname(sopSummaries), { recursive: true });
+    await fs.writeFile(sopSummaries, JSON.stringify({ 'SOP-Design-Control.md': 'kept', 'SOP-Risk-Management.md': 'stale' }));
+    await cacheManager.pruneSummaryCaches(projectPath, [path.basename(risk), path.basename(kickoff)]);
+    const pruned = JSON.parse(await fs.readFile(sopSummaries, 'utf8'));
+    check('summaries of changed files are pruned, others kept', Object.keys(pruned).join() === 'SOP-Design-Control.md', Object.keys(pruned).join(', '));
+  } finally {
+    await fs.rm(base, { recursive: true, force: true });
+    for (const cachePath of [cacheManager.getSOPSummariesCachePath(projectPath), cacheManager.getContextSummariesCachePath(projectPath)]) {
+      await fs.rm(path.dirname(cachePath), { recursive: true, force: true });
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-incremental-index] Unhandled error:', err);
+  process.exit(1);
+});
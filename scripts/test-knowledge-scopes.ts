@@ -0,0 +1,183 @@
+/**
+ * Knowledge Source Scope Test
+ * ===========================
+ * Checks @{source_id} scoping: resolving scopes against the shipped
+ * primary-context.yaml (including Context/ subfolders such as @predicates),
+ * restricting VectorStore search and hybrid search to the scoped material,
+ * and flagging scoped sources whose retrieved material is missing, too thin
+ * or too weakly related to the prompt.  Runs offline on hand-made vectors:
+ * no project folder, embedding model or API key needed.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:knowledge-scopes
+ *
+ * Exits with status 1 if any check fails.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { VectorEntry, VectorStore } from '../src/rag-core/src/vector-store';
+import {
+  findInsufficientKnowledgeScopes,
+  isInKnowledgeSourceScope,
+  KnowledgeSourceTargets,
+  parseKnowledgeSourceScopes,
+  resolveKnowledgeSourceScope,
+  ScopeSufficiencySettings,
+} from '../src/rag-service/src/reference-parser';
+import { CONTEXT_ROOT_CATEGORY } from '../src/rag-service/src/context-taxonomy';
+
+const PRIMARY_CONTEXT_PATH = path.join(__dirname, '..', 'src', 'rag-service', 'knowledge-base', 'context', 'primary-context.yaml');
+
+const SUFFICIENCY: ScopeSufficiencySettings = { minChunks: 2, minTopSimilarity: 0.3 };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+function describeTargets(targets: KnowledgeSourceTargets | undefined): string {
+  if (!targets) return 'not resolved';
+  const parts = [...targets.procedureSubcategories, ...targets.contextCategories];
+  if (targets.masterRecord) parts.push('master record');
+  return parts.join(', ') || 'nothing indexed';
+}
+
+function sameSet(actual: Set<string> | undefined, expected: string[]): boolean {
+  return !!actual && actual.size === expected.length && expected.every(value => actual.has(value));
+}
+
+/** A chunk pointing `similarity` of the way towards the query direction [1, 0]. */
+function entry(
+  fileName: string,
+  chunkIndex: number,
+  similarity: number,
+  metadata: { category: 'procedure' | 'context'; contextCategory?: string; procedureSubcategory?: 'sops' | 'quality_policies' | 'project_quality_plans' }
+): VectorEntry {
+  const embedding = [similarity, Math.sqrt(1 - similarity * similarity)];
+  return VectorStore.createEntry(`${fileName} chunk ${chunkIndex} about design inputs`, embedding, {
+    fileName,
+    filePath: `/projects/pulse-oximeter/${metadata.category === 'procedure' ? 'Procedures' : 'Context'}/${fileName}`,
+    chunkIndex,
+    ...metadata,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Knowledge Source Scopes — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const primaryContext = yaml.load(fs.readFileSync(PRIMARY_CONTEXT_PATH, 'utf8'));
+
+  // ── 1. Resolving scopes ─────────────────────────────────────────────────
+  console.log('── Resolving scopes ────────────────────────────────────');
+  const prompt = 'Using @predicates and @sops, list the design inputs. Questions to qa@example.com.';
+  const parsed = parseKnowledgeSourceScopes(prompt);
+  check('scopes are parsed from the prompt', sameSet(parsed, ['predicates', 'sops', 'example']), [...parsed].join(', '));
+
+  const scope = resolveKnowledgeSourceScope(parsed, primaryContext);
+  check('a Context/ subfolder scope covers its context category',
+    sameSet(scope?.bySource.get('predicates')?.contextCategories, ['predicates']), describeTargets(scope?.bySource.get('predicates')));
+  check('a procedure subcategory scope covers its subcategory',
+    sameSet(scope?.bySource.get('sops')?.procedureSubcategories, ['sops']), describeTargets(scope?.bySource.get('sops')));
+  check('an e-mail domain is not a scope', !scope?.bySource.has('example'));
+
+  const parents = resolveKnowledgeSourceScope(new Set(['company_processes', 'project_context']), primaryContext);
+  check('@company_processes covers all procedure subcategories',
+    sameSet(parents?.bySource.get('company_processes')?.procedureSubcategories, ['sops', 'quality_policies', 'project_quality_plans']),
+    describeTargets(parents?.bySource.get('company_processes')));
+  check('@project_context covers every declared context folder',
+    parents?.bySource.get('project_context')?.contextCategories.size === 8, describeTargets(parents?.bySource.get('project_context')));
+
+  const masterRecord = resolveKnowledgeSourceScope(new Set(['master_record']), primaryContext);
+  check('@master_record covers the Master Record', masterRecord?.masterRecord === true, describeTargets(masterRecord?.bySource.get('master_record')));
+
+  const standards = resolveKnowledgeSourceScope(new Set(['global_standards']), primaryContext);
+  check('@global_standards covers nothing indexed', describeTargets(standards?.bySource.get('global_standards')) === 'nothing indexed');
+  check('a prompt without a known scope is unscoped', resolveKnowledgeSourceScope(new Set(['example']), primaryContext) === null);
+
+  // ── 2. Scoped search ────────────────────────────────────────────────────
+  console.log('\n── Scoped search ───────────────────────────────────────');
+  const store = new VectorStore('/projects/pulse-oximeter');
+  store.addEntries([
+    entry('SOP-Design-Control.md', 0, 0.9, { category: 'procedure', procedureSubcategory: 'sops' }),
+    entry('SOP-Design-Control.md', 1, 0.6, { category: 'procedure', procedureSubcategory: 'sops' }),
+    entry('QP-Quality-Policy.md', 0, 0.95, { category: 'procedure', procedureSubcategory: 'quality_policies' }),
+    entry('Predicate-Comparison.md', 0, 0.5, { category: 'context', contextCategory: 'predicates' }),
+    entry('Predicate-Comparison.md', 1, 0.4, { category: 'context', contextCategory: 'predicates' }),
+    entry('Kickoff-Notes.md', 0, 0.99, { category: 'context', contextCategory: 'initiation' }),
+    entry('Project-Master-Record.md', 0, 0.7, { category: 'context', contextCategory: CONTEXT_ROOT_CATEGORY }),
+  ]);
+  const query = [1, 0];
+  const filter = (e: VectorEntry) => isInKnowledgeSourceScope(e.metadata, scope!);
+
+  const context = store.search(query, 5, 'context', filter);
+  check('context search only returns the scoped folder', context.length === 2 && context.every(r => r.entry.metadata.contextCategory === 'predicates'),
+    context.map(r => r.entry.metadata.fileName).join(', '));
+  const procedures = store.search(query, 5, 'procedure', filter);
+  check('procedure search only returns the scoped subcategory', procedures.length === 2 && procedures.every(r => r.entry.metadata.procedureSubcategory === 'sops'),
+    procedures.map(r => r.entry.metadata.fileName).join(', '));
+  const hybrid = store.hybridSearch(query, 'design inputs', 5, 'context', { semanticWeight: 1, lexicalWeight: 1, rrfK: 60, candidatePool: 50 }, filter);
+  check('hybrid search honours the scope', hybrid.length === 2 && hybrid.every(r => r.entry.metadata.contextCategory === 'predicates'),
+    hybrid.map(r => r.entry.metadata.fileName).join(', '));
+  const masterRecordOnly = store.search(query, 5, 'context', e => isInKnowledgeSourceScope(e.metadata, masterRecord!));
+  check('the Master Record scope finds the Master Record file',
+    masterRecordOnly.length === 1 && masterRecordOnly[0].entry.metadata.fileName === 'Project-Master-Record.md');
+
+  // ── 3. Insufficient scoped material ─────────────────────────────────────
+  console.log('\n── Insufficient scoped material ────────────────────────');
+  const requested = { procedureChunks: 5, contextChunks: 5 };
+  const insufficient = (retrieved: typeof context, settings = SUFFICIENCY, counts = requested, s = scope) =>
+    findInsufficientKnowledgeScopes(s, retrieved, store.getAllEntries(), counts, settings)
+      .map(({ id, chunks, topSimilarity }) => `${id}:${chunks}@${topSimilarity.toFixed(2)}`);
+
+  const enough = insufficient([...procedures, ...context]);
+  check('two relevant chunks per scope are sufficient', enough.length === 0, enough.join(', ') || 'none flagged');
+
+  const nothing = insufficient(procedures);
+  check('a scope with no retrieved chunks is flagged', nothing.join() === 'predicates:0@0.00', nothing.join(', '));
+
+  const thin = insufficient([...procedures, context[0]]);
+  check('a scope with fewer than min_chunks is flagged', thin.join() === 'predicates:1@0.50', thin.join(', '));
+
+  const weak = insufficient([...procedures, ...context], { minChunks: 2, minTopSimilarity: 0.6 });
+  check('a scope whose best chunk is below min_top_similarity is flagged', weak.join() === 'predicates:2@0.50', weak.join(', '));
+
+  const oneRequested = insufficient([...procedures, context[0]], SUFFICIENCY, { procedureChunks: 5, contextChunks: 1 });
+  check('min_chunks is capped at the chunks requested', oneRequested.length === 0, oneRequested.join(', ') || 'none flagged');
+
+  const onlyIndexed = insufficient(masterRecordOnly, SUFFICIENCY, requested, masterRecord);
+  check('min_chunks is capped at the chunks indexed for the source', onlyIndexed.length === 0, onlyIndexed.join(', ') || 'none flagged');
+
+  const noContext = insufficient(procedures, SUFFICIENCY, { procedureChunks: 5, contextChunks: 0 });
+  check('a scope whose chunk kind was not requested is not flagged', noContext.length === 0, noContext.join(', ') || 'none flagged');
+
+  const notIndexed = insufficient([], SUFFICIENCY, requested, standards);
+  check('a source that is never indexed is not flagged', notIndexed.length === 0, notIndexed.join(', ') || 'none flagged');
+  check('an unscoped prompt flags nothing', insufficient([], SUFFICIENCY, requested, null).length === 0);
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-knowledge-scopes] Unhandled error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,238 @@
+/**
+ * Procedure Classification Test
+ * =============================
+ * Checks how ProcedureClassifier tags procedures with their subcategory's
+ * declared categories: QA pins in Procedures/procedure-categories.yaml (by
+ * relative path or bare file name, null to keep a document unclassified,
+ * unknown ids falling back to classification), embedding similarity with
+ * the min_similarity floor, and the LLM tie-breaker for near ties.
+ * Embeddings and the tie-breaker LLM are deterministic stand-ins, so no
+ * embedding model or API key is needed.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:procedure-classification
+ *
+ * Exits with status 1 if any check fails.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { CategorizedProcedureFile } from '../src/rag-service/src/document-loader';
+import {
+  createLLMTieBreaker,
+  extractProcedureCategories,
+  loadProcedureCategoryOverrides,
+  ProcedureCategory,
+  ProcedureClassificationSettings,
+  ProcedureClassifier,
+  PROCEDURE_CATEGORY_OVERRIDES_FILE,
+  resolveProcedureClassificationSettings,
+} from '../src/rag-service/src/procedure-classifier';
+
+const PRIMARY_CONTEXT_PATH = path.join(__dirname, '..', 'src', 'rag-service', 'knowledge-base', 'context', 'primary-context.yaml');
+
+/** Each keyword is one embedding dimension; a small constant keeps vectors non-zero */
+const KEYWORDS = ['design', 'risk', 'document'];
+
+/** Categories written so that each one is dominated by a single keyword */
+const PRIMARY_CONTEXT = {
+  knowledge_sources: {
+    company_processes: {
+      subcategories: {
+        sops: {
+          id: 'sops',
+          categories: [
+            { id: 'design_control', name: 'Design Control', description: 'Design inputs, design outputs and design reviews' },
+            { id: 'risk_management', name: 'Risk Management', description: 'Hazards, risk analysis and risk controls' },
+            { id: 'document_control', name: 'Document Control', description: 'Review and approval of controlled documents' },
+          ],
+        },
+        quality_policies: { id: 'quality_policies' },
+      },
+    },
+  },
+};
+
+const SETTINGS: ProcedureClassificationSettings = { minSimilarity: 0.3, tieMargin: 0.02, llmTieBreaker: false };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+/** Embedding stand-in: keyword counts, and a record of the category texts embedded. */
+class KeywordEmbeddings {
+  categoryTexts: string[] = [];
+
+  async embedText(text: string, filePath?: string): Promise<Float32Array> {
+    if (!filePath) this.categoryTexts.push(text);
+    const lower = text.toLowerCase();
+    return Float32Array.from([...KEYWORDS.map(keyword => lower.split(keyword).length - 1), 0.05]);
+  }
+}
+
+function classifierWith(
+  embeddings: KeywordEmbeddings,
+  settings = SETTINGS,
+  tieBreaker?: (excerpt: string, candidates: ProcedureCategory[]) => Promise<string | null>
+): ProcedureClassifier {
+  return new ProcedureClassifier(embeddings as unknown as ConstructorParameters<typeof ProcedureClassifier>[0], settings, tieBreaker);
+}
+
+function procedure(proceduresPath: string, relPath: string, content: string, procedureSubcategory: CategorizedProcedureFile['procedureSubcategory'] = 'sops'): CategorizedProcedureFile {
+  const filePath = path.join(proceduresPath, ...relPath.split('/'));
+  return {
+    doc: { id: filePath, filePath, fileName: path.basename(filePath), content, mimeType: 'text/markdown' },
+    procedureSubcategory,
+  };
+}
+
+function describe(file: CategorizedProcedureFile | undefined): string {
+  if (!file) return 'missing';
+  if (!file.procedureCategoryId) return 'unclassified';
+  const { confidence, source } = file.procedureClassification!;
+  return `${file.procedureCategoryId} (${source}, ${confidence.toFixed(3)})`;
+}
+
+/** A generateText stand-in that always gives the same answer. */
+function llmAnswering(answer: string) {
+  return { generateText: async (_prompt: string) => ({ generatedText: answer }) };
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Procedure Classification — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const proceduresPath = await fsp.mkdtemp(path.join(os.tmpdir(), 'phaser-procedures-'));
+  try {
+    // ── 1. Configuration ────────────────────────────────────────────────────
+    console.log('── Configuration ───────────────────────────────────────');
+    const shipped = yaml.load(fs.readFileSync(PRIMARY_CONTEXT_PATH, 'utf8'));
+    const shippedSettings = resolveProcedureClassificationSettings(shipped);
+    check('the shipped settings are read', shippedSettings?.minSimilarity === 0.3 && shippedSettings.tieMargin === 0.02 && !shippedSettings.llmTieBreaker,
+      JSON.stringify(shippedSettings));
+    check('enabled: false turns classification off', resolveProcedureClassificationSettings({ retrieval: { procedure_classification: { enabled: false } } }) === null);
+    const shippedCategories = extractProcedureCategories(shipped).get('sops') ?? [];
+    check('the shipped SOP categories are extracted', shippedCategories.some(c => c.id === 'design_control') && shippedCategories.every(c => !!c.name),
+      shippedCategories.map(c => c.id).join(', '));
+
+    // ── 2. Overrides file ───────────────────────────────────────────────────
+    console.log('\n── Overrides file ──────────────────────────────────────');
+    check('a missing overrides file means no overrides', (await loadProcedureCategoryOverrides(proceduresPath)).size === 0);
+
+    const overridesPath = path.join(proceduresPath, PROCEDURE_CATEGORY_OVERRIDES_FILE);
+    await fsp.writeFile(overridesPath, 'SOPs: [unclosed\n');
+    check('an unparsable overrides file is ignored', (await loadProcedureCategoryOverrides(proceduresPath)).size === 0);
+
+    await fsp.writeFile(overridesPath, [
+      '"SOPs/SOP-002 Risk Analysis.md": document_control',
+      '"SOPs/SOP-003 Legacy Notes.md": null',
+      '"SOP-004 Hazards.md": risk_management',
+      '"SOPs/SOP-005 Threats.md": cybersecurity',
+      '"SOPs/SOP-006 Numbers.md": 42',
+      '',
+    ].join('\n'));
+    const overrides = await loadProcedureCategoryOverrides(proceduresPath);
+    check('category ids and null are loaded, other values skipped', overrides.size === 4 && overrides.get('SOPs/SOP-003 Legacy Notes.md') === null &&
+      !overrides.has('SOPs/SOP-006 Numbers.md'), [...overrides.keys()].join(', '));
+
+    // ── 3. Classification ───────────────────────────────────────────────────
+    console.log('\n── Classification ──────────────────────────────────────');
+    const files = [
+      procedure(proceduresPath, 'SOPs/SOP-001 Design Reviews.md', 'Design inputs are reviewed at each design review.'),
+      procedure(proceduresPath, 'SOPs/SOP-002 Risk Analysis.md', 'Risk analysis and risk evaluation for each hazard.'),
+      procedure(proceduresPath, 'SOPs/SOP-003 Legacy Notes.md', 'Design notes kept for reference.'),
+      procedure(proceduresPath, 'SOPs/Archive/SOP-004 Hazards.md', 'Hazards are listed in the design history file.'),
+      procedure(proceduresPath, 'SOPs/SOP-005 Threats.md', 'Threats are handled as a risk and assessed for risk.'),
+      procedure(proceduresPath, 'SOPs/SOP-007 Training.md', 'Staff training records are kept for three years.'),
+      procedure(proceduresPath, 'Quality Policies/QP-001 Quality Policy.md', 'Design quality objectives.', 'quality_policies'),
+    ];
+    const embeddings = new KeywordEmbeddings();
+    const classified = await classifierWith(embeddings).classify(files, proceduresPath, PRIMARY_CONTEXT);
+    const byName = (name: string) => classified.find(f => f.doc.fileName.startsWith(name));
+
+    check('a document is classified by embedding similarity', describe(byName('SOP-001')).startsWith('design_control (embedding'), describe(byName('SOP-001')));
+    check('a pin by relative path wins with confidence 1', describe(byName('SOP-002')) === 'document_control (override, 1.000)', describe(byName('SOP-002')));
+    check('a null pin keeps the document unclassified', describe(byName('SOP-003')) === 'unclassified', describe(byName('SOP-003')));
+    check('a pin by bare file name applies in any subfolder', describe(byName('SOP-004')) === 'risk_management (override, 1.000)', describe(byName('SOP-004')));
+    check('a pin to an unknown category falls back to classification', describe(byName('SOP-005')).startsWith('risk_management (embedding'),
+      describe(byName('SOP-005')));
+    check('a document below min_similarity stays unclassified', describe(byName('SOP-007')) === 'unclassified', describe(byName('SOP-007')));
+    check('a subcategory without categories is left as it is', describe(byName('QP-001')) === 'unclassified' && byName('QP-001') === files[6]);
+    check('each category is embedded once per run', embeddings.categoryTexts.length === 3, `${embeddings.categoryTexts.length} category embedding(s)`);
+    check('the input files are not modified', files.every(f => f.procedureCategoryId === undefined));
+
+    // ── 4. Ties ─────────────────────────────────────────────────────────────
+    console.log('\n── Ties ────────────────────────────────────────────────');
+    const tied = [procedure(proceduresPath, 'SOPs/SOP-010 Design Risk.md', 'Design risk.')];
+    const [withoutLLM] = await classifierWith(new KeywordEmbeddings()).classify(tied, proceduresPath, PRIMARY_CONTEXT);
+    check('without the tie-breaker a tie keeps the embedding result', describe(withoutLLM).startsWith('risk_management (embedding'), describe(withoutLLM));
+
+    let candidates: string[] = [];
+    const pickDesign = async (_excerpt: string, tiedCategories: ProcedureCategory[]) => {
+      candidates = tiedCategories.map(c => c.id);
+      return 'design_control';
+    };
+    const tieSettings = { ...SETTINGS, llmTieBreaker: true };
+    const [settled] = await classifierWith(new KeywordEmbeddings(), tieSettings, pickDesign).classify(tied, proceduresPath, PRIMARY_CONTEXT);
+    check('the tie-breaker settles a tie', describe(settled).startsWith('design_control (llm'), describe(settled));
+    check('…choosing among the tied categories only', candidates.sort().join() === 'design_control,risk_management', candidates.join(', '));
+
+    const [notConsulted] = await classifierWith(new KeywordEmbeddings(), SETTINGS, pickDesign).classify(tied, proceduresPath, PRIMARY_CONTEXT);
+    check('llm_tie_breaker: false leaves the tie-breaker unused', describe(notConsulted).startsWith('risk_management (embedding'), describe(notConsulted));
+
+    const failing = async () => { throw new Error('model unavailable'); };
+    const [afterFailure] = await classifierWith(new KeywordEmbeddings(), tieSettings, failing).classify(tied, proceduresPath, PRIMARY_CONTEXT);
+    check('a failing tie-breaker keeps the embedding result', describe(afterFailure).startsWith('risk_management (embedding'), describe(afterFailure));
+
+    const outsider = async () => 'document_control';
+    const [ignored] = await classifierWith(new KeywordEmbeddings(), tieSettings, outsider).classify(tied, proceduresPath, PRIMARY_CONTEXT);
+    check('an answer outside the tied categories is ignored', describe(ignored).startsWith('risk_management (embedding'), describe(ignored));
+
+    const unambiguous = files.slice(0, 1);
+    let consulted = false;
+    const watching = async () => { consulted = true; return null; };
+    await classifierWith(new KeywordEmbeddings(), tieSettings, watching).classify(unambiguous, proceduresPath, PRIMARY_CONTEXT);
+    check('a clear winner is not sent to the tie-breaker', !consulted);
+
+    // ── 5. LLM tie-breaker answers ──────────────────────────────────────────
+    console.log('\n── LLM tie-breaker answers ─────────────────────────────');
+    const plans: ProcedureCategory[] = [
+      { id: 'risk-management', name: 'Risk Management' },
+      { id: 'risk-management-plan', name: 'Risk Management Plan' },
+    ];
+    const answer = async (reply: string) => createLLMTieBreaker(llmAnswering(reply))('Excerpt', plans);
+    check('a quoted id with a trailing period is matched exactly', await answer('"Risk-Management".') === 'risk-management');
+    check('an id inside a sentence picks the longest mentioned', await answer('I would choose risk-management-plan here') === 'risk-management-plan');
+    check('"none" leaves the tie unsettled', await answer('none') === null);
+  } finally {
+    await fsp.rm(proceduresPath, { recursive: true, force: true });
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-procedure-classification] Unhandled error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * Project Root Sandbox Test
+ * =========================
+ * Checks that the api-server only accepts request paths inside the allowed
+ * project roots: `..` segments, look-alike sibling folders and symlinks that
+ * point out of a root must all be rejected.  Builds its own folder tree
+ * (with symlinks) in a temporary directory and removes it afterwards.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:project-roots
+ *
+ * Exits with status 1 if any check fails.  Needs a filesystem that supports
+ * symlinks.  PROJECT_ROOTS and PROJECT_REGISTRY_PATH are overridden for the
+ * run, so an existing .env does not matter.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Response } from 'express';
+import { checkRequestPaths, PathAccessError, resolveAllowedPath } from '../src/api-server/src/project-roots';
+import { getProjectStore } from '../src/api-server/src/project-store';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+/** The resolved path, or the PathAccessError code when the path is refused. */
+async function outcome(requestedPath: unknown): Promise<string> {
+  try {
+    return await resolveAllowedPath(requestedPath, 'path');
+  } catch (error) {
+    if (error instanceof PathAccessError) return error.code;
+    throw error;
+  }
+}
+
+async function expectAllowed(name: string, requestedPath: string, expected: string): Promise<void> {
+  const result = await outcome(requestedPath);
+  check(name, result === expected, result);
+}
+
+async function expectRejected(name: string, requestedPath: unknown, code: PathAccessError['code']): Promise<void> {
+  const result = await outcome(requestedPath);
+  check(name, result === code, result);
+}
+
+/** Minimal Express Response that records the status and body sent. */
+function recordingResponse(): { res: Response; sent: { status?: number; body?: any } } {
+  const sent: { status?: number; body?: any } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Project Root Sandbox — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  // Real path of the temp dir, so expected values match realpath() output
+  const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'phaser-roots-')));
+  try {
+    // base/
+    //   root/proj/Context/notes.md
+    //   root/escape        -> base/outside        (directory link out of the root)
+    //   root/secret-link   -> base/outside/secret.txt
+    //   root/proj-link     -> base/root/proj      (link within the root)
+    //   root-evil/         (shares the root's name as a prefix)
+    //   outside/secret.txt
+    //   root-link          -> base/root           (the root itself through a link)
+    const root = path.join(base, 'root');
+    const proj = path.join(root, 'proj');
+    const outside = path.join(base, 'outside');
+    await fs.mkdir(path.join(proj, 'Context'), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.mkdir(path.join(base, 'root-evil'));
+    await fs.writeFile(path.join(proj, 'Context', 'notes.md'), '# Notes\n');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret\n');
+    await fs.symlink(outside, path.join(root, 'escape'));
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(root, 'secret-link'));
+    await fs.symlink(proj, path.join(root, 'proj-link'));
+    await fs.symlink(root, path.join(base, 'root-link'));
+
+    process.env.PROJECT_ROOTS = root;
+    process.env.PROJECT_REGISTRY_PATH = path.join(base, 'projects.json');
+
+    // ── 1. Paths inside the root ───────────────────────────────────────────
+    console.log('── Inside PROJECT_ROOTS ────────────────────────────────');
+    await expectAllowed('the root itself', root, root);
+    await expectAllowed('a file in a project', path.join(proj, 'Context', 'notes.md'), path.join(proj, 'Context', 'notes.md'));
+    await expectAllowed('a path that does not exist yet', path.join(proj, 'Prompts', 'new.md'), path.join(proj, 'Prompts', 'new.md'));
+    await expectAllowed('`..` that stays inside the root', path.join(proj, 'Context') + '/../Context/notes.md', path.join(proj, 'Context', 'notes.md'));
+    await expectAllowed('a symlink to a folder in the root', path.join(root, 'proj-link', 'Context'), path.join(proj, 'Context'));
+
+    // ── 2. Paths that leave the root ───────────────────────────────────────
+    console.log('\n── Outside PROJECT_ROOTS ───────────────────────────────');
+    await expectRejected('`..` out of the root', `${root}/../outside/secret.txt`, 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('`..` out of a project folder', `${proj}/../../outside`, 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('the root\'s parent', path.dirname(root), 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('a sibling sharing the root\'s prefix', path.join(base, 'root-evil'), 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('a directory symlink out of the root', path.join(root, 'escape'), 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('a file through that symlink', path.join(root, 'escape', 'secret.txt'), 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('a new file through that symlink', path.join(root, 'escape', 'new.md'), 'PATH_OUTSIDE_ROOTS');
+    await expectRejected('a file symlink out of the root', path.join(root, 'secret-link'), 'PATH_OUTSIDE_ROOTS');
+
+    // ── 3. Malformed paths ─────────────────────────────────────────────────
+    console.log('\n── Malformed paths ─────────────────────────────────────');
+    await expectRejected('a relative path', 'proj/Context', 'PATH_INVALID');
+    await expectRejected('a relative `..` path', '../outside', 'PATH_INVALID');
+    await expectRejected('a NUL byte', `${proj}\0/../../outside`, 'PATH_INVALID');
+    await expectRejected('a non-string value', { path: proj }, 'PATH_INVALID');
+
+    // ── 4. Root configuration ──────────────────────────────────────────────
+    console.log('\n── Root configuration ──────────────────────────────────');
+    process.env.PROJECT_ROOTS = path.join(base, 'root-link');
+    await expectAllowed('a root given through a symlink', path.join(proj, 'Context'), path.join(proj, 'Context'));
+    await expectRejected('…still excludes paths outside it', path.join(outside, 'secret.txt'), 'PATH_OUTSIDE_ROOTS');
+
+    process.env.PROJECT_ROOTS = [path.join(base, 'missing'), outside].join(path.delimiter);
+    await expectAllowed('a second root in the list', path.join(outside, 'secret.txt'), path.join(outside, 'secret.txt'));
+    await expectRejected('…and a path in neither root', proj, 'PATH_OUTSIDE_ROOTS');
+
+    // Without PROJECT_ROOTS the registered project folders are the roots
+    delete process.env.PROJECT_ROOTS;
+    await expectRejected('no roots and no registered projects', proj, 'PATH_OUTSIDE_ROOTS');
+    await getProjectStore().create({ name: 'Sandbox test', folderPath: proj, sourceType: 'local' });
+    await expectAllowed('a registered project folder', path.join(proj, 'Context'), path.join(proj, 'Context'));
+    await expectRejected('…but not its parent', root, 'PATH_OUTSIDE_ROOTS');
+    process.env.PROJECT_ROOTS = root;
+
+    // ── 5. Route responses ─────────────────────────────────────────────────
+    console.log('\n── checkRequestPaths responses ─────────────────────────');
+    const denied = recordingResponse();
+    const deniedResult = await checkRequestPaths(denied.res, {
+      projectPath: proj,
+      files: [path.join(proj, 'Context', 'notes.md'), path.join(root, 'escape', 'secret.txt')],
+    });
+    check(
+      'an escaping list item gets 403 PATH_OUTSIDE_ROOTS',
+      !deniedResult && denied.sent.status === 403 && denied.sent.body?.code === 'PATH_OUTSIDE_ROOTS',
+      `${denied.sent.status} ${denied.sent.body?.code}`
+    );
+    check('…naming the offending field', denied.sent.body?.field === 'files[1]', denied.sent.body?.field);
+
+    const invalid = recordingResponse();
+    const invalidResult = await checkRequestPaths(invalid.res, { projectPath: 'relative/path' });
+    check(
+      'a relative path gets 400 PATH_INVALID',
+      !invalidResult && invalid.sent.status === 400 && invalid.sent.body?.code === 'PATH_INVALID',
+      `${invalid.sent.status} ${invalid.sent.body?.code}`
+    );
+
+    const allowed = recordingResponse();
+    const allowedResult = await checkRequestPaths(allowed.res, { projectPath: proj, promptFilePath: undefined });
+    check('allowed paths send nothing', allowedResult && allowed.sent.status === undefined);
+  } finally {
+    await fs.rm(base, { recursive: true, force: true });
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-project-roots] Unhandled error:', err);
+  process.exit(1);
+});
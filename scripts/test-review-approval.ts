@@ -0,0 +1,167 @@
+/**
+ * Review Approval Test
+ * ====================
+ * Checks the segregation-of-duties rule of the review workflow: nobody who
+ * created, edited or submitted a draft, in any revision, may approve it,
+ * while a reviewer who only commented or rejected may.  Drives the
+ * api-server's ReviewStore directly, with its reviews folder and audit log in
+ * a temporary directory that is removed afterwards.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:review-approval
+ *
+ * Exits with status 1 if any check fails.  REVIEWS_PATH and AUDIT_LOG_PATH
+ * are overridden for the run.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthenticatedUser, GenerationRun } from '@phaser/shared-types';
+import { ReviewPermissionError, ReviewStateError, ReviewStore } from '../src/api-server/src/review-store';
+import { getAuditLog } from '../src/api-server/src/audit-log';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+function user(username: string): AuthenticatedUser {
+  return { id: `user_${username}`, username, role: 'author', authenticatedBy: 'session' };
+}
+
+const [alice, bob, carol, dave, erin, frank] = ['alice', 'bob', 'carol', 'dave', 'erin', 'frank'].map(user);
+
+function completedRun(): GenerationRun {
+  const content = 'Design input one.\n\nDesign input two.';
+  return {
+    id: crypto.randomUUID(),
+    projectPath: '/projects/pulse-oximeter',
+    promptFilePath: '/projects/pulse-oximeter/Prompts/design-inputs.md',
+    promptName: 'design-inputs.md',
+    promptHash: crypto.createHash('sha256').update('prompt').digest('hex'),
+    llmMode: 'mock',
+    models: [],
+    trigger: 'generate',
+    createdAt: new Date().toISOString(),
+    status: 'complete',
+    message: 'Generated',
+    discrepancyCount: 0,
+    tokensUsed: 0,
+    cost: 0,
+    contentChars: content.length,
+    output: { status: 'complete', message: 'Generated', timestamp: new Date().toISOString(), generatedContent: content },
+  };
+}
+
+/** "approved", "refused" for a ReviewPermissionError, or the other error's message. */
+async function approveOutcome(
+  store: ReviewStore,
+  id: string,
+  signer: AuthenticatedUser,
+  allowSelfApproval = false
+): Promise<string> {
+  try {
+    const review = await store.approve(id, signer, 'approval', { verifiedBy: 'password', allowSelfApproval });
+    return review?.status ?? 'missing';
+  } catch (error) {
+    if (error instanceof ReviewPermissionError) return 'refused';
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+async function expectApproval(name: string, store: ReviewStore, id: string, signer: AuthenticatedUser, expected: 'approved' | 'refused', allowSelfApproval = false): Promise<void> {
+  const result = await approveOutcome(store, id, signer, allowSelfApproval);
+  check(name, result === expected, result);
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Review Approval — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const base = await fs.mkdtemp(path.join(os.tmpdir(), 'phaser-reviews-'));
+  try {
+    process.env.AUDIT_LOG_PATH = path.join(base, 'audit-log.jsonl');
+    delete process.env.AUDIT_CHECKPOINT_PATH;
+    const store = new ReviewStore(path.join(base, 'reviews'));
+
+    // ── 1. One revision, several editors ───────────────────────────────────
+    console.log('── One revision, several editors ───────────────────────');
+    let review = await store.create(completedRun(), alice);
+    await store.updateContent(review.id, bob, 'Bob wrote this.');
+    await store.updateContent(review.id, carol, 'Carol polished it.');
+    await store.submit(review.id, dave);
+    await expectApproval('the creator is refused', store, review.id, alice, 'refused');
+    await expectApproval('an earlier co-editor is refused', store, review.id, bob, 'refused');
+    await expectApproval('the last editor is refused', store, review.id, carol, 'refused');
+    await expectApproval('the submitter is refused', store, review.id, dave, 'refused');
+    await store.addComment(review.id, frank, { paragraphIndex: 0, text: 'Looks right' });
+    await expectApproval('a commenting reviewer may approve', store, review.id, frank, 'approved');
+
+    let frozen = false;
+    try {
+      await store.updateContent(review.id, erin, 'Too late');
+    } catch (error) {
+      frozen = error instanceof ReviewStateError;
+    }
+    check('the approved review is frozen', frozen);
+
+    // ── 2. Reopened without further edits ──────────────────────────────────
+    console.log('\n── Reopened without further edits ──────────────────────');
+    review = await store.create(completedRun(), alice);
+    await store.updateContent(review.id, bob, 'Bob wrote revision 1.');
+    await store.submit(review.id, carol);
+    await store.reject(review.id, dave, 'Needs a second look');
+    await store.reopen(review.id, erin);
+    await store.submit(review.id, erin);
+    const reopened = await store.get(review.id);
+    check('the draft is in review at revision 2', reopened?.status === 'in_review' && reopened.revision === 2,
+      `${reopened?.status} r${reopened?.revision}`);
+    await expectApproval('the revision 1 editor is refused', store, review.id, bob, 'refused');
+    await expectApproval('the revision 1 submitter is refused', store, review.id, carol, 'refused');
+    await expectApproval('the revision 2 submitter is refused', store, review.id, erin, 'refused');
+    await expectApproval('the reviewer who rejected revision 1 may approve', store, review.id, dave, 'approved');
+
+    // ── 3. Self-approval allowed ───────────────────────────────────────────
+    console.log('\n── REVIEW_ALLOW_SELF_APPROVAL ──────────────────────────');
+    review = await store.create(completedRun(), alice);
+    await store.updateContent(review.id, alice, 'Alice wrote this alone.');
+    await store.submit(review.id, alice);
+    await expectApproval('the sole author is refused by default', store, review.id, alice, 'refused');
+    await expectApproval('…and may approve when self-approval is allowed', store, review.id, alice, 'approved', true);
+
+    // ── 4. Audit trail ─────────────────────────────────────────────────────
+    console.log('\n── Audit trail ─────────────────────────────────────────');
+    const approvals = (await getAuditLog().list()).filter(entry => 'action' in entry.data && entry.data.action === 'approved');
+    check('only the three approvals were audited', approvals.length === 3, `${approvals.length}`);
+    const verification = await getAuditLog().verify();
+    check('the audit log verifies', verification.valid, verification.error?.reason);
+  } finally {
+    await fs.rm(base, { recursive: true, force: true });
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-review-approval] Unhandled error:', err);
+  process.exit(1);
+});
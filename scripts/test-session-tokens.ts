@@ -0,0 +1,164 @@
+/**
+ * Session Token Test
+ * ==================
+ * Checks the api-server's HMAC-signed session tokens: a tampered payload or
+ * signature, a token signed with another secret, an expired token and a token
+ * from before a password change or disable must all be rejected.  Uses its
+ * own users file in a temporary directory and removes it afterwards.
+ *
+ * ── Quick Start ──────────────────────────────────────────────────────────────
+ *
+ *   npm run test:session-tokens
+ *
+ * Exits with status 1 if any check fails.  AUTH_USERS_PATH,
+ * AUTH_SESSION_SECRET and AUTH_SESSION_TTL_HOURS are overridden for the run.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Request } from 'express';
+import { AuthenticationError, issueSessionToken, SessionAuthProvider } from '../src/api-server/src/auth';
+import { getUserStore } from '../src/api-server/src/user-store';
+
+const SESSION_SECRET = 'session-token-test-secret';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let failures = 0;
+
+/** Log one check and count it if it failed. */
+function check(name: string, passed: boolean, detail?: string): void {
+  console.log(`  ${passed ? '✓' : '✗'} ${name}${detail ? `  (${detail})` : ''}`);
+  if (!passed) failures++;
+}
+
+const provider = new SessionAuthProvider();
+
+/** The user id a bearer token authenticates as, `null`, or the rejection message. */
+async function outcome(authorization?: string): Promise<string | null> {
+  const req = { headers: authorization ? { authorization } : {} } as Request;
+  try {
+    return (await provider.authenticate(req))?.id ?? null;
+  } catch (error) {
+    if (error instanceof AuthenticationError) return `rejected: ${error.message}`;
+    throw error;
+  }
+}
+
+async function expectRejected(name: string, token: string, message: string): Promise<void> {
+  const result = await outcome(`Bearer ${token}`);
+  check(name, result === `rejected: ${message}`, String(result));
+}
+
+/** A token for a base64url payload, signed with `secret` the way auth.ts signs them. */
+function signPayload(payload: string, secret: string): string {
+  return `${payload}.${crypto.createHmac('sha256', secret).update(payload).digest('base64url')}`;
+}
+
+function signToken(claims: object, secret: string): string {
+  return signPayload(Buffer.from(JSON.stringify(claims)).toString('base64url'), secret);
+}
+
+function decodeClaims(token: string): { sub: string; epoch: number; exp: number } {
+  return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(): Promise<void> {
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  Phaser Session Tokens — Test');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const base = await fs.mkdtemp(path.join(os.tmpdir(), 'phaser-sessions-'));
+  try {
+    process.env.AUTH_USERS_PATH = path.join(base, 'users.json');
+    process.env.AUTH_SESSION_SECRET = SESSION_SECRET;
+    delete process.env.AUTH_SESSION_TTL_HOURS;
+
+    const store = getUserStore();
+    const user = await store.create({ username: 'session-test', password: 'correct horse battery', role: 'author' });
+
+    // ── 1. Valid tokens ────────────────────────────────────────────────────
+    console.log('── Valid tokens ────────────────────────────────────────');
+    const { token, expiresAt } = await issueSessionToken(user);
+    const hoursLeft = (Date.parse(expiresAt) - Date.now()) / 3600000;
+    check('a fresh token authenticates its user', (await outcome(`Bearer ${token}`)) === user.id);
+    check('expiry defaults to 12 hours', hoursLeft > 11.9 && hoursLeft <= 12, `${hoursLeft.toFixed(2)}h`);
+    check('no Authorization header is left to other providers', (await outcome()) === null);
+    check('an API token is left to its provider', (await outcome('Bearer phs_abc')) === null);
+    check('a bearer value without a signature is left alone', (await outcome('Bearer abc')) === null);
+
+    // ── 2. Tampering ───────────────────────────────────────────────────────
+    console.log('\n── Tampered tokens ─────────────────────────────────────');
+    const [payload, signature] = token.split('.');
+    const claims = decodeClaims(token);
+
+    const otherUser = await store.create({ username: 'session-other', password: 'correct horse battery', role: 'author' });
+    const swappedPayload = Buffer.from(JSON.stringify({ ...claims, sub: otherUser.id })).toString('base64url');
+    await expectRejected('a payload naming another user', `${swappedPayload}.${signature}`, 'Invalid session token');
+
+    const extendedPayload = Buffer.from(JSON.stringify({ ...claims, exp: claims.exp + 86400000 })).toString('base64url');
+    await expectRejected('a payload with a later expiry', `${extendedPayload}.${signature}`, 'Invalid session token');
+
+    const flipped = signature.slice(0, -1) + (signature.endsWith('A') ? 'B' : 'A');
+    await expectRejected('a changed signature', `${payload}.${flipped}`, 'Invalid session token');
+    await expectRejected('a truncated signature', `${payload}.${signature.slice(0, -2)}`, 'Invalid session token');
+    await expectRejected('a token signed with another secret', signToken(claims, 'some-other-secret'), 'Invalid session token');
+    await expectRejected('a signed payload that is not JSON', signPayload(Buffer.from('not json').toString('base64url'), SESSION_SECRET), 'Invalid session token');
+
+    // ── 3. Expiry ──────────────────────────────────────────────────────────
+    console.log('\n── Expiry ──────────────────────────────────────────────');
+    await expectRejected('a correctly signed token past its expiry', signToken({ ...claims, exp: Date.now() - 1000 }, SESSION_SECRET), 'Session expired, sign in again');
+    await expectRejected('a correctly signed token without expiry', signToken({ sub: user.id, epoch: claims.epoch }, SESSION_SECRET), 'Session expired, sign in again');
+
+    process.env.AUTH_SESSION_TTL_HOURS = String(0.3 / 3600); // 300ms
+    const shortLived = await issueSessionToken(user);
+    check('a short-lived token works before its expiry', (await outcome(`Bearer ${shortLived.token}`)) === user.id);
+    await new Promise(resolve => setTimeout(resolve, 400));
+    await expectRejected('…and is rejected after it', shortLived.token, 'Session expired, sign in again');
+    delete process.env.AUTH_SESSION_TTL_HOURS;
+
+    // ── 4. Revocation ──────────────────────────────────────────────────────
+    console.log('\n── Revocation ──────────────────────────────────────────');
+    await store.update(user.id, { password: 'a brand new passphrase' });
+    await expectRejected('a token from before a password change', token, 'Session is no longer valid, sign in again');
+    const afterChange = await issueSessionToken(user);
+    check('a token issued after the change works', (await outcome(`Bearer ${afterChange.token}`)) === user.id);
+
+    await store.update(user.id, { disabled: true });
+    await expectRejected('a token of a disabled user', afterChange.token, 'Session is no longer valid, sign in again');
+
+    const otherToken = await issueSessionToken(otherUser);
+    await store.delete(otherUser.id);
+    await expectRejected('a token of a deleted user', otherToken.token, 'Session is no longer valid, sign in again');
+
+    // ── 5. Password storage ────────────────────────────────────────────────
+    console.log('\n── Password storage ────────────────────────────────────');
+    await store.update(user.id, { disabled: false });
+    const usersFile = await fs.readFile(process.env.AUTH_USERS_PATH, 'utf8');
+    check('the users file does not contain the password', !usersFile.includes('a brand new passphrase'));
+    check('the new password verifies', (await store.verifyPassword('session-test', 'a brand new passphrase'))?.id === user.id);
+    check('the old password does not', (await store.verifyPassword('session-test', 'correct horse battery')) === null);
+    check('an unknown user does not', (await store.verifyPassword('nobody', 'a brand new passphrase')) === null);
+  } finally {
+    await fs.rm(base, { recursive: true, force: true });
+  }
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log(failures === 0 ? '  All checks passed.' : `  ${failures} check(s) failed.`);
+  console.log('═══════════════════════════════════════════════════════\n');
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('\n[test-session-tokens] Unhandled error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,162 @@
+/**
+ * Audit Chain
+ * Hashing and verification of the audit log's hash chain. Kept free of the
+ * generation stack so the verification CLI runs without it.
+ */
+
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { AuditCheckpoint, AuditLogEntry, AuditVerificationResult } from '@phaser/shared-types';
+
+/** previousHash of the first entry */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Checkpoint location when AUDIT_CHECKPOINT_PATH is not set: next to the log */
+export function defaultCheckpointPath(logPath: string): string {
+  return `${logPath}.head`;
+}
+
+/**
+ * Read a checkpoint file. Returns null if it does not exist.
+ */
+export async function readAuditCheckpoint(checkpointPath: string): Promise<AuditCheckpoint | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(checkpointPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+  const checkpoint = JSON.parse(content) as AuditCheckpoint;
+  if (!Number.isInteger(checkpoint.sequence) || typeof checkpoint.hash !== 'string') {
+    throw new Error(`Invalid audit checkpoint: ${checkpointPath}`);
+  }
+  return checkpoint;
+}
+
+/**
+ * Verify an audit log file: every line parses, sequences are consecutive from
+ * 1, each previousHash matches the preceding entry and each hash matches the
+ * entry's content. The end of the log must match the checkpoint, so a deleted
+ * or truncated log fails; the log may be one entry ahead of it (a crash
+ * between the append and the checkpoint write).
+ */
+export async function verifyAuditLog(
+  logPath: string,
+  checkpointPath: string = defaultCheckpointPath(logPath)
+): Promise<AuditVerificationResult> {
+  const checkpoint = await readAuditCheckpoint(checkpointPath);
+  const withCheckpoint = checkpoint ? { checkpoint } : {};
+
+  let content: string;
+  try {
+    content = await fs.readFile(logPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+    return {
+      valid: false,
+      entries: 0,
+      ...withCheckpoint,
+      error: {
+        line: 1,
+        reason: checkpoint
+          ? `Audit log not found, but the checkpoint records ${checkpoint.sequence} entries (log deleted)`
+          : 'Audit log not found: nothing to verify',
+      },
+    };
+  }
+
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  let previousHash = GENESIS_HASH;
+  const hashes: string[] = [];
+  for (const [index, line] of lines.entries()) {
+    const fail = (reason: string, sequence?: number): AuditVerificationResult => ({
+      valid: false,
+      entries: index,
+      ...(index > 0 ? { headHash: previousHash } : {}),
+      ...withCheckpoint,
+      error: { line: index + 1, ...(sequence !== undefined ? { sequence } : {}), reason },
+    });
+
+    let entry: AuditLogEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return fail('Line is not valid JSON');
+    }
+    if (entry.sequence !== index + 1) {
+      return fail(`Expected sequence ${index + 1}, found ${entry.sequence}`, entry.sequence);
+    }
+    if (entry.previousHash !== previousHash) {
+      return fail('previousHash does not match the preceding entry (entry removed, inserted or reordered)', entry.sequence);
+    }
+    const { hash, ...unsigned } = entry;
+    if (hashEntry(unsigned) !== hash) {
+      return fail('Entry content does not match its hash (entry modified)', entry.sequence);
+    }
+    previousHash = hash;
+    hashes.push(hash);
+  }
+
+  const result: AuditVerificationResult = {
+    valid: true,
+    entries: lines.length,
+    ...(lines.length > 0 ? { headHash: previousHash } : {}),
+    ...withCheckpoint,
+  };
+  const headMismatch = (line: number, reason: string): AuditVerificationResult => ({
+    ...result,
+    valid: false,
+    error: { line, reason },
+  });
+
+  if (!checkpoint) {
+    return headMismatch(lines.length + 1, lines.length > 0
+      ? 'Checkpoint file not found: a truncated log cannot be detected'
+      : 'Audit log is empty: nothing to verify');
+  }
+  if (lines.length < checkpoint.sequence) {
+    return headMismatch(
+      lines.length + 1,
+      `Log ends at sequence ${lines.length}, but the checkpoint records ${checkpoint.sequence} entries (entries removed from the end)`
+    );
+  }
+  if (hashes[checkpoint.sequence - 1] !== checkpoint.hash) {
+    return headMismatch(checkpoint.sequence, `Entry ${checkpoint.sequence} does not match the checkpoint hash`);
+  }
+  if (lines.length > checkpoint.sequence + 1) {
+    return headMismatch(
+      checkpoint.sequence + 2,
+      `Log has ${lines.length - checkpoint.sequence} entries after the checkpoint at sequence ${checkpoint.sequence}`
+    );
+  }
+  return result;
+}
+
+/**
+ * SHA-256 of an entry without its hash, over JSON with sorted keys so the
+ * hash does not depend on property order.
+ */
+export function hashEntry(unsigned: Omit<AuditLogEntry, 'hash'>): string {
+  return sha256(canonicalJson(unsigned));
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
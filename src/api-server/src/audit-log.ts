@@ -0,0 +1,233 @@
+/**
+ * Audit Log
+ * Append-only, hash-chained record of every generation, for 21 CFR Part 11
+ * style attribution of drafts that end up in the DHF: who ran which prompt,
+ * with which model configuration, from which source chunks (by content hash),
+ * and the hash of the resulting output. Review actions (submission, approval
+ * with its signature meaning, rejection) are recorded in the same chain.
+ *
+ * - One JSON entry per line in AUDIT_LOG_PATH (default:
+ *   src/api-server/data/audit-log.jsonl). Entries are only ever appended and
+ *   each append is fsynced.
+ * - Every entry carries the hash of the previous one and its own SHA-256 over
+ *   its canonical JSON, so editing, deleting or reordering entries is detected
+ *   by verifyAuditLog (GET /api/audit/verify, `npm run audit:verify`).
+ * - The last entry's sequence and hash are written to a checkpoint file after
+ *   every append (AUDIT_CHECKPOINT_PATH, default: the log path + ".head"), so a
+ *   deleted or truncated log fails verification and is never restarted from
+ *   the genesis hash.
+ * - Appends are serialized within the process; run one api-server per log file.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AuditActor,
+  AuditEventType,
+  AuditLogEntry,
+  AuditSourceFile,
+  AuditVerificationResult,
+  AuthenticatedUser,
+  GenerationOutput,
+  GenerationRunTrigger,
+  ProjectSettings,
+  ReviewAuditRecord,
+} from '@phaser/shared-types';
+import { describeModelConfiguration } from './generation-settings';
+import {
+  defaultCheckpointPath,
+  GENESIS_HASH,
+  hashEntry,
+  readAuditCheckpoint,
+  sha256,
+  verifyAuditLog,
+} from './audit-chain';
+import { writeJsonAtomic } from './json-file';
+
+/** Actor for runs without an authenticated user (AUTH_MODE=none, jobs queued before auth) */
+const UNKNOWN_ACTOR: AuditActor = { id: 'unknown', username: 'unknown', role: 'viewer', authenticatedBy: 'none' };
+
+export class AuditLog {
+  /** Last entry and the log's size after it; re-read when the file no longer has that size */
+  private head: { sequence: number; hash: string; size: number } | null = null;
+  private appendChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private logPath: string, private checkpointPath: string = defaultCheckpointPath(logPath)) {}
+
+  get path(): string {
+    return this.logPath;
+  }
+
+  /**
+   * Append an entry. Throws if it cannot be written: callers must not hand out
+   * output whose audit entry is missing.
+   */
+  async append(event: AuditEventType, actor: AuditActor, data: AuditLogEntry['data']): Promise<AuditLogEntry> {
+    const next = this.appendChain.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+      const handle = await fs.open(this.logPath, 'a', 0o600);
+      let entry: AuditLogEntry;
+      try {
+        // A changed size means the file was deleted, truncated or edited since our last append
+        const { size } = await handle.stat();
+        const head = this.head?.size === size ? this.head : await this.readHead();
+        const unsigned: Omit<AuditLogEntry, 'hash'> = {
+          sequence: head.sequence + 1,
+          timestamp: new Date().toISOString(),
+          event,
+          actor: { id: actor.id, username: actor.username, role: actor.role, authenticatedBy: actor.authenticatedBy },
+          data,
+          previousHash: head.hash,
+        };
+        entry = { ...unsigned, hash: hashEntry(unsigned) };
+
+        const line = `${JSON.stringify(entry)}\n`;
+        await handle.appendFile(line, 'utf8');
+        await handle.sync();
+        this.head = { sequence: entry.sequence, hash: entry.hash, size: size + Buffer.byteLength(line) };
+      } finally {
+        await handle.close();
+      }
+
+      await writeJsonAtomic(
+        this.checkpointPath,
+        { sequence: entry.sequence, hash: entry.hash, updatedAt: entry.timestamp },
+        { mode: 0o600 }
+      );
+      return entry;
+    });
+    this.appendChain = next;
+    return next;
+  }
+
+  /**
+   * Record a finished generation. `output` must be what the client receives.
+   */
+  async appendGeneration(input: {
+    actor: AuthenticatedUser | undefined;
+    projectPath: string;
+    promptFilePath: string;
+    prompt: string;
+    output: GenerationOutput;
+    trigger: GenerationRunTrigger;
+    modelAssignments?: ProjectSettings['modelAssignments'];
+    runId?: string;
+    jobId?: string;
+  }): Promise<AuditLogEntry> {
+    const { output } = input;
+    const entry = await this.append('generation', input.actor ?? UNKNOWN_ACTOR, {
+      projectPath: input.projectPath,
+      promptFilePath: input.promptFilePath,
+      promptHash: sha256(input.prompt),
+      trigger: input.trigger,
+      ...(input.runId ? { runId: input.runId } : {}),
+      ...(input.jobId ? { jobId: input.jobId } : {}),
+      models: await describeModelConfiguration(process.env.LLM_MODE || 'mock', input.modelAssignments),
+      sources: groupSources(output),
+      status: output.status,
+      ...(output.generatedContent ? { outputHash: sha256(output.generatedContent) } : {}),
+    });
+    console.log(`[AuditLog] 🔏 #${entry.sequence} generation by ${entry.actor.username} (${path.basename(input.promptFilePath)})`);
+    return entry;
+  }
+
+  /**
+   * Record an action on a draft under review
+   */
+  async appendReview(actor: AuditActor | undefined, record: ReviewAuditRecord): Promise<AuditLogEntry> {
+    const entry = await this.append('review', actor ?? UNKNOWN_ACTOR, record);
+    console.log(`[AuditLog] 🔏 #${entry.sequence} review ${record.action} by ${entry.actor.username} (${record.reviewId})`);
+    return entry;
+  }
+
+  /**
+   * Entries, newest first, optionally for one project.
+   */
+  async list(filter: { projectPath?: string; limit?: number } = {}): Promise<AuditLogEntry[]> {
+    const entries: AuditLogEntry[] = [];
+    for (const line of await this.readLines()) {
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Reported by verify()
+      }
+    }
+    const matching = filter.projectPath
+      ? entries.filter(entry => path.resolve(entry.data.projectPath) === path.resolve(filter.projectPath!))
+      : entries;
+    return matching.reverse().slice(0, filter.limit ?? matching.length);
+  }
+
+  /**
+   * Check the whole chain
+   */
+  async verify(): Promise<AuditVerificationResult> {
+    return verifyAuditLog(this.logPath, this.checkpointPath);
+  }
+
+  /**
+   * Last entry of the log. Throws if the log ends before its checkpoint, so a
+   * deleted or truncated log is not silently continued.
+   */
+  private async readHead(): Promise<{ sequence: number; hash: string }> {
+    const lines = await this.readLines();
+    const checkpoint = await readAuditCheckpoint(this.checkpointPath);
+    let head = { sequence: 0, hash: GENESIS_HASH };
+    if (lines.length > 0) {
+      const last: AuditLogEntry = JSON.parse(lines[lines.length - 1]);
+      head = { sequence: last.sequence, hash: last.hash };
+    }
+
+    if (checkpoint && (head.sequence < checkpoint.sequence ||
+      (head.sequence === checkpoint.sequence && head.hash !== checkpoint.hash))) {
+      throw new Error(
+        `Audit log ${this.logPath} ends at sequence ${head.sequence}, but its checkpoint records ` +
+        `sequence ${checkpoint.sequence}; the log was deleted, truncated or replaced`
+      );
+    }
+    return head;
+  }
+
+  private async readLines(): Promise<string[]> {
+    try {
+      return (await fs.readFile(this.logPath, 'utf8')).split('\n').filter(line => line.trim().length > 0);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Retrieved chunks grouped by source file, in retrieval order
+ */
+function groupSources(output: GenerationOutput): AuditSourceFile[] {
+  const files = new Map<string, AuditSourceFile>();
+  for (const chunk of output.contextSources ?? []) {
+    let file = files.get(chunk.filePath);
+    if (!file) {
+      file = { filePath: chunk.filePath, fileName: chunk.fileName, category: chunk.category, chunks: [] };
+      files.set(chunk.filePath, file);
+    }
+    if (!file.chunks.some(existing => existing.chunkIndex === chunk.chunkIndex)) {
+      file.chunks.push({ chunkIndex: chunk.chunkIndex, contentHash: chunk.contentHash });
+    }
+  }
+  return [...files.values()];
+}
+
+// Singleton instance
+let auditLogInstance: AuditLog | null = null;
+
+/**
+ * Get or create the AuditLog singleton.
+ * The log file comes from AUDIT_LOG_PATH (default: src/api-server/data/audit-log.jsonl)
+ * and its checkpoint from AUDIT_CHECKPOINT_PATH (default: the log path + ".head").
+ */
+export function getAuditLog(): AuditLog {
+  if (!auditLogInstance) {
+    const logPath = process.env.AUDIT_LOG_PATH || path.join(__dirname, '../data/audit-log.jsonl');
+    auditLogInstance = new AuditLog(logPath, process.env.AUDIT_CHECKPOINT_PATH || defaultCheckpointPath(logPath));
+  }
+  return auditLogInstance;
+}
@@ -0,0 +1,49 @@
+/**
+ * Audit Log Verification CLI
+ * Checks the hash chain of an audit log file without starting the server.
+ *
+ *   npm run audit:verify [-- /path/to/audit-log.jsonl [/path/to/checkpoint]]
+ *
+ * Without arguments the log from AUDIT_LOG_PATH (or the default location) is
+ * checked against AUDIT_CHECKPOINT_PATH (default: the log path + ".head").
+ * Exit codes: 0 intact, 1 tampered or missing, 2 could not be read.
+ */
+
+import * as path from 'path';
+import { config } from 'dotenv';
+import { defaultCheckpointPath, verifyAuditLog } from './audit-chain';
+
+// Load environment variables
+config();
+
+async function main(): Promise<number> {
+  const logPath = path.resolve(
+    process.argv[2] || process.env.AUDIT_LOG_PATH || path.join(__dirname, '../data/audit-log.jsonl')
+  );
+  // A log given on the command line is checked against its own checkpoint unless one is given too
+  const checkpointPath = path.resolve(
+    process.argv[3] ||
+    (!process.argv[2] && process.env.AUDIT_CHECKPOINT_PATH) ||
+    defaultCheckpointPath(logPath)
+  );
+  console.log(`Verifying ${logPath} against ${checkpointPath}`);
+
+  try {
+    const result = await verifyAuditLog(logPath, checkpointPath);
+    if (result.valid) {
+      console.log(`✅ Audit log intact: ${result.entries} entries`);
+      if (result.headHash) console.log(`   Head hash: ${result.headHash}`);
+      if (result.checkpoint) console.log(`   Checkpoint: sequence ${result.checkpoint.sequence} (${result.checkpoint.updatedAt})`);
+      return 0;
+    }
+    console.error(`❌ Audit log failed verification: line ${result.error?.line}` +
+      `${result.error?.sequence !== undefined ? ` (sequence ${result.error.sequence})` : ''}: ${result.error?.reason}`);
+    console.error(`   ${result.entries} entries verified before the break`);
+    return 1;
+  } catch (error) {
+    console.error(`❌ Could not read audit log: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,244 @@
+/**
+ * Authentication & Roles
+ * Every /api request is authenticated by a chain of auth providers; routes then
+ * require a minimum role (viewer < author < admin).
+ *
+ * - session:   bearer tokens issued by POST /api/auth/login, HMAC-signed with
+ *              AUTH_SESSION_SECRET and valid for AUTH_SESSION_TTL_HOURS (default 12)
+ * - api_token: personal `phs_…` tokens from POST /api/auth/tokens, for scripts and CI
+ * - Further providers (e.g. an OIDC provider validating IdP access tokens) can be
+ *   added with registerAuthProvider; the first provider that recognizes a request wins.
+ *
+ * AUTH_MODE=none disables authentication: every request runs as an anonymous
+ * admin. Only use it on a trusted single-user machine.
+ */
+
+import * as crypto from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthenticatedUser, UserAccount, UserRole } from '@phaser/shared-types';
+import { API_TOKEN_PREFIX, USER_ROLES, getUserStore } from './user-store';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the authenticate middleware */
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Identifies the caller of a request
+ */
+export interface AuthProvider {
+  readonly name: string;
+  /**
+   * The caller, or null when the request carries no credentials this provider handles.
+   * Throw AuthenticationError for credentials it handles but rejects.
+   */
+  authenticate(req: Request): Promise<AuthenticatedUser | null>;
+}
+
+/**
+ * Credentials were presented but are invalid or expired
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** Paths under /api reachable without credentials */
+const PUBLIC_PATHS = new Set(['/health', '/auth/login', '/auth/config']);
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+const ANONYMOUS_ADMIN: AuthenticatedUser = {
+  id: 'anonymous',
+  username: 'anonymous',
+  role: 'admin',
+  authenticatedBy: 'none',
+};
+
+export function getAuthMode(): 'local' | 'none' {
+  return process.env.AUTH_MODE === 'none' ? 'none' : 'local';
+}
+
+export function hasRole(user: AuthenticatedUser | undefined, role: UserRole): boolean {
+  return !!user && USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
+
+// ============================================================================
+// Session tokens
+// ============================================================================
+
+let sessionSecret: Buffer | null = null;
+
+function getSessionSecret(): Buffer {
+  if (!sessionSecret) {
+    const configured = process.env.AUTH_SESSION_SECRET;
+    if (configured) {
+      sessionSecret = Buffer.from(configured, 'utf8');
+    } else {
+      console.warn('[Auth] ⚠️  AUTH_SESSION_SECRET not set: using a random secret, sessions end when the server restarts');
+      sessionSecret = crypto.randomBytes(32);
+    }
+  }
+  return sessionSecret;
+}
+
+function signSessionPayload(payload: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a session token for a user who has just signed in
+ */
+export async function issueSessionToken(user: UserAccount): Promise<{ token: string; expiresAt: string }> {
+  const ttlHours = Number(process.env.AUTH_SESSION_TTL_HOURS) || DEFAULT_SESSION_TTL_HOURS;
+  const expiresAt = new Date(Date.now() + ttlHours * 3600000);
+  const epoch = (await getUserStore().getSessionEpoch(user.id)) ?? 0;
+  const payload = Buffer.from(JSON.stringify({ sub: user.id, epoch, exp: expiresAt.getTime() })).toString('base64url');
+  return { token: `${payload}.${signSessionPayload(payload)}`, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * Signed session tokens from POST /api/auth/login
+ */
+export class SessionAuthProvider implements AuthProvider {
+  readonly name = 'session';
+
+  async authenticate(req: Request): Promise<AuthenticatedUser | null> {
+    const token = getBearerToken(req);
+    if (!token || token.startsWith(API_TOKEN_PREFIX)) return null;
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(signSessionPayload(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new AuthenticationError('Invalid session token');
+    }
+
+    let claims: { sub?: string; epoch?: number; exp?: number };
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationError('Invalid session token');
+    }
+    if (!claims.sub || typeof claims.exp !== 'number' || claims.exp <= Date.now()) {
+      throw new AuthenticationError('Session expired, sign in again');
+    }
+
+    const user = await getUserStore().getForSession(claims.sub, claims.epoch ?? 0);
+    if (!user) throw new AuthenticationError('Session is no longer valid, sign in again');
+    return toAuthenticatedUser(user, this.name);
+  }
+}
+
+/**
+ * Personal API tokens (`Authorization: Bearer phs_…`)
+ */
+export class ApiTokenAuthProvider implements AuthProvider {
+  readonly name = 'api_token';
+
+  async authenticate(req: Request): Promise<AuthenticatedUser | null> {
+    const token = getBearerToken(req);
+    if (!token?.startsWith(API_TOKEN_PREFIX)) return null;
+
+    const user = await getUserStore().findByToken(token);
+    if (!user) throw new AuthenticationError('Invalid, expired or revoked API token');
+    return toAuthenticatedUser(user, this.name);
+  }
+}
+
+// ============================================================================
+// Provider chain & middleware
+// ============================================================================
+
+const providers: AuthProvider[] = [new SessionAuthProvider(), new ApiTokenAuthProvider()];
+
+/**
+ * Add an auth provider to the chain (tried after the built-in ones)
+ */
+export function registerAuthProvider(provider: AuthProvider): void {
+  providers.push(provider);
+  console.log(`[Auth] ✓ Registered auth provider: ${provider.name}`);
+}
+
+/**
+ * Middleware for /api: sets req.user or answers 401.
+ * Mount with app.use('/api', authenticate).
+ */
+export const authenticate: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  if (getAuthMode() === 'none') {
+    req.user = ANONYMOUS_ADMIN;
+    return next();
+  }
+  if (PUBLIC_PATHS.has(req.path)) return next();
+
+  try {
+    for (const provider of providers) {
+      const user = await provider.authenticate(req);
+      if (user) {
+        req.user = user;
+        return next();
+      }
+    }
+    res.status(401).json({ status: 'error', error: 'Authentication required', code: 'AUTH_REQUIRED' });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return res.status(401).json({ status: 'error', error: error.message, code: 'AUTH_INVALID' });
+    }
+    console.error('[Auth] ❌ Authentication failed:', error);
+    res.status(500).json({ status: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
+
+/**
+ * Route guard: answer 403 unless the caller has at least `role`
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (hasRole(req.user, role)) return next();
+    console.warn(`[Auth] ⛔ ${req.user?.username ?? 'anonymous'} (${req.user?.role ?? 'none'}) denied ${req.method} ${req.originalUrl}`);
+    res.status(403).json({
+      status: 'error',
+      error: `Requires the ${role} role`,
+      code: 'FORBIDDEN',
+      requiredRole: role,
+    });
+  };
+}
+
+/**
+ * Prepare the auth backend and log the configuration at startup
+ */
+export async function initializeAuth(): Promise<void> {
+  if (getAuthMode() === 'none') {
+    console.warn('[Auth] ⚠️  AUTH_MODE=none: authentication disabled, every request has the admin role');
+    return;
+  }
+  getSessionSecret();
+  await getUserStore().ensureBootstrapAdmin();
+  console.log(`[Auth] 🔒 Authentication enabled (providers: ${providers.map(provider => provider.name).join(', ')})`);
+}
+
+export function toAuthenticatedUser(user: UserAccount, authenticatedBy: string): AuthenticatedUser {
+  return {
+    id: user.id,
+    username: user.username,
+    ...(user.displayName ? { displayName: user.displayName } : {}),
+    role: user.role,
+    authenticatedBy,
+  };
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,229 @@
+/**
+ * Batch Generation
+ * Runs generateFromPrompt for every prompt in a project's Prompts folder (or a
+ * selected subset) and returns one consolidated summary.
+ *
+ * The knowledge cache is validated/rebuilt once up front and a single
+ * EnhancedRAGService instance is shared by all prompts, so the vector store is
+ * loaded once and per-prompt cache checks return immediately.
+ *
+ * A batch holds the project's job slot and 'generation-job' lock for its whole
+ * run (JobQueue.runExclusive), so queued jobs for the project wait for it.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { EnhancedRAGService } from '@phaser/rag-service';
+import {
+  AuthenticatedUser,
+  BatchGenerationInput,
+  BatchGenerationItem,
+  BatchGenerationResult,
+  GenerationOutput,
+  ProjectSettings,
+} from '@phaser/shared-types';
+import { createOrchestrator, IOrchestrator } from './generation';
+import { readPromptFile } from './generation-settings';
+import { resolveProjectGenerationSettings } from './project-store';
+import { getHistoryStore } from './history-store';
+import { getAuditLog } from './audit-log';
+import { getJobQueue } from './job-queue';
+
+/** Prompt formats readPromptFile understands */
+const PROMPT_EXTENSIONS = new Set(['.txt', '.md', '.docx']);
+
+/** Upper bound on concurrency, whatever the request asks for */
+const MAX_BATCH_CONCURRENCY = 8;
+
+/**
+ * List runnable prompt files in `[projectPath]/Prompts`, sorted by name.
+ * Hidden files and Word lock files (~$name.docx) are skipped.
+ */
+export async function listPromptFiles(projectPath: string): Promise<string[]> {
+  const promptsDir = path.join(projectPath, 'Prompts');
+  const entries = await fs.readdir(promptsDir, { withFileTypes: true });
+
+  return entries
+    .filter(entry =>
+      entry.isFile() &&
+      !entry.name.startsWith('.') &&
+      !entry.name.startsWith('~$') &&
+      PROMPT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())
+    )
+    .map(entry => path.join(promptsDir, entry.name))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Resolve the default concurrency from BATCH_MAX_CONCURRENCY (default: 2).
+ */
+function resolveConcurrency(requested?: number): number {
+  const fallback = parseInt(process.env.BATCH_MAX_CONCURRENCY || '2', 10);
+  const value = requested ?? (Number.isFinite(fallback) ? fallback : 2);
+  return Math.min(Math.max(1, Math.floor(value)), MAX_BATCH_CONCURRENCY);
+}
+
+/**
+ * Run a batch. Per-prompt failures are reported in the summary, never thrown;
+ * only a busy project (ProjectBusyError), a missing Prompts folder or a failed
+ * cache build rejects. `actor` is recorded in the audit log for every prompt.
+ */
+export async function runBatchGeneration(
+  input: BatchGenerationInput,
+  actor?: AuthenticatedUser
+): Promise<BatchGenerationResult> {
+  return getJobQueue().runExclusive(input.projectPath, () => generateBatch(input, actor));
+}
+
+async function generateBatch(
+  input: BatchGenerationInput,
+  actor?: AuthenticatedUser
+): Promise<BatchGenerationResult> {
+  const { projectPath } = input;
+  const startedAt = new Date();
+  const concurrency = resolveConcurrency(input.concurrency);
+  const { options, primaryContextPath, modelAssignments } =
+    await resolveProjectGenerationSettings(projectPath, input.options);
+  const promptsDir = path.join(projectPath, 'Prompts');
+
+  const promptFilePaths = input.promptFilePaths && input.promptFilePaths.length > 0
+    ? input.promptFilePaths.map(p => path.isAbsolute(p) ? p : path.join(promptsDir, p))
+    : await listPromptFiles(projectPath);
+
+  console.log(`[Batch] 📦 Starting batch: ${promptFilePaths.length} prompt(s), concurrency ${concurrency}`);
+
+  // Single cache pass shared by every prompt
+  const ragService = new EnhancedRAGService();
+  const cacheStart = Date.now();
+  await ragService.ensureCacheBuilt(projectPath, primaryContextPath);
+  const cacheDurationMs = Date.now() - cacheStart;
+  console.log(`[Batch] ✓ Knowledge cache ready in ${cacheDurationMs}ms`);
+
+  const orchestrator = await createOrchestrator(process.env.LLM_MODE || 'mock', ragService, modelAssignments);
+
+  // Bounded worker pool; results keep input order
+  const items: BatchGenerationItem[] = new Array(promptFilePaths.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < promptFilePaths.length) {
+      const index = next++;
+      items[index] = await runBatchItem(orchestrator, projectPath, primaryContextPath, promptFilePaths[index], options, {
+        actor,
+        modelAssignments,
+      });
+      console.log(
+        `[Batch] ${items[index].status === 'complete' ? '✅' : '❌'} [${index + 1}/${promptFilePaths.length}] ` +
+        `${items[index].promptName} (${items[index].durationMs}ms)`
+      );
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, promptFilePaths.length) }, worker));
+
+  const finishedAt = new Date();
+  const complete = items.filter(item => item.status === 'complete').length;
+  const result: BatchGenerationResult = {
+    projectPath,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    cacheDurationMs,
+    concurrency,
+    totals: {
+      prompts: items.length,
+      complete,
+      failed: items.length - complete,
+      tokensUsed: items.reduce((sum, item) => sum + item.tokensUsed, 0),
+      cost: items.reduce((sum, item) => sum + item.cost, 0),
+    },
+    items,
+  };
+
+  console.log(
+    `[Batch] 📦 Batch finished: ${complete}/${items.length} complete, ` +
+    `${result.totals.tokensUsed} tokens, $${result.totals.cost.toFixed(4)}, ${result.durationMs}ms`
+  );
+
+  return result;
+}
+
+/**
+ * Generate one prompt and summarise its outcome.
+ */
+async function runBatchItem(
+  orchestrator: IOrchestrator,
+  projectPath: string,
+  primaryContextPath: string,
+  promptFilePath: string,
+  options: BatchGenerationInput['options'],
+  audit: { actor?: AuthenticatedUser; modelAssignments?: ProjectSettings['modelAssignments'] }
+): Promise<BatchGenerationItem> {
+  const startTime = Date.now();
+  const promptName = path.basename(promptFilePath).replace(/\.[^/.]+$/, '');
+
+  const failed = (message: string, output?: GenerationOutput): BatchGenerationItem => ({
+    promptFilePath,
+    promptName,
+    status: 'error',
+    message,
+    confidence: output?.confidence?.level,
+    tokensUsed: output?.usageStats?.tokensUsed || 0,
+    cost: output?.usageStats?.cost || 0,
+    durationMs: Date.now() - startTime,
+    output,
+  });
+
+  let prompt: string;
+  try {
+    prompt = await readPromptFile(promptFilePath);
+  } catch (error) {
+    return failed(`Failed to read prompt file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  try {
+    const output = await orchestrator.generateFromPrompt({ projectPath, primaryContextPath, prompt, options });
+    const recordedOutput = { ...output, generatedContent: output.generatedContent?.trimStart() };
+    // Audit first: the run must not be readable through the history API without its entry
+    const runId = crypto.randomUUID();
+    await getAuditLog().appendGeneration({
+      actor: audit.actor,
+      modelAssignments: audit.modelAssignments,
+      projectPath,
+      promptFilePath,
+      prompt,
+      output: recordedOutput,
+      trigger: 'batch',
+      runId,
+    });
+    await getHistoryStore().record({
+      id: runId,
+      projectPath,
+      promptFilePath,
+      prompt,
+      output: recordedOutput,
+      trigger: 'batch',
+      modelAssignments: audit.modelAssignments,
+    });
+
+    if (output.status !== 'complete') {
+      return failed(output.message, output);
+    }
+    if (!output.generatedContent || output.generatedContent.trim().length === 0) {
+      return failed('Generated text is empty. This may indicate an issue with the LLM service.', output);
+    }
+
+    return {
+      promptFilePath,
+      promptName,
+      status: 'complete',
+      message: output.message,
+      confidence: output.confidence?.level,
+      tokensUsed: output.usageStats?.tokensUsed || 0,
+      cost: output.usageStats?.cost || 0,
+      durationMs: Date.now() - startTime,
+      output: { ...output, generatedContent: output.generatedContent.trimStart() },
+    };
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
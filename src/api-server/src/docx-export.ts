@@ -0,0 +1,505 @@
+/**
+ * DOCX Export
+ * Renders a GenerationOutput as a Word document for the Design History File:
+ *   1. Cover sheet — confidence assessment, source support and discrepancies
+ *   2. Generated content — markdown headings, lists, tables and emphasis
+ *      preserved; each inline [n] citation becomes a real Word footnote
+ *   3. References appendix — one row per SourceAttribution
+ *
+ * The OOXML parts are written directly and zipped with jszip, so no Word
+ * templating dependency is needed.
+ */
+
+import JSZip from 'jszip';
+import { GenerationOutput, SourceAttribution } from '@phaser/shared-types';
+import { FootnoteTracker, SourceReference } from '@phaser/rag-service';
+
+export interface DocxExportOptions {
+  /** Document title on the cover sheet (default: "Generated Document") */
+  title?: string;
+  /** Prompt the content was generated from, shown on the cover sheet */
+  promptName?: string;
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Describe why a request-supplied GenerationOutput cannot be exported, or
+ * null when it can: it must be complete with generated content, and every
+ * section the cover sheet and appendix read must have the expected shape.
+ */
+export function validateExportOutput(output: any): string | null {
+  if (!output || typeof output !== 'object' || Array.isArray(output)) return 'output must be a generation output object';
+  if (output.status !== 'complete') return 'output.status must be "complete"';
+  if (typeof output.generatedContent !== 'string' || !output.generatedContent.trim()) {
+    return 'output.generatedContent is required';
+  }
+  if (output.timestamp !== undefined && typeof output.timestamp !== 'string') return 'output.timestamp must be a string';
+
+  const confidence = output.confidence;
+  if (confidence !== undefined && confidence !== null) {
+    if (typeof confidence !== 'object') return 'output.confidence must be an object';
+    if (typeof confidence.level !== 'string') return 'output.confidence.level must be a string';
+    if (confidence.rationale !== undefined && typeof confidence.rationale !== 'string') {
+      return 'output.confidence.rationale must be a string';
+    }
+    if (confidence.criteria !== undefined) {
+      if (!confidence.criteria || typeof confidence.criteria !== 'object') return 'output.confidence.criteria must be an object';
+      for (const [key, value] of Object.entries(confidence.criteria)) {
+        if (typeof value !== 'string') return `output.confidence.criteria.${key} must be a string`;
+      }
+    }
+  }
+
+  const stringFields = (items: unknown, field: string, required: string[], optional: string[]): string | null => {
+    if (items === undefined) return null;
+    if (!Array.isArray(items)) return `${field} must be an array`;
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (!item || typeof item !== 'object') return `${field}[${i}] must be an object`;
+      for (const key of required) {
+        if (typeof item[key] !== 'string') return `${field}[${i}].${key} must be a string`;
+      }
+      for (const key of optional) {
+        if (item[key] !== undefined && item[key] !== null && typeof item[key] !== 'string') return `${field}[${i}].${key} must be a string`;
+      }
+    }
+    return null;
+  };
+  const problem =
+    stringFields(output.discrepancies, 'output.discrepancies', ['type', 'description'], ['location']) ??
+    stringFields(output.references, 'output.references', ['id', 'fileName'], ['category', 'section']) ??
+    (Array.isArray(output.metadata?.footnotes)
+      ? stringFields(output.metadata.footnotes, 'output.metadata.footnotes', ['id', 'fileName'], ['citationText'])
+      : null);
+  if (problem) return problem;
+
+  const verification = output.claimVerification;
+  if (verification !== undefined && verification !== null &&
+      (typeof verification !== 'object' || !Array.isArray(verification.sentences) || typeof verification.supportedCount !== 'number')) {
+    return 'output.claimVerification must have sentences and a supportedCount';
+  }
+  return null;
+}
+
+/**
+ * Render a completed GenerationOutput to a .docx buffer.
+ * Throws if the output has no generated content.
+ */
+export async function renderGenerationDocx(
+  output: GenerationOutput,
+  options: DocxExportOptions = {}
+): Promise<Buffer> {
+  if (!output.generatedContent || output.generatedContent.trim().length === 0) {
+    throw new Error('Generation output has no content to export');
+  }
+
+  const footnotes = new FootnoteCollector(footnoteTextsById(output));
+  const numbering = new NumberingCollector();
+
+  const body = [
+    renderCoverSheet(output, options),
+    pageBreak(),
+    renderMarkdown(output.generatedContent, footnotes, numbering),
+    pageBreak(),
+    renderReferencesAppendix(output.references ?? []),
+  ].join('');
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', PACKAGE_RELS_XML);
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS_XML);
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('word/numbering.xml', numbering.toXml());
+  zip.file('word/footnotes.xml', footnotes.toXml());
+  zip.file('word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:document ${NAMESPACES}><w:body>${body}${SECTION_PROPERTIES}</w:body></w:document>`
+  );
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// ---------------------------------------------------------------------------
+// Cover sheet & references appendix
+// ---------------------------------------------------------------------------
+
+function renderCoverSheet(output: GenerationOutput, options: DocxExportOptions): string {
+  const parts: string[] = [
+    paragraph(textRun(options.title || 'Generated Document'), 'Title'),
+  ];
+
+  const details: Array<[string, string]> = [];
+  if (options.promptName) details.push(['Prompt', options.promptName]);
+  if (output.timestamp) details.push(['Generated', output.timestamp]);
+  parts.push(...details.map(([label, value]) => paragraph(textRun(`${label}: `, { bold: true }) + textRun(value))));
+
+  parts.push(paragraph(textRun('Confidence Assessment'), 'Heading1'));
+  if (output.confidence) {
+    const { level, rationale, criteria } = output.confidence;
+    parts.push(paragraph(textRun('Overall confidence: ', { bold: true }) + textRun(level)));
+    if (rationale) parts.push(paragraph(textRun(rationale)));
+    const rows: string[][] = [
+      ['Source Agreement', criteria?.sourceAgreement],
+      ['Completeness', criteria?.completeness],
+      ['Compliance Alignment', criteria?.complianceAlignment],
+      ['Procedure Adherence', criteria?.procedureAdherence],
+    ].map(([label, rating]) => [label, rating ?? 'Not rated']);
+    if (output.claimVerification && output.claimVerification.sentences.length > 0) {
+      const { supportedCount, sentences } = output.claimVerification;
+      rows.push(['Source Support', `${supportedCount}/${sentences.length} sentences`]);
+    }
+    parts.push(table(['Criterion', 'Rating'], rows));
+  } else {
+    parts.push(paragraph(textRun('No confidence assessment was produced.')));
+  }
+
+  parts.push(paragraph(textRun('Discrepancies'), 'Heading1'));
+  const discrepancies = output.discrepancies ?? [];
+  if (discrepancies.length > 0) {
+    parts.push(table(
+      ['Type', 'Description', 'Location'],
+      discrepancies.map(d => [formatDiscrepancyType(d.type), d.description, d.location ?? ''])
+    ));
+  } else {
+    parts.push(paragraph(textRun('No discrepancies found between sources.')));
+  }
+
+  return parts.join('');
+}
+
+function renderReferencesAppendix(references: SourceAttribution[]): string {
+  const heading = paragraph(textRun('References'), 'Heading1');
+  if (references.length === 0) {
+    return heading + paragraph(textRun('No sources were cited.'));
+  }
+  return heading + table(
+    ['ID', 'Source', 'Category', 'Section'],
+    references.map(r => [`[${r.id}]`, r.fileName, r.category ?? '', r.section ?? ''])
+  );
+}
+
+function formatDiscrepancyType(type: string): string {
+  return type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Footnote text per citation id — the tracked source description when the
+ * output carries FootnoteTracker sources, otherwise the SourceAttribution.
+ */
+function footnoteTextsById(output: GenerationOutput): Map<string, string> {
+  const texts = new Map<string, string>();
+  for (const ref of output.references ?? []) {
+    texts.set(ref.id, ref.section ? `${ref.fileName} (${ref.section})` : ref.fileName);
+  }
+  const tracked: SourceReference[] = Array.isArray(output.metadata?.footnotes) ? output.metadata.footnotes : [];
+  for (const source of tracked) {
+    texts.set(source.id, FootnoteTracker.describeSource(source));
+  }
+  return texts;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown → WordprocessingML
+// ---------------------------------------------------------------------------
+
+const BULLET_ITEM = /^(\s*)[-*+•]\s+(.*)$/;
+const NUMBERED_ITEM = /^(\s*)\d+[.)]\s+(.*)$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?$/;
+
+/**
+ * Render the markdown subset the prompt builder asks for (RULE_MARKDOWN_FORMAT):
+ * # headings, - / 1. lists (nested by indentation), | tables, > quotes,
+ * ``` code blocks and **bold** / *italic* / `code` inline.
+ */
+function renderMarkdown(markdown: string, footnotes: FootnoteCollector, numbering: NumberingCollector): string {
+  const lines = markdown
+    .replace(/\r\n/g, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .split('\n');
+  const parts: string[] = [];
+  let numberedListId: number | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!NUMBERED_ITEM.test(line)) numberedListId = null;
+
+    if (!trimmed || /^([-*_])\1{2,}$/.test(trimmed)) continue;
+
+    if (trimmed.startsWith('```')) {
+      const code: string[] = [];
+      while (i + 1 < lines.length && !lines[i + 1].trim().startsWith('```')) code.push(lines[++i]);
+      i++; // closing fence
+      parts.push(...code.map(c => paragraph(textRun(c, { code: true }), 'Code')));
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      parts.push(paragraph(inlineRuns(heading[2], footnotes), `Heading${heading[1].length}`));
+      continue;
+    }
+
+    if (trimmed.startsWith('|')) {
+      const rows: string[][] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('|'); i++) {
+        if (!TABLE_SEPARATOR.test(lines[i].trim())) rows.push(splitTableRow(lines[i]));
+      }
+      i--;
+      if (rows.length > 0) parts.push(table(rows[0], rows.slice(1), footnotes));
+      continue;
+    }
+
+    const bullet = line.match(BULLET_ITEM);
+    if (bullet) {
+      parts.push(listParagraph(inlineRuns(bullet[2], footnotes), numbering.bulletId, listLevel(bullet[1])));
+      continue;
+    }
+
+    const numbered = line.match(NUMBERED_ITEM);
+    if (numbered) {
+      if (numberedListId === null) numberedListId = numbering.startNumberedList();
+      parts.push(listParagraph(inlineRuns(numbered[2], footnotes), numberedListId, listLevel(numbered[1])));
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      parts.push(paragraph(inlineRuns(trimmed.replace(/^>\s?/, ''), footnotes), 'Quote'));
+      continue;
+    }
+
+    parts.push(paragraph(inlineRuns(trimmed, footnotes)));
+  }
+
+  return parts.join('');
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/** Two to four spaces of indentation per nesting level, capped at three levels. */
+function listLevel(indent: string): number {
+  return Math.min(2, Math.ceil(indent.replace(/\t/g, '    ').length / 4));
+}
+
+const INLINE_TOKEN = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[\d{1,3}(?:\s*,\s*\d{1,3})*\])/;
+
+/** Convert inline markdown to runs; [n] markers become footnote references. */
+function inlineRuns(text: string, footnotes?: FootnoteCollector): string {
+  return text.split(INLINE_TOKEN).map(token => {
+    if (!token) return '';
+    if (/^(\*\*|__).+\1$/.test(token)) return textRun(token.slice(2, -2), { bold: true });
+    if (/^`.+`$/.test(token)) return textRun(token.slice(1, -1), { code: true });
+    if (/^([*_]).+\1$/.test(token)) return textRun(token.slice(1, -1), { italic: true });
+
+    const citation = token.match(/^\[(.+)\]$/);
+    if (citation && footnotes) {
+      const ids = citation[1].split(',').map(id => String(parseInt(id, 10)));
+      if (ids.every(id => footnotes.has(id))) {
+        return ids.map(id => footnotes.reference(id)).join('');
+      }
+    }
+    return textRun(token);
+  }).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Footnotes & numbering
+// ---------------------------------------------------------------------------
+
+/**
+ * Allocates one Word footnote per citation marker occurrence (Word footnotes
+ * cannot be shared between references).
+ */
+class FootnoteCollector {
+  private notes: string[] = [];
+
+  constructor(private textsById: Map<string, string>) {}
+
+  has(citationId: string): boolean {
+    return this.textsById.has(citationId);
+  }
+
+  /** Run that places a new footnote citing `citationId`. */
+  reference(citationId: string): string {
+    this.notes.push(this.textsById.get(citationId) ?? `Source ${citationId}`);
+    return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${this.notes.length}"/></w:r>`;
+  }
+
+  toXml(): string {
+    const notes = this.notes.map((text, i) =>
+      `<w:footnote w:id="${i + 1}"><w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr>` +
+      `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>` +
+      textRun(` ${text}`) + `</w:p></w:footnote>`
+    ).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:footnotes ${NAMESPACES}>` +
+      `<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>` +
+      `<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>` +
+      notes + `</w:footnotes>`;
+  }
+}
+
+/**
+ * List numbering: one shared bullet definition, and a fresh numbering
+ * instance per numbered list so each list restarts at 1.
+ */
+class NumberingCollector {
+  readonly bulletId = 1;
+  private numberedIds: number[] = [];
+
+  startNumberedList(): number {
+    const id = this.numberedIds.length + 2;
+    this.numberedIds.push(id);
+    return id;
+  }
+
+  toXml(): string {
+    const level = (ilvl: number, format: string, text: string) =>
+      `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/>` +
+      `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+    const bullets = ['•', '◦', '▪'].map((symbol, ilvl) => level(ilvl, 'bullet', symbol)).join('');
+    const decimals = ['decimal', 'lowerLetter', 'lowerRoman'].map((format, ilvl) => level(ilvl, format, `%${ilvl + 1}.`)).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:numbering ${NAMESPACES}>` +
+      `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${bullets}</w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${decimals}</w:abstractNum>` +
+      `<w:num w:numId="${this.bulletId}"><w:abstractNumId w:val="0"/></w:num>` +
+      this.numberedIds.map(id =>
+        `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/>` +
+        `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+      ).join('') +
+      `</w:numbering>`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WordprocessingML primitives
+// ---------------------------------------------------------------------------
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function textRun(text: string, format: { bold?: boolean; italic?: boolean; code?: boolean } = {}): string {
+  const props =
+    (format.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '') +
+    (format.bold ? '<w:b/>' : '') +
+    (format.italic ? '<w:i/>' : '');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(runs: string, style?: string): string {
+  return `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function listParagraph(runs: string, numId: number, ilvl: number): string {
+  return `<w:p><w:pPr><w:pStyle w:val="ListParagraph"/>` +
+    `<w:numPr><w:ilvl w:val="${ilvl}"/><w:numId w:val="${numId}"/></w:numPr></w:pPr>${runs}</w:p>`;
+}
+
+function pageBreak(): string {
+  return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+}
+
+/** Bordered table with a bold, repeating header row. Cells accept inline markdown. */
+function table(header: string[], rows: string[][], footnotes?: FootnoteCollector): string {
+  const columns = Math.max(header.length, ...rows.map(r => r.length));
+  const cell = (text: string, isHeader: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>` +
+    paragraph(isHeader ? textRun(text, { bold: true }) : inlineRuns(text, footnotes)) +
+    `</w:tc>`;
+  const row = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}` +
+    Array.from({ length: columns }, (_, i) => cell(cells[i] ?? '', isHeader)).join('') +
+    `</w:tr>`;
+
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>` +
+    `<w:tblGrid>${'<w:gridCol/>'.repeat(columns)}</w:tblGrid>` +
+    row(header, true) + rows.map(r => row(r, false)).join('') +
+    `</w:tbl>` + paragraph('');
+}
+
+// ---------------------------------------------------------------------------
+// Static package parts
+// ---------------------------------------------------------------------------
+
+const NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+/** US Letter, 1" margins */
+const SECTION_PROPERTIES =
+  '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+  '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+  '</w:sectPr>';
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+  '<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>' +
+  '</Types>';
+
+const PACKAGE_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '</Relationships>';
+
+const DOCUMENT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+  '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes" Target="footnotes.xml"/>' +
+  '</Relationships>';
+
+function headingStyle(level: number, halfPoints: number): string {
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/>` +
+    `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${halfPoints}"/></w:rPr></w:style>`;
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  `<w:styles ${NAMESPACES}>` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/>' +
+  '<w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>' +
+  [32, 28, 26, 24, 22, 22].map((size, i) => headingStyle(i + 1, size)).join('') +
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>' +
+  '<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/>' +
+  '<w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/>' +
+  '<w:tblPr><w:tblBorders>' +
+  ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>`).join('') +
+  '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '</w:styles>';
@@ -0,0 +1,105 @@
+/**
+ * Generation settings: prompt file loading, primary context resolution and the
+ * model configuration for an LLM_MODE. Kept free of the orchestrator and RAG
+ * stack, like audit-chain.ts, so the stores and the audit log load without it.
+ */
+
+import type { ProviderConfig } from '@phaser/llm-service';
+import { AuditModelConfiguration, ProjectSettings } from '@phaser/shared-types';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+/**
+ * Read prompt file content.
+ * Supports both text files (.txt, .md) and Word documents (.docx).
+ * Throws if the file cannot be read or parsed.
+ */
+export async function readPromptFile(promptFilePath: string): Promise<string> {
+  const ext = path.extname(promptFilePath).toLowerCase();
+
+  if (ext === '.docx') {
+    console.log('[API] Parsing Word document prompt (HTML mode for structure preservation)...');
+    const mammoth = await import('mammoth');
+    const buffer = await fs.readFile(promptFilePath);
+    const htmlResult = await mammoth.convertToHtml({ buffer });
+
+    if (!htmlResult.value || htmlResult.value.trim().length === 0) {
+      throw new Error('Failed to parse .docx prompt file (empty HTML output)');
+    }
+
+    console.log(`[API] ✓ Word document parsed as HTML (${htmlResult.value.length} chars, ${htmlResult.messages.length} warnings)`);
+    return htmlResult.value;
+  }
+
+  // Read as plain text for .txt, .md, etc.
+  return fs.readFile(promptFilePath, 'utf-8');
+}
+
+/**
+ * Determine primaryContextPath (from env or default location)
+ */
+export function getPrimaryContextPath(): string {
+  return process.env.PRIMARY_CONTEXT_PATH ||
+    path.join(__dirname, '../../rag-service/knowledge-base/context/primary-context.yaml');
+}
+
+/**
+ * Effective multi-model ProviderConfig: the environment (PROVIDER_MODE,
+ * MODEL_<ROLE>, …) with a project's model assignments on top.
+ */
+export async function buildProviderConfig(
+  modelAssignments?: ProjectSettings['modelAssignments']
+): Promise<ProviderConfig> {
+  const { buildProviderConfigFromEnv } = await import('@phaser/llm-service');
+  const config = buildProviderConfigFromEnv();
+  for (const [role, modelId] of Object.entries(modelAssignments ?? {}) as [keyof ProviderConfig['roleAssignments'], string][]) {
+    config.roleAssignments[role] = { ...config.roleAssignments[role], modelId };
+  }
+  return config;
+}
+
+/**
+ * LLM service and model used outside multi-model mode. Modes whose API key is
+ * missing fall back to the mock service.
+ */
+export function resolveSingleModel(llmMode: string): { provider: 'ollama' | 'mistral' | 'groq' | 'anthropic' | 'mock'; modelId: string } {
+  if (llmMode === 'ollama') {
+    return { provider: 'ollama', modelId: process.env.OLLAMA_MODEL || 'llama3.1:70b' };
+  }
+  if (llmMode === 'mistral' && process.env.MISTRAL_API_KEY) {
+    return { provider: 'mistral', modelId: process.env.MISTRAL_MODEL || 'mistral-small-latest' };
+  }
+  if (llmMode === 'groq' && process.env.GROQ_API_KEY) {
+    return { provider: 'groq', modelId: process.env.GROQ_MODEL || 'llama-3.1-8b-instant' };
+  }
+  if (llmMode === 'anthropic' && process.env.ANTHROPIC_API_KEY) {
+    return { provider: 'anthropic', modelId: process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307' };
+  }
+  return { provider: 'mock', modelId: 'mock' };
+}
+
+/**
+ * The model configuration createOrchestrator uses for these arguments,
+ * without credentials (recorded in the audit log).
+ */
+export async function describeModelConfiguration(
+  llmMode: string,
+  modelAssignments?: ProjectSettings['modelAssignments']
+): Promise<AuditModelConfiguration> {
+  if (llmMode !== 'multi-model') {
+    const { provider, modelId } = resolveSingleModel(llmMode);
+    return { llmMode, roleAssignments: { 'single-pass': { provider, modelId } } };
+  }
+
+  const config = await buildProviderConfig(modelAssignments);
+  return {
+    llmMode,
+    providerMode: config.mode,
+    ...(config.azureEndpoint ? { azureEndpoint: config.azureEndpoint } : {}),
+    ...(config.azureDeploymentPrefix ? { azureDeploymentPrefix: config.azureDeploymentPrefix } : {}),
+    roleAssignments: Object.fromEntries(
+      Object.entries(config.roleAssignments).map(([role, { modelId, maxTokens, temperature }]) =>
+        [role, { modelId, maxTokens, ...(temperature !== undefined ? { temperature } : {}) }])
+    ),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Generation helpers shared by the api-server routes
+ * (/generate, /generate/stream, /generate/batch and the job queue):
+ * LLM_MODE-based orchestrator construction. Prompt loading and model
+ * configuration live in generation-settings.ts.
+ */
+
+import { OrchestratorService } from '@phaser/orchestrator';
+import { EnhancedRAGService, createLLMTieBreaker } from '@phaser/rag-service';
+import {
+  GenerationOptions,
+  GenerationOutput,
+  GenerationProgressCallback,
+  ProjectSettings,
+} from '@phaser/shared-types';
+import { buildProviderConfig, resolveSingleModel } from './generation-settings';
+
+/**
+ * Minimal structural interface shared by OrchestratorService (single-model)
+ * and MultiModelOrchestrator (multi-model pipeline).  TypeScript verifies that
+ * both classes satisfy this shape at assignment time, even though they live in
+ * different files and are never imported together at the top level.
+ */
+export interface IOrchestrator {
+  generateFromPrompt(input: {
+    projectPath: string;
+    primaryContextPath: string;
+    prompt: string;
+    options?: GenerationOptions;
+    onProgress?: GenerationProgressCallback;
+  }): Promise<GenerationOutput>;
+}
+
+/**
+ * Build the orchestrator for the configured LLM_MODE.
+ * 'multi-model' → MultiModelOrchestrator; everything else → OrchestratorService
+ * wrapping the matching single-model LLM service (mock when unconfigured).
+ * Pass `enhancedRAGService` to share one loaded knowledge cache across runs.
+ * `modelAssignments` (a project's settings) override MODEL_<ROLE> in multi-model mode.
+ */
+export async function createOrchestrator(
+  llmMode: string,
+  enhancedRAGService: EnhancedRAGService = new EnhancedRAGService(),
+  modelAssignments?: ProjectSettings['modelAssignments']
+): Promise<IOrchestrator> {
+  const claimSupportThreshold = parseFloat(process.env.CLAIM_SUPPORT_THRESHOLD || '');
+  const claimVerificationOptions = {
+    enableClaimVerification: process.env.ENABLE_CLAIM_VERIFICATION !== 'false',
+    claimSupportThreshold: claimSupportThreshold >= 0 && claimSupportThreshold <= 1 ? claimSupportThreshold : undefined,
+  };
+
+  if (llmMode === 'multi-model') {
+    // ── New path: ModelRouter + MultiModelOrchestrator ──────────────────
+    console.log('[API] Using multi-model pipeline (INGESTION → DRAFT → AUDIT → REVISION)');
+    const { createModelRouter, isAuditSeverity } = await import('@phaser/llm-service');
+    const { MultiModelOrchestrator } = await import('@phaser/orchestrator');
+    for (const [role, modelId] of Object.entries(modelAssignments ?? {})) {
+      console.log(`[API] Project model assignment: ${role} → ${modelId}`);
+    }
+    const modelRouter = createModelRouter(await buildProviderConfig(modelAssignments));
+    enhancedRAGService.setProcedureCategoryTieBreaker(
+      createLLMTieBreaker({ generateText: prompt => modelRouter.generateClassification(prompt) })
+    );
+    const revisionMinSeverity = process.env.REVISION_MIN_SEVERITY;
+    const maxAuditIterations = parseInt(process.env.AUDIT_MAX_ITERATIONS || '', 10);
+    const auditTokenBudget = parseInt(process.env.AUDIT_TOKEN_BUDGET || '', 10);
+    return new MultiModelOrchestrator(enhancedRAGService, modelRouter, {
+      enableIngestionStep: process.env.ENABLE_INGESTION_STEP !== 'false',
+      enableAuditStep:     process.env.ENABLE_AUDIT_STEP     !== 'false',
+      enableRevisionStep:  process.env.ENABLE_REVISION_STEP  !== 'false',
+      revisionMinSeverity: isAuditSeverity(revisionMinSeverity) ? revisionMinSeverity : undefined,
+      maxAuditIterations:  maxAuditIterations > 0 ? maxAuditIterations : undefined,
+      auditTokenBudget:    auditTokenBudget > 0 ? auditTokenBudget : undefined,
+      ...claimVerificationOptions,
+    });
+  }
+
+  // ── Existing single-model path (unchanged) ───────────────────────────
+  if (modelAssignments && Object.keys(modelAssignments).length > 0) {
+    console.log(`[API] Project model assignments apply to multi-model mode only, ignored for ${llmMode}`);
+  }
+  const model = resolveSingleModel(llmMode);
+  let llmService: any;
+
+  if (model.provider === 'ollama') {
+    console.log(`[API] Using Ollama with model: ${model.modelId}`);
+    const { OllamaLLMService } = await import('@phaser/llm-service');
+    llmService = new OllamaLLMService(model.modelId, { baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434' });
+
+  } else if (model.provider === 'mistral') {
+    console.log(`[API] Using Mistral AI (${model.modelId})`);
+    const { MistralLLMService } = await import('@phaser/llm-service');
+    llmService = new MistralLLMService(process.env.MISTRAL_API_KEY!, model.modelId);
+
+  } else if (model.provider === 'groq') {
+    console.log(`[API] Using Groq LPU (${model.modelId})`);
+    const { GroqLLMService } = await import('@phaser/llm-service');
+    llmService = new GroqLLMService(process.env.GROQ_API_KEY!, model.modelId);
+
+  } else if (model.provider === 'anthropic') {
+    console.log(`[API] Using Anthropic Claude (${model.modelId})`);
+    const { AnthropicLLMService } = await import('@phaser/llm-service');
+    llmService = new AnthropicLLMService(process.env.ANTHROPIC_API_KEY!, model.modelId);
+  } else {
+    console.log(`[API] Using MOCK LLM Service`);
+    const { MockLLMService } = await import('@phaser/llm-service');
+    llmService = new MockLLMService();
+  }
+
+  enhancedRAGService.setProcedureCategoryTieBreaker(createLLMTieBreaker(llmService));
+
+  // Create single-model orchestrator
+  return new OrchestratorService(enhancedRAGService, llmService, claimVerificationOptions);
+}
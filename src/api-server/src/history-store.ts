@@ -0,0 +1,310 @@
+/**
+ * Generation History Store
+ * Records every generation result so it survives a page reload or restart,
+ * and diffs the generated content of two runs.
+ *
+ * - Runs are persisted per project under
+ *   $TMPDIR/phaser-cache/history/<project hash>/ (next to the RAG caches):
+ *   one JSON file per run in runs/, plus index.json with the run summaries
+ *   so listing does not read every output.
+ * - Each run records the prompt hash and a Master Record fingerprint, so a
+ *   diff can tell whether the inputs changed or only the model output did.
+ * - The oldest runs beyond HISTORY_MAX_RUNS (default: 200) per project are pruned.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import {
+  GenerationOutput,
+  GenerationRun,
+  GenerationRunDiff,
+  GenerationRunModel,
+  GenerationRunSummary,
+  GenerationRunTrigger,
+  GenerationDiffLine,
+  ProjectSettings,
+} from '@phaser/shared-types';
+import { DocumentLoader } from '@phaser/rag-service';
+import { describeModelConfiguration } from './generation-settings';
+import { writeJsonAtomic } from './json-file';
+
+/** Above this many line comparisons the changed region is reported as replaced wholesale */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export class GenerationHistoryStore {
+  private historyDir: string;
+  /** Per-project write chains so concurrent records do not clobber index.json */
+  private writeChains: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private maxRunsPerProject: number = 200) {
+    this.historyDir = path.join(os.tmpdir(), 'phaser-cache', 'history');
+  }
+
+  /**
+   * Record a finished generation. Failures are logged, not thrown, so history
+   * never breaks a generation response. Returns the summary, or null on failure.
+   * `id` is the run id already written to the audit log; a new one is generated when omitted.
+   * `modelAssignments` are the project's, as passed to createOrchestrator.
+   */
+  async record(input: {
+    id?: string;
+    projectPath: string;
+    promptFilePath: string;
+    prompt: string;
+    output: GenerationOutput;
+    trigger: GenerationRunTrigger;
+    modelAssignments?: ProjectSettings['modelAssignments'];
+  }): Promise<GenerationRunSummary | null> {
+    const { projectPath, promptFilePath, prompt, output, trigger } = input;
+    const llmMode = process.env.LLM_MODE || 'mock';
+
+    try {
+      const run: GenerationRun = {
+        id: input.id ?? crypto.randomUUID(),
+        projectPath,
+        promptFilePath,
+        promptName: path.basename(promptFilePath).replace(/\.[^/.]+$/, ''),
+        promptHash: sha256(prompt),
+        masterRecordFingerprint: await this.fingerprintMasterRecord(projectPath),
+        llmMode,
+        models: await modelsUsed(output, llmMode, input.modelAssignments),
+        trigger,
+        createdAt: new Date().toISOString(),
+        status: output.status,
+        message: output.message,
+        confidence: output.confidence?.level,
+        discrepancyCount: output.discrepancies?.length ?? 0,
+        tokensUsed: output.usageStats?.tokensUsed ?? 0,
+        cost: output.usageStats?.cost ?? 0,
+        contentChars: output.generatedContent?.length ?? 0,
+        output,
+      };
+
+      await this.withProjectLock(projectPath, async () => {
+        const projectDir = this.projectDir(projectPath);
+        await writeJsonAtomic(path.join(projectDir, 'runs', `${run.id}.json`), run);
+
+        const { output: _output, ...summary } = run;
+        const index = [summary, ...(await this.readIndex(projectPath))];
+        const pruned = index.splice(this.maxRunsPerProject);
+        await writeJsonAtomic(path.join(projectDir, 'index.json'), index);
+
+        for (const old of pruned) {
+          await fs.unlink(path.join(projectDir, 'runs', `${old.id}.json`)).catch(() => undefined);
+        }
+      });
+
+      console.log(`[GenerationHistory] 📝 Recorded run ${run.id} (${run.promptName}, ${run.status})`);
+      const { output: _output, ...summary } = run;
+      return summary;
+    } catch (error) {
+      console.error('[GenerationHistory] ⚠️  Failed to record generation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Run summaries for a project (newest first), optionally for one prompt file.
+   */
+  async list(projectPath: string, promptFilePath?: string): Promise<GenerationRunSummary[]> {
+    const index = await this.readIndex(projectPath);
+    return promptFilePath
+      ? index.filter(run => path.resolve(run.promptFilePath) === path.resolve(promptFilePath))
+      : index;
+  }
+
+  /**
+   * Load a run with its full output, searching every project.
+   * Returns null if the run does not exist.
+   */
+  async get(id: string): Promise<GenerationRun | null> {
+    // Run ids are UUIDs; anything else cannot name a run file
+    if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+    const projectDirs = await fs.readdir(this.historyDir).then(
+      entries => entries.map(entry => path.join(this.historyDir, entry)),
+      () => [] as string[]
+    );
+
+    for (const projectDir of projectDirs) {
+      try {
+        return JSON.parse(await fs.readFile(path.join(projectDir, 'runs', `${id}.json`), 'utf8'));
+      } catch {
+        // Not in this project
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Line diff of two runs' generated content. Returns null if either run is missing.
+   */
+  async diff(fromId: string, toId: string): Promise<GenerationRunDiff | null> {
+    const [from, to] = await Promise.all([this.get(fromId), this.get(toId)]);
+    if (!from || !to) return null;
+
+    const lines = diffLines(from.output.generatedContent ?? '', to.output.generatedContent ?? '');
+    const { output: _fromOutput, ...fromSummary } = from;
+    const { output: _toOutput, ...toSummary } = to;
+
+    return {
+      from: fromSummary,
+      to: toSummary,
+      lines,
+      stats: {
+        added: lines.filter(line => line.type === 'added').length,
+        removed: lines.filter(line => line.type === 'removed').length,
+        unchanged: lines.filter(line => line.type === 'equal').length,
+      },
+      promptChanged: from.promptHash !== to.promptHash,
+      masterRecordChanged: from.masterRecordFingerprint !== to.masterRecordFingerprint,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  /** Same 8-character project hash as the embedding and summary caches */
+  private projectDir(projectPath: string): string {
+    const cacheBaseName = crypto.createHash('md5').update(projectPath).digest('hex').substring(0, 8);
+    return path.join(this.historyDir, cacheBaseName);
+  }
+
+  private async readIndex(projectPath: string): Promise<GenerationRunSummary[]> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.projectDir(projectPath), 'index.json'), 'utf8'));
+    } catch {
+      return [];
+    }
+  }
+
+  private async withProjectLock<T>(projectPath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeChains.get(projectPath) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeChains.set(projectPath, next);
+    try {
+      return await next;
+    } finally {
+      if (this.writeChains.get(projectPath) === next) this.writeChains.delete(projectPath);
+    }
+  }
+
+  /**
+   * SHA-256 of the Master Record text, or undefined when the project has none.
+   */
+  private async fingerprintMasterRecord(projectPath: string): Promise<string | undefined> {
+    try {
+      const masterRecord = await new DocumentLoader().loadMasterRecord(path.join(projectPath, 'Context'));
+      return masterRecord ? sha256(masterRecord.content) : undefined;
+    } catch (error) {
+      console.warn('[GenerationHistory] Could not fingerprint Master Record:', error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Model per role: the multi-model breakdown when present, otherwise the
+ * first model recorded for each pipeline step, otherwise (single-model runs
+ * and runs that failed early) the configured model per role.
+ */
+async function modelsUsed(
+  output: GenerationOutput,
+  llmMode: string,
+  modelAssignments?: ProjectSettings['modelAssignments']
+): Promise<GenerationRunModel[]> {
+  if (output.usageStats?.modelBreakdown?.length) {
+    return output.usageStats.modelBreakdown.map(({ role, modelId }) => ({ role, modelId }));
+  }
+  const byStep = new Map<string, string>();
+  for (const trace of output.pipelineTrace ?? []) {
+    if (!byStep.has(trace.step)) byStep.set(trace.step, trace.modelId);
+  }
+  if (byStep.size > 0) {
+    return [...byStep].map(([role, modelId]) => ({ role, modelId }));
+  }
+  const { roleAssignments } = await describeModelConfiguration(llmMode, modelAssignments);
+  return Object.entries(roleAssignments).map(([role, { modelId }]) => ({ role, modelId }));
+}
+
+/**
+ * Longest-common-subsequence line diff. The common prefix and suffix are
+ * trimmed first so typical revisions only compare the changed region.
+ */
+function diffLines(fromText: string, toText: string): GenerationDiffLine[] {
+  const a = fromText.split('\n');
+  const b = toText.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const equal = (text: string): GenerationDiffLine => ({ type: 'equal', text });
+
+  let middle: GenerationDiffLine[];
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    middle = [
+      ...midA.map((text): GenerationDiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): GenerationDiffLine => ({ type: 'added', text })),
+    ];
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    middle = [];
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        middle.push(equal(midA[i]));
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        middle.push({ type: 'removed', text: midA[i++] });
+      } else {
+        middle.push({ type: 'added', text: midB[j++] });
+      }
+    }
+    while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+    while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+  }
+
+  return [
+    ...a.slice(0, prefix).map(equal),
+    ...middle,
+    ...a.slice(a.length - suffix).map(equal),
+  ];
+}
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// Singleton instance
+let historyStoreInstance: GenerationHistoryStore | null = null;
+
+/**
+ * Get or create the GenerationHistoryStore singleton.
+ * Retention comes from HISTORY_MAX_RUNS (runs kept per project, default: 200).
+ */
+export function getHistoryStore(): GenerationHistoryStore {
+  if (!historyStoreInstance) {
+    const maxRuns = parseInt(process.env.HISTORY_MAX_RUNS || '200', 10);
+    historyStoreInstance = new GenerationHistoryStore(Number.isFinite(maxRuns) && maxRuns > 0 ? maxRuns : 200);
+  }
+  return historyStoreInstance;
+}
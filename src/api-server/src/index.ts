@@ -3,6 +3,8 @@ import cors from 'cors';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { config } from 'dotenv';
+import { checkRequestPaths, logProjectRootsConfiguration } from './project-roots';
+import { authenticate, initializeAuth } from './auth';
 
 // Load environment variables
 config();
@@ -11,8 +13,12 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
-app.use(cors());
+// CORS_ORIGINS: comma-separated origins allowed to call the API (default: any)
+const corsOrigins = process.env.CORS_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean);
+app.use(cors(corsOrigins?.length ? { origin: corsOrigins } : undefined));
 app.use(express.json());
+// Every /api route except health and sign-in requires credentials
+app.use('/api', authenticate);
 
 /**
  * Health check endpoint - simplified for generation-focused app
@@ -85,6 +91,8 @@ app.post('/api/list-files', async (req: Request, res: Response) => {
     });
   }
 
+  if (!(await checkRequestPaths(res, { path: dirPath }))) return;
+
   try {
     // Check if directory exists
     await fs.access(dirPath);
@@ -139,6 +147,18 @@ app.post('/api/list-files', async (req: Request, res: Response) => {
  */
 async function startServer() {
   try {
+    await initializeAuth();
+
+    // Mount auth router (sign-in, API tokens, user management)
+    try {
+      const authRouterModule = await import('./routes/auth');
+      app.use('/api', authRouterModule.default);
+      console.log('[API] ✓ Auth router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load auth router:', error);
+      // Non-fatal - continue server startup
+    }
+
     // Mount generate router BEFORE starting server
     try {
       const generateRouterModule = await import('./routes/generate');
@@ -150,6 +170,98 @@ async function startServer() {
       // Non-fatal - continue server startup
     }
 
+    // Mount jobs router and restore persisted jobs
+    try {
+      const jobsRouterModule = await import('./routes/jobs');
+      app.use('/api', jobsRouterModule.default);
+      const { getJobQueue } = await import('./job-queue');
+      await getJobQueue().initialize();
+      console.log('[API] ✓ Jobs router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load jobs router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount history router
+    try {
+      const historyRouterModule = await import('./routes/history');
+      app.use('/api', historyRouterModule.default);
+      console.log('[API] ✓ History router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load history router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount export router
+    try {
+      const exportRouterModule = await import('./routes/export');
+      app.use('/api', exportRouterModule.default);
+      console.log('[API] ✓ Export router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load export router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount project registry router
+    try {
+      const projectsRouterModule = await import('./routes/projects');
+      app.use('/api', projectsRouterModule.default);
+      console.log('[API] ✓ Projects router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load projects router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount Master Record validation router
+    try {
+      const masterRecordRouterModule = await import('./routes/master-record');
+      app.use('/api', masterRecordRouterModule.default);
+      console.log('[API] ✓ Master Record router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load Master Record router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount prompt lint router
+    try {
+      const promptsRouterModule = await import('./routes/prompts');
+      app.use('/api', promptsRouterModule.default);
+      console.log('[API] ✓ Prompts router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load prompts router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount cache administration router
+    try {
+      const cacheRouterModule = await import('./routes/cache');
+      app.use('/api', cacheRouterModule.default);
+      console.log('[API] ✓ Cache router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load cache router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount review workflow router
+    try {
+      const reviewsRouterModule = await import('./routes/reviews');
+      app.use('/api', reviewsRouterModule.default);
+      console.log('[API] ✓ Reviews router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load reviews router:', error);
+      // Non-fatal - continue server startup
+    }
+
+    // Mount audit log router
+    try {
+      const auditRouterModule = await import('./routes/audit');
+      app.use('/api', auditRouterModule.default);
+      console.log('[API] ✓ Audit router loaded');
+    } catch (error) {
+      console.error('[API] Warning: Could not load audit router:', error);
+      // Non-fatal - continue server startup
+    }
+
     // Detect LLM configuration
     const llmMode = process.env.LLM_MODE || 'mock';
     let llmProvider = 'Mock LLM Service';
@@ -192,13 +304,31 @@ async function startServer() {
       llmModel = steps;
     }
 
+    logProjectRootsConfiguration();
+
     app.listen(PORT, () => {
       console.log(`\n=== Phaser Generation API Server ===`);
       console.log(`Server running on http://localhost:${PORT}`);
       console.log(``);
       console.log(`API Endpoints:`);
       console.log(`  • POST /api/generate    - Content generation with RAG`);
+      console.log(`  • POST /api/generate/stream - Content generation with live progress (SSE)`);
+      console.log(`  • POST /api/generate/batch - Generate all prompts in a project's Prompts folder`);
+      console.log(`  • POST /api/jobs        - Queue an asynchronous generation job`);
+      console.log(`  • GET  /api/jobs/:id    - Job status and result`);
+      console.log(`  • DELETE /api/jobs/:id  - Cancel a queued or running job`);
+      console.log(`  • GET  /api/history     - Recorded generation runs for a project`);
+      console.log(`  • GET  /api/history/diff - Diff two runs' generated content`);
+      console.log(`  • POST /api/export/docx - Export a generation result to Word`);
+      console.log(`  • GET  /api/project-roots - Allowed project roots (PROJECT_ROOTS)`);
+      console.log(`  • GET  /api/projects    - Project registry (POST, PUT/DELETE /api/projects/:id, POST /api/projects/import)`);
+      console.log(`  • GET  /api/master-record/validate - Master Record schema and prompt gap report`);
+      console.log(`  • GET  /api/reviews     - Draft review and approval (POST /api/reviews, /api/reviews/:id/submit|approve|reject)`);
+      console.log(`  • POST /api/prompts/lint - Check a prompt's bracket notation and @scopes`);
       console.log(`  • POST /api/list-files  - File/directory listing`);
+      console.log(`  • DELETE /api/cache     - Clear a project's knowledge cache (admin)`);
+      console.log(`  • GET  /api/audit       - Hash-chained generation audit log (admin; GET /api/audit/verify)`);
+      console.log(`  • POST /api/auth/login  - Sign in (GET /api/auth/me, /api/auth/tokens, /api/auth/users)`);
       console.log(`  • GET  /api/health      - System health check`);
       console.log(``);
       console.log(`LLM Provider: ${llmProvider} (${llmModel})`);
@@ -0,0 +1,411 @@
+/**
+ * Asynchronous Generation Job Queue
+ * Runs generation requests in the background so long multi-model pipelines are
+ * not tied to a single HTTP request (nginx timeouts, closed browser tabs).
+ *
+ * - Jobs are persisted as JSON under $TMPDIR/phaser-cache/jobs/ (next to the
+ *   RAG caches) and reloaded on startup; jobs that were running when the
+ *   server stopped are re-queued.
+ * - At most one job runs per project at a time. Each run holds the project's
+ *   'generation-job' lock from LockManager, so several api-server processes
+ *   sharing the same cache directory also serialise per project. Batch
+ *   generation takes the same slot and lock through runExclusive().
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { AuthenticatedUser, GenerationJob, GenerationOptions, GenerationProgressEvent } from '@phaser/shared-types';
+import { getLockManager, Lock } from '@phaser/rag-core';
+import { createOrchestrator } from './generation';
+import { readPromptFile } from './generation-settings';
+import { resolveProjectGenerationSettings } from './project-store';
+import { getHistoryStore } from './history-store';
+import { getAuditLog } from './audit-log';
+import { writeJsonAtomic } from './json-file';
+
+/** LockManager lock name for job runs (separate from the cache-build lock) */
+const JOB_LOCK_NAME = 'generation-job';
+
+/** Delay before retrying jobs whose project lock is held by another process */
+const LOCK_RETRY_DELAY_MS = 5000;
+
+/**
+ * Jobs re-queued by restarts more often than this are marked failed, as are
+ * jobs that failed to get their project lock this many times in a row
+ */
+const MAX_ATTEMPTS = 3;
+
+/** Finished jobs older than this are removed on startup */
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class JobQueue {
+  private jobs: Map<string, GenerationJob> = new Map();
+  private runningProjects: Set<string> = new Set();
+  private runningCount = 0;
+  private jobsDir: string;
+  /** Jobs waiting out LOCK_RETRY_DELAY_MS after a busy lock; skipped by schedule() until it fires */
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  /** Consecutive lock failures per job */
+  private lockFailures: Map<string, number> = new Map();
+  /** Per-job write chains so an earlier write cannot land after a later one */
+  private persistChains: Map<string, Promise<void>> = new Map();
+
+  constructor(private maxConcurrency: number = 2) {
+    this.jobsDir = path.join(os.tmpdir(), 'phaser-cache', 'jobs');
+  }
+
+  /**
+   * Load persisted jobs from disk, re-queue interrupted ones and start processing.
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.jobsDir, { recursive: true });
+
+    const entries = await fs.readdir(this.jobsDir);
+    let requeued = 0;
+    let pruned = 0;
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const filePath = path.join(this.jobsDir, entry);
+
+      let job: GenerationJob;
+      try {
+        job = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      } catch (error) {
+        console.warn(`[JobQueue] ⚠️  Skipping unreadable job file ${entry}:`, error);
+        continue;
+      }
+
+      if (job.finishedAt && Date.now() - Date.parse(job.finishedAt) > RETENTION_MS) {
+        await fs.unlink(filePath).catch(() => undefined);
+        pruned++;
+        continue;
+      }
+
+      if (job.status === 'running') {
+        if (job.attempts >= MAX_ATTEMPTS) {
+          job.status = 'failed';
+          job.error = `Interrupted ${job.attempts} times by server restarts`;
+          job.finishedAt = new Date().toISOString();
+        } else {
+          job.status = 'queued';
+          requeued++;
+        }
+        await this.persist(job);
+      }
+
+      this.jobs.set(job.id, job);
+    }
+
+    console.log(
+      `[JobQueue] ✓ Loaded ${this.jobs.size} job(s) from ${this.jobsDir} ` +
+      `(${requeued} re-queued, ${pruned} pruned, max concurrency: ${this.maxConcurrency})`
+    );
+
+    this.schedule();
+  }
+
+  /**
+   * Create a job for a generation request and schedule it.
+   */
+  async enqueue(input: {
+    projectPath: string;
+    promptFilePath: string;
+    options?: GenerationOptions;
+    requestedBy?: AuthenticatedUser;
+  }): Promise<GenerationJob> {
+    const job: GenerationJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      projectPath: input.projectPath,
+      promptFilePath: input.promptFilePath,
+      options: input.options,
+      ...(input.requestedBy ? { requestedBy: input.requestedBy } : {}),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      progress: [],
+    };
+
+    this.jobs.set(job.id, job);
+    await this.persist(job);
+    console.log(`[JobQueue] ➕ Job ${job.id} queued (${path.basename(job.promptFilePath)})`);
+
+    this.schedule();
+    return job;
+  }
+
+  get(id: string): GenerationJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * List jobs, newest first, optionally filtered by project.
+   */
+  list(projectPath?: string): GenerationJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !projectPath || job.projectPath === projectPath)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Cancel a queued or running job.
+   * A running pipeline cannot be interrupted mid-call; it finishes in the
+   * background and its output is discarded.
+   * Returns null if the job does not exist, or the job unchanged if it had
+   * already finished.
+   */
+  async cancel(id: string): Promise<GenerationJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+
+    const wasRunning = job.status === 'running';
+    this.clearLockRetry(id);
+    job.status = 'cancelled';
+    job.error = 'Cancelled by user';
+    job.finishedAt = new Date().toISOString();
+    await this.persist(job);
+
+    console.log(`[JobQueue] 🛑 Job ${id} cancelled${wasRunning ? ' (running pipeline will be discarded)' : ''}`);
+    return job;
+  }
+
+  /**
+   * Run `task` while holding the project's job slot and 'generation-job' lock,
+   * so no job for the project starts meanwhile (batch generation).
+   * Throws ProjectBusyError if a job for the project is running in this
+   * process or the lock is held by another process.
+   */
+  async runExclusive<T>(projectPath: string, task: () => Promise<T>): Promise<T> {
+    if (this.runningProjects.has(projectPath)) {
+      throw new ProjectBusyError(`A generation job is running for ${path.basename(projectPath)}`);
+    }
+    this.runningProjects.add(projectPath);
+
+    try {
+      let lock: Lock;
+      try {
+        lock = await getLockManager().acquireLock(projectPath, undefined, JOB_LOCK_NAME);
+      } catch {
+        throw new ProjectBusyError(`${path.basename(projectPath)} is busy in another process`);
+      }
+      try {
+        return await task();
+      } finally {
+        await lock.release();
+      }
+    } finally {
+      this.runningProjects.delete(projectPath);
+      this.schedule();
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Start queued jobs (oldest first) while respecting the global concurrency
+   * limit and the one-job-per-project rule.
+   */
+  private schedule(): void {
+    const queued = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of queued) {
+      if (this.runningCount >= this.maxConcurrency) break;
+      if (this.runningProjects.has(job.projectPath) || this.retryTimers.has(job.id)) continue;
+
+      this.runningProjects.add(job.projectPath);
+      this.runningCount++;
+
+      void this.run(job).finally(() => {
+        this.runningProjects.delete(job.projectPath);
+        this.runningCount--;
+        this.schedule();
+      });
+    }
+  }
+
+  /**
+   * Keep a job whose project lock is busy out of the schedule for
+   * LOCK_RETRY_DELAY_MS, or fail it after MAX_ATTEMPTS consecutive failures.
+   */
+  private async scheduleRetry(job: GenerationJob): Promise<void> {
+    const failures = (this.lockFailures.get(job.id) ?? 0) + 1;
+    if (failures >= MAX_ATTEMPTS) {
+      this.clearLockRetry(job.id);
+      job.status = 'failed';
+      job.error = `Project is busy in another process: lock not acquired after ${failures} attempts`;
+      job.finishedAt = new Date().toISOString();
+      await this.persist(job);
+      console.error(`[JobQueue] ❌ Job ${job.id} failed:`, job.error);
+      return;
+    }
+
+    this.lockFailures.set(job.id, failures);
+    console.warn(
+      `[JobQueue] ⏳ Project ${path.basename(job.projectPath)} is busy in another process, ` +
+      `retrying job ${job.id} in ${LOCK_RETRY_DELAY_MS}ms (attempt ${failures + 1}/${MAX_ATTEMPTS})`
+    );
+    this.retryTimers.set(job.id, setTimeout(() => {
+      this.retryTimers.delete(job.id);
+      this.schedule();
+    }, LOCK_RETRY_DELAY_MS));
+  }
+
+  private clearLockRetry(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) clearTimeout(timer);
+    this.retryTimers.delete(id);
+    this.lockFailures.delete(id);
+  }
+
+  private isCancelled(id: string): boolean {
+    return this.jobs.get(id)?.status === 'cancelled';
+  }
+
+  private async run(job: GenerationJob): Promise<void> {
+    let lock: Lock;
+    try {
+      lock = await getLockManager().acquireLock(job.projectPath, undefined, JOB_LOCK_NAME);
+    } catch (error) {
+      // Cancelled while waiting for the lock
+      if (!this.isCancelled(job.id)) await this.scheduleRetry(job);
+      return;
+    }
+    this.clearLockRetry(job.id);
+
+    try {
+      // Cancelled while waiting for the lock
+      if (this.isCancelled(job.id)) return;
+
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+      job.attempts++;
+      job.progress = [];
+      await this.persist(job);
+      console.log(`[JobQueue] ▶️  Job ${job.id} started (attempt ${job.attempts})`);
+
+      const prompt = await readPromptFile(job.promptFilePath);
+      const { options, primaryContextPath, modelAssignments } =
+        await resolveProjectGenerationSettings(job.projectPath, job.options);
+      const orchestrator = await createOrchestrator(process.env.LLM_MODE || 'mock', undefined, modelAssignments);
+
+      const result = await orchestrator.generateFromPrompt({
+        projectPath: job.projectPath,
+        primaryContextPath,
+        prompt,
+        options,
+        onProgress: event => this.recordProgress(job, event),
+      });
+
+      if (this.isCancelled(job.id)) {
+        console.log(`[JobQueue] 🗑️  Job ${job.id} finished after cancellation — output discarded`);
+        return;
+      }
+
+      const output = { ...result, generatedContent: result.generatedContent?.trimStart() };
+      // The result is only published (history run, job result) once its audit entry is written
+      const runId = crypto.randomUUID();
+      await getAuditLog().appendGeneration({
+        actor: job.requestedBy,
+        projectPath: job.projectPath,
+        promptFilePath: job.promptFilePath,
+        prompt,
+        output,
+        trigger: 'job',
+        modelAssignments,
+        runId,
+        jobId: job.id
+      });
+      await getHistoryStore().record({
+        id: runId,
+        projectPath: job.projectPath,
+        promptFilePath: job.promptFilePath,
+        prompt,
+        output,
+        trigger: 'job',
+        modelAssignments
+      });
+
+      job.result = output;
+      job.status = result.status === 'complete' ? 'complete' : 'failed';
+      if (job.status === 'failed') {
+        job.error = result.message;
+      }
+      job.finishedAt = new Date().toISOString();
+      await this.persist(job);
+
+      console.log(`[JobQueue] ${job.status === 'complete' ? '✅' : '❌'} Job ${job.id} ${job.status}`);
+    } catch (error) {
+      if (!this.isCancelled(job.id)) {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        job.finishedAt = new Date().toISOString();
+        await this.persist(job);
+        console.error(`[JobQueue] ❌ Job ${job.id} failed:`, job.error);
+      }
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Keep non-token progress events on the job so GET /api/jobs/:id shows where it is.
+   */
+  private recordProgress(job: GenerationJob, event: GenerationProgressEvent): void {
+    if (event.type === 'token' || this.isCancelled(job.id)) return;
+    job.progress.push(event);
+    void this.persist(job);
+  }
+
+  /**
+   * Write a job to disk atomically. Writes of one job run one after another,
+   * each with the job's state when it starts, so a progress write still in
+   * flight cannot overwrite the final status. Failures are logged, not thrown.
+   */
+  private persist(job: GenerationJob): Promise<void> {
+    const previous = this.persistChains.get(job.id) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        await writeJsonAtomic(path.join(this.jobsDir, `${job.id}.json`), job);
+      } catch (error) {
+        console.error(`[JobQueue] ⚠️  Failed to persist job ${job.id}:`, error);
+      }
+    });
+    this.persistChains.set(job.id, next);
+    void next.then(() => {
+      if (this.persistChains.get(job.id) === next) this.persistChains.delete(job.id);
+    });
+    return next;
+  }
+}
+
+/**
+ * Thrown by runExclusive when the project is already generating
+ */
+export class ProjectBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectBusyError';
+  }
+}
+
+// Singleton instance
+let jobQueueInstance: JobQueue | null = null;
+
+/**
+ * Get or create the JobQueue singleton.
+ * Concurrency comes from JOBS_MAX_CONCURRENCY (default: 2).
+ */
+export function getJobQueue(): JobQueue {
+  if (!jobQueueInstance) {
+    const maxConcurrency = parseInt(process.env.JOBS_MAX_CONCURRENCY || '2', 10);
+    jobQueueInstance = new JobQueue(Number.isFinite(maxConcurrency) && maxConcurrency > 0 ? maxConcurrency : 2);
+  }
+  return jobQueueInstance;
+}
@@ -0,0 +1,25 @@
+/**
+ * JSON Files
+ * Atomic writes for the JSON files the api-server keeps on disk (project
+ * registry, users, reviews, generation history, jobs).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Write JSON atomically (temp file + rename), creating the directory if needed.
+ * `mode` sets the file permissions, e.g. 0o600 for credentials.
+ */
+export async function writeJsonAtomic(filePath: string, data: unknown, options: { mode?: number } = {}): Promise<void> {
+  const tmpPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: options.mode });
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.unlink(tmpPath).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Master Record Validation
+ * Checks a project's Master Record against the schema declared in
+ * primary-context.yaml (knowledge_sources.master_record.schema) and lists the
+ * prompts in `[projectPath]/Prompts` whose [Master Record|FIELD] references
+ * would not resolve, so intake gaps are fixed before generation.
+ */
+
+import * as path from 'path';
+import {
+  DocumentLoader,
+  resolveMasterRecordSchema,
+  validateMasterRecordFields,
+  parseMasterRecordFieldReferences,
+} from '@phaser/rag-service';
+import { MasterRecordPromptGap, MasterRecordValidationReport } from '@phaser/shared-types';
+import { readPromptFile } from './generation-settings';
+import { resolveProjectGenerationSettings } from './project-store';
+import { listPromptFiles } from './batch';
+
+export async function validateProjectMasterRecord(projectPath: string): Promise<MasterRecordValidationReport> {
+  const loader = new DocumentLoader();
+  const primaryContext = await loader.loadPrimaryContext((await resolveProjectGenerationSettings(projectPath)).primaryContextPath);
+  const schema = resolveMasterRecordSchema(primaryContext);
+
+  const masterRecord = await loader.loadMasterRecordFields(path.join(projectPath, 'Context'));
+  const fields = masterRecord?.fields ?? new Map<string, string>();
+  const { results, undeclaredFields } = validateMasterRecordFields(fields, schema);
+
+  const resultByKey = new Map(results.map(result => [result.key, result]));
+  const declared = new Set(schema.map(field => field.key));
+
+  let promptFilePaths: string[] = [];
+  try {
+    promptFilePaths = await listPromptFiles(projectPath);
+  } catch {
+    console.log(`[MasterRecord] No Prompts folder in ${projectPath}, skipping prompt scan`);
+  }
+
+  const prompts: MasterRecordPromptGap[] = [];
+  for (const promptFilePath of promptFilePaths) {
+    let content: string;
+    try {
+      // .docx prompts come back as HTML; tags may split a reference
+      content = (await readPromptFile(promptFilePath)).replace(/<[^>]+>/g, '');
+    } catch (error) {
+      console.warn(`[MasterRecord] ⚠️  Could not read prompt ${promptFilePath}:`, error);
+      continue;
+    }
+
+    const gap: MasterRecordPromptGap = {
+      promptFilePath,
+      promptName: path.basename(promptFilePath, path.extname(promptFilePath)),
+      missingFields: [],
+      invalidFields: [],
+      undeclaredFields: [],
+    };
+    for (const key of parseMasterRecordFieldReferences(content)) {
+      const result = resultByKey.get(key);
+      if (!declared.has(key)) {
+        gap.undeclaredFields.push(key);
+        if (!fields.get(key)?.trim()) gap.missingFields.push(key);
+      } else if (result?.status === 'missing' || result?.status === 'empty') {
+        gap.missingFields.push(key);
+      } else if (result?.status === 'invalid') {
+        gap.invalidFields.push(key);
+      }
+    }
+    if (gap.missingFields.length + gap.invalidFields.length + gap.undeclaredFields.length > 0) {
+      prompts.push(gap);
+    }
+  }
+
+  const missingRequired = results.filter(r => r.required && (r.status === 'missing' || r.status === 'empty')).length;
+  const invalid = results.filter(r => r.status === 'invalid').length;
+
+  console.log(
+    `[MasterRecord] ${masterRecord ? masterRecord.doc.fileName : 'No Master Record'}: ` +
+    `${missingRequired} required field(s) missing, ${invalid} invalid, ${prompts.length} prompt(s) with gaps`
+  );
+
+  return {
+    projectPath,
+    validatedAt: new Date().toISOString(),
+    masterRecordFile: masterRecord?.doc.fileName,
+    valid: !!masterRecord && missingRequired === 0 && invalid === 0,
+    fields: results,
+    undeclaredFields,
+    prompts,
+    totals: {
+      declared: schema.length,
+      ok: results.filter(r => r.status === 'ok').length,
+      missingRequired,
+      invalid,
+      promptsScanned: promptFilePaths.length,
+      promptsWithGaps: prompts.length,
+    },
+  };
+}
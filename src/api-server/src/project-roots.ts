@@ -0,0 +1,153 @@
+/**
+ * Project Root Sandbox
+ * Every filesystem path taken from a request (path, projectPath,
+ * promptFilePath, …) must lie inside an allowed project root, so a client
+ * cannot list or ingest arbitrary directories the server user can read.
+ *
+ * - Allowed roots: PROJECT_ROOTS, a list of absolute directories separated by
+ *   the platform path delimiter (":" on Linux/macOS, ";" on Windows).
+ *   When unset, the folders of the registered projects are the roots, and
+ *   only admins can register or move a project folder (routes/projects.ts).
+ * - Paths are compared after resolving symlinks (realpath), so a link inside
+ *   a root that points outside it is rejected. Paths that do not exist yet are
+ *   checked through their nearest existing ancestor.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Response } from 'express';
+import { getProjectStore } from './project-store';
+
+/**
+ * A request path that is malformed or outside the allowed project roots
+ */
+export class PathAccessError extends Error {
+  constructor(
+    message: string,
+    public code: 'PATH_INVALID' | 'PATH_OUTSIDE_ROOTS',
+    public field: string,
+    public requestedPath: unknown
+  ) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
+/**
+ * Roots configured in PROJECT_ROOTS, or null when unset
+ */
+export function getConfiguredProjectRoots(): string[] | null {
+  const raw = process.env.PROJECT_ROOTS;
+  if (!raw || !raw.trim()) return null;
+  return raw.split(path.delimiter).map(root => root.trim()).filter(Boolean).map(root => path.resolve(root));
+}
+
+/**
+ * The allowed roots, symlinks resolved. Roots that do not exist are dropped.
+ */
+export async function getAllowedProjectRoots(): Promise<string[]> {
+  const roots = getConfiguredProjectRoots()
+    ?? (await getProjectStore().list()).map(project => path.resolve(project.folderPath));
+
+  const resolved: string[] = [];
+  for (const root of roots) {
+    try {
+      resolved.push(await fs.realpath(root));
+    } catch {
+      // Missing root: nothing under it can be read
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Check that a request path lies inside an allowed root and return its real path.
+ * Throws PathAccessError when it does not.
+ */
+export async function resolveAllowedPath(requestedPath: unknown, field: string): Promise<string> {
+  if (typeof requestedPath !== 'string' || !path.isAbsolute(requestedPath) || requestedPath.includes('\0')) {
+    throw new PathAccessError(`${field} must be an absolute path`, 'PATH_INVALID', field, requestedPath);
+  }
+
+  let realPath: string;
+  try {
+    realPath = await realpathOfNearestExisting(path.resolve(requestedPath));
+  } catch {
+    throw new PathAccessError(`${field} cannot be resolved`, 'PATH_INVALID', field, requestedPath);
+  }
+  const roots = await getAllowedProjectRoots();
+  if (!roots.some(root => isInside(realPath, root))) {
+    throw new PathAccessError(
+      `${field} is outside the allowed project roots`,
+      'PATH_OUTSIDE_ROOTS',
+      field,
+      requestedPath
+    );
+  }
+  return realPath;
+}
+
+/**
+ * Validate the request paths of a route. Sends a structured 403 (or 400 for a
+ * malformed path) and returns false when one is not allowed; undefined fields
+ * are skipped, so check required fields first.
+ */
+export async function checkRequestPaths(res: Response, fields: Record<string, unknown>): Promise<boolean> {
+  try {
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+      for (const [index, item] of (Array.isArray(value) ? value : [value]).entries()) {
+        await resolveAllowedPath(item, Array.isArray(value) ? `${field}[${index}]` : field);
+      }
+    }
+    return true;
+  } catch (error) {
+    if (!(error instanceof PathAccessError)) {
+      console.error('[ProjectRoots] ❌ Could not check request paths:', error);
+      res.status(500).json({ status: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      return false;
+    }
+    console.warn(`[ProjectRoots] ⛔ Rejected ${error.field}: ${String(error.requestedPath)} (${error.code})`);
+    res.status(error.code === 'PATH_INVALID' ? 400 : 403).json({
+      status: 'error',
+      error: error.message,
+      code: error.code,
+      field: error.field,
+      path: error.requestedPath,
+    });
+    return false;
+  }
+}
+
+/**
+ * Log the sandbox configuration at startup
+ */
+export function logProjectRootsConfiguration(): void {
+  const roots = getConfiguredProjectRoots();
+  if (roots) {
+    console.log(`[ProjectRoots] 🔒 Allowed project roots: ${roots.join(', ')}`);
+  } else {
+    console.warn('[ProjectRoots] ⚠️  PROJECT_ROOTS not set: only registered project folders are accessible, and only admins can register them');
+  }
+}
+
+function isInside(candidate: string, root: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+async function realpathOfNearestExisting(absolutePath: string): Promise<string> {
+  let current = absolutePath;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch (error: any) {
+      const parent = path.dirname(current);
+      if (error?.code !== 'ENOENT' || parent === current) throw error;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
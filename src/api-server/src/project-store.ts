@@ -0,0 +1,303 @@
+/**
+ * Project Registry
+ * Server-side list of projects shared by every user of the dashboard
+ * (previously kept per browser in localStorage under `phaser_projects`).
+ *
+ * - Persisted as one JSON file: PROJECT_REGISTRY_PATH, default
+ *   src/api-server/data/projects.json. Writes are serialized and atomic.
+ * - A project's folderPath is unique, so generation requests (which carry
+ *   projectPath) can pick up the project's settings: model assignments,
+ *   topK defaults and a primary-context override.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  GenerationOptions,
+  Project,
+  ProjectImportResult,
+  ProjectInput,
+  ProjectModelRole,
+  ProjectSettings,
+} from '@phaser/shared-types';
+import { getPrimaryContextPath } from './generation-settings';
+import { writeJsonAtomic } from './json-file';
+
+const MODEL_ROLES: ProjectModelRole[] = ['ingestion', 'drafter', 'auditor', 'reviser'];
+
+export class ProjectStore {
+  private projects: Project[] | null = null;
+  /** Serializes read-modify-write cycles on the registry file */
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private registryPath: string) {}
+
+  async list(): Promise<Project[]> {
+    return [...(await this.load())].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<Project | null> {
+    return (await this.load()).find(project => project.id === id) ?? null;
+  }
+
+  /**
+   * The project registered for a folder, if any
+   */
+  async findByFolderPath(folderPath: string): Promise<Project | null> {
+    const resolved = path.resolve(folderPath);
+    return (await this.load()).find(project => path.resolve(project.folderPath) === resolved) ?? null;
+  }
+
+  /**
+   * Register a project. Throws ProjectConflictError if its folder is already registered.
+   */
+  async create(input: ProjectInput): Promise<Project> {
+    return this.mutate(async projects => {
+      this.assertFolderAvailable(projects, input.folderPath);
+      const now = new Date().toISOString();
+      const project: Project = { ...pickProjectFields(input), id: generateId(), createdAt: now, updatedAt: now };
+      projects.push(project);
+      console.log(`[ProjectStore] ➕ Registered project ${project.id} (${project.name})`);
+      return project;
+    });
+  }
+
+  /**
+   * Update a project. Settings are replaced as a whole when given.
+   * Returns null if the project does not exist.
+   */
+  async update(id: string, updates: Partial<ProjectInput>): Promise<Project | null> {
+    return this.mutate(async projects => {
+      const index = projects.findIndex(project => project.id === id);
+      if (index === -1) return null;
+
+      if (updates.folderPath !== undefined) {
+        this.assertFolderAvailable(projects, updates.folderPath, id);
+      }
+      projects[index] = {
+        ...projects[index],
+        ...pickProjectFields(updates),
+        id,
+        updatedAt: new Date().toISOString(),
+      };
+      return projects[index];
+    });
+  }
+
+  /**
+   * Remove a project from the registry (its folder is left untouched).
+   * Returns false if the project does not exist.
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.mutate(async projects => {
+      const index = projects.findIndex(project => project.id === id);
+      if (index === -1) return false;
+      const [removed] = projects.splice(index, 1);
+      console.log(`[ProjectStore] 🗑️  Removed project ${id} (${removed.name})`);
+      return true;
+    });
+  }
+
+  /**
+   * Add projects exported from a browser's localStorage, keeping their ids and
+   * timestamps. Entries whose id or folder is already registered are skipped,
+   * so importing the same list twice is harmless.
+   */
+  async import(entries: unknown[]): Promise<ProjectImportResult> {
+    return this.mutate(async projects => {
+      const result: ProjectImportResult = { imported: [], skipped: [] };
+
+      for (const entry of entries) {
+        const candidate = (entry ?? {}) as Partial<Project>;
+        const label = { id: typeof candidate.id === 'string' ? candidate.id : undefined, name: typeof candidate.name === 'string' ? candidate.name : undefined };
+
+        const problem = validateProjectInput(candidate, false);
+        if (problem || !label.id) {
+          result.skipped.push({ ...label, reason: problem ?? 'Missing id' });
+          continue;
+        }
+        if (projects.some(project => project.id === label.id)) {
+          result.skipped.push({ ...label, reason: 'Already registered' });
+          continue;
+        }
+        const resolved = path.resolve(candidate.folderPath!);
+        if (projects.some(project => path.resolve(project.folderPath) === resolved)) {
+          result.skipped.push({ ...label, reason: `Folder already registered: ${candidate.folderPath}` });
+          continue;
+        }
+
+        const now = new Date().toISOString();
+        const project: Project = {
+          ...pickProjectFields(candidate as ProjectInput),
+          id: label.id,
+          createdAt: typeof candidate.createdAt === 'string' ? candidate.createdAt : now,
+          updatedAt: typeof candidate.updatedAt === 'string' ? candidate.updatedAt : now,
+        };
+        projects.push(project);
+        result.imported.push(project);
+      }
+
+      console.log(`[ProjectStore] 📥 Imported ${result.imported.length} project(s), skipped ${result.skipped.length}`);
+      return result;
+    });
+  }
+
+  private assertFolderAvailable(projects: Project[], folderPath: string, exceptId?: string): void {
+    const resolved = path.resolve(folderPath);
+    const existing = projects.find(project => project.id !== exceptId && path.resolve(project.folderPath) === resolved);
+    if (existing) {
+      throw new ProjectConflictError(`Folder already registered to project "${existing.name}" (${existing.id})`);
+    }
+  }
+
+  /**
+   * Apply a change to the registry and persist it. Changes are serialized and
+   * only kept in memory once the file has been written.
+   */
+  private async mutate<T>(change: (projects: Project[]) => Promise<T>): Promise<T> {
+    const next = this.writeChain.catch(() => undefined).then(async () => {
+      const projects = [...(await this.load())];
+      const result = await change(projects);
+      await writeJsonAtomic(this.registryPath, { projects });
+      this.projects = projects;
+      return result;
+    });
+    this.writeChain = next;
+    return next;
+  }
+
+  private async load(): Promise<Project[]> {
+    if (this.projects) return this.projects;
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.registryPath, 'utf8'));
+      this.projects = Array.isArray(parsed?.projects) ? parsed.projects : [];
+      console.log(`[ProjectStore] ✓ Loaded ${this.projects!.length} project(s) from ${this.registryPath}`);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        // Do not start from an empty list over an unreadable registry: the next write would erase it
+        throw new Error(`Could not read project registry ${this.registryPath}: ${error?.message ?? error}`);
+      }
+      this.projects = [];
+    }
+    return this.projects!;
+  }
+}
+
+/**
+ * Thrown when a project's folder is already registered to another project
+ */
+export class ProjectConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectConflictError';
+  }
+}
+
+/**
+ * Describe why a project body is invalid, or null when it is valid.
+ * With `partial`, missing fields are allowed (updates).
+ */
+export function validateProjectInput(input: any, partial: boolean): string | null {
+  if (!input || typeof input !== 'object') return 'Expected a project object';
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+  }
+  if (!partial || input.folderPath !== undefined) {
+    if (typeof input.folderPath !== 'string' || !path.isAbsolute(input.folderPath)) {
+      return 'folderPath must be an absolute path';
+    }
+  }
+  if (input.sourceType !== undefined && input.sourceType !== 'local') return 'sourceType must be "local"';
+  if (input.description !== undefined && typeof input.description !== 'string') return 'description must be a string';
+
+  const settings = input.settings;
+  if (settings === undefined) return null;
+  if (!settings || typeof settings !== 'object') return 'settings must be an object';
+
+  for (const key of ['topKProcedures', 'topKContext'] as const) {
+    const value = settings[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) return `settings.${key} must be a non-negative integer`;
+  }
+  if (settings.primaryContextPath !== undefined &&
+      (typeof settings.primaryContextPath !== 'string' || !path.isAbsolute(settings.primaryContextPath))) {
+    return 'settings.primaryContextPath must be an absolute path';
+  }
+  if (settings.modelAssignments !== undefined) {
+    if (!settings.modelAssignments || typeof settings.modelAssignments !== 'object') {
+      return 'settings.modelAssignments must be an object';
+    }
+    for (const [role, modelId] of Object.entries(settings.modelAssignments)) {
+      if (!MODEL_ROLES.includes(role as ProjectModelRole)) return `Unknown model role: ${role} (expected ${MODEL_ROLES.join(', ')})`;
+      if (typeof modelId !== 'string' || !modelId.trim()) return `settings.modelAssignments.${role} must be a model id`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Generation settings for a project folder: request options over the
+ * registered project's defaults, and the primary context to use
+ * (the project's override, else PRIMARY_CONTEXT_PATH or the default).
+ */
+export async function resolveProjectGenerationSettings(
+  projectPath: string,
+  options?: GenerationOptions
+): Promise<{ options?: GenerationOptions; primaryContextPath: string; modelAssignments?: ProjectSettings['modelAssignments'] }> {
+  let project: Project | null = null;
+  try {
+    project = await getProjectStore().findByFolderPath(projectPath);
+  } catch (error) {
+    console.warn('[ProjectStore] ⚠️  Project registry unavailable, using request options only:', error);
+  }
+
+  const settings = project?.settings;
+  if (!settings) return { options, primaryContextPath: getPrimaryContextPath() };
+
+  const defaults: GenerationOptions = {};
+  if (settings.topKProcedures !== undefined) defaults.topKProcedures = settings.topKProcedures;
+  if (settings.topKContext !== undefined) defaults.topKContext = settings.topKContext;
+
+  console.log(`[ProjectStore] ⚙️  Applying settings of project "${project!.name}"`);
+  return {
+    options: { ...defaults, ...stripUndefined(options ?? {}) },
+    primaryContextPath: settings.primaryContextPath || getPrimaryContextPath(),
+    modelAssignments: settings.modelAssignments,
+  };
+}
+
+function pickProjectFields(input: Partial<ProjectInput>): ProjectInput {
+  const fields: Partial<ProjectInput> = {};
+  if (input.name !== undefined) fields.name = input.name.trim();
+  if (input.description !== undefined) fields.description = input.description;
+  if (input.folderPath !== undefined) fields.folderPath = input.folderPath;
+  if (input.lastAnalysis !== undefined) fields.lastAnalysis = input.lastAnalysis;
+  if (input.settings !== undefined) fields.settings = input.settings;
+  return { ...fields, sourceType: 'local' } as ProjectInput;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function generateId(): string {
+  return `project_${Date.now()}_${crypto.randomBytes(5).toString('hex')}`;
+}
+
+// Singleton instance
+let projectStoreInstance: ProjectStore | null = null;
+
+/**
+ * Get or create the ProjectStore singleton.
+ * The registry file comes from PROJECT_REGISTRY_PATH (default: src/api-server/data/projects.json).
+ */
+export function getProjectStore(): ProjectStore {
+  if (!projectStoreInstance) {
+    projectStoreInstance = new ProjectStore(
+      process.env.PROJECT_REGISTRY_PATH || path.join(__dirname, '../data/projects.json')
+    );
+  }
+  return projectStoreInstance;
+}
@@ -0,0 +1,57 @@
+/**
+ * Prompt Linting
+ * Runs the rag-service prompt linter against a project: Master Record fields
+ * come from `[projectPath]/Context`, bootstrap references are looked up the
+ * way generation resolves them.
+ */
+
+import * as path from 'path';
+import { DocumentLoader, lintPrompt } from '@phaser/rag-service';
+import { PromptLintResult } from '@phaser/shared-types';
+import { readPromptFile } from './generation-settings';
+import { resolveProjectGenerationSettings } from './project-store';
+
+export async function lintProjectPrompt(
+  projectPath: string,
+  prompt: { text?: string; filePath?: string }
+): Promise<PromptLintResult> {
+  let text: string;
+  if (prompt.text !== undefined) {
+    text = prompt.text;
+  } else if (prompt.filePath) {
+    const content = await readPromptFile(prompt.filePath);
+    text = path.extname(prompt.filePath).toLowerCase() === '.docx' ? htmlToPlainText(content) : content;
+  } else {
+    throw new Error('Either prompt or promptFilePath is required');
+  }
+
+  const loader = new DocumentLoader();
+  const primaryContext = await loader.loadPrimaryContext((await resolveProjectGenerationSettings(projectPath)).primaryContextPath);
+  const contextPath = path.join(projectPath, 'Context');
+  const masterRecord = await loader.loadMasterRecordFields(contextPath);
+
+  const issues = await lintPrompt(text, primaryContext, {
+    masterRecordFields: masterRecord?.fields ?? null,
+    bootstrapExists: async name => (await loader.findBootstrapCandidates(contextPath, name)).length > 0,
+  });
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  console.log(`[PromptLint] ${prompt.filePath ?? 'inline prompt'}: ${errors} error(s), ${issues.length - errors} warning(s)`);
+
+  return { text, issues, counts: { errors, warnings: issues.length - errors } };
+}
+
+/**
+ * Reduce mammoth HTML to text, one line per block, so positions are meaningful
+ */
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/(p|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trimEnd();
+}
@@ -0,0 +1,445 @@
+/**
+ * Review Store
+ * Generated drafts moving through electronic review:
+ * draft → in_review → approved | rejected (a rejected draft can be reopened).
+ *
+ * - One JSON file per review in REVIEWS_PATH (default:
+ *   src/api-server/data/reviews/). Writes are serialized per review and atomic.
+ * - Every action is written to the audit log before the review is saved, so
+ *   no state change exists without its audit entry.
+ * - Comments are anchored to paragraphs (blocks separated by blank lines) and
+ *   keep the paragraph text they were made on.
+ * - Approval stores the signature together with a frozen copy of the content,
+ *   references and pipeline trace; an approved review can no longer change.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  AuthenticatedUser,
+  GenerationRun,
+  Review,
+  ReviewAction,
+  ReviewParticipant,
+  ReviewSignature,
+  ReviewStatus,
+  ReviewSummary,
+  SignatureMeaning,
+} from '@phaser/shared-types';
+import { getAuditLog } from './audit-log';
+import { writeJsonAtomic } from './json-file';
+
+export const SIGNATURE_MEANINGS: SignatureMeaning[] = ['authorship', 'review', 'approval', 'responsibility'];
+
+export class ReviewStore {
+  /** Per-review write chains; creation uses the "" chain */
+  private writeChains: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private reviewsDir: string) {}
+
+  /**
+   * Review summaries, most recently updated first
+   */
+  async list(filter: { projectPath?: string; status?: ReviewStatus } = {}): Promise<ReviewSummary[]> {
+    const reviews = await this.readAll();
+    return reviews
+      .filter(review => !filter.projectPath || path.resolve(review.projectPath) === path.resolve(filter.projectPath))
+      .filter(review => !filter.status || review.status === filter.status)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(toSummary);
+  }
+
+  async get(id: string): Promise<Review | null> {
+    // Review ids are UUIDs; anything else cannot name a review file
+    if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.reviewPath(id), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Start a review from a recorded generation run. Throws ReviewStateError if
+   * the run has no content and ReviewConflictError if it is already under review.
+   */
+  async create(run: GenerationRun, actor: AuthenticatedUser): Promise<Review> {
+    if (run.output.status !== 'complete' || !run.output.generatedContent?.trim()) {
+      throw new ReviewStateError('Only completed runs with generated content can be reviewed');
+    }
+
+    return this.withLock('', async () => {
+      const existing = (await this.readAll()).find(review => review.runId === run.id);
+      if (existing) {
+        throw new ReviewConflictError(`Run already has review ${existing.id} (${existing.status})`);
+      }
+
+      const now = new Date().toISOString();
+      const content = run.output.generatedContent!;
+      const review: Review = {
+        id: crypto.randomUUID(),
+        projectPath: run.projectPath,
+        promptFilePath: run.promptFilePath,
+        promptName: run.promptName,
+        runId: run.id,
+        status: 'draft',
+        revision: 1,
+        content,
+        contentHash: sha256(content),
+        references: run.output.references ?? [],
+        pipelineTrace: run.output.pipelineTrace ?? [],
+        createdBy: toParticipant(actor),
+        createdAt: now,
+        updatedAt: now,
+        comments: [],
+        history: [],
+      };
+      await this.commit(review, actor, 'created');
+      console.log(`[ReviewStore] ➕ Created review ${review.id} (${review.promptName}) from run ${run.id}`);
+      return review;
+    });
+  }
+
+  /**
+   * Replace the draft text. Only while the status is "draft".
+   */
+  async updateContent(id: string, actor: AuthenticatedUser, content: string): Promise<Review | null> {
+    return this.mutate(id, async review => {
+      requireStatus(review, ['draft'], 'edited');
+      if (!content.trim()) throw new ReviewInputError('content must not be empty');
+      if (content === review.content) return null;
+      review.content = content;
+      review.contentHash = sha256(content);
+      return { action: 'edited' };
+    }, actor);
+  }
+
+  async submit(id: string, actor: AuthenticatedUser, note?: string): Promise<Review | null> {
+    return this.mutate(id, async review => {
+      requireStatus(review, ['draft'], 'submitted');
+      review.status = 'in_review';
+      return { action: 'submitted', note };
+    }, actor);
+  }
+
+  /**
+   * Comment on a paragraph of the current content. Not possible once a decision was made.
+   */
+  async addComment(
+    id: string,
+    actor: AuthenticatedUser,
+    input: { paragraphIndex: number; text: string }
+  ): Promise<Review | null> {
+    return this.mutate(id, async review => {
+      if (review.status !== 'draft' && review.status !== 'in_review') {
+        throw new ReviewStateError(`Cannot comment on a review that is ${review.status}`);
+      }
+      const paragraphs = splitParagraphs(review.content);
+      if (!Number.isInteger(input.paragraphIndex) || input.paragraphIndex < 0 || input.paragraphIndex >= paragraphs.length) {
+        throw new ReviewInputError(`paragraphIndex must be between 0 and ${paragraphs.length - 1}`);
+      }
+      review.comments.push({
+        id: crypto.randomUUID(),
+        paragraphIndex: input.paragraphIndex,
+        quote: paragraphs[input.paragraphIndex],
+        revision: review.revision,
+        text: input.text.trim(),
+        author: toParticipant(actor),
+        createdAt: new Date().toISOString(),
+      });
+      return null;
+    });
+  }
+
+  /**
+   * Mark a comment resolved or open again. Returns null if the review or comment does not exist.
+   */
+  async resolveComment(id: string, commentId: string, actor: AuthenticatedUser, resolved: boolean): Promise<Review | null> {
+    let found = true;
+    const review = await this.mutate(id, async current => {
+      const comment = current.comments.find(candidate => candidate.id === commentId);
+      if (!comment) {
+        found = false;
+        return null;
+      }
+      if (resolved) {
+        comment.resolvedBy = toParticipant(actor);
+        comment.resolvedAt = new Date().toISOString();
+      } else {
+        delete comment.resolvedBy;
+        delete comment.resolvedAt;
+      }
+      return null;
+    });
+    return found ? review : null;
+  }
+
+  /**
+   * Approve and sign the draft under review. The signer's identity must have
+   * been verified by the caller (`verifiedBy`). Unless `allowSelfApproval`,
+   * nobody who created, edited or submitted the draft, in any revision,
+   * can approve it.
+   */
+  async approve(
+    id: string,
+    signer: AuthenticatedUser,
+    meaning: SignatureMeaning,
+    options: { verifiedBy: ReviewSignature['verifiedBy']; allowSelfApproval: boolean }
+  ): Promise<Review | null> {
+    return this.mutate(id, async review => {
+      requireStatus(review, ['in_review'], 'approved');
+      if (!options.allowSelfApproval) {
+        if (contributors(review).some(contributor => contributor.id === signer.id)) {
+          throw new ReviewPermissionError('The creator, an editor or a submitter of a draft cannot approve it');
+        }
+      }
+
+      const signature: ReviewSignature = {
+        signer: { ...toParticipant(signer), role: signer.role },
+        meaning,
+        signedAt: new Date().toISOString(),
+        contentHash: review.contentHash,
+        verifiedBy: options.verifiedBy,
+      };
+      review.status = 'approved';
+      review.approvedVersion = {
+        revision: review.revision,
+        content: review.content,
+        contentHash: review.contentHash,
+        references: review.references,
+        pipelineTrace: review.pipelineTrace,
+        signature,
+      };
+      return { action: 'approved', signature };
+    }, signer);
+  }
+
+  async reject(id: string, actor: AuthenticatedUser, reason: string): Promise<Review | null> {
+    return this.mutate(id, async review => {
+      requireStatus(review, ['in_review'], 'rejected');
+      review.status = 'rejected';
+      return { action: 'rejected', note: reason };
+    }, actor);
+  }
+
+  /**
+   * Turn a rejected draft back into an editable draft, as a new revision
+   */
+  async reopen(id: string, actor: AuthenticatedUser): Promise<Review | null> {
+    return this.mutate(id, async review => {
+      requireStatus(review, ['rejected'], 'reopened');
+      review.status = 'draft';
+      review.revision += 1;
+      return { action: 'reopened' };
+    }, actor);
+  }
+
+  /**
+   * Apply a change to one review and save it. When the change returns an
+   * action, it is added to the history and the audit log first. Approved
+   * reviews are frozen.
+   */
+  private async mutate(
+    id: string,
+    change: (review: Review) => Promise<{ action: ReviewAction; note?: string; signature?: ReviewSignature } | null>,
+    actor?: AuthenticatedUser
+  ): Promise<Review | null> {
+    return this.withLock(id, async () => {
+      const review = await this.get(id);
+      if (!review) return null;
+      if (review.status === 'approved') {
+        throw new ReviewStateError('Approved reviews are frozen and cannot be changed');
+      }
+
+      const result = await change(review);
+      review.updatedAt = new Date().toISOString();
+      if (result && actor) {
+        await this.commit(review, actor, result.action, result.note, result.signature);
+      } else {
+        await writeJsonAtomic(this.reviewPath(review.id), review);
+      }
+      return review;
+    });
+  }
+
+  /**
+   * Record an action in the history and the audit log, then save the review
+   */
+  private async commit(
+    review: Review,
+    actor: AuthenticatedUser,
+    action: ReviewAction,
+    note?: string,
+    signature?: ReviewSignature
+  ): Promise<void> {
+    review.history.push({
+      action,
+      actor: toParticipant(actor),
+      at: review.updatedAt,
+      revision: review.revision,
+      ...(note ? { note } : {}),
+    });
+    await getAuditLog().appendReview(actor, {
+      projectPath: review.projectPath,
+      promptFilePath: review.promptFilePath,
+      reviewId: review.id,
+      runId: review.runId,
+      action,
+      revision: review.revision,
+      status: review.status,
+      contentHash: review.contentHash,
+      ...(signature ? { signature: { meaning: signature.meaning, signedAt: signature.signedAt, verifiedBy: signature.verifiedBy } } : {}),
+      ...(note ? { note } : {}),
+    });
+    await writeJsonAtomic(this.reviewPath(review.id), review);
+  }
+
+  private async readAll(): Promise<Review[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.reviewsDir)).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const reviews: Review[] = [];
+    for (const file of files) {
+      try {
+        reviews.push(JSON.parse(await fs.readFile(path.join(this.reviewsDir, file), 'utf8')));
+      } catch (error) {
+        console.warn(`[ReviewStore] ⚠️  Skipping unreadable review file ${file}:`, error);
+      }
+    }
+    return reviews;
+  }
+
+  private reviewPath(id: string): string {
+    return path.join(this.reviewsDir, `${id}.json`);
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeChains.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeChains.set(key, next);
+    try {
+      return await next;
+    } finally {
+      if (this.writeChains.get(key) === next) this.writeChains.delete(key);
+    }
+  }
+}
+
+/**
+ * Thrown when an action is not allowed in the review's current status
+ */
+export class ReviewStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewStateError';
+  }
+}
+
+/**
+ * Thrown when a generation run is already under review
+ */
+export class ReviewConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewConflictError';
+  }
+}
+
+/**
+ * Thrown when the user may not perform an action on this review
+ */
+export class ReviewPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewPermissionError';
+  }
+}
+
+/**
+ * Thrown for invalid input that can only be checked against the review
+ */
+export class ReviewInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewInputError';
+  }
+}
+
+/**
+ * Paragraphs comments can be anchored to: blocks of text separated by blank lines
+ */
+export function splitParagraphs(content: string): string[] {
+  return content.split(/\n[ \t]*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph.length > 0);
+}
+
+function requireStatus(review: Review, allowed: ReviewStatus[], action: ReviewAction): void {
+  if (!allowed.includes(review.status)) {
+    throw new ReviewStateError(`Cannot mark a review ${action} while it is ${review.status} (expected ${allowed.join(' or ')})`);
+  }
+}
+
+/**
+ * Everyone who wrote or put forward the draft's content: its creator and every
+ * editor and submitter in its history. Approved reviews are frozen, so the
+ * whole history leads up to the content being approved.
+ */
+function contributors(review: Review): ReviewParticipant[] {
+  return [
+    review.createdBy,
+    ...review.history
+      .filter(event => event.action === 'edited' || event.action === 'submitted')
+      .map(event => event.actor),
+  ];
+}
+
+function toParticipant(user: AuthenticatedUser): ReviewParticipant {
+  return {
+    id: user.id,
+    username: user.username,
+    ...(user.displayName ? { displayName: user.displayName } : {}),
+  };
+}
+
+function toSummary(review: Review): ReviewSummary {
+  return {
+    id: review.id,
+    projectPath: review.projectPath,
+    promptFilePath: review.promptFilePath,
+    promptName: review.promptName,
+    runId: review.runId,
+    status: review.status,
+    revision: review.revision,
+    createdBy: review.createdBy,
+    createdAt: review.createdAt,
+    updatedAt: review.updatedAt,
+    openComments: review.comments.filter(comment => !comment.resolvedAt).length,
+    ...(review.approvedVersion ? { signature: review.approvedVersion.signature } : {}),
+  };
+}
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// Singleton instance
+let reviewStoreInstance: ReviewStore | null = null;
+
+/**
+ * Get or create the ReviewStore singleton.
+ * Reviews are stored in REVIEWS_PATH (default: src/api-server/data/reviews/).
+ */
+export function getReviewStore(): ReviewStore {
+  if (!reviewStoreInstance) {
+    reviewStoreInstance = new ReviewStore(
+      process.env.REVIEWS_PATH || path.join(__dirname, '../data/reviews')
+    );
+  }
+  return reviewStoreInstance;
+}
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { requireRole } from '../auth';
+import { checkRequestPaths } from '../project-roots';
+import { getAuditLog } from '../audit-log';
+
+const router = Router();
+
+/**
+ * GET /api/audit?projectPath=...&limit=...
+ * Admin: audit log entries, newest first, optionally for one project
+ */
+router.get('/audit', requireRole('admin'), async (req, res) => {
+  const projectPath = req.query.projectPath as string | undefined;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+  if (projectPath && !(await checkRequestPaths(res, { projectPath }))) return;
+
+  try {
+    const entries = await getAuditLog().list({ projectPath, limit });
+    res.json({ entries });
+  } catch (error) {
+    console.error('[API /audit] ❌ Could not read audit log:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/audit/verify
+ * Admin: check the hash chain. 200 with an AuditVerificationResult when the
+ * log is intact, 409 with the first broken entry when it is not.
+ */
+router.get('/audit/verify', requireRole('admin'), async (req, res) => {
+  try {
+    const result = await getAuditLog().verify();
+    if (!result.valid) {
+      console.error(`[API /audit/verify] ❌ Audit log verification failed at line ${result.error?.line}: ${result.error?.reason}`);
+    }
+    res.status(result.valid ? 200 : 409).json(result);
+  } catch (error) {
+    console.error('[API /audit/verify] ❌ Could not verify audit log:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,203 @@
+import { Router, Response } from 'express';
+import { LoginRequest, LoginResponse } from '@phaser/shared-types';
+import { getAuthMode, issueSessionToken, requireRole, toAuthenticatedUser } from '../auth';
+import { getUserStore, validateUserInput, LastAdminError, UserConflictError } from '../user-store';
+
+const router = Router();
+
+/**
+ * GET /api/auth/config
+ * Public: whether the UI needs to sign in.
+ */
+router.get('/auth/config', (_req, res) => {
+  res.json({ mode: getAuthMode() });
+});
+
+/**
+ * POST /api/auth/login
+ * Exchange a username and password for a session token.
+ */
+router.post('/auth/login', async (req, res) => {
+  const { username, password } = (req.body ?? {}) as LoginRequest;
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Missing required fields: username, password' });
+  }
+
+  try {
+    const user = await getUserStore().verifyPassword(username, password);
+    if (!user) {
+      console.warn(`[API /auth/login] ⛔ Failed sign-in for "${username}"`);
+      return res.status(401).json({ status: 'error', error: 'Invalid username or password', code: 'AUTH_INVALID' });
+    }
+    const session = await issueSessionToken(user);
+    console.log(`[API /auth/login] ✓ ${user.username} signed in`);
+    const response: LoginResponse = { ...session, user: toAuthenticatedUser(user, 'session') };
+    res.json(response);
+  } catch (error) {
+    sendError(res, 'POST /auth/login', error);
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * The authenticated caller.
+ */
+router.get('/auth/me', (req, res) => {
+  res.json(req.user);
+});
+
+/**
+ * POST /api/auth/password
+ * Change the caller's own password. Ends the caller's other sessions.
+ */
+router.post('/auth/password', async (req, res) => {
+  const { currentPassword, newPassword } = req.body ?? {};
+  const problem = validateUserInput({ password: newPassword }, true);
+  if (typeof currentPassword !== 'string' || problem) {
+    return res.status(400).json({ error: problem ?? 'Missing required field: currentPassword' });
+  }
+
+  try {
+    const store = getUserStore();
+    if (!(await store.verifyPassword(req.user!.username, currentPassword))) {
+      return res.status(403).json({ status: 'error', error: 'Current password is incorrect', code: 'FORBIDDEN' });
+    }
+    const user = await store.update(req.user!.id, { password: newPassword });
+    res.json(await issueSessionToken(user!));
+  } catch (error) {
+    sendError(res, 'POST /auth/password', error);
+  }
+});
+
+/**
+ * GET /api/auth/tokens
+ * The caller's API tokens (without secrets).
+ */
+router.get('/auth/tokens', async (req, res) => {
+  try {
+    const user = await getUserStore().get(req.user!.id);
+    res.json({ tokens: user?.tokens ?? [] });
+  } catch (error) {
+    sendError(res, 'GET /auth/tokens', error);
+  }
+});
+
+/**
+ * POST /api/auth/tokens
+ * Issue an API token for the caller: { name, expiresInDays? }.
+ * The token has the caller's role and is only shown in this response.
+ */
+router.post('/auth/tokens', async (req, res) => {
+  const { name, expiresInDays } = req.body ?? {};
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'Missing required field: name' });
+  }
+  if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays <= 0)) {
+    return res.status(400).json({ error: 'expiresInDays must be a positive integer' });
+  }
+
+  try {
+    const created = await getUserStore().createToken(req.user!.id, name.trim(), expiresInDays);
+    if (!created) {
+      return res.status(400).json({ error: 'API tokens require a local user account' });
+    }
+    res.status(201).json(created);
+  } catch (error) {
+    sendError(res, 'POST /auth/tokens', error);
+  }
+});
+
+/**
+ * DELETE /api/auth/tokens/:id
+ * Revoke one of the caller's API tokens.
+ */
+router.delete('/auth/tokens/:id', async (req, res) => {
+  try {
+    if (!(await getUserStore().revokeToken(req.user!.id, req.params.id))) {
+      return res.status(404).json({ error: `Token not found: ${req.params.id}` });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, 'DELETE /auth/tokens/:id', error);
+  }
+});
+
+/**
+ * GET /api/auth/users
+ * Admin: all local users.
+ */
+router.get('/auth/users', requireRole('admin'), async (_req, res) => {
+  try {
+    res.json({ users: await getUserStore().list() });
+  } catch (error) {
+    sendError(res, 'GET /auth/users', error);
+  }
+});
+
+/**
+ * POST /api/auth/users
+ * Admin: create a user { username, password, role, displayName? }.
+ */
+router.post('/auth/users', requireRole('admin'), async (req, res) => {
+  const problem = validateUserInput(req.body, false);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+
+  try {
+    const { username, password, role, displayName } = req.body;
+    res.status(201).json(await getUserStore().create({ username, password, role, displayName }));
+  } catch (error) {
+    sendError(res, 'POST /auth/users', error);
+  }
+});
+
+/**
+ * PUT /api/auth/users/:id
+ * Admin: change a user's role, display name or password, or disable it.
+ */
+router.put('/auth/users/:id', requireRole('admin'), async (req, res) => {
+  const problem = validateUserInput(req.body, true);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+
+  try {
+    const { password, role, displayName, disabled } = req.body;
+    const user = await getUserStore().update(req.params.id, { password, role, displayName, disabled });
+    if (!user) {
+      return res.status(404).json({ error: `User not found: ${req.params.id}` });
+    }
+    res.json(user);
+  } catch (error) {
+    sendError(res, 'PUT /auth/users/:id', error);
+  }
+});
+
+/**
+ * DELETE /api/auth/users/:id
+ * Admin: delete a user and its API tokens.
+ */
+router.delete('/auth/users/:id', requireRole('admin'), async (req, res) => {
+  try {
+    if (!(await getUserStore().delete(req.params.id))) {
+      return res.status(404).json({ error: `User not found: ${req.params.id}` });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, 'DELETE /auth/users/:id', error);
+  }
+});
+
+function sendError(res: Response, route: string, error: unknown) {
+  if (error instanceof UserConflictError || error instanceof LastAdminError) {
+    return res.status(409).json({ error: error.message });
+  }
+  console.error(`[API ${route}] ❌ User store error:`, error);
+  res.status(500).json({
+    status: 'error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { CacheManager } from '@phaser/rag-core';
+import { requireRole } from '../auth';
+import { checkRequestPaths } from '../project-roots';
+
+const router = Router();
+
+/**
+ * DELETE /api/cache?projectPath=...
+ * Admin: delete a project's knowledge cache (vector store, ANN index,
+ * summaries, metadata). The next generation re-ingests the project.
+ */
+router.delete('/cache', requireRole('admin'), async (req, res) => {
+  const projectPath = req.query.projectPath as string | undefined;
+  if (!projectPath) {
+    return res.status(400).json({ error: 'Missing required query parameter: projectPath' });
+  }
+  if (!(await checkRequestPaths(res, { projectPath }))) return;
+
+  try {
+    await new CacheManager().clearOldCache(projectPath);
+    console.log(`[API /cache] 🗑️  ${req.user?.username} cleared the cache of ${projectPath}`);
+    res.status(204).end();
+  } catch (error) {
+    console.error('[API /cache] ❌ Could not clear cache:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import * as path from 'path';
+import { GenerationOutput } from '@phaser/shared-types';
+import { getJobQueue } from '../job-queue';
+import { renderGenerationDocx, validateExportOutput, DOCX_MIME_TYPE } from '../docx-export';
+
+const router = Router();
+
+/**
+ * POST /api/export/docx
+ * Render a generation result as a Word document with footnotes, a
+ * confidence/discrepancy cover sheet and a references appendix.
+ *
+ * Body: either { output: GenerationOutput } (e.g. the /api/generate response)
+ * or { jobId } for a completed job, plus an optional { title }.
+ * A malformed output (see validateExportOutput) is rejected with 400.
+ */
+router.post('/export/docx', async (req, res) => {
+  try {
+    const { jobId, title } = req.body;
+    let output: GenerationOutput | undefined = req.body.output;
+    let promptName: string | undefined;
+
+    if (jobId) {
+      const job = getJobQueue().get(jobId);
+      if (!job) {
+        return res.status(404).json({ error: `Job not found: ${jobId}` });
+      }
+      if (job.status !== 'complete' || !job.result) {
+        return res.status(400).json({ error: `Job is ${job.status}; only completed jobs can be exported` });
+      }
+      output = job.result;
+      promptName = path.basename(job.promptFilePath, path.extname(job.promptFilePath));
+    }
+
+    if (!output) {
+      return res.status(400).json({
+        error: 'Missing required field: jobId or a completed output with generatedContent'
+      });
+    }
+    const problem = validateExportOutput(output);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const documentTitle = typeof title === 'string' && title.trim() ? title.trim() : promptName;
+    const buffer = await renderGenerationDocx(output, { title: documentTitle, promptName });
+    const fileName = `${slugify(documentTitle || 'generated-document')}.docx`;
+
+    console.log(`[API /export/docx] 📄 Exported ${fileName} (${buffer.length} bytes)`);
+    res.setHeader('Content-Type', DOCX_MIME_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(buffer);
+
+  } catch (error) {
+    console.error('[API /export/docx] ❌ Export failed:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'generated-document';
+}
+
+export default router;
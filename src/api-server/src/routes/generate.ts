@@ -1,25 +1,17 @@
 import { Router } from 'express';
-import { OrchestratorService } from '@phaser/orchestrator';
 import { ComprehensiveFileParser } from '@phaser/file-parser';
-import { EnhancedRAGService } from '@phaser/rag-service';
-import { GenerationOutput } from '@phaser/shared-types';
+import { GenerationProgressEvent } from '@phaser/shared-types';
+import { createOrchestrator } from '../generation';
+import { readPromptFile } from '../generation-settings';
 import * as path from 'path';
-import * as fs from 'fs/promises';
-
-/**
- * Minimal structural interface shared by OrchestratorService (single-model)
- * and MultiModelOrchestrator (multi-model pipeline).  TypeScript verifies that
- * both classes satisfy this shape at assignment time, even though they live in
- * different files and are never imported together at the top level.
- */
-interface IOrchestrator {
-  generateFromPrompt(input: {
-    projectPath: string;
-    primaryContextPath: string;
-    prompt: string;
-    options?: { topKProcedures?: number; topKContext?: number };
-  }): Promise<GenerationOutput>;
-}
+import * as crypto from 'crypto';
+import { resolveProjectGenerationSettings } from '../project-store';
+import { checkRequestPaths } from '../project-roots';
+import { requireRole } from '../auth';
+import { runBatchGeneration } from '../batch';
+import { ProjectBusyError } from '../job-queue';
+import { getHistoryStore } from '../history-store';
+import { getAuditLog } from '../audit-log';
 
 const router = Router();
 
@@ -27,9 +19,9 @@ const router = Router();
  * POST /api/generate
  * Generate text from a prompt using semantic RAG
  */
-router.post('/generate', async (req, res) => {
+router.post('/generate', requireRole('author'), async (req, res) => {
   try {
-    const { projectPath, promptFilePath, options } = req.body;
+    const { projectPath, promptFilePath } = req.body;
     
     // Validate input
     if (!projectPath || !promptFilePath) {
@@ -37,29 +29,12 @@ router.post('/generate', async (req, res) => {
         error: 'Missing required fields: projectPath, promptFilePath'
       });
     }
+    if (!(await checkRequestPaths(res, { projectPath, promptFilePath }))) return;
     
     // Read prompt file content
-    // Support both text files (.txt, .md) and Word documents (.docx)
     let prompt: string;
     try {
-      const ext = path.extname(promptFilePath).toLowerCase();
-      
-      if (ext === '.docx') {
-        console.log('[API /generate] Parsing Word document prompt (HTML mode for structure preservation)...');
-        const mammoth = await import('mammoth');
-        const buffer = await fs.readFile(promptFilePath);
-        const htmlResult = await mammoth.convertToHtml({ buffer });
-        
-        if (!htmlResult.value || htmlResult.value.trim().length === 0) {
-          throw new Error('Failed to parse .docx prompt file (empty HTML output)');
-        }
-        
-        prompt = htmlResult.value;
-        console.log(`[API /generate] ✓ Word document parsed as HTML (${prompt.length} chars, ${htmlResult.messages.length} warnings)`);
-      } else {
-        // Read as plain text for .txt, .md, etc.
-        prompt = await fs.readFile(promptFilePath, 'utf-8');
-      }
+      prompt = await readPromptFile(promptFilePath);
     } catch (error) {
       console.error('[API /generate] Failed to read prompt file:', error);
       return res.status(400).json({
@@ -67,9 +42,8 @@ router.post('/generate', async (req, res) => {
       });
     }
     
-    // Determine primaryContextPath (from env or default location)
-    const primaryContextPath = process.env.PRIMARY_CONTEXT_PATH || 
-      path.join(__dirname, '../../../rag-service/knowledge-base/context/primary-context.yaml');
+    const { options, primaryContextPath, modelAssignments } =
+      await resolveProjectGenerationSettings(projectPath, req.body.options);
     
     console.log(`\n[API /generate] ========================================`);
     console.log(`[API /generate] Prompt-based generation request`);
@@ -79,66 +53,9 @@ router.post('/generate', async (req, res) => {
     console.log(`[API /generate] Primary context: ${primaryContextPath}`);
     console.log(`[API /generate] ========================================\n`);
     
-    // Initialize services
-    const enhancedRAGService = new EnhancedRAGService();
-
     // Choose orchestrator based on LLM_MODE
     const llmMode = process.env.LLM_MODE || 'mock';
-    let orchestrator: IOrchestrator;
-
-    if (llmMode === 'multi-model') {
-      // ── New path: ModelRouter + MultiModelOrchestrator ──────────────────
-      console.log('[API /generate] Using multi-model pipeline (INGESTION → DRAFT → AUDIT → REVISION)');
-      const { createModelRouter } = await import('@phaser/llm-service');
-      const { MultiModelOrchestrator } = await import('@phaser/orchestrator');
-      const modelRouter = createModelRouter();
-      orchestrator = new MultiModelOrchestrator(enhancedRAGService, modelRouter, {
-        enableIngestionStep: process.env.ENABLE_INGESTION_STEP !== 'false',
-        enableAuditStep:     process.env.ENABLE_AUDIT_STEP     !== 'false',
-        enableRevisionStep:  process.env.ENABLE_REVISION_STEP  !== 'false',
-      });
-
-    } else {
-      // ── Existing single-model path (unchanged) ───────────────────────────
-      const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
-      const anthropicModel = process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307';
-      const mistralApiKey = process.env.MISTRAL_API_KEY;
-      const mistralModel = process.env.MISTRAL_MODEL || 'mistral-small-latest';
-      const groqApiKey = process.env.GROQ_API_KEY;
-      const groqModel = process.env.GROQ_MODEL || 'llama-3.1-8b-instant';
-      const ollamaModel = process.env.OLLAMA_MODEL || 'llama3.1:70b';
-      const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
-
-      let llmService: any;
-
-      if (llmMode === 'ollama') {
-        console.log(`[API /generate] Using Ollama with model: ${ollamaModel}`);
-        const { OllamaLLMService } = await import('@phaser/llm-service');
-        llmService = new OllamaLLMService(ollamaModel, { baseUrl: ollamaBaseUrl });
-
-      } else if (llmMode === 'mistral' && mistralApiKey) {
-        console.log(`[API /generate] Using Mistral AI (${mistralModel})`);
-        const { MistralLLMService } = await import('@phaser/llm-service');
-        llmService = new MistralLLMService(mistralApiKey, mistralModel);
-
-      } else if (llmMode === 'groq' && groqApiKey) {
-        console.log(`[API /generate] Using Groq LPU (${groqModel})`);
-        const { GroqLLMService } = await import('@phaser/llm-service');
-        llmService = new GroqLLMService(groqApiKey, groqModel);
-
-      } else if (llmMode === 'anthropic' && anthropicApiKey) {
-        console.log(`[API /generate] Using Anthropic Claude (${anthropicModel})`);
-        const { AnthropicLLMService } = await import('@phaser/llm-service');
-        llmService = new AnthropicLLMService(anthropicApiKey, anthropicModel);
-      } else {
-        console.log(`[API /generate] Using MOCK LLM Service`);
-        const { MockLLMService } = await import('@phaser/llm-service');
-        llmService = new MockLLMService();
-      }
-
-      // Create single-model orchestrator
-      orchestrator = new OrchestratorService(enhancedRAGService, llmService);
-    }
+    const orchestrator = await createOrchestrator(llmMode, undefined, modelAssignments);
     
     // Generate
     const result = await orchestrator.generateFromPrompt({
@@ -168,6 +85,31 @@ router.post('/generate', async (req, res) => {
     }
     console.log(`[API /generate] ========================================\n`);
     
+    // No audit entry, no output: the entry is written before the run is recorded
+    // (and readable through the history API) under the same id
+    const recordedOutput = { ...result, generatedContent: result.generatedContent?.trimStart() };
+    const runId = crypto.randomUUID();
+    await getAuditLog().appendGeneration({
+      actor: req.user,
+      projectPath,
+      promptFilePath,
+      prompt,
+      output: recordedOutput,
+      trigger: 'generate',
+      modelAssignments,
+      runId
+    });
+    // Record the run before responding so the dashboard history includes it
+    await getHistoryStore().record({
+      id: runId,
+      projectPath,
+      promptFilePath,
+      prompt,
+      output: recordedOutput,
+      trigger: 'generate',
+      modelAssignments
+    });
+    
     // Check if generation was successful
     if (result.status === 'error') {
       console.error('[API /generate] ❌ ERROR: Generation failed');
@@ -208,4 +150,204 @@ router.post('/generate', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/generate/stream
+ * Same request body as POST /api/generate, but responds with Server-Sent Events
+ * so the client can render progress while the pipeline runs.
+ *
+ * Every event is written as `event: <type>` + `data: <GenerationProgressEvent JSON>`.
+ * The stream always ends with exactly one terminal event: `complete` (carrying
+ * the full GenerationOutput, which may itself have status "error") or `error`.
+ * Validation failures before the stream opens return 400 JSON, as in /generate.
+ */
+router.post('/generate/stream', requireRole('author'), async (req, res) => {
+  const { projectPath, promptFilePath } = req.body;
+
+  // Validate input
+  if (!projectPath || !promptFilePath) {
+    return res.status(400).json({
+      error: 'Missing required fields: projectPath, promptFilePath'
+    });
+  }
+  if (!(await checkRequestPaths(res, { projectPath, promptFilePath }))) return;
+
+  // Read prompt file content
+  let prompt: string;
+  try {
+    prompt = await readPromptFile(promptFilePath);
+  } catch (error) {
+    console.error('[API /generate/stream] Failed to read prompt file:', error);
+    return res.status(400).json({
+      error: `Failed to read prompt file: ${promptFilePath}. Supported formats: .txt, .md, .docx`
+    });
+  }
+
+  // Before the SSE headers, so a failure is still a plain JSON error
+  let settings: Awaited<ReturnType<typeof resolveProjectGenerationSettings>>;
+  try {
+    settings = await resolveProjectGenerationSettings(projectPath, req.body.options);
+  } catch (error) {
+    console.error('[API /generate/stream] ❌ Failed to resolve project settings:', error);
+    return res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+  const { options, primaryContextPath, modelAssignments } = settings;
+
+  console.log(`\n[API /generate/stream] ========================================`);
+  console.log(`[API /generate/stream] Streaming generation request`);
+  console.log(`[API /generate/stream] Project: ${projectPath}`);
+  console.log(`[API /generate/stream] Prompt file: ${promptFilePath}`);
+  console.log(`[API /generate/stream] Prompt length: ${prompt.length} chars`);
+  console.log(`[API /generate/stream] ========================================\n`);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Disable response buffering when served behind Nginx
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // The pipeline keeps running if the client disconnects (the result is still
+  // paid for); we just stop writing to the closed socket.
+  let clientClosed = false;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      clientClosed = true;
+      console.log('[API /generate/stream] ⚠️  Client disconnected before completion');
+    }
+  });
+
+  const send = (event: GenerationProgressEvent) => {
+    if (clientClosed) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  try {
+    const llmMode = process.env.LLM_MODE || 'mock';
+    const orchestrator = await createOrchestrator(llmMode, undefined, modelAssignments);
+
+    const result = await orchestrator.generateFromPrompt({
+      projectPath,
+      primaryContextPath,
+      prompt,
+      options,
+      onProgress: send,
+    });
+
+    console.log(`[API /generate/stream] Generation complete — status: ${result.status}`);
+
+    const recordedOutput = { ...result, generatedContent: result.generatedContent?.trimStart() };
+    const runId = crypto.randomUUID();
+    await getAuditLog().appendGeneration({
+      actor: req.user,
+      projectPath,
+      promptFilePath,
+      prompt,
+      output: recordedOutput,
+      trigger: 'stream',
+      modelAssignments,
+      runId
+    });
+    await getHistoryStore().record({
+      id: runId,
+      projectPath,
+      promptFilePath,
+      prompt,
+      output: recordedOutput,
+      trigger: 'stream',
+      modelAssignments
+    });
+
+    if (result.status === 'complete' && (!result.generatedContent || result.generatedContent.trim().length === 0)) {
+      console.error('[API /generate/stream] ❌ ERROR: Generated text is empty or missing!');
+      send({
+        type: 'complete',
+        output: {
+          status: 'error',
+          message: 'Generated text is empty. This may indicate an issue with the LLM service.',
+          timestamp: new Date().toISOString(),
+          usageStats: result.usageStats
+        }
+      });
+    } else {
+      send({
+        type: 'complete',
+        output: {
+          ...result,
+          generatedContent: result.generatedContent?.trimStart()
+        }
+      });
+    }
+  } catch (error) {
+    console.error('[API /generate/stream] ❌ CAUGHT ERROR:', error);
+    send({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * POST /api/generate/batch
+ * Generate every prompt in [projectPath]/Prompts (or the listed subset) with a
+ * single knowledge cache pass and bounded concurrency.
+ * Responds with a BatchGenerationResult: status, confidence, tokens and cost per
+ * prompt plus totals. Individual prompt failures do not fail the request.
+ * 409 while a generation job for the project is running.
+ */
+router.post('/generate/batch', requireRole('author'), async (req, res) => {
+  const { projectPath, promptFilePaths, concurrency, options } = req.body;
+
+  // Validate input
+  if (!projectPath) {
+    return res.status(400).json({
+      error: 'Missing required field: projectPath'
+    });
+  }
+  if (promptFilePaths !== undefined &&
+      (!Array.isArray(promptFilePaths) || promptFilePaths.some((p: unknown) => typeof p !== 'string'))) {
+    return res.status(400).json({
+      error: 'promptFilePaths must be an array of file paths'
+    });
+  }
+  if (concurrency !== undefined && (typeof concurrency !== 'number' || concurrency < 1)) {
+    return res.status(400).json({
+      error: 'concurrency must be a positive number'
+    });
+  }
+  // Relative prompt paths are resolved against Prompts/ as in runBatchGeneration
+  const promptsDir = path.join(projectPath, 'Prompts');
+  if (!(await checkRequestPaths(res, {
+    projectPath,
+    promptFilePaths: promptFilePaths?.map((p: string) => path.isAbsolute(p) ? p : path.join(promptsDir, p)),
+  }))) return;
+
+  console.log(`\n[API /generate/batch] ========================================`);
+  console.log(`[API /generate/batch] Batch generation request`);
+  console.log(`[API /generate/batch] Project: ${projectPath}`);
+  console.log(`[API /generate/batch] Prompts: ${promptFilePaths ? promptFilePaths.length : 'all'}`);
+  console.log(`[API /generate/batch] ========================================\n`);
+
+  try {
+    const result = await runBatchGeneration({ projectPath, promptFilePaths, concurrency, options }, req.user);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ProjectBusyError) {
+      console.warn(`[API /generate/batch] ⏳ ${error.message}`);
+      return res.status(409).json({ status: 'error', error: error.message, code: 'PROJECT_BUSY' });
+    }
+    console.error('[API /generate/batch] ❌ CAUGHT ERROR:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
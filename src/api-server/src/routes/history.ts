@@ -0,0 +1,72 @@
+import { Router, Response } from 'express';
+import { getHistoryStore } from '../history-store';
+
+const router = Router();
+
+/**
+ * GET /api/history?projectPath=...&promptFilePath=...
+ * Recorded generation runs for a project (newest first), optionally for one
+ * prompt file. Summaries only; fetch a run by id for its full output.
+ */
+router.get('/history', async (req, res) => {
+  const projectPath = typeof req.query.projectPath === 'string' ? req.query.projectPath : undefined;
+  const promptFilePath = typeof req.query.promptFilePath === 'string' ? req.query.promptFilePath : undefined;
+
+  if (!projectPath) {
+    return res.status(400).json({ error: 'Missing required query parameter: projectPath' });
+  }
+
+  try {
+    res.json({ runs: await getHistoryStore().list(projectPath, promptFilePath) });
+  } catch (error) {
+    sendError(res, 'GET /history', error);
+  }
+});
+
+/**
+ * GET /api/history/diff?from=<runId>&to=<runId>
+ * Line diff of two runs' generated content.
+ */
+router.get('/history/diff', async (req, res) => {
+  const { from, to } = req.query;
+
+  if (typeof from !== 'string' || typeof to !== 'string') {
+    return res.status(400).json({ error: 'Missing required query parameters: from, to' });
+  }
+
+  try {
+    const diff = await getHistoryStore().diff(from, to);
+    if (!diff) {
+      return res.status(404).json({ error: `Run not found: ${from} or ${to}` });
+    }
+    res.json(diff);
+  } catch (error) {
+    sendError(res, 'GET /history/diff', error);
+  }
+});
+
+/**
+ * GET /api/history/:id
+ * One recorded run including its full GenerationOutput.
+ */
+router.get('/history/:id', async (req, res) => {
+  try {
+    const run = await getHistoryStore().get(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: `Run not found: ${req.params.id}` });
+    }
+    res.json(run);
+  } catch (error) {
+    sendError(res, 'GET /history/:id', error);
+  }
+});
+
+function sendError(res: Response, route: string, error: unknown) {
+  console.error(`[API ${route}] ❌ Generation history error:`, error);
+  res.status(500).json({
+    status: 'error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { getJobQueue } from '../job-queue';
+import { checkRequestPaths } from '../project-roots';
+import { requireRole } from '../auth';
+
+const router = Router();
+
+/**
+ * POST /api/jobs
+ * Enqueue an asynchronous generation (same body as POST /api/generate).
+ * Responds 202 with the queued job; poll GET /api/jobs/:id for the result.
+ */
+router.post('/jobs', requireRole('author'), async (req, res) => {
+  try {
+    const { projectPath, promptFilePath, options } = req.body;
+
+    // Validate input
+    if (!projectPath || !promptFilePath) {
+      return res.status(400).json({
+        error: 'Missing required fields: projectPath, promptFilePath'
+      });
+    }
+    if (!(await checkRequestPaths(res, { projectPath, promptFilePath }))) return;
+
+    const job = await getJobQueue().enqueue({ projectPath, promptFilePath, options, requestedBy: req.user });
+    res.status(202).json(job);
+
+  } catch (error) {
+    console.error('[API /jobs] ❌ Failed to enqueue job:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/jobs
+ * List jobs (newest first). Optional ?projectPath= filter.
+ * The list omits each job's result to keep the payload small.
+ */
+router.get('/jobs', (req, res) => {
+  const projectPath = typeof req.query.projectPath === 'string' ? req.query.projectPath : undefined;
+  const jobs = getJobQueue()
+    .list(projectPath)
+    .map(({ result, progress, ...summary }) => ({
+      ...summary,
+      resultStatus: result?.status
+    }));
+  res.json({ jobs });
+});
+
+/**
+ * GET /api/jobs/:id
+ * Job status, progress events and (once finished) the GenerationOutput.
+ */
+router.get('/jobs/:id', (req, res) => {
+  const job = getJobQueue().get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+  }
+  res.json(job);
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running job. 409 if the job has already finished.
+ */
+router.delete('/jobs/:id', requireRole('author'), async (req, res) => {
+  const job = await getJobQueue().cancel(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` });
+  }
+  if (job.status !== 'cancelled') {
+    return res.status(409).json({
+      error: `Job already ${job.status}; only queued or running jobs can be cancelled`,
+      job
+    });
+  }
+  res.json(job);
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { validateProjectMasterRecord } from '../master-record';
+import { checkRequestPaths } from '../project-roots';
+
+const router = Router();
+
+/**
+ * GET /api/master-record/validate?projectPath=...
+ * Validate the project's Master Record against the schema in primary-context.yaml
+ * and list the prompts whose [Master Record|FIELD] references have gaps.
+ */
+router.get('/master-record/validate', async (req, res) => {
+  const projectPath = typeof req.query.projectPath === 'string' ? req.query.projectPath : undefined;
+
+  if (!projectPath) {
+    return res.status(400).json({ error: 'Missing required query parameter: projectPath' });
+  }
+  if (!(await checkRequestPaths(res, { projectPath }))) return;
+
+  try {
+    res.json(await validateProjectMasterRecord(projectPath));
+  } catch (error) {
+    console.error('[API /master-record/validate] ❌ Validation failed:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
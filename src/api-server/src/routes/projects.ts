@@ -0,0 +1,217 @@
+import { Router, Request, Response } from 'express';
+import * as path from 'path';
+import { ProjectImportResult } from '@phaser/shared-types';
+import { getProjectStore, validateProjectInput, ProjectConflictError } from '../project-store';
+import { checkRequestPaths, getConfiguredProjectRoots, PathAccessError, resolveAllowedPath } from '../project-roots';
+import { hasRole, requireRole } from '../auth';
+
+const router = Router();
+
+/**
+ * GET /api/projects
+ * All registered projects, most recently updated first.
+ */
+router.get('/projects', async (_req, res) => {
+  try {
+    res.json({ projects: await getProjectStore().list() });
+  } catch (error) {
+    sendError(res, 'GET /projects', error);
+  }
+});
+
+/**
+ * GET /api/project-roots
+ * Where project folders may live. `configured` is false when PROJECT_ROOTS is
+ * unset, in which case only admins can register project folders and only
+ * registered project folders are accessible.
+ */
+router.get('/project-roots', (_req, res) => {
+  const roots = getConfiguredProjectRoots();
+  res.json({ configured: roots !== null, roots: roots ?? [] });
+});
+
+/**
+ * POST /api/projects/import
+ * One-time import of projects a browser kept in localStorage. Ids are kept;
+ * entries already registered (by id or folder) or whose folder is outside
+ * PROJECT_ROOTS are skipped. Settings are dropped unless the caller is an admin.
+ */
+router.post('/projects/import', requireRole('author'), async (req, res) => {
+  const projects = req.body?.projects;
+  if (!Array.isArray(projects)) {
+    return res.status(400).json({ error: 'Missing required field: projects (array)' });
+  }
+  if (!checkRegistrationAccess(req, res)) return;
+  const entries = hasRole(req.user, 'admin')
+    ? projects
+    : projects.map(entry => (entry && typeof entry === 'object' ? { ...entry, settings: undefined } : entry));
+
+  try {
+    const allowed: unknown[] = [];
+    const outsideRoots: ProjectImportResult['skipped'] = [];
+    for (const entry of entries) {
+      const reason = await folderPathProblem(entry?.folderPath);
+      if (reason) {
+        outsideRoots.push({
+          id: typeof entry.id === 'string' ? entry.id : undefined,
+          name: typeof entry.name === 'string' ? entry.name : undefined,
+          reason,
+        });
+      } else {
+        allowed.push(entry);
+      }
+    }
+
+    const result = await getProjectStore().import(allowed);
+    res.json({ ...result, skipped: [...outsideRoots, ...result.skipped] });
+  } catch (error) {
+    sendError(res, 'POST /projects/import', error);
+  }
+});
+
+/**
+ * GET /api/projects/:id
+ */
+router.get('/projects/:id', async (req, res) => {
+  try {
+    const project = await getProjectStore().get(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: `Project not found: ${req.params.id}` });
+    }
+    res.json(project);
+  } catch (error) {
+    sendError(res, 'GET /projects/:id', error);
+  }
+});
+
+/**
+ * POST /api/projects
+ * Register a project (ProjectInput). Only admins can set `settings`.
+ */
+router.post('/projects', requireRole('author'), async (req, res) => {
+  const problem = validateProjectInput(req.body, false);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+  if (!checkSettingsAccess(req, res)) return;
+  if (!(await checkFolderPath(req, res, req.body.folderPath))) return;
+
+  try {
+    res.status(201).json(await getProjectStore().create(req.body));
+  } catch (error) {
+    sendError(res, 'POST /projects', error);
+  }
+});
+
+/**
+ * PUT /api/projects/:id
+ * Update the given fields of a project. `settings` replaces the stored
+ * settings and requires the admin role.
+ */
+router.put('/projects/:id', requireRole('author'), async (req, res) => {
+  const problem = validateProjectInput(req.body, true);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+  if (!checkSettingsAccess(req, res)) return;
+
+  try {
+    // Re-sending the current folder is not a move
+    const current = await getProjectStore().get(req.params.id);
+    const folderPath = current && typeof req.body.folderPath === 'string' &&
+      path.resolve(req.body.folderPath) === path.resolve(current.folderPath)
+      ? undefined
+      : req.body.folderPath;
+    if (!(await checkFolderPath(req, res, folderPath))) return;
+
+    const project = await getProjectStore().update(req.params.id, req.body);
+    if (!project) {
+      return res.status(404).json({ error: `Project not found: ${req.params.id}` });
+    }
+    res.json(project);
+  } catch (error) {
+    sendError(res, 'PUT /projects/:id', error);
+  }
+});
+
+/**
+ * DELETE /api/projects/:id
+ * Remove a project from the registry; files on disk are not touched.
+ */
+router.delete('/projects/:id', requireRole('admin'), async (req, res) => {
+  try {
+    const deleted = await getProjectStore().delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: `Project not found: ${req.params.id}` });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, 'DELETE /projects/:id', error);
+  }
+});
+
+/**
+ * With PROJECT_ROOTS configured, a project folder must lie inside one of them.
+ * Without it, registering a project is what makes its folder accessible, so
+ * only admins may register or move one.
+ */
+async function checkFolderPath(req: Request, res: Response, folderPath: unknown): Promise<boolean> {
+  if (folderPath === undefined) return true;
+  if (!checkRegistrationAccess(req, res)) return false;
+  if (!getConfiguredProjectRoots()) return true;
+  return checkRequestPaths(res, { folderPath });
+}
+
+function checkRegistrationAccess(req: Request, res: Response): boolean {
+  if (getConfiguredProjectRoots() || hasRole(req.user, 'admin')) return true;
+  res.status(403).json({
+    status: 'error',
+    error: 'Registering a project folder requires the admin role while PROJECT_ROOTS is not set',
+    code: 'FORBIDDEN',
+    requiredRole: 'admin',
+  });
+  return false;
+}
+
+/**
+ * Why an imported folder may not be registered, or null if it may. Malformed
+ * entries are left to the registry's own validation.
+ */
+async function folderPathProblem(folderPath: unknown): Promise<string | null> {
+  if (typeof folderPath !== 'string' || !getConfiguredProjectRoots()) return null;
+  try {
+    await resolveAllowedPath(folderPath, 'folderPath');
+    return null;
+  } catch (error) {
+    if (error instanceof PathAccessError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * Project settings choose models and context for everyone generating in the
+ * folder, so changing them is reserved to admins.
+ */
+function checkSettingsAccess(req: Request, res: Response): boolean {
+  if (req.body.settings === undefined || hasRole(req.user, 'admin')) return true;
+  res.status(403).json({
+    status: 'error',
+    error: 'Changing project settings requires the admin role',
+    code: 'FORBIDDEN',
+    requiredRole: 'admin',
+  });
+  return false;
+}
+
+function sendError(res: Response, route: string, error: unknown) {
+  if (error instanceof ProjectConflictError) {
+    return res.status(409).json({ error: error.message });
+  }
+  console.error(`[API ${route}] ❌ Project registry error:`, error);
+  res.status(500).json({
+    status: 'error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
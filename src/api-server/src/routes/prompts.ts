@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import * as fs from 'fs/promises';
+import { PromptLintRequest } from '@phaser/shared-types';
+import { lintProjectPrompt } from '../prompt-lint';
+import { checkRequestPaths } from '../project-roots';
+
+const router = Router();
+
+/**
+ * POST /api/prompts/lint
+ * Report bracket-notation references and @scopes in a prompt that would not
+ * resolve for the project, with line/column positions.
+ * A promptFilePath that does not exist gives 404.
+ */
+router.post('/prompts/lint', async (req, res) => {
+  const { projectPath, prompt, promptFilePath } = (req.body ?? {}) as PromptLintRequest;
+
+  if (!projectPath) {
+    return res.status(400).json({ error: 'Missing required field: projectPath' });
+  }
+  if (typeof prompt !== 'string' && !promptFilePath) {
+    return res.status(400).json({ error: 'Provide either prompt or promptFilePath' });
+  }
+  if (!(await checkRequestPaths(res, { projectPath, promptFilePath }))) return;
+  if (typeof prompt !== 'string') {
+    const stats = await fs.stat(promptFilePath!).catch(() => null);
+    if (!stats) {
+      return res.status(404).json({ error: `Prompt file not found: ${promptFilePath}` });
+    }
+    if (!stats.isFile()) {
+      return res.status(400).json({ error: `promptFilePath is not a file: ${promptFilePath}` });
+    }
+  }
+
+  try {
+    res.json(await lintProjectPrompt(projectPath, {
+      text: typeof prompt === 'string' ? prompt : undefined,
+      filePath: promptFilePath,
+    }));
+  } catch (error) {
+    console.error('[API /prompts/lint] ❌ Lint failed:', error);
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
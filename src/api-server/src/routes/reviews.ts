@@ -0,0 +1,247 @@
+import { Router, Response } from 'express';
+import { ReviewStatus, SignatureMeaning } from '@phaser/shared-types';
+import {
+  getReviewStore,
+  ReviewConflictError,
+  ReviewInputError,
+  ReviewPermissionError,
+  ReviewStateError,
+  SIGNATURE_MEANINGS,
+} from '../review-store';
+import { getHistoryStore } from '../history-store';
+import { getUserStore } from '../user-store';
+import { getAuthMode, requireRole } from '../auth';
+import { checkRequestPaths } from '../project-roots';
+
+const router = Router();
+
+const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'in_review', 'approved', 'rejected'];
+
+/**
+ * GET /api/reviews?projectPath=...&status=...
+ * Review summaries, most recently updated first.
+ */
+router.get('/reviews', async (req, res) => {
+  const projectPath = req.query.projectPath as string | undefined;
+  const status = req.query.status as ReviewStatus | undefined;
+  if (status !== undefined && !REVIEW_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+  }
+  if (projectPath && !(await checkRequestPaths(res, { projectPath }))) return;
+
+  try {
+    res.json({ reviews: await getReviewStore().list({ projectPath, status }) });
+  } catch (error) {
+    sendError(res, 'GET /reviews', error);
+  }
+});
+
+/**
+ * GET /api/reviews/:id
+ */
+router.get('/reviews/:id', async (req, res) => {
+  try {
+    const review = await getReviewStore().get(req.params.id);
+    if (!review) {
+      return res.status(404).json({ error: `Review not found: ${req.params.id}` });
+    }
+    res.json(review);
+  } catch (error) {
+    sendError(res, 'GET /reviews/:id', error);
+  }
+});
+
+/**
+ * POST /api/reviews
+ * Start a review from a recorded generation run: { "runId": "..." }
+ */
+router.post('/reviews', requireRole('author'), async (req, res) => {
+  const { runId } = req.body ?? {};
+  if (typeof runId !== 'string' || !runId) {
+    return res.status(400).json({ error: 'Missing required field: runId' });
+  }
+
+  try {
+    const run = await getHistoryStore().get(runId);
+    if (!run) {
+      return res.status(404).json({ error: `Run not found: ${runId}` });
+    }
+    res.status(201).json(await getReviewStore().create(run, req.user!));
+  } catch (error) {
+    sendError(res, 'POST /reviews', error);
+  }
+});
+
+/**
+ * PUT /api/reviews/:id
+ * Replace the draft text: { "content": "..." }. Only while the status is "draft".
+ */
+router.put('/reviews/:id', requireRole('author'), async (req, res) => {
+  const { content } = req.body ?? {};
+  if (typeof content !== 'string') {
+    return res.status(400).json({ error: 'Missing required field: content' });
+  }
+
+  try {
+    sendReview(res, req.params.id, await getReviewStore().updateContent(req.params.id, req.user!, content));
+  } catch (error) {
+    sendError(res, 'PUT /reviews/:id', error);
+  }
+});
+
+/**
+ * POST /api/reviews/:id/submit
+ * Send the draft to review: { "note"?: "..." }
+ */
+router.post('/reviews/:id/submit', requireRole('author'), async (req, res) => {
+  const note = req.body?.note;
+  if (note !== undefined && typeof note !== 'string') {
+    return res.status(400).json({ error: 'note must be a string' });
+  }
+
+  try {
+    sendReview(res, req.params.id, await getReviewStore().submit(req.params.id, req.user!, note?.trim() || undefined));
+  } catch (error) {
+    sendError(res, 'POST /reviews/:id/submit', error);
+  }
+});
+
+/**
+ * POST /api/reviews/:id/comments
+ * Comment on a paragraph: { "paragraphIndex": 0, "text": "..." }. Any signed-in user.
+ */
+router.post('/reviews/:id/comments', async (req, res) => {
+  const { paragraphIndex, text } = req.body ?? {};
+  if (typeof paragraphIndex !== 'number' || typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ error: 'Missing required fields: paragraphIndex, text' });
+  }
+
+  try {
+    sendReview(res, req.params.id, await getReviewStore().addComment(req.params.id, req.user!, { paragraphIndex, text }), 201);
+  } catch (error) {
+    sendError(res, 'POST /reviews/:id/comments', error);
+  }
+});
+
+/**
+ * PUT /api/reviews/:id/comments/:commentId
+ * Resolve or reopen a comment: { "resolved": true }
+ */
+router.put('/reviews/:id/comments/:commentId', requireRole('author'), async (req, res) => {
+  const { resolved } = req.body ?? {};
+  if (typeof resolved !== 'boolean') {
+    return res.status(400).json({ error: 'Missing required field: resolved (boolean)' });
+  }
+
+  try {
+    const review = await getReviewStore().resolveComment(req.params.id, req.params.commentId, req.user!, resolved);
+    if (!review) {
+      return res.status(404).json({ error: `Review or comment not found: ${req.params.id}/${req.params.commentId}` });
+    }
+    res.json(review);
+  } catch (error) {
+    sendError(res, 'PUT /reviews/:id/comments/:commentId', error);
+  }
+});
+
+/**
+ * POST /api/reviews/:id/approve
+ * Approve and sign the draft under review (ReviewApprovalRequest). The signer
+ * re-enters their password; the signature records its meaning and the hash
+ * of the approved content, and the approved version is frozen.
+ * Nobody who created, edited or submitted the draft, in any revision, can
+ * approve it unless REVIEW_ALLOW_SELF_APPROVAL=true.
+ */
+router.post('/reviews/:id/approve', requireRole('author'), async (req, res) => {
+  const { meaning, password } = req.body ?? {};
+  if (!SIGNATURE_MEANINGS.includes(meaning)) {
+    return res.status(400).json({ error: `meaning must be one of: ${SIGNATURE_MEANINGS.join(', ')}` });
+  }
+
+  if (getAuthMode() === 'local' && (typeof password !== 'string' || !password)) {
+    return res.status(400).json({ error: 'password is required to sign' });
+  }
+
+  try {
+    let verifiedBy: 'password' | 'none' = 'none';
+    if (getAuthMode() === 'local') {
+      const account = await getUserStore().verifyPassword(req.user!.username, password);
+      if (!account || account.id !== req.user!.id) {
+        console.warn(`[API /reviews] ⛔ Signature by ${req.user!.username} failed: wrong password`);
+        // 403, not 401: the session itself is still valid
+        return res.status(403).json({
+          status: 'error',
+          error: 'Signature failed: the password does not match the signed-in user',
+          code: 'SIGNATURE_INVALID',
+        });
+      }
+      verifiedBy = 'password';
+    }
+
+    const review = await getReviewStore().approve(req.params.id, req.user!, meaning as SignatureMeaning, {
+      verifiedBy,
+      allowSelfApproval: getAuthMode() === 'none' || process.env.REVIEW_ALLOW_SELF_APPROVAL === 'true',
+    });
+    if (review) {
+      console.log(`[API /reviews] ✍️  ${req.user!.username} approved review ${review.id} (${meaning})`);
+    }
+    sendReview(res, req.params.id, review);
+  } catch (error) {
+    sendError(res, 'POST /reviews/:id/approve', error);
+  }
+});
+
+/**
+ * POST /api/reviews/:id/reject
+ * Reject the draft under review: { "reason": "..." }
+ */
+router.post('/reviews/:id/reject', requireRole('author'), async (req, res) => {
+  const { reason } = req.body ?? {};
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return res.status(400).json({ error: 'Missing required field: reason' });
+  }
+
+  try {
+    sendReview(res, req.params.id, await getReviewStore().reject(req.params.id, req.user!, reason.trim()));
+  } catch (error) {
+    sendError(res, 'POST /reviews/:id/reject', error);
+  }
+});
+
+/**
+ * POST /api/reviews/:id/reopen
+ * Turn a rejected draft back into an editable draft (next revision)
+ */
+router.post('/reviews/:id/reopen', requireRole('author'), async (req, res) => {
+  try {
+    sendReview(res, req.params.id, await getReviewStore().reopen(req.params.id, req.user!));
+  } catch (error) {
+    sendError(res, 'POST /reviews/:id/reopen', error);
+  }
+});
+
+function sendReview(res: Response, id: string, review: unknown, status = 200) {
+  if (!review) {
+    return res.status(404).json({ error: `Review not found: ${id}` });
+  }
+  res.status(status).json(review);
+}
+
+function sendError(res: Response, route: string, error: unknown) {
+  if (error instanceof ReviewStateError || error instanceof ReviewConflictError) {
+    return res.status(409).json({ error: error.message });
+  }
+  if (error instanceof ReviewPermissionError) {
+    return res.status(403).json({ status: 'error', error: error.message, code: 'FORBIDDEN' });
+  }
+  if (error instanceof ReviewInputError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`[API ${route}] ❌ Review error:`, error);
+  res.status(500).json({
+    status: 'error',
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
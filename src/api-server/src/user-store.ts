@@ -0,0 +1,419 @@
+/**
+ * Local User Store
+ * Accounts for the local auth provider: usernames, scrypt password hashes,
+ * roles and personal API tokens.
+ *
+ * - Persisted as one JSON file: AUTH_USERS_PATH, default
+ *   src/api-server/data/users.json. Writes are serialized and atomic.
+ * - Passwords are stored as `scrypt$N$r$p$salt$hash`; API tokens only as
+ *   their SHA-256 digest, so the file holds no usable secret.
+ * - When the file has no users, an admin is created on startup from
+ *   AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD (a random password is
+ *   generated and logged once if the password is unset).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { ApiTokenInfo, CreatedApiToken, UserAccount, UserRole } from '@phaser/shared-types';
+import { writeJsonAtomic } from './json-file';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+export const USER_ROLES: UserRole[] = ['viewer', 'author', 'admin'];
+
+/** Prefix that tells API tokens apart from session tokens */
+export const API_TOKEN_PREFIX = 'phs_';
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEYLEN = 64;
+const MIN_PASSWORD_LENGTH = 8;
+/** lastUsedAt is written at most this often per token */
+const TOKEN_TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+interface StoredApiToken extends ApiTokenInfo {
+  /** SHA-256 of the token secret (hex) */
+  hash: string;
+}
+
+interface StoredUser extends Omit<UserAccount, 'tokens'> {
+  passwordHash: string;
+  /** Bumped on password change or disable; session tokens carry it */
+  sessionEpoch: number;
+  tokens: StoredApiToken[];
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+  displayName?: string;
+}
+
+export interface UserUpdate {
+  password?: string;
+  role?: UserRole;
+  displayName?: string;
+  disabled?: boolean;
+}
+
+export class UserStore {
+  private users: StoredUser[] | null = null;
+  /** Serializes read-modify-write cycles on the users file */
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private usersPath: string) {}
+
+  async list(): Promise<UserAccount[]> {
+    return (await this.load())
+      .map(toAccount)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async get(id: string): Promise<UserAccount | null> {
+    const user = (await this.load()).find(candidate => candidate.id === id);
+    return user ? toAccount(user) : null;
+  }
+
+  /**
+   * The enabled user with this id whose sessions from `sessionEpoch` are still valid
+   */
+  async getForSession(id: string, sessionEpoch: number): Promise<UserAccount | null> {
+    const user = (await this.load()).find(candidate => candidate.id === id);
+    if (!user || user.disabled || user.sessionEpoch !== sessionEpoch) return null;
+    return toAccount(user);
+  }
+
+  async getSessionEpoch(id: string): Promise<number | null> {
+    return (await this.load()).find(candidate => candidate.id === id)?.sessionEpoch ?? null;
+  }
+
+  /**
+   * Check a username and password. Returns the account, or null when the
+   * credentials are wrong or the account is disabled.
+   */
+  async verifyPassword(username: string, password: string): Promise<UserAccount | null> {
+    const user = (await this.load()).find(candidate => candidate.username === normalizeUsername(username));
+    // Hash even for unknown users so response time does not reveal which usernames exist
+    const matches = await verifyPasswordHash(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user || !matches || user.disabled) return null;
+    return toAccount(user);
+  }
+
+  /**
+   * Create a user. Throws UserConflictError if the username is taken.
+   */
+  async create(input: UserInput): Promise<UserAccount> {
+    const passwordHash = await hashPassword(input.password);
+    return this.mutate(async users => {
+      const username = normalizeUsername(input.username);
+      if (users.some(user => user.username === username)) {
+        throw new UserConflictError(`Username already exists: ${username}`);
+      }
+      const now = new Date().toISOString();
+      const user: StoredUser = {
+        id: generateId('user'),
+        username,
+        ...(input.displayName ? { displayName: input.displayName } : {}),
+        role: input.role,
+        disabled: false,
+        createdAt: now,
+        updatedAt: now,
+        passwordHash,
+        sessionEpoch: 0,
+        tokens: [],
+      };
+      users.push(user);
+      console.log(`[UserStore] ➕ Created ${user.role} ${username}`);
+      return toAccount(user);
+    });
+  }
+
+  /**
+   * Update a user. Changing the password or disabling the account ends its sessions.
+   * Returns null if the user does not exist; throws LastAdminError if the
+   * change would leave no enabled admin.
+   */
+  async update(id: string, updates: UserUpdate): Promise<UserAccount | null> {
+    const passwordHash = updates.password !== undefined ? await hashPassword(updates.password) : undefined;
+    return this.mutate(async users => {
+      const user = users.find(candidate => candidate.id === id);
+      if (!user) return null;
+
+      const demoted = (updates.role !== undefined && updates.role !== 'admin') || updates.disabled === true;
+      if (demoted && user.role === 'admin' && !user.disabled) {
+        assertOtherAdmin(users, id);
+      }
+
+      if (updates.role !== undefined) user.role = updates.role;
+      if (updates.displayName !== undefined) user.displayName = updates.displayName || undefined;
+      if (updates.disabled !== undefined) user.disabled = updates.disabled;
+      if (passwordHash || updates.disabled === true) user.sessionEpoch += 1;
+      if (passwordHash) user.passwordHash = passwordHash;
+      user.updatedAt = new Date().toISOString();
+      return toAccount(user);
+    });
+  }
+
+  /**
+   * Delete a user and its API tokens. Returns false if the user does not exist;
+   * throws LastAdminError for the last enabled admin.
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.mutate(async users => {
+      const index = users.findIndex(user => user.id === id);
+      if (index === -1) return false;
+      if (users[index].role === 'admin' && !users[index].disabled) {
+        assertOtherAdmin(users, id);
+      }
+      const [removed] = users.splice(index, 1);
+      console.log(`[UserStore] 🗑️  Deleted user ${removed.username}`);
+      return true;
+    });
+  }
+
+  /**
+   * Issue an API token for a user. The secret is only returned here.
+   */
+  async createToken(userId: string, name: string, expiresInDays?: number): Promise<CreatedApiToken | null> {
+    return this.mutate(async users => {
+      const user = users.find(candidate => candidate.id === userId);
+      if (!user) return null;
+
+      const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+      const now = new Date();
+      const stored: StoredApiToken = {
+        id: generateId('token'),
+        name,
+        createdAt: now.toISOString(),
+        ...(expiresInDays ? { expiresAt: new Date(now.getTime() + expiresInDays * 86400000).toISOString() } : {}),
+        hash: sha256(token),
+      };
+      user.tokens.push(stored);
+      console.log(`[UserStore] 🔑 Issued API token "${name}" for ${user.username}`);
+      return { token, info: toTokenInfo(stored) };
+    });
+  }
+
+  /**
+   * Revoke one of a user's API tokens. Returns false if it does not exist.
+   */
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    return this.mutate(async users => {
+      const user = users.find(candidate => candidate.id === userId);
+      const index = user?.tokens.findIndex(token => token.id === tokenId) ?? -1;
+      if (!user || index === -1) return false;
+      user.tokens.splice(index, 1);
+      console.log(`[UserStore] 🗑️  Revoked API token ${tokenId} of ${user.username}`);
+      return true;
+    });
+  }
+
+  /**
+   * The enabled user owning an unexpired API token, or null
+   */
+  async findByToken(token: string): Promise<UserAccount | null> {
+    const hash = sha256(token);
+    const users = await this.load();
+    for (const user of users) {
+      const stored = user.tokens.find(candidate => candidate.hash === hash);
+      if (!stored) continue;
+      if (user.disabled) return null;
+      if (stored.expiresAt && Date.parse(stored.expiresAt) <= Date.now()) return null;
+
+      if (!stored.lastUsedAt || Date.now() - Date.parse(stored.lastUsedAt) > TOKEN_TOUCH_INTERVAL_MS) {
+        this.touchToken(user.id, stored.id).catch(error => {
+          console.warn('[UserStore] ⚠️  Could not record token use:', error);
+        });
+      }
+      return toAccount(user);
+    }
+    return null;
+  }
+
+  /**
+   * Create the first admin when there are no users yet
+   */
+  async ensureBootstrapAdmin(): Promise<void> {
+    if ((await this.load()).length > 0) return;
+
+    const username = process.env.AUTH_ADMIN_USERNAME || 'admin';
+    const configuredPassword = process.env.AUTH_ADMIN_PASSWORD;
+    const password = configuredPassword || crypto.randomBytes(12).toString('base64url');
+    await this.create({ username, password, role: 'admin' });
+
+    if (configuredPassword) {
+      console.log(`[UserStore] 👤 Created admin "${username}" from AUTH_ADMIN_PASSWORD`);
+    } else {
+      console.warn(`[UserStore] 👤 Created admin "${username}" with generated password: ${password}`);
+      console.warn('[UserStore]    Change it after signing in; it is not shown again.');
+    }
+  }
+
+  private async touchToken(userId: string, tokenId: string): Promise<void> {
+    await this.mutate(async users => {
+      const token = users.find(user => user.id === userId)?.tokens.find(candidate => candidate.id === tokenId);
+      if (token) token.lastUsedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Apply a change to the users file and persist it. Changes are serialized and
+   * only kept in memory once the file has been written.
+   */
+  private async mutate<T>(change: (users: StoredUser[]) => Promise<T>): Promise<T> {
+    const next = this.writeChain.catch(() => undefined).then(async () => {
+      const users = structuredClone(await this.load());
+      const result = await change(users);
+      await writeJsonAtomic(this.usersPath, { users }, { mode: 0o600 });
+      this.users = users;
+      return result;
+    });
+    this.writeChain = next;
+    return next;
+  }
+
+  private async load(): Promise<StoredUser[]> {
+    if (this.users) return this.users;
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.usersPath, 'utf8'));
+      this.users = Array.isArray(parsed?.users) ? parsed.users : [];
+      console.log(`[UserStore] ✓ Loaded ${this.users!.length} user(s) from ${this.usersPath}`);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        // Do not start from an empty list over an unreadable file: the next write would erase it
+        throw new Error(`Could not read users file ${this.usersPath}: ${error?.message ?? error}`);
+      }
+      this.users = [];
+    }
+    return this.users!;
+  }
+}
+
+/**
+ * Thrown when a username is already taken
+ */
+export class UserConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserConflictError';
+  }
+}
+
+/**
+ * Thrown when a change would leave no enabled admin
+ */
+export class LastAdminError extends Error {
+  constructor() {
+    super('At least one enabled admin is required');
+    this.name = 'LastAdminError';
+  }
+}
+
+/**
+ * Describe why a user body is invalid, or null when it is valid.
+ * With `partial`, missing fields are allowed (updates).
+ */
+export function validateUserInput(input: any, partial: boolean): string | null {
+  if (!input || typeof input !== 'object') return 'Expected a user object';
+
+  if (!partial) {
+    if (typeof input.username !== 'string' || !/^[a-z0-9._-]{2,64}$/i.test(input.username.trim())) {
+      return 'username must be 2-64 characters: letters, digits, ".", "_" or "-"';
+    }
+  } else if (input.username !== undefined) {
+    return 'username cannot be changed';
+  }
+  if (!partial || input.password !== undefined) {
+    if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+      return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+  }
+  if (!partial || input.role !== undefined) {
+    if (!USER_ROLES.includes(input.role)) return `role must be one of: ${USER_ROLES.join(', ')}`;
+  }
+  if (input.displayName !== undefined && typeof input.displayName !== 'string') return 'displayName must be a string';
+  if (input.disabled !== undefined && typeof input.disabled !== 'boolean') return 'disabled must be a boolean';
+  return null;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEYLEN, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPasswordHash(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N), r: Number(r), p: Number(p),
+  });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/** Well-formed hash no password matches, verified against for unknown usernames */
+const DUMMY_PASSWORD_HASH =
+  `scrypt$16384$8$1$${Buffer.alloc(16).toString('base64')}$${Buffer.alloc(SCRYPT_KEYLEN).toString('base64')}`;
+
+function assertOtherAdmin(users: StoredUser[], exceptId: string): void {
+  if (!users.some(user => user.id !== exceptId && user.role === 'admin' && !user.disabled)) {
+    throw new LastAdminError();
+  }
+}
+
+function toAccount(user: StoredUser): UserAccount {
+  return {
+    id: user.id,
+    username: user.username,
+    ...(user.displayName ? { displayName: user.displayName } : {}),
+    role: user.role,
+    disabled: user.disabled,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    tokens: user.tokens.map(toTokenInfo),
+  };
+}
+
+function toTokenInfo(token: StoredApiToken): ApiTokenInfo {
+  const { hash: _hash, ...info } = token;
+  return info;
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+function generateId(kind: string): string {
+  return `${kind}_${Date.now()}_${crypto.randomBytes(5).toString('hex')}`;
+}
+
+// Singleton instance
+let userStoreInstance: UserStore | null = null;
+
+/**
+ * Get or create the UserStore singleton.
+ * The users file comes from AUTH_USERS_PATH (default: src/api-server/data/users.json).
+ */
+export function getUserStore(): UserStore {
+  if (!userStoreInstance) {
+    userStoreInstance = new UserStore(
+      process.env.AUTH_USERS_PATH || path.join(__dirname, '../data/users.json')
+    );
+  }
+  return userStoreInstance;
+}
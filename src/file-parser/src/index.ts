@@ -16,9 +16,10 @@ export interface FileParser {
   /**
    * Scan a folder and parse all documents
    * @param folderPath - Path to a document folder (e.g., Procedures/ or Context/ within the RAG folder)
+   * @param fileFilter - Optional predicate on full file paths; only matching files are parsed
    * @returns Array of parsed documents with extracted text
    */
-  scanAndParseFolder(folderPath: string): Promise<ParsedDocument[]>;
+  scanAndParseFolder(folderPath: string, fileFilter?: (filePath: string) => boolean): Promise<ParsedDocument[]>;
 }
 
 /**
@@ -63,13 +64,14 @@ export class ComprehensiveFileParser implements FileParser {
     '.sys', '.bin', '.dat', '.log', '.tmp', '.lock', '.DS_Store',
   ]);
 
-  async scanAndParseFolder(folderPath: string): Promise<ParsedDocument[]> {
+  async scanAndParseFolder(folderPath: string, fileFilter?: (filePath: string) => boolean): Promise<ParsedDocument[]> {
     console.log(`[ComprehensiveFileParser] Scanning folder: ${folderPath}`);
     
     const documents: ParsedDocument[] = [];
     
     try {
-      const files = await this.getAllFiles(folderPath);
+      const allFiles = await this.getAllFiles(folderPath);
+      const files = fileFilter ? allFiles.filter(fileFilter) : allFiles;
       console.log(`[ComprehensiveFileParser] Found ${files.length} files to process`);
       
       for (const filePath of files) {
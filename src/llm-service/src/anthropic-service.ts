@@ -42,11 +42,29 @@ export class AnthropicLLMService implements LLMService {
     return this.generateTextWithRetry(enhancedPrompt);
   }
 
+  /**
+   * Streaming variant of generateText — uses the Messages streaming API and
+   * forwards each text delta to `onToken`. Usage and cost are computed from
+   * the final message exactly as in the non-streaming path.
+   */
+  async generateTextStream(
+    prompt: string,
+    onToken: (delta: string) => void,
+    context?: KnowledgeContext
+  ): Promise<LLMResponse> {
+    console.log(`[AnthropicLLMService] Streaming text with prompt length: ${prompt.length}`);
+
+    const enhancedPrompt = this.constructPromptWithContext(prompt, context);
+    return this.generateTextWithRetry(enhancedPrompt, 0, 5, onToken);
+  }
+
   private async generateTextWithRetry(
     enhancedPrompt: string,
     retryCount: number = 0,
-    maxRetries: number = 5
+    maxRetries: number = 5,
+    onToken?: (delta: string) => void
   ): Promise<LLMResponse> {
+    let streamedDeltas = false;
     try {
       // Split on the TASK marker injected by the orchestrator's buildLLMPrompt.
       // Everything before === TASK === is system context (role + reference materials).
@@ -110,7 +128,17 @@ export class AnthropicLLMService implements LLMService {
         requestParams.system = systemBlocks;
       }
 
-      const response = await this.client.messages.create(requestParams);
+      let response: Anthropic.Messages.Message;
+      if (onToken) {
+        const stream = this.client.messages.stream(requestParams);
+        stream.on('text', (delta) => {
+          streamedDeltas = true;
+          onToken(delta);
+        });
+        response = await stream.finalMessage();
+      } else {
+        response = await this.client.messages.create(requestParams);
+      }
 
       const duration = Date.now() - startTime;
 
@@ -159,8 +187,13 @@ export class AnthropicLLMService implements LLMService {
         
         console.warn(`[AnthropicLLMService] ⚠️  Rate limit hit. Retry ${retryCount + 1}/${maxRetries} after ${delaySeconds}s`);
         
+        // The caller already received part of this answer; streaming the retry
+        // would append a second copy, so it only returns the final text
+        if (streamedDeltas) {
+          console.warn('[AnthropicLLMService] ⚠️  Stream interrupted after partial output, retrying without streaming');
+        }
         await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
-        return this.generateTextWithRetry(enhancedPrompt, retryCount + 1, maxRetries);
+        return this.generateTextWithRetry(enhancedPrompt, retryCount + 1, maxRetries, streamedDeltas ? undefined : onToken);
       }
 
       if (isRateLimitError) {
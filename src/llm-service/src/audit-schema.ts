@@ -0,0 +1,139 @@
+/**
+ * AUDITOR JSON Output Contract
+ *
+ * Defines the JSON shape the AUDITOR role must return, the instruction text
+ * that describes it to the model, and a validator that turns the raw model
+ * response into typed {@link AuditFinding}s (or a precise error message that
+ * is fed back to the model on a repair attempt).
+ */
+
+import { AuditFinding, AuditSeverity } from '@phaser/shared-types';
+
+// ---------------------------------------------------------------------------
+// Severity helpers
+// ---------------------------------------------------------------------------
+
+/** Severity order, most severe first. */
+export const AUDIT_SEVERITIES: readonly AuditSeverity[] = ['critical', 'major', 'minor', 'observation'];
+
+/**
+ * True when `severity` is at least as severe as `threshold`
+ * (e.g. 'critical' meets 'major'; 'minor' does not).
+ */
+export function meetsSeverity(severity: AuditSeverity, threshold: AuditSeverity): boolean {
+  return AUDIT_SEVERITIES.indexOf(severity) <= AUDIT_SEVERITIES.indexOf(threshold);
+}
+
+/** Narrow an arbitrary string (e.g. an env var) to an {@link AuditSeverity}. */
+export function isAuditSeverity(value: unknown): value is AuditSeverity {
+  return typeof value === 'string' && (AUDIT_SEVERITIES as readonly string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Output contract
+// ---------------------------------------------------------------------------
+
+/**
+ * Instruction block appended to every structured audit prompt.
+ * An empty `findings` array is the "no findings" answer.
+ */
+export const AUDIT_JSON_INSTRUCTIONS =
+  'Respond with ONLY a JSON object — no markdown fences, no prose — in exactly this shape:\n' +
+  '{\n' +
+  '  "findings": [\n' +
+  '    {\n' +
+  '      "id": "F1",\n' +
+  `      "severity": "${AUDIT_SEVERITIES.join('" | "')}",\n` +
+  '      "standardClause": "standard and clause cited, e.g. ISO 14971:2019 clause 7.1",\n' +
+  '      "offendingPassage": "verbatim text from the draft (empty string if the issue is an omission)",\n' +
+  '      "issue": "what is wrong",\n' +
+  '      "suggestedFix": "concrete instruction for the reviser"\n' +
+  '    }\n' +
+  '  ]\n' +
+  '}\n' +
+  'Use ids F1, F2, … in order. If there are no findings, return {"findings": []}.';
+
+/** Result of validating an AUDITOR response. */
+export type AuditValidationResult =
+  | { valid: true; findings: AuditFinding[] }
+  | { valid: false; error: string };
+
+/**
+ * Parse and validate an AUDITOR response against the output contract.
+ *
+ * Tolerates markdown code fences and leading/trailing prose around the JSON
+ * object, and accepts a bare top-level array of findings. Field names are
+ * strict; severities are matched case-insensitively. Missing ids are
+ * assigned ("F1", "F2", …).
+ */
+export function validateAuditFindings(raw: string): AuditValidationResult {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  // Locate the outermost JSON value
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    return { valid: false, error: 'Response does not contain a JSON object' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    return { valid: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { findings?: unknown })?.findings;
+  if (!Array.isArray(list)) {
+    return { valid: false, error: 'Expected an object with a "findings" array' };
+  }
+
+  const findings: AuditFinding[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const item = list[i] as Record<string, unknown>;
+    const label = `findings[${i}]`;
+    if (!item || typeof item !== 'object') {
+      return { valid: false, error: `${label} is not an object` };
+    }
+
+    const severity = typeof item.severity === 'string' ? item.severity.toLowerCase() : item.severity;
+    if (!isAuditSeverity(severity)) {
+      return { valid: false, error: `${label}.severity must be one of: ${AUDIT_SEVERITIES.join(', ')}` };
+    }
+
+    for (const field of ['standardClause', 'issue', 'suggestedFix'] as const) {
+      if (typeof item[field] !== 'string' || (item[field] as string).trim().length === 0) {
+        return { valid: false, error: `${label}.${field} must be a non-empty string` };
+      }
+    }
+    if (item.offendingPassage !== undefined && typeof item.offendingPassage !== 'string') {
+      return { valid: false, error: `${label}.offendingPassage must be a string` };
+    }
+
+    findings.push({
+      id: typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `F${i + 1}`,
+      severity,
+      standardClause: (item.standardClause as string).trim(),
+      offendingPassage: ((item.offendingPassage as string | undefined) ?? '').trim(),
+      issue: (item.issue as string).trim(),
+      suggestedFix: (item.suggestedFix as string).trim(),
+    });
+  }
+
+  return { valid: true, findings };
+}
+
+/**
+ * Build the follow-up prompt sent to the AUDITOR when its previous response
+ * failed validation.
+ */
+export function buildAuditRepairPrompt(previousResponse: string, error: string): string {
+  return (
+    `Your previous response did not satisfy the required JSON format.\n` +
+    `Validation error: ${error}\n\n` +
+    `=== PREVIOUS RESPONSE ===\n${previousResponse}\n\n` +
+    `=== TASK ===\n` +
+    `Return the same findings as valid JSON. Do not add, remove or re-assess findings.\n` +
+    AUDIT_JSON_INSTRUCTIONS
+  );
+}
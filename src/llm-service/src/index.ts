@@ -12,6 +12,24 @@ export interface LLMService {
    * @returns LLM response with generated text and usage stats
    */
   generateText(prompt: string, context?: KnowledgeContext): Promise<LLMResponse>;
+
+  /**
+   * Optional streaming variant of {@link generateText}.
+   * Providers that support incremental output invoke `onToken` with each text
+   * delta as it arrives and resolve with the same {@link LLMResponse} shape
+   * once the stream has finished. Callers fall back to `generateText` when a
+   * service does not implement this method. Deltas are never sent twice: a
+   * retry after part of the answer was streamed runs without `onToken`, so
+   * the resolved text, not the concatenated deltas, is authoritative.
+   * @param prompt - The input prompt
+   * @param onToken - Receives each generated text delta
+   * @param context - Optional knowledge context from RAG
+   */
+  generateTextStream?(
+    prompt: string,
+    onToken: (delta: string) => void,
+    context?: KnowledgeContext
+  ): Promise<LLMResponse>;
 }
 
 // Export the real LLM services
@@ -20,7 +38,16 @@ export { MistralLLMService } from './mistral-service';
 export { OllamaLLMService } from './ollama-service';
 export { GroqLLMService } from './groq-service';
 export { OpenAILLMService } from './openai-service';
-export { ModelRouter, createModelRouter } from './model-router';
+export { ModelRouter, createModelRouter, StructuredAuditResult } from './model-router';
+export {
+  AUDIT_SEVERITIES,
+  AUDIT_JSON_INSTRUCTIONS,
+  meetsSeverity,
+  isAuditSeverity,
+  validateAuditFindings,
+  buildAuditRepairPrompt,
+  AuditValidationResult,
+} from './audit-schema';
 
 // Provider configuration layer
 export {
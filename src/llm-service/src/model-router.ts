@@ -1,5 +1,10 @@
-import { LLMResponse, KnowledgeContext } from '@phaser/shared-types';
+import { LLMResponse, KnowledgeContext, AuditFinding } from '@phaser/shared-types';
 import { LLMService } from './index';
+import {
+  AUDIT_JSON_INSTRUCTIONS,
+  validateAuditFindings,
+  buildAuditRepairPrompt,
+} from './audit-schema';
 import { AnthropicLLMService } from './anthropic-service';
 import { OpenAILLMService } from './openai-service';
 import {
@@ -31,6 +36,38 @@ const AUDITOR_PREFIX =
   'Identify gaps, missing justifications, and logic errors. ' +
   'Respond with a structured list of findings. Be exhaustive.';
 
+/**
+ * System instruction prepended to every structured (JSON) audit prompt.
+ * The output format itself is appended after the prompt via
+ * {@link AUDIT_JSON_INSTRUCTIONS} so it is the last thing the model reads.
+ */
+const AUDITOR_JSON_PREFIX =
+  'You are a regulatory compliance auditor. ' +
+  'Identify gaps, missing justifications, and logic errors. Be exhaustive.';
+
+/** Default number of repair round-trips after an invalid JSON audit response. */
+const DEFAULT_AUDIT_REPAIR_ATTEMPTS = 2;
+
+// ---------------------------------------------------------------------------
+// Result types
+// ---------------------------------------------------------------------------
+
+/**
+ * Outcome of {@link ModelRouter.generateStructuredAuditFindings}.
+ */
+export interface StructuredAuditResult {
+  /** Validated findings ([] when the auditor found nothing or never produced valid JSON) */
+  findings: AuditFinding[];
+  /** False when every attempt (initial + repairs) failed validation */
+  valid: boolean;
+  /** Raw text of the last AUDITOR response */
+  rawText: string;
+  /** Number of AUDITOR calls made (1 + repair attempts) */
+  attempts: number;
+  /** Token usage and cost summed across all attempts */
+  usageStats: LLMResponse['usageStats'];
+}
+
 // ---------------------------------------------------------------------------
 // ModelRouter
 // ---------------------------------------------------------------------------
@@ -101,16 +138,18 @@ export class ModelRouter {
    *
    * @param prompt  - Task prompt.
    * @param context - Optional RAG knowledge context.
+   * @param onToken - Optional token-delta callback (see {@link invoke}).
    */
   async generateIngestionPrompt(
     prompt: string,
-    context?: KnowledgeContext
+    context?: KnowledgeContext,
+    onToken?: (delta: string) => void
   ): Promise<LLMResponse> {
     const enriched = prompt.trimStart().startsWith('{')
       ? prompt
       : `${INGESTION_PREFIX}\n\n${prompt}`;
 
-    return this.service(ModelRole.INGESTION).generateText(enriched, context);
+    return this.invoke(ModelRole.INGESTION, enriched, context, onToken);
   }
 
   /**
@@ -120,12 +159,14 @@ export class ModelRouter {
    *
    * @param prompt  - Task prompt (typically assembled by the orchestrator).
    * @param context - Optional RAG knowledge context.
+   * @param onToken - Optional token-delta callback (see {@link invoke}).
    */
   async generateDraft(
     prompt: string,
-    context?: KnowledgeContext
+    context?: KnowledgeContext,
+    onToken?: (delta: string) => void
   ): Promise<LLMResponse> {
-    return this.service(ModelRole.DRAFTER).generateText(prompt, context);
+    return this.invoke(ModelRole.DRAFTER, prompt, context, onToken);
   }
 
   /**
@@ -139,13 +180,71 @@ export class ModelRouter {
    *
    * @param prompt  - Draft content or specific compliance question.
    * @param context - Optional RAG knowledge context.
+   * @param onToken - Optional token-delta callback (see {@link invoke}).
    */
   async generateAuditFindings(
     prompt: string,
-    context?: KnowledgeContext
+    context?: KnowledgeContext,
+    onToken?: (delta: string) => void
   ): Promise<LLMResponse> {
     const enriched = `${AUDITOR_PREFIX}\n\n${prompt}`;
-    return this.service(ModelRole.AUDITOR).generateText(enriched, context);
+    return this.invoke(ModelRole.AUDITOR, enriched, context, onToken);
+  }
+
+  /**
+   * Run the AUDITOR with a JSON output contract and validate the response.
+   *
+   * The prompt is wrapped with an auditor persona and the
+   * {@link AUDIT_JSON_INSTRUCTIONS} schema. When the response fails
+   * validation, the model is sent its own output plus the validation error
+   * and asked to re-emit valid JSON, up to `maxRepairAttempts` times. Repair
+   * calls are not streamed through `onToken`.
+   *
+   * Never throws on invalid output — callers check `valid` and can fall back
+   * to `rawText`.
+   *
+   * @param prompt  - Draft content and standards to audit against.
+   * @param options - `maxRepairAttempts` (default 2) and optional `onToken`.
+   */
+  async generateStructuredAuditFindings(
+    prompt: string,
+    options: { maxRepairAttempts?: number; onToken?: (delta: string) => void } = {}
+  ): Promise<StructuredAuditResult> {
+    const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_AUDIT_REPAIR_ATTEMPTS;
+    const enriched = `${AUDITOR_JSON_PREFIX}\n\n${prompt}\n\n${AUDIT_JSON_INSTRUCTIONS}`;
+
+    let response = await this.invoke(ModelRole.AUDITOR, enriched, undefined, options.onToken);
+    let rawText = response.generatedText ?? '';
+    let tokensUsed = response.usageStats?.tokensUsed ?? 0;
+    let cost = response.usageStats?.cost ?? 0;
+    let attempts = 1;
+    let result = validateAuditFindings(rawText);
+
+    while (!result.valid && attempts <= maxRepairAttempts) {
+      console.warn(
+        `[ModelRouter] ⚠️  AUDITOR returned invalid JSON (attempt ${attempts}): ${result.error} — requesting repair`
+      );
+      response = await this.invoke(ModelRole.AUDITOR, buildAuditRepairPrompt(rawText, result.error));
+      rawText = response.generatedText ?? '';
+      tokensUsed += response.usageStats?.tokensUsed ?? 0;
+      cost += response.usageStats?.cost ?? 0;
+      attempts++;
+      result = validateAuditFindings(rawText);
+    }
+
+    if (result.valid) {
+      console.log(`[ModelRouter] ✓ AUDITOR JSON valid — ${result.findings.length} finding(s), ${attempts} attempt(s)`);
+    } else {
+      console.error(`[ModelRouter] ❌ AUDITOR JSON still invalid after ${attempts} attempt(s): ${result.error}`);
+    }
+
+    return {
+      findings: result.valid ? result.findings : [],
+      valid: result.valid,
+      rawText,
+      attempts,
+      usageStats: { tokensUsed, cost },
+    };
   }
 
   /**
@@ -188,12 +287,27 @@ export class ModelRouter {
    *
    * @param prompt  - Fully-assembled revision prompt.
    * @param context - Optional RAG knowledge context.
+   * @param onToken - Optional token-delta callback (see {@link invoke}).
    */
   async generateRevisionFromPrompt(
     prompt: string,
-    context?: KnowledgeContext
+    context?: KnowledgeContext,
+    onToken?: (delta: string) => void
   ): Promise<LLMResponse> {
-    return this.service(ModelRole.REVISER).generateText(prompt, context);
+    return this.invoke(ModelRole.REVISER, prompt, context, onToken);
+  }
+
+  /**
+   * Answer a short classification question using the INGESTION model.
+   *
+   * Use for: small structured decisions outside the generation pipeline,
+   * e.g. settling procedure category ties at index time. The prompt is sent
+   * as-is, without the ingestion prefix.
+   *
+   * @param prompt - Complete classification prompt.
+   */
+  async generateClassification(prompt: string): Promise<LLMResponse> {
+    return this.service(ModelRole.INGESTION).generateText(prompt);
   }
 
   // ---------------------------------------------------------------------------
@@ -209,6 +323,27 @@ export class ModelRouter {
     return svc;
   }
 
+  /**
+   * Call the service registered for `role`.
+   *
+   * When `onToken` is supplied and the service implements
+   * {@link LLMService.generateTextStream}, the streaming path is used so the
+   * caller receives text deltas as they arrive. Otherwise this is a plain
+   * `generateText` call and `onToken` is never invoked.
+   */
+  private invoke(
+    role: ModelRole,
+    prompt: string,
+    context?: KnowledgeContext,
+    onToken?: (delta: string) => void
+  ): Promise<LLMResponse> {
+    const svc = this.service(role);
+    if (onToken && svc.generateTextStream) {
+      return svc.generateTextStream(prompt, onToken, context);
+    }
+    return svc.generateText(prompt, context);
+  }
+
   /**
    * Instantiate the appropriate {@link LLMService} for a given role.
    *
@@ -88,6 +88,24 @@ export class OpenAILLMService implements LLMService {
     return this.generateWithRetry(assembled);
   }
 
+  /**
+   * Streaming variant of {@link generateText}. Requests a streamed chat
+   * completion (with `include_usage` so the final chunk still reports token
+   * counts) and forwards each content delta to `onToken`.
+   */
+  async generateTextStream(
+    prompt: string,
+    onToken: (delta: string) => void,
+    context?: KnowledgeContext
+  ): Promise<LLMResponse> {
+    console.log(
+      `[OpenAILLMService:${this.role}] Streaming text — prompt length: ${prompt.length}`
+    );
+
+    const assembled = this.prependContext(prompt, context);
+    return this.generateWithRetry(assembled, 0, 5, onToken);
+  }
+
   // ---------------------------------------------------------------------------
   // Private helpers
   // ---------------------------------------------------------------------------
@@ -161,6 +179,53 @@ export class OpenAILLMService implements LLMService {
     return modelId.startsWith('o1') || modelId.startsWith('o3');
   }
 
+  /** Non-streaming chat completion — returns the joined message text and usage. */
+  private async createCompletion(
+    requestParams: any
+  ): Promise<{ generatedText: string; usage?: OpenAI.CompletionUsage }> {
+    const response: OpenAI.Chat.ChatCompletion =
+      await this.client.chat.completions.create(requestParams);
+
+    const generatedText = response.choices
+      .map(c => c.message?.content ?? '')
+      .join('\n')
+      .trim();
+
+    return { generatedText, usage: response.usage };
+  }
+
+  /**
+   * Streaming chat completion — forwards each content delta to `onToken` and
+   * returns the accumulated text plus the usage reported on the final chunk.
+   */
+  private async streamCompletion(
+    requestParams: any,
+    onToken: (delta: string) => void
+  ): Promise<{ generatedText: string; usage?: OpenAI.CompletionUsage }> {
+    const streamParams: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+      ...requestParams,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    const stream = await this.client.chat.completions.create(streamParams);
+
+    let text = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content ?? '';
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    return { generatedText: text.trim(), usage };
+  }
+
   /**
    * Execute the OpenAI chat completion with exponential-backoff retry on
    * rate-limit errors (HTTP 429), matching the retry strategy in
@@ -169,8 +234,10 @@ export class OpenAILLMService implements LLMService {
   private async generateWithRetry(
     assembled: string,
     retryCount: number = 0,
-    maxRetries: number = 5
+    maxRetries: number = 5,
+    onToken?: (delta: string) => void
   ): Promise<LLMResponse> {
+    let streamedDeltas = false;
     try {
       const { system, user } = this.splitPrompt(assembled);
       const { modelId, maxTokens } = this.assignment;
@@ -219,16 +286,16 @@ export class OpenAILLMService implements LLMService {
       }
 
       const startTime = Date.now();
-      const response = await this.client.chat.completions.create(requestParams);
+      const { generatedText, usage } = onToken
+        ? await this.streamCompletion(requestParams, delta => {
+            streamedDeltas = true;
+            onToken(delta);
+          })
+        : await this.createCompletion(requestParams);
       const duration = Date.now() - startTime;
 
-      const generatedText = response.choices
-        .map(c => c.message?.content ?? '')
-        .join('\n')
-        .trim();
-
-      const inputTokens  = response.usage?.prompt_tokens     ?? 0;
-      const outputTokens = response.usage?.completion_tokens ?? 0;
+      const inputTokens  = usage?.prompt_tokens     ?? 0;
+      const outputTokens = usage?.completion_tokens ?? 0;
       const tokensUsed   = inputTokens + outputTokens;
 
       const { inputPerM, outputPerM } = this.getModelPricing(modelId);
@@ -258,8 +325,13 @@ export class OpenAILLMService implements LLMService {
           `[OpenAILLMService:${this.role}] ⚠️  Rate limit hit. ` +
           `Retry ${retryCount + 1}/${maxRetries} after ${delaySeconds}s`
         );
+        // The caller already received part of this answer; streaming the retry
+        // would append a second copy, so it only returns the final text
+        if (streamedDeltas) {
+          console.warn(`[OpenAILLMService:${this.role}] ⚠️  Stream interrupted after partial output, retrying without streaming`);
+        }
         await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
-        return this.generateWithRetry(assembled, retryCount + 1, maxRetries);
+        return this.generateWithRetry(assembled, retryCount + 1, maxRetries, streamedDeltas ? undefined : onToken);
       }
 
       if (isRateLimit) {
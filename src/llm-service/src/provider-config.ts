@@ -117,7 +117,8 @@ export interface ProviderConfig {
  * - DRAFTER:    gpt-4.1      (primary narrative generation)
  * - AUDITOR:    o3-mini      (compliance reasoning; no temperature)
  * - REVISER:    gpt-4.1      (final-pass rewrite; slightly lower temperature than DRAFTER)
- * - EMBEDDINGS: text-embedding-3-large (1536-dim, best retrieval accuracy)
+ * - EMBEDDINGS: Xenova/all-MiniLM-L6-v2  (384-dim, runs locally in rag-core; set
+ *               e.g. text-embedding-3-large or ollama/nomic-embed-text to use an API)
  */
 export const DEFAULT_DIRECT_CONFIG: ProviderConfig = {
   mode: ProviderMode.DIRECT,
@@ -143,7 +144,7 @@ export const DEFAULT_DIRECT_CONFIG: ProviderConfig = {
       temperature: 0.2,
     },
     [ModelRole.EMBEDDINGS]: {
-      modelId: 'text-embedding-3-large',
+      modelId: 'Xenova/all-MiniLM-L6-v2',
       maxTokens: 0,
     },
   },
@@ -0,0 +1,148 @@
+import { ClaimSupport, ClaimVerification } from '@phaser/shared-types';
+import { EmbeddingService, SearchResult } from '@phaser/rag-service';
+
+/**
+ * Claim Verifier
+ * Post-generation check for primary-context.yaml → rules.source_tracking:
+ * splits the generated content into sentences, embeds each one and scores it
+ * against the retrieved procedure/context chunks and the resolved Master
+ * Record values. Sentences below the threshold are reported as unsupported.
+ *
+ * Shared by OrchestratorService and MultiModelOrchestrator.
+ */
+
+/** Default minimum cosine similarity for a sentence to count as supported. */
+export const DEFAULT_CLAIM_SUPPORT_THRESHOLD = 0.5;
+
+/** Sentences with fewer words are labels or fragments, not claims. */
+const MIN_CLAIM_WORDS = 5;
+
+/** Master Record values shorter than this are too generic to match verbatim. */
+const MIN_VERBATIM_VALUE_CHARS = 4;
+
+/**
+ * Sources a generated sentence may be traced to.
+ */
+export interface ClaimSources {
+  procedureChunks: SearchResult[];
+  contextChunks: SearchResult[];
+  /** Resolved [Master Record|FIELD] values keyed by field name */
+  masterRecordValues?: Record<string, string>;
+}
+
+interface Candidate {
+  embedding: Float32Array;
+  source: NonNullable<ClaimSupport['source']>;
+}
+
+/**
+ * Score every sentence of `content` against the retrieved sources.
+ *
+ * - Chunk embeddings are reused from the vector store; only the sentences
+ *   and Master Record values are embedded here (uncached — they are one-off).
+ * - A sentence quoting a Master Record value verbatim scores 1.
+ */
+export async function verifyClaims(
+  content: string,
+  sources: ClaimSources,
+  embeddingService: EmbeddingService,
+  threshold: number = DEFAULT_CLAIM_SUPPORT_THRESHOLD
+): Promise<ClaimVerification> {
+  const sentences = splitIntoSentences(content);
+  if (sentences.length === 0) {
+    return { threshold, supportedCount: 0, sentences: [] };
+  }
+
+  const candidates: Candidate[] = [...sources.procedureChunks, ...sources.contextChunks].map(chunk => ({
+    embedding: Float32Array.from(chunk.entry.embedding),
+    source: {
+      kind: chunk.entry.metadata.category,
+      name: chunk.entry.metadata.fileName,
+      chunkIndex: chunk.entry.metadata.chunkIndex,
+    },
+  }));
+
+  const masterRecord = Object.entries(sources.masterRecordValues ?? {})
+    .filter(([, value]) => value.trim().length > 0);
+  if (masterRecord.length > 0) {
+    const embeddings = await embeddingService.embedBatch(
+      masterRecord.map(([field, value]) => `${field}: ${value}`), undefined, 32, false
+    );
+    masterRecord.forEach(([field], i) =>
+      candidates.push({ embedding: embeddings[i], source: { kind: 'master_record', name: field } }));
+  }
+
+  const sentenceEmbeddings = await embeddingService.embedBatch(sentences, undefined, 32, false);
+
+  const results: ClaimSupport[] = sentences.map((sentence, i) => {
+    const verbatim = findVerbatimMasterRecordValue(sentence, masterRecord);
+    if (verbatim) {
+      return { sentence, supportScore: 1, supported: true, source: { kind: 'master_record', name: verbatim } };
+    }
+
+    let best: Candidate | undefined;
+    let bestScore = 0;
+    for (const candidate of candidates) {
+      if (candidate.embedding.length !== sentenceEmbeddings[i].length) continue;
+      const score = EmbeddingService.cosineSimilarity(sentenceEmbeddings[i], candidate.embedding);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+
+    const supportScore = Math.round(bestScore * 1000) / 1000;
+    return { sentence, supportScore, supported: supportScore >= threshold, source: best?.source };
+  });
+
+  return {
+    threshold,
+    supportedCount: results.filter(r => r.supported).length,
+    sentences: results,
+  };
+}
+
+/**
+ * Split markdown content into claim sentences.
+ * Headings, table rows, rules and code blocks are skipped; list markers,
+ * inline markup and [n] citation markers are stripped.
+ */
+export function splitIntoSentences(content: string): string[] {
+  const sentences: string[] = [];
+  let inCodeBlock = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || !line || /^#{1,6}\s/.test(line) || line.startsWith('|') || /^[-*_]{3,}$/.test(line)) {
+      continue;
+    }
+
+    const text = line
+      .replace(/^(?:[-*+•]|\d+[.)])\s+/, '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\*\*|__|`/g, '')
+      .replace(/\[\d+\]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    for (const sentence of text.split(/(?<!\b(?:e\.g|i\.e|etc|vs|No|Fig|Sec)\.)(?<=[.!?])\s+(?=[A-Z0-9"'(])/)) {
+      const trimmed = sentence.trim();
+      if (trimmed.split(' ').length >= MIN_CLAIM_WORDS) sentences.push(trimmed);
+    }
+  }
+
+  return sentences;
+}
+
+/** Field name of the first Master Record value quoted verbatim in `sentence`, if any. */
+function findVerbatimMasterRecordValue(sentence: string, masterRecord: Array<[string, string]>): string | undefined {
+  const normalise = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+  const haystack = normalise(sentence);
+  const match = masterRecord.find(([, value]) =>
+    value.trim().length >= MIN_VERBATIM_VALUE_CHARS && haystack.includes(normalise(value)));
+  return match?.[0];
+}
@@ -0,0 +1,222 @@
+import { Discrepancy, AuditFinding, ClaimSupport } from '@phaser/shared-types';
+
+/**
+ * Discrepancy Engine
+ * Builds the typed Discrepancy[] for primary-context.yaml →
+ * generation_workflow.output.sections.discrepancies from concrete signals
+ * collected during token resolution and retrieval, the AUDITOR's findings and
+ * the claim verification pass.
+ *
+ * Shared by OrchestratorService and MultiModelOrchestrator.
+ */
+
+/**
+ * Signals gathered by an orchestrator run. Every field is optional so the
+ * engine can also describe runs that were blocked before the LLM was called.
+ */
+export interface DiscrepancySignals {
+  /** Referenced Master Record fields when the Master Record file itself was not found */
+  missingMasterRecordFields?: string[];
+  /** [Master Record|FIELD] tokens that had no value in the Master Record */
+  unresolvedMasterRecordFields?: string[];
+  /** [Doc|Name|FIELD] tokens whose field was missing from the document */
+  unresolvedDocFields?: Array<{ doc: string; field: string }>;
+  /** [Bootstrap|name] and [Doc|name|…] documents that could not be found */
+  missingBootstrapDocs?: string[];
+  /** [Procedure|…] references that matched no indexed procedure documents */
+  unmatchedProcedureRefs?: Array<{ subcategoryId: string; categoryId?: string }>;
+  /** @{source_id} scopes whose retrieved material fell below retrieval.scope_sufficiency */
+  insufficientKnowledgeScopes?: string[];
+  /** Raw AUDITOR output — parsed as a numbered list when no structured findings are available */
+  auditFindings?: string;
+  /** Validated AUDITOR findings (preferred over `auditFindings` when present) */
+  auditFindingList?: AuditFinding[];
+  /** Inline [n] markers that matched no tracked source (removed from the content) */
+  danglingCitations?: string[];
+  /** Generated sentences that no retrieved source supports (claim verification) */
+  unsupportedClaims?: ClaimSupport[];
+}
+
+/**
+ * Build the discrepancy list for a generation run.
+ * Duplicates (same type, description and location) are reported once.
+ */
+export function detectDiscrepancies(signals: DiscrepancySignals): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+
+  if (signals.missingMasterRecordFields && signals.missingMasterRecordFields.length > 0) {
+    discrepancies.push({
+      type: 'missing_information',
+      description:
+        `Master Record file not found; referenced fields could not be resolved: ` +
+        signals.missingMasterRecordFields.join(', '),
+      location: 'Context/Project-Master-Record.docx',
+      origin: 'master_record',
+    });
+  }
+
+  for (const field of signals.unresolvedMasterRecordFields ?? []) {
+    discrepancies.push({
+      type: 'missing_information',
+      description: `Master Record field "${field}" is referenced in the prompt but not configured in the Master Record`,
+      location: `[Master Record|${field}]`,
+      origin: 'master_record',
+    });
+  }
+
+  for (const { doc, field } of signals.unresolvedDocFields ?? []) {
+    discrepancies.push({
+      type: 'missing_information',
+      description: `Field "${field}" is referenced in the prompt but not found in bootstrap document "${doc}"`,
+      location: `[Doc|${doc}|${field}]`,
+      origin: 'document_field',
+    });
+  }
+
+  for (const doc of signals.missingBootstrapDocs ?? []) {
+    discrepancies.push({
+      type: 'missing_information',
+      description: `Bootstrap document "${doc}" was not found in the Bootstrap/ or Context/ folder`,
+      location: `[Bootstrap|${doc}]`,
+      origin: 'bootstrap',
+    });
+  }
+
+  for (const ref of signals.unmatchedProcedureRefs ?? []) {
+    const notation = ref.categoryId
+      ? `[Procedure|${ref.subcategoryId}|${ref.categoryId}]`
+      : `[Procedure|${ref.subcategoryId}]`;
+    discrepancies.push({
+      type: 'missing_information',
+      description: `Procedure category reference ${notation} matched no indexed documents`,
+      location: notation,
+      origin: 'procedure_category',
+    });
+  }
+
+  for (const id of signals.insufficientKnowledgeScopes ?? []) {
+    discrepancies.push({
+      type: 'missing_information',
+      description:
+        `Knowledge source @${id} is referenced in the prompt but yielded too little relevant indexed material; ` +
+        'retrieval was not widened to other sources',
+      location: `@${id}`,
+      origin: 'knowledge_scope',
+    });
+  }
+
+  if (signals.auditFindingList) {
+    discrepancies.push(...signals.auditFindingList.map(f => ({
+      type: classifyFinding(`${f.issue} ${f.offendingPassage}`),
+      description: `[${f.severity}] ${f.issue}`,
+      location: f.standardClause,
+      origin: 'audit' as const,
+    })));
+  } else if (signals.auditFindings) {
+    discrepancies.push(...parseAuditFindings(signals.auditFindings));
+  }
+
+  for (const marker of signals.danglingCitations ?? []) {
+    discrepancies.push({
+      type: 'missing_information',
+      description: `Citation ${marker} does not match any retrieved source and was removed from the content`,
+      location: marker,
+      origin: 'citation',
+    });
+  }
+
+  for (const claim of signals.unsupportedClaims ?? []) {
+    const excerpt = claim.sentence.length > 160 ? claim.sentence.substring(0, 160) + '…' : claim.sentence;
+    discrepancies.push({
+      type: 'missing_information',
+      description: `Statement not traceable to any retrieved source (support ${claim.supportScore.toFixed(2)}): "${excerpt}"`,
+      location: claim.source ? `Closest source: ${claim.source.name}` : undefined,
+      origin: 'claim_verification',
+    });
+  }
+
+  const seen = new Set<string>();
+  return discrepancies.filter(d => {
+    const key = `${d.type}|${d.description}|${d.location ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Audit findings parsing
+// ---------------------------------------------------------------------------
+
+/** Clause-level citations of external standards, e.g. "ISO 14971 clause 7.1", "21 CFR 820.30(c)" */
+const STANDARD_CITATION =
+  /\b(?:ISO|IEC|EN)\s*\d{3,5}(?:[-:]\d+)*(?:\s*(?:§|clause|section|sec\.)\s*\d+(?:\.\d+)*)?|\b21\s*CFR\s*(?:Part\s*)?\d+(?:\.\d+)?(?:\([a-z0-9]+\))*/gi;
+
+/** Company procedure citations, e.g. "SOP-001 Section 4.2", "QP-12" */
+const PROCEDURE_CITATION = /\b(?:SOP|QP|QaP|WI)[-\s]?\d+(?:\s*(?:§|section|sec\.)\s*\d+(?:\.\d+)*)?/gi;
+
+const CONTRADICTION_TERMS = /\b(contradict\w*|conflict\w*|inconsisten\w*|disagree\w*|discrepan\w*)\b/i;
+const MISSING_TERMS = /\b(missing|absent|omit\w*|not (?:specified|defined|documented|provided|included|addressed|stated)|does not (?:include|specify|define|address)|lacks?|no evidence)\b/i;
+
+/**
+ * Parse a free-text AUDITOR response (numbered list) into discrepancies.
+ * Fallback for runs where the auditor never produced valid JSON.
+ *
+ * - Items are numbered ("1.", "2)") or bulleted ("-", "*"); continuation lines
+ *   belong to the preceding item.
+ * - Type: see {@link classifyFinding}.
+ * - Location: procedure and standard citations found in the item, joined with "vs".
+ *
+ * Returns [] for NO_FINDINGS or empty output.
+ */
+export function parseAuditFindings(auditText: string): Discrepancy[] {
+  const text = auditText.trim();
+  if (!text || text.startsWith('NO_FINDINGS')) return [];
+
+  const items: string[] = [];
+  let current: string[] | null = null;
+  const itemStart = /^\s*(?:\d+[.)]|[-*•])\s+(.*)$/;
+
+  for (const line of text.split('\n')) {
+    const match = line.match(itemStart);
+    if (match) {
+      if (current) items.push(current.join(' '));
+      current = [match[1].trim()];
+    } else if (current && line.trim()) {
+      current.push(line.trim());
+    }
+  }
+  if (current) items.push(current.join(' '));
+
+  // No list structure — treat the whole response as a single finding
+  if (items.length === 0) items.push(text.replace(/\s+/g, ' '));
+
+  return items
+    .map(item => item.replace(/\*\*|__|`/g, '').trim())
+    .filter(item => item.length > 0)
+    .map(item => {
+      const citations = [
+        ...new Set([...(item.match(PROCEDURE_CITATION) ?? []), ...(item.match(STANDARD_CITATION) ?? [])]
+          .map(c => c.trim())),
+      ];
+
+      return {
+        type: classifyFinding(item),
+        description: item,
+        location: citations.length > 0 ? citations.join(' vs ') : undefined,
+        origin: 'audit' as const,
+      };
+    });
+}
+
+/**
+ * Map a finding's wording to a discrepancy type: contradiction wording →
+ * source_contradiction; missing/omitted wording → missing_information;
+ * otherwise procedure_vs_compliance (the auditor reviews the draft against
+ * external standards).
+ */
+function classifyFinding(text: string): Discrepancy['type'] {
+  if (CONTRADICTION_TERMS.test(text)) return 'source_contradiction';
+  if (MISSING_TERMS.test(text)) return 'missing_information';
+  return 'procedure_vs_compliance';
+}
@@ -1,8 +1,10 @@
-import { GenerationOutput, SourceAttribution, Discrepancy, ConfidenceRating } from '@phaser/shared-types';
+import { GenerationOutput, GenerationProgressCallback, SourceAttribution, ConfidenceRating, ClaimVerification } from '@phaser/shared-types';
 import { EnhancedRAGService, FootnoteTracker, SourceReference, buildLLMPrompt, parseProcedureReferences, parseKnowledgeSourceScopes } from '@phaser/rag-service';
-import { DocumentLoader } from '@phaser/rag-service';
+import { DocumentLoader, EmbeddingService } from '@phaser/rag-service';
 import { LLMService } from '@phaser/llm-service';
 import * as path from 'path';
+import { detectDiscrepancies, DiscrepancySignals } from './discrepancy-engine';
+import { verifyClaims } from './claim-verifier';
 
 /**
  * Orchestrator Service
@@ -11,7 +13,16 @@ import * as path from 'path';
 export class OrchestratorService {
   constructor(
     private ragService: EnhancedRAGService,
-    private llmService: LLMService
+    private llmService: LLMService,
+    private options: {
+      /**
+       * Whether to score each generated sentence against the retrieved
+       * sources and flag unsupported ones. Default: true.
+       */
+      enableClaimVerification?: boolean;
+      /** Minimum support score for a sentence to count as supported. Default: 0.5. */
+      claimSupportThreshold?: number;
+    } = {}
   ) {}
 
   /**
@@ -25,12 +36,17 @@ export class OrchestratorService {
    * 4. Generate content adhering to procedures
    * 5. Track conflicts/discrepancies between sources
    * 6. Calculate confidence rating
+   *
+   * When `onProgress` is supplied, cache/retrieval events and a single-pass
+   * step start/complete pair are reported as the workflow runs; token deltas
+   * are forwarded if the LLM service implements generateTextStream.
    */
   async generateFromPrompt(input: {
     projectPath: string;
     primaryContextPath: string;
     prompt: string;
     options?: { topKProcedures?: number; topKContext?: number };
+    onProgress?: GenerationProgressCallback;
   }): Promise<GenerationOutput> {
     console.log('=== Orchestrator: Generate From Prompt ===');
     console.log(`Project: ${input.projectPath}`);
@@ -49,7 +65,7 @@ export class OrchestratorService {
       const hasContextRefs = references.masterRecordFields.length > 0 || references.contextDocs.length > 0;
       const hasAnyRefs = hasProcedureRefs || hasContextRefs;
 
-      const { ragContext, metadata, procedureChunks, contextChunks, externalStandards } =
+      const { ragContext, metadata, procedureChunks, contextChunks, externalStandards, unmatchedProcedureRefs, insufficientKnowledgeScopes } =
         await this.ragService.retrieveRelevantContext(
           input.projectPath,
           input.primaryContextPath,
@@ -64,6 +80,7 @@ export class OrchestratorService {
               : (input.options?.topKContext ?? 2),
             includeFullPrimary: true,  // Always include primary context YAML
             includeSummaries: true,  // Always include SOP summaries
+            onProgress: input.onProgress,
           }
         );
       
@@ -84,17 +101,23 @@ export class OrchestratorService {
       console.log('  - Context files: ' + metadata.contextChunksRetrieved + ' chunks' + (hasContextRefs ? ' (boosted for explicit refs)' : ''));
       console.log('  - Footnotes tracked: ' + footnoteTracker.getSourceCount() + ' sources');
       console.log('  - Estimated tokens: ' + metadata.totalTokensEstimate);
+      if (metadata.rerank) {
+        console.log(`  - Reranked: ${metadata.rerank.candidatesScored} candidates with ${metadata.rerank.model} (${metadata.rerank.durationMs}ms)`);
+      }
       
       // Step 4a: Resolve [Bootstrap|name] tokens server-side.
       // Loads each referenced bootstrap document from {projectPath}/Bootstrap/ (or Context/).
       // File lookup uses prefix matching — [Bootstrap|DDP-Bootstrap-Phase1] finds DDP-Bootstrap-Phase1-V4.1.docx.
       let resolvedPrompt = input.prompt;
       const generationErrors: string[] = [];
+      const discrepancySignals: DiscrepancySignals = { unmatchedProcedureRefs, insufficientKnowledgeScopes };
+      let masterRecordValues: Record<string, string> = {};
 
       const hasBootstrapRefs = /\[Bootstrap\|[^\]]+\]/i.test(resolvedPrompt);
       if (hasBootstrapRefs) {
         const bsResult = await this.resolveBootstrapTokens(resolvedPrompt, input.projectPath);
         resolvedPrompt = bsResult.resolved;
+        discrepancySignals.missingBootstrapDocs = [...bsResult.missingDocs];
         for (const missingDoc of bsResult.missingDocs) {
           generationErrors.push(
             `Bootstrap document not found: "${missingDoc}"\n` +
@@ -109,7 +132,10 @@ export class OrchestratorService {
       if (references.masterRecordFields.length > 0) {
         const mrResult = await this.resolveMasterRecordTokens(resolvedPrompt, input.projectPath);
         resolvedPrompt = mrResult.resolved;
+        discrepancySignals.unresolvedMasterRecordFields = mrResult.unresolvedFields;
+        masterRecordValues = mrResult.resolvedFields;
         if (!mrResult.fileFound) {
+          discrepancySignals.missingMasterRecordFields = references.masterRecordFields;
           generationErrors.push(
             `Master Record file not found in ${input.projectPath}/Context/\n` +
             `  Referenced fields: ${references.masterRecordFields.join(', ')}\n` +
@@ -123,6 +149,11 @@ export class OrchestratorService {
       if (hasDocFieldRefs) {
         const dfResult = await this.resolveDocFieldTokens(resolvedPrompt, input.projectPath);
         resolvedPrompt = dfResult.resolved;
+        discrepancySignals.unresolvedDocFields = dfResult.unresolvedFields;
+        discrepancySignals.missingBootstrapDocs = [
+          ...(discrepancySignals.missingBootstrapDocs ?? []),
+          ...dfResult.missingDocs,
+        ];
         for (const missingDoc of dfResult.missingDocs) {
           generationErrors.push(
             `Bootstrap document not found: "${missingDoc}"\n` +
@@ -145,17 +176,36 @@ export class OrchestratorService {
             `Phaser cannot generate this document because the following referenced files were not found:\n\n` +
             generationErrors.map((e, i) => `**${i + 1}.** ${e}`).join('\n\n') +
             `\n\nPlease add the missing files and try again.`,
+          discrepancies: detectDiscrepancies(discrepancySignals),
         };
       }
 
       // Step 4e: Build the LLM prompt (single source of truth: prompt-builder.ts in rag-service)
-      const fullPrompt = buildLLMPrompt(ragContext, resolvedPrompt);
+      const fullPrompt = buildLLMPrompt(ragContext, resolvedPrompt, footnoteTracker.formatSourceList());
       
       console.log(`[Orchestrator] Full prompt length: ${fullPrompt.length} chars`);
       console.log(`[Orchestrator] Calling LLM service...`);
       
       // Step 5: Generate via LLM
-      const response = await this.llmService.generateText(fullPrompt);
+      const onProgress = input.onProgress;
+      const modelId = this.llmService.constructor.name;
+      onProgress?.({ type: 'step-start', step: 'single-pass', modelId, promptChars: fullPrompt.length });
+
+      const t0 = Date.now();
+      const response = onProgress && this.llmService.generateTextStream
+        ? await this.llmService.generateTextStream(fullPrompt, delta =>
+            onProgress({ type: 'token', step: 'single-pass', delta }))
+        : await this.llmService.generateText(fullPrompt);
+
+      onProgress?.({
+        type: 'step-complete',
+        step: 'single-pass',
+        modelId,
+        durationMs: Date.now() - t0,
+        tokensUsed: response.usageStats?.tokensUsed ?? 0,
+        promptChars: fullPrompt.length,
+        responseChars: response.generatedText?.length ?? 0,
+      });
       
       console.log(`[Orchestrator] LLM response received:`);
       console.log(`  - Generated text length: ${response.generatedText?.length || 0} chars`);
@@ -176,15 +226,40 @@ export class OrchestratorService {
         };
       }
       
-      // Step 6: Build source attributions from footnote tracker
+      // Step 6: Validate inline [n] markers — drop dangling ones, prune uncited sources
+      const citations = footnoteTracker.resolveCitations(response.generatedText);
+      discrepancySignals.danglingCitations = citations.danglingMarkers;
+      console.log(
+        `[Orchestrator] Citations: ${footnoteTracker.getSourceCount()} source(s) cited, ` +
+        `${citations.danglingMarkers.length} dangling marker(s) removed, ${citations.unusedSourceCount} uncited source(s)`
+      );
+      
+      // Step 7: Build source attributions from the pruned footnote tracker
       const sourceAttributions = this.buildSourceAttributions(footnoteTracker);
+      const finalText = citations.text;
       
-      // Step 7: Append footnotes to generated text
-      const footnotes = footnoteTracker.generateFootnotes();
-      const finalText = response.generatedText;// + footnotes;
+      // Step 7b: Verify each sentence is traceable to a retrieved source (non-fatal)
+      let claimVerification: ClaimVerification | undefined;
+      if (this.options.enableClaimVerification !== false) {
+        try {
+          claimVerification = await verifyClaims(
+            finalText,
+            { procedureChunks, contextChunks, masterRecordValues },
+            EmbeddingService.getInstance(input.projectPath),
+            this.options.claimSupportThreshold
+          );
+          discrepancySignals.unsupportedClaims = claimVerification.sentences.filter(s => !s.supported);
+          console.log(
+            `[Orchestrator] Claim verification: ${claimVerification.supportedCount}/` +
+            `${claimVerification.sentences.length} sentence(s) supported (threshold ${claimVerification.threshold})`
+          );
+        } catch (error) {
+          console.warn('[Orchestrator] Claim verification failed (non-fatal):', error);
+        }
+      }
       
-      // Step 8: Track discrepancies (placeholder for now)
-      const discrepancies = this.trackDiscrepancies(procedureChunks, contextChunks);
+      // Step 8: Track discrepancies (unresolved references, procedure category matches, dangling citations, unsupported claims)
+      const discrepancies = detectDiscrepancies(discrepancySignals);
       
       // Step 9: Calculate confidence rating
       const confidence = this.buildConfidenceRating(
@@ -196,6 +271,7 @@ export class OrchestratorService {
       console.log(`[Orchestrator] Generated ${response.usageStats.tokensUsed} tokens`);
       console.log(`[Orchestrator] Appended ${footnoteTracker.getSourceCount()} footnotes`);
       console.log(`[Orchestrator] Confidence: ${confidence.level}`);
+      console.log(`[Orchestrator] Discrepancies: ${discrepancies.length}`);
       console.log('=== Orchestrator: Complete ===\n');
       
       return {
@@ -206,6 +282,8 @@ export class OrchestratorService {
         references: sourceAttributions,
         confidence: confidence,
         discrepancies: discrepancies,
+        claimVerification,
+        contextSources: metadata.contextSources,
         usageStats: response.usageStats,
         metadata: {
           sources: metadata.sources,
@@ -271,7 +349,7 @@ export class OrchestratorService {
     result.knowledgeScopes = parseKnowledgeSourceScopes(prompt);
     if (result.knowledgeScopes.size > 0) {
       console.log(
-        `[Orchestrator] ℹ️  Knowledge source scopes: @${Array.from(result.knowledgeScopes).join(', @')} (full enforcement not yet implemented)`
+        `[Orchestrator] ℹ️  Knowledge source scopes: @${Array.from(result.knowledgeScopes).join(', @')} (enforced during retrieval)`
       );
     }
 
@@ -351,7 +429,7 @@ export class OrchestratorService {
   private async resolveMasterRecordTokens(
     prompt: string,
     projectPath: string
-  ): Promise<{ resolved: string; fileFound: boolean; unresolvedFields: string[] }> {
+  ): Promise<{ resolved: string; fileFound: boolean; unresolvedFields: string[]; resolvedFields: Record<string, string> }> {
     const contextPath = path.join(projectPath, 'Context');
     const loader = new DocumentLoader();
 
@@ -360,11 +438,11 @@ export class OrchestratorService {
       masterRecord = await loader.loadMasterRecord(contextPath);
     } catch (err) {
       console.warn('[Orchestrator] Could not load Master Record:', err);
-      return { resolved: prompt, fileFound: false, unresolvedFields: [] };
+      return { resolved: prompt, fileFound: false, unresolvedFields: [], resolvedFields: {} };
     }
 
     if (!masterRecord) {
-      return { resolved: prompt, fileFound: false, unresolvedFields: [] };
+      return { resolved: prompt, fileFound: false, unresolvedFields: [], resolvedFields: {} };
     }
 
     // Prefer HTML-based parsing (handles bold+inline and table formats in Word docs).
@@ -378,12 +456,14 @@ export class OrchestratorService {
     console.log(`[Orchestrator] Master Record parsed: ${fields.size} field(s) available for substitution`);
 
     const unresolvedFields: string[] = [];
+    const resolvedFields: Record<string, string> = {};
     let resolved = prompt;
     const tokenPattern = /\[Master Record\|([^\]]+)\]/gi;
     resolved = resolved.replace(tokenPattern, (_match, fieldName) => {
       const key = fieldName.trim().toUpperCase();
       const value = fields.get(key);
       if (value !== undefined) {
+        resolvedFields[key] = value;
         const preview = value.length > 60 ? value.substring(0, 60) + '…' : value;
         console.log(`[Orchestrator] ✓ Resolved [Master Record|${key}] → "${preview}"`);
         return value;
@@ -395,7 +475,7 @@ export class OrchestratorService {
       }
     });
 
-    return { resolved, fileFound: true, unresolvedFields };
+    return { resolved, fileFound: true, unresolvedFields, resolvedFields };
   }
 
   /**
@@ -532,9 +612,8 @@ export class OrchestratorService {
    */
   private buildSourceAttributions(tracker: FootnoteTracker): SourceAttribution[] {
     const attributions: SourceAttribution[] = [];
-    const sources = tracker.getSources();
-    
-    for (const [id, sourceRef] of sources) {
+
+    for (const sourceRef of tracker.getSourcesArray()) {
       // Map SourceReference category to SourceAttribution category
       let category: SourceAttribution['category'] = 'general';
       
@@ -552,7 +631,7 @@ export class OrchestratorService {
         : sourceRef.citationText;
       
       attributions.push({
-        id,
+        id: sourceRef.id,
         fileName: sourceRef.fileName,
         category,
         section,
@@ -563,18 +642,6 @@ export class OrchestratorService {
     return attributions;
   }
 
-  /**
-   * Track discrepancies between sources (placeholder for future enhancement)
-   */
-  private trackDiscrepancies(
-    procedureChunks: any[],
-    contextChunks: any[]
-  ): Discrepancy[] {
-    // TODO: Future enhancement - analyze chunks for conflicts
-    // For now, return empty array
-    return [];
-  }
-
   /**
    * Calculate confidence rating based on retrieval success and generation quality
    */
@@ -697,3 +764,5 @@ export class OrchestratorService {
 }
 
 export { MultiModelOrchestrator } from './multi-model-orchestrator';
+export { detectDiscrepancies, parseAuditFindings, DiscrepancySignals } from './discrepancy-engine';
+export { verifyClaims, splitIntoSentences, ClaimSources, DEFAULT_CLAIM_SUPPORT_THRESHOLD } from './claim-verifier';
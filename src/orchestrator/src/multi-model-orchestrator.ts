@@ -1,9 +1,15 @@
 import {
   GenerationOutput,
+  GenerationOptions,
+  GenerationProgressCallback,
   SourceAttribution,
-  Discrepancy,
   ConfidenceRating,
   ParsedDocument,
+  AuditFinding,
+  AuditSeverity,
+  AuditIteration,
+  AuditStopReason,
+  ClaimVerification,
 } from '@phaser/shared-types';
 import {
   EnhancedRAGService,
@@ -12,9 +18,12 @@ import {
   parseProcedureReferences,
   parseKnowledgeSourceScopes,
   DocumentLoader,
+  EmbeddingService,
 } from '@phaser/rag-service';
-import { ModelRouter, ModelRole } from '@phaser/llm-service';
+import { ModelRouter, ModelRole, meetsSeverity } from '@phaser/llm-service';
 import * as path from 'path';
+import { detectDiscrepancies, DiscrepancySignals } from './discrepancy-engine';
+import { verifyClaims } from './claim-verifier';
 
 // ---------------------------------------------------------------------------
 // Internal types
@@ -34,9 +43,11 @@ type ModelBreakdownEntry = NonNullable<NonNullable<GenerationOutput['usageStats'
  *   INGESTION → DRAFTER → AUDITOR → REVISER
  *
  * The INGESTION and REVISION steps are optional and can be disabled via
- * constructor options. The AUDIT step is also optional; REVISION is
- * automatically skipped when the auditor returns findings below the
- * configured threshold.
+ * constructor options. The AUDIT step is also optional; the AUDITOR returns
+ * JSON findings with a severity, and REVISION is automatically skipped when
+ * no finding reaches the configured minimum severity. AUDIT → REVISION can
+ * repeat (each revision re-audited) up to `maxAuditIterations` passes or
+ * until `auditTokenBudget` is used up.
  *
  * The existing {@link OrchestratorService} (single-model) is not modified —
  * it remains the fallback path and can still be used independently.
@@ -56,9 +67,39 @@ export class MultiModelOrchestrator {
        */
       enableRevisionStep?: boolean;
       /**
-       * Minimum character length of audit findings text required to trigger
-       * the revision step. Findings shorter than this threshold are treated
-       * as "no findings". Default: 50.
+       * Least severe audit finding that triggers the revision step; only
+       * findings at or above it are sent to the REVISER. Default: 'minor'
+       * (observations alone never trigger revision).
+       */
+      revisionMinSeverity?: AuditSeverity;
+      /**
+       * How many times the AUDITOR is asked to repair invalid JSON before the
+       * raw text fallback is used. Default: 2.
+       */
+      auditRepairAttempts?: number;
+      /**
+       * Maximum AUDITOR passes. Every revision except the one made on the
+       * last pass is re-audited. Default: 1 (single audit → revision).
+       * Overridden per request by `options.maxAuditIterations`.
+       */
+      maxAuditIterations?: number;
+      /**
+       * Stop starting audit/revision steps once the whole pipeline has used
+       * this many tokens. Default: unlimited. Overridden per request by
+       * `options.auditTokenBudget`.
+       */
+      auditTokenBudget?: number;
+      /**
+       * Whether to score each generated sentence against the retrieved
+       * sources and flag unsupported ones. Default: true.
+       */
+      enableClaimVerification?: boolean;
+      /** Minimum support score for a sentence to count as supported. Default: 0.5. */
+      claimSupportThreshold?: number;
+      /**
+       * Fallback only — used when the AUDITOR never returns valid JSON.
+       * Minimum character length of the raw findings text required to trigger
+       * the revision step. Default: 50.
        */
       auditFindingsThreshold?: number;
     } = {}
@@ -69,13 +110,19 @@ export class MultiModelOrchestrator {
    *
    * Mirrors the signature of {@link OrchestratorService.generateFromPrompt}
    * so the two orchestrators are interchangeable at the call site.
+   *
+   * When `onProgress` is supplied, every step reports start / complete /
+   * skipped events (complete events carry the step's pipelineTrace entry)
+   * and streaming-capable models forward their token deltas.
    */
   async generateFromPrompt(input: {
     projectPath: string;
     primaryContextPath: string;
     prompt: string;
-    options?: { topKProcedures?: number; topKContext?: number };
+    options?: GenerationOptions;
+    onProgress?: GenerationProgressCallback;
   }): Promise<GenerationOutput> {
+    const onProgress = input.onProgress;
     console.log('=== MultiModelOrchestrator: Generate From Prompt ===');
     console.log(`Project: ${input.projectPath}`);
     console.log(`Prompt length: ${input.prompt.length} chars`);
@@ -97,7 +144,7 @@ export class MultiModelOrchestrator {
         references.masterRecordFields.length > 0 || references.contextDocs.length > 0;
       const hasAnyRefs = hasProcedureRefs || hasContextRefs;
 
-      const { ragContext, metadata, procedureChunks, contextChunks, externalStandards } =
+      const { ragContext, metadata, procedureChunks, contextChunks, externalStandards, unmatchedProcedureRefs, insufficientKnowledgeScopes } =
         await this.ragService.retrieveRelevantContext(
           input.projectPath,
           input.primaryContextPath,
@@ -111,6 +158,7 @@ export class MultiModelOrchestrator {
               : (input.options?.topKContext ?? 2),
             includeFullPrimary: true,
             includeSummaries: true,
+            onProgress,
           }
         );
 
@@ -126,6 +174,9 @@ export class MultiModelOrchestrator {
       console.log('  - Procedures: ' + metadata.procedureChunksRetrieved + ' chunks');
       console.log('  - Context files: ' + metadata.contextChunksRetrieved + ' chunks');
       console.log('  - Estimated tokens: ' + metadata.totalTokensEstimate);
+      if (metadata.rerank) {
+        console.log(`  - Reranked: ${metadata.rerank.candidatesScored} candidates with ${metadata.rerank.model} (${metadata.rerank.durationMs}ms)`);
+      }
 
       // ------------------------------------------------------------------
       // Token resolution: [Bootstrap|name], [Master Record|FIELD], [Doc|Name|FIELD]
@@ -133,6 +184,8 @@ export class MultiModelOrchestrator {
       // ------------------------------------------------------------------
       let resolvedPrompt = input.prompt;
       const generationErrors: string[] = [];
+      const discrepancySignals: DiscrepancySignals = { unmatchedProcedureRefs, insufficientKnowledgeScopes };
+      let masterRecordValues: Record<string, string> = {};
 
       // Step 4a: Resolve [Bootstrap|name] tokens — loads each bootstrap document from
       // {projectPath}/Bootstrap/ (or Context/) and injects its content inline.
@@ -141,6 +194,7 @@ export class MultiModelOrchestrator {
       if (hasBootstrapRefs) {
         const bsResult = await this.resolveBootstrapTokens(resolvedPrompt, input.projectPath);
         resolvedPrompt = bsResult.resolved;
+        discrepancySignals.missingBootstrapDocs = [...bsResult.missingDocs];
         for (const missingDoc of bsResult.missingDocs) {
           generationErrors.push(
             `Bootstrap document not found: "${missingDoc}"\n` +
@@ -152,7 +206,10 @@ export class MultiModelOrchestrator {
       if (references.masterRecordFields.length > 0) {
         const mrResult = await this.resolveMasterRecordTokens(resolvedPrompt, input.projectPath);
         resolvedPrompt = mrResult.resolved;
+        discrepancySignals.unresolvedMasterRecordFields = mrResult.unresolvedFields;
+        masterRecordValues = mrResult.resolvedFields;
         if (!mrResult.fileFound) {
+          discrepancySignals.missingMasterRecordFields = references.masterRecordFields;
           generationErrors.push(
             `Master Record file not found in ${input.projectPath}/Context/\n` +
             `  Referenced fields: ${references.masterRecordFields.join(', ')}\n` +
@@ -165,6 +222,11 @@ export class MultiModelOrchestrator {
       if (hasDocFieldRefs) {
         const dfResult = await this.resolveDocFieldTokens(resolvedPrompt, input.projectPath);
         resolvedPrompt = dfResult.resolved;
+        discrepancySignals.unresolvedDocFields = dfResult.unresolvedFields;
+        discrepancySignals.missingBootstrapDocs = [
+          ...(discrepancySignals.missingBootstrapDocs ?? []),
+          ...dfResult.missingDocs,
+        ];
         for (const missingDoc of dfResult.missingDocs) {
           generationErrors.push(
             `Bootstrap document not found: "${missingDoc}"\n` +
@@ -187,6 +249,7 @@ export class MultiModelOrchestrator {
             `Phaser cannot generate this document because the following referenced files were not found:\n\n` +
             generationErrors.map((e, i) => `**${i + 1}.** ${e}`).join('\n\n') +
             `\n\nPlease add the missing files and try again.`,
+          discrepancies: detectDiscrepancies(discrepancySignals),
         };
       }
 
@@ -217,8 +280,11 @@ export class MultiModelOrchestrator {
           'Maintain structured formatting.\n\n' +
           ragContext;
 
+        onProgress?.({ type: 'step-start', step: 'ingestion', modelId: assignment.modelId, promptChars: ingestionPrompt.length });
         const t0 = Date.now();
-        const ingestionResult = await this.modelRouter.generateIngestionPrompt(ingestionPrompt);
+        const ingestionResult = await this.modelRouter.generateIngestionPrompt(
+          ingestionPrompt, undefined, this.forwardTokens(onProgress, 'ingestion')
+        );
         const durationMs = Date.now() - t0;
 
         effectiveRagContext = ingestionResult.generatedText ?? ragContext;
@@ -228,30 +294,35 @@ export class MultiModelOrchestrator {
         console.log(
           `[MultiModelOrchestrator] Step 1 INGESTION: ${assignment.modelId} — ${durationMs}ms, ${tokens} tokens`
         );
-        pipelineTrace.push({ step: 'ingestion', modelId: assignment.modelId, durationMs, tokensUsed: tokens, promptChars: ingestionPrompt.length, responseChars: effectiveRagContext.length });
+        this.recordStep(pipelineTrace, { step: 'ingestion', modelId: assignment.modelId, durationMs, tokensUsed: tokens, promptChars: ingestionPrompt.length, responseChars: effectiveRagContext.length }, onProgress);
         modelBreakdown.push({ role: ModelRole.INGESTION, modelId: assignment.modelId, tokensUsed: tokens, cost });
       } else if (enableIngestion) {
         console.log(
           `[MultiModelOrchestrator] Step 1 INGESTION: skipped — ` +
           `context ${metadata.totalTokensEstimate} tokens (threshold: 6000)`
         );
+        onProgress?.({ type: 'step-skipped', step: 'ingestion', reason: `context ${metadata.totalTokensEstimate} tokens below threshold 6000` });
       } else {
         console.log('[MultiModelOrchestrator] Step 1 INGESTION: disabled');
+        onProgress?.({ type: 'step-skipped', step: 'ingestion', reason: 'disabled' });
       }
 
       // ------------------------------------------------------------------
       // Step 2 — DRAFT
       // ------------------------------------------------------------------
       const draftAssignment = this.modelRouter.getAssignment(ModelRole.DRAFTER);
-      const fullPrompt = buildLLMPrompt(effectiveRagContext, resolvedPrompt);
+      const fullPrompt = buildLLMPrompt(effectiveRagContext, resolvedPrompt, footnoteTracker.formatSourceList());
 
       console.log(
         `[MultiModelOrchestrator] Step 2 DRAFT — model: ${draftAssignment.modelId}, ` +
         `prompt: ${fullPrompt.length} chars`
       );
 
+      onProgress?.({ type: 'step-start', step: 'draft', modelId: draftAssignment.modelId, promptChars: fullPrompt.length });
       const t2 = Date.now();
-      const draftResult = await this.modelRouter.generateDraft(fullPrompt);
+      const draftResult = await this.modelRouter.generateDraft(
+        fullPrompt, undefined, this.forwardTokens(onProgress, 'draft')
+      );
       const draftDuration = Date.now() - t2;
 
       const draftText = draftResult.generatedText ?? '';
@@ -261,7 +332,7 @@ export class MultiModelOrchestrator {
       console.log(
         `[MultiModelOrchestrator] Step 2 DRAFT: ${draftAssignment.modelId} — ${draftDuration}ms, ${draftTokens} tokens`
       );
-      pipelineTrace.push({ step: 'draft', modelId: draftAssignment.modelId, durationMs: draftDuration, tokensUsed: draftTokens, promptChars: fullPrompt.length, responseChars: draftText.length });
+      this.recordStep(pipelineTrace, { step: 'draft', modelId: draftAssignment.modelId, durationMs: draftDuration, tokensUsed: draftTokens, promptChars: fullPrompt.length, responseChars: draftText.length }, onProgress);
       modelBreakdown.push({ role: ModelRole.DRAFTER, modelId: draftAssignment.modelId, tokensUsed: draftTokens, cost: draftCost });
 
       if (!draftText || draftText.trim().length === 0) {
@@ -280,95 +351,123 @@ export class MultiModelOrchestrator {
       }
 
       // ------------------------------------------------------------------
-      // Step 3 — AUDIT
+      // Steps 3–4 — AUDIT → REVISION loop
+      // Each revision is re-audited until no finding reaches the revision
+      // severity, the iteration limit is hit or the token budget runs out.
       // ------------------------------------------------------------------
       const enableAudit = this.options.enableAuditStep !== false;
+      const enableRevision = this.options.enableRevisionStep !== false;
+      const minSeverity = this.options.revisionMinSeverity ?? 'minor';
+      const maxIterations = Math.max(1, Math.floor(
+        Number(input.options?.maxAuditIterations ?? this.options.maxAuditIterations ?? 1) || 1
+      ));
+      const tokenBudget = Number(input.options?.auditTokenBudget ?? this.options.auditTokenBudget) || 0;
+      const budgetExhausted = () =>
+        tokenBudget > 0 && modelBreakdown.reduce((sum, m) => sum + m.tokensUsed, 0) >= tokenBudget;
+
+      let finalContent = draftText;
       let auditText = '';
+      let auditFindingList: AuditFinding[] | undefined;
+      const auditHistory: AuditIteration[] = [];
+      let auditStopReason: AuditStopReason | undefined;
 
-      if (enableAudit) {
-        const auditAssignment = this.modelRouter.getAssignment(ModelRole.AUDITOR);
+      if (!enableAudit) {
+        console.log('[MultiModelOrchestrator] Step 3 AUDIT: disabled');
+        onProgress?.({ type: 'step-skipped', step: 'audit', reason: 'disabled' });
+        console.log('[MultiModelOrchestrator] Step 4 REVISION: disabled');
+        onProgress?.({ type: 'step-skipped', step: 'revision', reason: 'disabled' });
+      }
 
-        const auditPrompt = this.buildAuditPrompt(
-          draftText,
-          externalStandards as Array<{ id: string; name: string; scope: string }>
-        );
+      for (let iteration = 1; enableAudit && !auditStopReason; iteration++) {
+        if (iteration > 1 && budgetExhausted()) {
+          auditStopReason = 'token-budget';
+          console.log(`[MultiModelOrchestrator] Step 3 AUDIT (pass ${iteration}): skipped — token budget ${tokenBudget} exhausted`);
+          onProgress?.({ type: 'step-skipped', step: 'audit', reason: 'token budget exhausted', iteration });
+          break;
+        }
 
-        console.log(
-          `[MultiModelOrchestrator] Step 3 AUDIT — model: ${auditAssignment.modelId}`
-        );
-        console.log(
-          `[MultiModelOrchestrator] Audit prompt: ${auditPrompt.length} chars (was full ragContext)`
+        const audit = await this.runAuditStep(
+          finalContent, externalStandards as Array<{ id: string; name: string; scope: string }>,
+          { iteration, maxIterations }, pipelineTrace, modelBreakdown, onProgress
         );
+        auditText = audit.rawText;
+        auditFindingList = audit.findings;
+        const pass: AuditIteration = {
+          iteration, findings: audit.findings, rawText: audit.rawText, revised: false, tokensUsed: audit.tokensUsed,
+        };
+        auditHistory.push(pass);
 
-        const t3 = Date.now();
-        const auditResult = await this.modelRouter.generateAuditFindings(auditPrompt);
-        const auditDuration = Date.now() - t3;
+        const { revisionFindings, noRevisionReason } = this.selectRevisionFindings(audit, minSeverity);
 
-        auditText = auditResult.generatedText ?? '';
-        const auditTokens = auditResult.usageStats?.tokensUsed ?? 0;
-        const auditCost = auditResult.usageStats?.cost ?? 0;
+        if (!enableRevision) {
+          auditStopReason = revisionFindings ? 'revision-disabled' : 'converged';
+          console.log('[MultiModelOrchestrator] Step 4 REVISION: disabled');
+          onProgress?.({ type: 'step-skipped', step: 'revision', reason: 'disabled', iteration });
+          break;
+        }
+        if (!revisionFindings) {
+          auditStopReason = 'converged';
+          console.log(`[MultiModelOrchestrator] Step 4 REVISION (pass ${iteration}): skipped — ${noRevisionReason}`);
+          onProgress?.({ type: 'step-skipped', step: 'revision', reason: noRevisionReason, iteration });
+          break;
+        }
+        if (budgetExhausted()) {
+          auditStopReason = 'token-budget';
+          console.log(`[MultiModelOrchestrator] Step 4 REVISION (pass ${iteration}): skipped — token budget ${tokenBudget} exhausted`);
+          onProgress?.({ type: 'step-skipped', step: 'revision', reason: 'token budget exhausted', iteration });
+          break;
+        }
 
-        console.log(
-          `[MultiModelOrchestrator] Step 3 AUDIT: ${auditAssignment.modelId} — ${auditDuration}ms, ${auditTokens} tokens`
+        const revision = await this.runRevisionStep(
+          resolvedPrompt, finalContent, revisionFindings,
+          externalStandards as Array<{ id: string; name: string; scope: string }>,
+          { iteration, maxIterations, minSeverity, structured: audit.findings !== undefined },
+          pipelineTrace, modelBreakdown, onProgress
         );
-        pipelineTrace.push({ step: 'audit', modelId: auditAssignment.modelId, durationMs: auditDuration, tokensUsed: auditTokens, promptChars: auditPrompt.length, responseChars: auditText.length });
-        modelBreakdown.push({ role: ModelRole.AUDITOR, modelId: auditAssignment.modelId, tokensUsed: auditTokens, cost: auditCost });
-      } else {
-        console.log('[MultiModelOrchestrator] Step 3 AUDIT: disabled');
-      }
+        finalContent = revision.text;
+        pass.revised = true;
+        pass.tokensUsed += revision.tokensUsed;
 
-      // ------------------------------------------------------------------
-      // Step 4 — REVISION (optional; only runs when audit found issues)
-      // ------------------------------------------------------------------
-      const enableRevision = this.options.enableRevisionStep !== false;
-      const threshold = this.options.auditFindingsThreshold ?? 50;
-      const isNoFindings =
-        auditText === 'NO_FINDINGS' || auditText.trimStart().startsWith('NO_FINDINGS');
-      if (isNoFindings) {
-        console.log('[MultiModelOrchestrator] ✓ Audit: no findings — skipping revision step');
+        if (iteration >= maxIterations) auditStopReason = 'max-iterations';
       }
-      const hasFindings = !isNoFindings && auditText.length >= threshold;
-
-      let finalContent = draftText;
-
-      if (enableRevision && enableAudit && hasFindings) {
-        const reviserAssignment = this.modelRouter.getAssignment(ModelRole.REVISER);
-
-        const revisionPrompt = this.buildRevisionPrompt(
-          resolvedPrompt,
-          draftText,
-          auditText,
-          externalStandards as Array<{ id: string; name: string; scope: string }>
-        );
 
+      if (auditStopReason) {
         console.log(
-          `[MultiModelOrchestrator] Step 4 REVISION — model: ${reviserAssignment.modelId}, ` +
-          `audit findings: ${auditText.length} chars`
+          `[MultiModelOrchestrator] Audit loop stopped after ${auditHistory.length} pass(es): ${auditStopReason}`
         );
-        console.log(
-          `[MultiModelOrchestrator] Revision prompt: ${revisionPrompt.length} chars`
-        );
-
-        const t4 = Date.now();
-        const revisionResult = await this.modelRouter.generateRevisionFromPrompt(revisionPrompt);
-        const revisionDuration = Date.now() - t4;
+      }
 
-        finalContent = revisionResult.generatedText ?? draftText;
-        const revisionTokens = revisionResult.usageStats?.tokensUsed ?? 0;
-        const revisionCost = revisionResult.usageStats?.cost ?? 0;
+      // ------------------------------------------------------------------
+      // Citation markers — drop dangling [n], prune uncited sources
+      // ------------------------------------------------------------------
+      const citations = footnoteTracker.resolveCitations(finalContent);
+      finalContent = citations.text;
+      discrepancySignals.danglingCitations = citations.danglingMarkers;
+      console.log(
+        `[MultiModelOrchestrator] Citations: ${footnoteTracker.getSourceCount()} source(s) cited, ` +
+        `${citations.danglingMarkers.length} dangling marker(s) removed, ${citations.unusedSourceCount} uncited source(s)`
+      );
 
-        console.log(
-          `[MultiModelOrchestrator] Step 4 REVISION: ${reviserAssignment.modelId} — ${revisionDuration}ms, ${revisionTokens} tokens`
-        );
-        pipelineTrace.push({ step: 'revision', modelId: reviserAssignment.modelId, durationMs: revisionDuration, tokensUsed: revisionTokens, promptChars: revisionPrompt.length, responseChars: finalContent.length });
-        modelBreakdown.push({ role: ModelRole.REVISER, modelId: reviserAssignment.modelId, tokensUsed: revisionTokens, cost: revisionCost });
-      } else if (enableRevision && enableAudit && !hasFindings) {
-        console.log(
-          `[MultiModelOrchestrator] Step 4 REVISION: skipped — ` +
-          `audit findings ${auditText.length} chars < threshold ${threshold}`
-        );
-      } else {
-        console.log('[MultiModelOrchestrator] Step 4 REVISION: disabled');
+      // ------------------------------------------------------------------
+      // Claim verification (no LLM call; non-fatal)
+      // ------------------------------------------------------------------
+      let claimVerification: ClaimVerification | undefined;
+      if (this.options.enableClaimVerification !== false) {
+        try {
+          claimVerification = await verifyClaims(
+            finalContent,
+            { procedureChunks, contextChunks, masterRecordValues },
+            EmbeddingService.getInstance(input.projectPath),
+            this.options.claimSupportThreshold
+          );
+          discrepancySignals.unsupportedClaims = claimVerification.sentences.filter(s => !s.supported);
+          console.log(
+            `[MultiModelOrchestrator] Claim verification: ${claimVerification.supportedCount}/` +
+            `${claimVerification.sentences.length} sentence(s) supported (threshold ${claimVerification.threshold})`
+          );
+        } catch (error) {
+          console.warn('[MultiModelOrchestrator] Claim verification failed (non-fatal):', error);
+        }
       }
 
       // ------------------------------------------------------------------
@@ -378,7 +477,7 @@ export class MultiModelOrchestrator {
       const totalCost   = modelBreakdown.reduce((sum, m) => sum + m.cost, 0);
 
       const sourceAttributions = this.buildSourceAttributions(footnoteTracker);
-      const discrepancies      = this.trackDiscrepancies(procedureChunks, contextChunks);
+      const discrepancies      = detectDiscrepancies({ ...discrepancySignals, auditFindings: auditText, auditFindingList });
       const confidence         = this.buildConfidenceRating(references, metadata, {
         tokensUsed: totalTokens,
         cost: totalCost,
@@ -387,11 +486,16 @@ export class MultiModelOrchestrator {
       console.log(
         `[MultiModelOrchestrator] Step 5 ASSEMBLE — final content: ${finalContent.length} chars`
       );
+      console.log(
+        `[MultiModelOrchestrator] Discrepancies: ${discrepancies.length} ` +
+        `(${discrepancies.filter(d => d.origin === 'audit').length} from audit findings)`
+      );
       console.log('[MultiModelOrchestrator] === Token Efficiency Report ===');
       for (const s of pipelineTrace) {
         const approxInputTokens = Math.round(s.promptChars / 4);
+        const stepLabel = s.iteration && s.iteration > 1 ? `${s.step} #${s.iteration}` : s.step;
         console.log(
-          `  ${s.step.padEnd(10)} | ${s.modelId.padEnd(20)} | ` +
+          `  ${stepLabel.padEnd(10)} | ${s.modelId.padEnd(20)} | ` +
           `input: ~${approxInputTokens.toLocaleString()} tokens (${s.promptChars.toLocaleString()} chars) | ` +
           `output: ${s.responseChars.toLocaleString()} chars | ` +
           `${s.durationMs}ms`
@@ -416,6 +520,11 @@ export class MultiModelOrchestrator {
         confidence,
         discrepancies,
         auditFindings: auditText || undefined,
+        auditFindingList,
+        auditHistory: enableAudit ? auditHistory : undefined,
+        auditStopReason,
+        claimVerification,
+        contextSources: metadata.contextSources,
         pipelineTrace,
         usageStats: {
           tokensUsed: totalTokens,
@@ -439,6 +548,180 @@ export class MultiModelOrchestrator {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Private helpers — progress reporting
+  // ---------------------------------------------------------------------------
+
+  /** Append a step to the trace and report it as a `step-complete` event. */
+  private recordStep(
+    pipelineTrace: PipelineStep[],
+    entry: PipelineStep,
+    onProgress?: GenerationProgressCallback
+  ): void {
+    pipelineTrace.push(entry);
+    onProgress?.({ type: 'step-complete', ...entry });
+  }
+
+  /** Build a token-delta callback for a step, or undefined when nobody is listening. */
+  private forwardTokens(
+    onProgress: GenerationProgressCallback | undefined,
+    step: PipelineStep['step']
+  ): ((delta: string) => void) | undefined {
+    if (!onProgress) return undefined;
+    return delta => onProgress({ type: 'token', step, delta });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers — audit/revise loop
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Run one AUDITOR pass over `content` and record it in the trace.
+   * `findings` is undefined when the auditor never returned valid JSON.
+   */
+  private async runAuditStep(
+    content: string,
+    externalStandards: Array<{ id: string; name: string; scope: string }>,
+    pass: { iteration: number; maxIterations: number },
+    pipelineTrace: PipelineStep[],
+    modelBreakdown: ModelBreakdownEntry[],
+    onProgress?: GenerationProgressCallback
+  ): Promise<{ rawText: string; findings?: AuditFinding[]; tokensUsed: number }> {
+    const { iteration } = pass;
+    const auditAssignment = this.modelRouter.getAssignment(ModelRole.AUDITOR);
+    const auditPrompt = this.buildAuditPrompt(content, externalStandards);
+    const label = pass.maxIterations > 1 ? ` (pass ${iteration}/${pass.maxIterations})` : '';
+
+    console.log(
+      `[MultiModelOrchestrator] Step 3 AUDIT${label} — model: ${auditAssignment.modelId}`
+    );
+    console.log(
+      `[MultiModelOrchestrator] Audit prompt: ${auditPrompt.length} chars (was full ragContext)`
+    );
+
+    onProgress?.({ type: 'step-start', step: 'audit', modelId: auditAssignment.modelId, promptChars: auditPrompt.length, iteration });
+    const t3 = Date.now();
+    const auditResult = await this.modelRouter.generateStructuredAuditFindings(auditPrompt, {
+      maxRepairAttempts: this.options.auditRepairAttempts,
+      onToken: this.forwardTokens(onProgress, 'audit'),
+    });
+    const auditDuration = Date.now() - t3;
+
+    const findings = auditResult.valid ? auditResult.findings : undefined;
+    const auditTokens = auditResult.usageStats.tokensUsed;
+
+    console.log(
+      `[MultiModelOrchestrator] Step 3 AUDIT${label}: ${auditAssignment.modelId} — ${auditDuration}ms, ${auditTokens} tokens, ` +
+      (findings
+        ? `${findings.length} finding(s) (${this.summariseSeverities(findings)})`
+        : `invalid JSON after ${auditResult.attempts} attempt(s) — using raw text`)
+    );
+    this.recordStep(pipelineTrace, { step: 'audit', modelId: auditAssignment.modelId, durationMs: auditDuration, tokensUsed: auditTokens, promptChars: auditPrompt.length, responseChars: auditResult.rawText.length, iteration }, onProgress);
+    modelBreakdown.push({ role: ModelRole.AUDITOR, modelId: auditAssignment.modelId, tokensUsed: auditTokens, cost: auditResult.usageStats.cost });
+
+    return { rawText: auditResult.rawText, findings, tokensUsed: auditTokens };
+  }
+
+  /**
+   * Decide whether an audit pass warrants a revision.
+   * Structured path: findings at or above `minSeverity`.
+   * Fallback (invalid JSON): legacy NO_FINDINGS sentinel + text-length threshold.
+   * Returns `revisionFindings: null` (with the reason) when no revision is needed.
+   */
+  private selectRevisionFindings(
+    audit: { rawText: string; findings?: AuditFinding[] },
+    minSeverity: AuditSeverity
+  ): { revisionFindings: string | null; noRevisionReason: string } {
+    if (audit.findings) {
+      const actionable = audit.findings.filter(f => meetsSeverity(f.severity, minSeverity));
+      return {
+        revisionFindings: actionable.length > 0 ? this.formatFindingsForRevision(actionable) : null,
+        noRevisionReason: audit.findings.length === 0
+          ? 'no audit findings'
+          : `no findings at or above severity "${minSeverity}"`,
+      };
+    }
+
+    const threshold = this.options.auditFindingsThreshold ?? 50;
+    const isNoFindings =
+      audit.rawText === 'NO_FINDINGS' || audit.rawText.trimStart().startsWith('NO_FINDINGS');
+    const hasFindings = !isNoFindings && audit.rawText.length >= threshold;
+    return {
+      revisionFindings: hasFindings ? audit.rawText : null,
+      noRevisionReason: isNoFindings ? 'no audit findings' : `audit findings below threshold ${threshold}`,
+    };
+  }
+
+  /** Run one REVISER pass over `content` and record it in the trace. */
+  private async runRevisionStep(
+    originalUserPrompt: string,
+    content: string,
+    revisionFindings: string,
+    externalStandards: Array<{ id: string; name: string; scope: string }>,
+    pass: { iteration: number; maxIterations: number; minSeverity: AuditSeverity; structured: boolean },
+    pipelineTrace: PipelineStep[],
+    modelBreakdown: ModelBreakdownEntry[],
+    onProgress?: GenerationProgressCallback
+  ): Promise<{ text: string; tokensUsed: number }> {
+    const { iteration } = pass;
+    const reviserAssignment = this.modelRouter.getAssignment(ModelRole.REVISER);
+    const revisionPrompt = this.buildRevisionPrompt(originalUserPrompt, content, revisionFindings, externalStandards);
+    const label = pass.maxIterations > 1 ? ` (pass ${iteration}/${pass.maxIterations})` : '';
+
+    console.log(
+      `[MultiModelOrchestrator] Step 4 REVISION${label} — model: ${reviserAssignment.modelId}, ` +
+      (pass.structured
+        ? `addressing findings at or above "${pass.minSeverity}"`
+        : `audit findings: ${revisionFindings.length} chars`)
+    );
+    console.log(
+      `[MultiModelOrchestrator] Revision prompt: ${revisionPrompt.length} chars`
+    );
+
+    onProgress?.({ type: 'step-start', step: 'revision', modelId: reviserAssignment.modelId, promptChars: revisionPrompt.length, iteration });
+    const t4 = Date.now();
+    const revisionResult = await this.modelRouter.generateRevisionFromPrompt(
+      revisionPrompt, undefined, this.forwardTokens(onProgress, 'revision')
+    );
+    const revisionDuration = Date.now() - t4;
+
+    const text = revisionResult.generatedText ?? content;
+    const revisionTokens = revisionResult.usageStats?.tokensUsed ?? 0;
+
+    console.log(
+      `[MultiModelOrchestrator] Step 4 REVISION${label}: ${reviserAssignment.modelId} — ${revisionDuration}ms, ${revisionTokens} tokens`
+    );
+    this.recordStep(pipelineTrace, { step: 'revision', modelId: reviserAssignment.modelId, durationMs: revisionDuration, tokensUsed: revisionTokens, promptChars: revisionPrompt.length, responseChars: text.length, iteration }, onProgress);
+    modelBreakdown.push({ role: ModelRole.REVISER, modelId: reviserAssignment.modelId, tokensUsed: revisionTokens, cost: revisionResult.usageStats?.cost ?? 0 });
+
+    return { text, tokensUsed: revisionTokens };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers — structured audit findings
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Render findings as targeted REVISER instructions, one block per finding,
+   * so the reviser edits the quoted passages instead of re-reading free text.
+   */
+  private formatFindingsForRevision(findings: AuditFinding[]): string {
+    return findings.map(f =>
+      `[${f.id}] ${f.severity.toUpperCase()} — ${f.standardClause}\n` +
+      (f.offendingPassage ? `  Passage: "${f.offendingPassage}"\n` : `  Passage: (omission — no existing text)\n`) +
+      `  Issue: ${f.issue}\n` +
+      `  Fix: ${f.suggestedFix}`
+    ).join('\n\n');
+  }
+
+  /** e.g. "1 critical, 2 minor" — for logs. */
+  private summariseSeverities(findings: AuditFinding[]): string {
+    if (findings.length === 0) return 'none';
+    const counts = new Map<string, number>();
+    for (const f of findings) counts.set(f.severity, (counts.get(f.severity) ?? 0) + 1);
+    return Array.from(counts, ([severity, n]) => `${n} ${severity}`).join(', ');
+  }
+
   // ---------------------------------------------------------------------------
   // Private helpers — copied verbatim from OrchestratorService
   // (kept here to avoid cross-package coupling; only within orchestrator package)
@@ -451,9 +734,8 @@ export class MultiModelOrchestrator {
    * standards. The full RAG context is NOT included here; the auditor only
    * needs to evaluate the draft against known standards, not re-read all SOPs.
    *
-   * The sentinel "NO_FINDINGS" (returned verbatim when the auditor finds no
-   * gaps) is checked downstream to skip the revision step without a threshold
-   * comparison.
+   * The JSON output contract (finding id, severity, clause, passage, fix) is
+   * appended by {@link ModelRouter.generateStructuredAuditFindings}.
    */
   private buildAuditPrompt(
     draftContent: string,
@@ -472,9 +754,10 @@ export class MultiModelOrchestrator {
       `=== TASK ===\n` +
       `You are a regulatory compliance auditor for medical device submissions. ` +
       `Review the draft document against each standard listed above. ` +
-      `Return a NUMBERED LIST of findings only — no prose preamble. ` +
-      `Each finding must cite the specific standard and clause it relates to. ` +
-      `If there are no findings, respond with exactly: NO_FINDINGS`
+      `Each finding must cite the specific standard and clause it relates to, ` +
+      `quote the offending passage from the draft, and give a concrete fix. ` +
+      `Grade severity honestly: critical = blocks submission, major = must fix, ` +
+      `minor = should fix, observation = optional improvement.`
     );
   }
 
@@ -498,6 +781,8 @@ export class MultiModelOrchestrator {
       `=== AUDIT FINDINGS ===\n${auditFindings}\n\n` +
       `=== TASK ===\n` +
       `Revise the draft to address all audit findings listed above. ` +
+      `Where a finding quotes a passage, rewrite that passage as instructed by its fix. ` +
+      `Keep the draft's [n] citation markers on the statements they support. ` +
       `Preserve the document structure and submission voice. ` +
       `Do not introduce content not supported by the draft or findings. ` +
       `Write the complete revised document — not a diff or commentary.`
@@ -540,7 +825,7 @@ export class MultiModelOrchestrator {
     result.knowledgeScopes = parseKnowledgeSourceScopes(prompt);
     if (result.knowledgeScopes.size > 0) {
       console.log(
-        `[MultiModelOrchestrator] ℹ️  Knowledge source scopes: @${Array.from(result.knowledgeScopes).join(', @')} (full enforcement not yet implemented)`
+        `[MultiModelOrchestrator] ℹ️  Knowledge source scopes: @${Array.from(result.knowledgeScopes).join(', @')} (enforced during retrieval)`
       );
     }
 
@@ -604,7 +889,7 @@ export class MultiModelOrchestrator {
   private async resolveMasterRecordTokens(
     prompt: string,
     projectPath: string
-  ): Promise<{ resolved: string; fileFound: boolean; unresolvedFields: string[] }> {
+  ): Promise<{ resolved: string; fileFound: boolean; unresolvedFields: string[]; resolvedFields: Record<string, string> }> {
     const contextPath = path.join(projectPath, 'Context');
     const loader = new DocumentLoader();
 
@@ -613,11 +898,11 @@ export class MultiModelOrchestrator {
       masterRecord = await loader.loadMasterRecord(contextPath);
     } catch (err) {
       console.warn('[MultiModelOrchestrator] Could not load Master Record:', err);
-      return { resolved: prompt, fileFound: false, unresolvedFields: [] };
+      return { resolved: prompt, fileFound: false, unresolvedFields: [], resolvedFields: {} };
     }
 
     if (!masterRecord) {
-      return { resolved: prompt, fileFound: false, unresolvedFields: [] };
+      return { resolved: prompt, fileFound: false, unresolvedFields: [], resolvedFields: {} };
     }
 
     let fields = await DocumentLoader.parseMasterRecordFieldsFromFile(masterRecord.filePath);
@@ -629,12 +914,14 @@ export class MultiModelOrchestrator {
     console.log(`[MultiModelOrchestrator] Master Record parsed: ${fields.size} field(s) available`);
 
     const unresolvedFields: string[] = [];
+    const resolvedFields: Record<string, string> = {};
     let resolved = prompt;
     const tokenPattern = /\[Master Record\|([^\]]+)\]/gi;
     resolved = resolved.replace(tokenPattern, (_match, fieldName) => {
       const key = fieldName.trim().toUpperCase();
       const value = fields.get(key);
       if (value !== undefined) {
+        resolvedFields[key] = value;
         const preview = value.length > 60 ? value.substring(0, 60) + '…' : value;
         console.log(`[MultiModelOrchestrator] ✓ Resolved [Master Record|${key}] → "${preview}"`);
         return value;
@@ -645,7 +932,7 @@ export class MultiModelOrchestrator {
       }
     });
 
-    return { resolved, fileFound: true, unresolvedFields };
+    return { resolved, fileFound: true, unresolvedFields, resolvedFields };
   }
 
   /**
@@ -767,9 +1054,8 @@ export class MultiModelOrchestrator {
    */
   private buildSourceAttributions(tracker: FootnoteTracker): SourceAttribution[] {
     const attributions: SourceAttribution[] = [];
-    const sources = tracker.getSources();
 
-    for (const [id, sourceRef] of sources) {
+    for (const sourceRef of tracker.getSourcesArray()) {
       let category: SourceAttribution['category'] = 'general';
 
       if (sourceRef.category === 'procedure') {
@@ -785,7 +1071,7 @@ export class MultiModelOrchestrator {
         : sourceRef.citationText;
 
       attributions.push({
-        id,
+        id: sourceRef.id,
         fileName: sourceRef.fileName,
         category,
         section,
@@ -796,16 +1082,6 @@ export class MultiModelOrchestrator {
     return attributions;
   }
 
-  /**
-   * Track discrepancies between sources (placeholder for future enhancement).
-   */
-  private trackDiscrepancies(
-    _procedureChunks: any[],
-    _contextChunks: any[]
-  ): Discrepancy[] {
-    return [];
-  }
-
   /**
    * Calculate confidence rating based on retrieval success and generation quality.
    */
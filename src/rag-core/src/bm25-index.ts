@@ -0,0 +1,148 @@
+/**
+ * BM25 Index
+ * Lexical (keyword) index over vector store chunks, complementing embeddings
+ * for exact identifiers such as "21 CFR 820.30(c)", "SOP-014" or part numbers.
+ *
+ * Tokenization keeps compound identifiers whole ("820.30(c)", "sop-014") and
+ * also indexes their alphanumeric parts ("820", "30", "c", "sop", "014"), so
+ * both exact and partial identifier mentions match.
+ */
+
+/**
+ * BM25 ranking parameters
+ */
+export interface Bm25Options {
+  k1?: number;  // Term frequency saturation (default: 1.2)
+  b?: number;   // Length normalization (default: 0.75)
+}
+
+/**
+ * Lexical match: entry ID with its BM25 score
+ */
+export interface Bm25Match {
+  id: string;
+  score: number;
+}
+
+/** Indexed document */
+interface Bm25Doc {
+  id: string;
+  category: 'procedure' | 'context';
+  length: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+]);
+
+/**
+ * Split text into index terms: whole compound identifiers plus their parts
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const raw of text.toLowerCase().split(/\s+/)) {
+    // Trim surrounding punctuation but keep inner separators (".", "-", "(", ...)
+    // and a closing parenthesis that belongs to the identifier ("820.30(c)")
+    let word = raw.replace(/^[^a-z0-9]+|[^a-z0-9)]+$/g, '');
+    while (word.endsWith(')') && (word.match(/\)/g)!.length > (word.match(/\(/g)?.length ?? 0))) {
+      word = word.slice(0, -1).replace(/[^a-z0-9)]+$/, '');
+    }
+    if (!word) continue;
+
+    const parts = word.match(/[a-z0-9]+/g) ?? [];
+    if (parts.length > 1) {
+      terms.push(word);
+    }
+    for (const part of parts) {
+      if (!STOPWORDS.has(part)) terms.push(part);
+    }
+  }
+
+  return terms;
+}
+
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+
+  private docs: Bm25Doc[] = [];
+  /** term → postings of [doc index, term frequency] */
+  private postings: Map<string, Array<[number, number]>> = new Map();
+  private totalLength = 0;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * Build an index over vector store entries (chunk content)
+   */
+  static build(
+    entries: { id: string; metadata: { category: 'procedure' | 'context'; content: string } }[],
+    options: Bm25Options = {}
+  ): Bm25Index {
+    const index = new Bm25Index(options);
+    for (const entry of entries) {
+      index.add(entry.id, entry.metadata.category, entry.metadata.content);
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  /**
+   * Top-k entries by BM25 score, ties broken by entry ID for determinism.
+   * Entries without any query term are not returned. `filter` (by entry ID)
+   * narrows the corpus like `category`, including the IDF statistics.
+   */
+  search(query: string, topK: number, category?: 'procedure' | 'context', filter?: (id: string) => boolean): Bm25Match[] {
+    const inCorpus = (doc: Bm25Doc) => (!category || doc.category === category) && (!filter || filter(doc.id));
+    const corpusSize = this.docs.filter(inCorpus).length;
+    if (corpusSize === 0 || topK <= 0) return [];
+
+    const averageLength = this.totalLength / this.docs.length;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const postings = (this.postings.get(term) ?? []).filter(([docIndex]) => inCorpus(this.docs[docIndex]));
+      if (postings.length === 0) continue;
+
+      const idf = Math.log(1 + (corpusSize - postings.length + 0.5) / (postings.length + 0.5));
+      for (const [docIndex, tf] of postings) {
+        const lengthNorm = 1 - this.b + this.b * (this.docs[docIndex].length / averageLength);
+        const termScore = idf * (tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm);
+        scores.set(docIndex, (scores.get(docIndex) ?? 0) + termScore);
+      }
+    }
+
+    return [...scores]
+      .map(([docIndex, score]) => ({ id: this.docs[docIndex].id, score }))
+      .sort((a, b) => (b.score - a.score) || a.id.localeCompare(b.id))
+      .slice(0, topK);
+  }
+
+  private add(id: string, category: 'procedure' | 'context', content: string): void {
+    const terms = tokenize(content);
+    const docIndex = this.docs.length;
+    this.docs.push({ id, category, length: terms.length });
+    this.totalLength += terms.length;
+
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+    for (const [term, tf] of frequencies) {
+      let termPostings = this.postings.get(term);
+      if (!termPostings) {
+        termPostings = [];
+        this.postings.set(term, termPostings);
+      }
+      termPostings.push([docIndex, tf]);
+    }
+  }
+}
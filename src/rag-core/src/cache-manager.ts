@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as os from 'os';
+import { VectorStore } from './vector-store';
 
 export interface KnowledgeCache {
   projectPath: string;
@@ -10,6 +11,29 @@ export interface KnowledgeCache {
   indexedAt: string;
   vectorStoreFingerprint: string;
   masterChecklist?: any; // ParsedDocument for Project-Master-Checklist.docx (on-demand)
+  sourceFingerprints?: SourceFingerprints; // Per-file state for incremental rebuilds (absent in older caches)
+}
+
+/**
+ * Per-source fingerprints persisted with the cache metadata so a rebuild can
+ * re-index only the files that changed since the last build.
+ */
+export interface SourceFingerprints {
+  /** primary-context.yaml — a change forces a full rebuild */
+  primaryContext: string;
+  /** Embedding model version the vectors were built with — a change forces a full rebuild */
+  embeddingModelVersion: string;
+  /** `size:mtimeMs` for every file under Procedures/ and Context/ (Prompt/ excluded), keyed by full path */
+  files: Record<string, string>;
+}
+
+/**
+ * Files added, changed or removed between two SourceFingerprints.files maps
+ */
+export interface SourceFileChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
 }
 
 export class CacheManager {
@@ -121,6 +145,79 @@ export class CacheManager {
     return finalFingerprint;
   }
 
+  /**
+   * Fingerprint every Procedures/ and Context/ file individually (same folders
+   * and exclusions as computeCacheFingerprint).
+   */
+  async computeSourceFingerprints(
+    projectPath: string,
+    primaryContextPath: string,
+    embeddingModelVersion: string
+  ): Promise<SourceFingerprints> {
+    const [procedureFiles, contextFiles] = await Promise.all([
+      this.getAllFiles(path.join(projectPath, 'Procedures'), []),
+      this.getAllFiles(path.join(projectPath, 'Context'), ['Prompt'])
+    ]);
+
+    const files: Record<string, string> = {};
+    await Promise.all(
+      [...procedureFiles, ...contextFiles].map(async (filePath) => {
+        try {
+          const stats = await fs.stat(filePath);
+          files[filePath] = `${stats.size}:${stats.mtimeMs}`;
+        } catch {
+          // Deleted while scanning — treated as removed
+        }
+      })
+    );
+
+    return {
+      primaryContext: await this.computeFileFingerprint(primaryContextPath),
+      embeddingModelVersion,
+      files
+    };
+  }
+
+  /**
+   * Compare two per-file fingerprint maps.
+   */
+  static diffSourceFiles(previous: Record<string, string>, current: Record<string, string>): SourceFileChanges {
+    const changes: SourceFileChanges = { added: [], changed: [], removed: [] };
+    for (const [filePath, fingerprint] of Object.entries(current)) {
+      if (!(filePath in previous)) {
+        changes.added.push(filePath);
+      } else if (previous[filePath] !== fingerprint) {
+        changes.changed.push(filePath);
+      }
+    }
+    changes.removed = Object.keys(previous).filter(filePath => !(filePath in current));
+    return changes;
+  }
+
+  /**
+   * Drop SOP/context summary cache entries for the given file names so only
+   * those summaries are regenerated on the next request.
+   */
+  async pruneSummaryCaches(projectPath: string, fileNames: string[]): Promise<void> {
+    if (fileNames.length === 0) return;
+
+    for (const cachePath of [this.getSOPSummariesCachePath(projectPath), this.getContextSummariesCachePath(projectPath)]) {
+      try {
+        const cached = JSON.parse(await fs.readFile(cachePath, 'utf8'));
+        const stale = fileNames.filter(fileName => fileName in cached);
+        if (stale.length === 0) continue;
+
+        stale.forEach(fileName => delete cached[fileName]);
+        await fs.writeFile(cachePath, JSON.stringify(cached, null, 2), 'utf8');
+        console.log(`[CacheManager] ✓ Pruned ${stale.length} stale summary entr${stale.length === 1 ? 'y' : 'ies'} from ${path.basename(cachePath)}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.log(`[CacheManager] ⚠️  Could not prune ${path.basename(cachePath)}`);
+        }
+      }
+    }
+  }
+
   private async computeFileFingerprint(filePath: string): Promise<string> {
     try {
       const stats = await fs.stat(filePath);
@@ -191,6 +288,7 @@ export class CacheManager {
     
     const filePaths = [
       this.getVectorStorePath(projectPath),
+      VectorStore.getAnnIndexPath(this.getVectorStorePath(projectPath)),
       this.getSOPSummariesCachePath(projectPath),
       this.getContextSummariesCachePath(projectPath),
       this.getCacheMetadataPath(projectPath)
@@ -208,10 +306,15 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Whether the cached knowledge matches the current sources and, when
+   * `embeddingModelVersion` is given, was built with that embedding model.
+   */
   async isCacheValid(
     projectPath: string,
     primaryContextPath: string,
-    cache: Map<string, KnowledgeCache>
+    cache: Map<string, KnowledgeCache>,
+    embeddingModelVersion?: string
   ): Promise<boolean> {
     if (!this.cacheEnabled) return false;
     
@@ -238,6 +341,14 @@ export class CacheManager {
       }
     }
     
+    if (embeddingModelVersion && cached.sourceFingerprints?.embeddingModelVersion !== embeddingModelVersion) {
+      console.log('[CacheManager] ⚠️  Cache EXPIRED - embedding model changed');
+      console.log(`[CacheManager] 🔍 Current: ${embeddingModelVersion}`);
+      console.log(`[CacheManager] 🔍 Cached:  ${cached.sourceFingerprints?.embeddingModelVersion ?? 'unknown'}`);
+      console.log('[CacheManager] 🔍 ========================================');
+      return false;
+    }
+    
     console.log('[CacheManager] 🔍 Computing current fingerprint...');
     const currentFingerprint = await this.computeCacheFingerprint(projectPath, primaryContextPath);
     console.log(`[CacheManager] 🔍 Current: ${currentFingerprint.substring(0, 16)}...`);
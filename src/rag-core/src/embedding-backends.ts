@@ -0,0 +1,252 @@
+/**
+ * Embedding Backends
+ * The model behind EmbeddingService, selected from the EMBEDDINGS role
+ * assignment (MODEL_EMBEDDINGS, same variable as llm-service's provider config):
+ *
+ * - "<org>/<model>" (e.g. "Xenova/all-MiniLM-L6-v2", the default)
+ *     → local Transformers.js, no API calls
+ * - "ollama/<model>" (e.g. "ollama/nomic-embed-text")
+ *     → Ollama /api/embeddings at OLLAMA_BASE_URL
+ * - anything else (e.g. "text-embedding-3-small")
+ *     → OpenAI /embeddings, or the Azure AI Foundry deployment when
+ *       PROVIDER_MODE=azure_foundry
+ *
+ * Every backend returns L2-normalized vectors so cosine scores are comparable
+ * regardless of where the embedding was computed.
+ */
+
+import { pipeline, env } from '@xenova/transformers';
+
+// DETERMINISM: Force ONNX Runtime to single-threaded execution.
+// Multi-threaded float accumulation is non-associative — the order threads
+// sum partial results is non-deterministic, producing different embeddings
+// at the ~1e-6 level across runs.  Single-threaded execution guarantees
+// bit-identical embeddings for the same input on the same machine.
+env.backends.onnx.sessions = {
+  intraOpNumThreads: 1,
+  interOpNumThreads: 1,
+};
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/** Native output size of the OpenAI embedding models */
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+/** Inputs per OpenAI /embeddings request */
+const OPENAI_MAX_BATCH = 256;
+
+export type EmbeddingBackendKind = 'local' | 'openai' | 'azure' | 'ollama';
+
+/**
+ * A source of embeddings
+ */
+export interface EmbeddingBackend {
+  readonly kind: EmbeddingBackendKind;
+  readonly modelName: string;
+  /**
+   * Identifies the vector space: backend, model and any requested output size.
+   * Vectors built under a different version must not be mixed with these.
+   */
+  readonly version: string;
+  /** Vector size; known after initialize() */
+  readonly dimensions: number;
+  initialize(): Promise<void>;
+  /** One normalized embedding per text, in input order */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/**
+ * Local Transformers.js feature-extraction pipeline (mean pooled, normalized)
+ */
+class LocalEmbeddingBackend implements EmbeddingBackend {
+  readonly kind = 'local';
+  readonly version: string;
+  dimensions = 0;
+  private model: any = null;
+
+  constructor(readonly modelName: string) {
+    this.version = `local:${modelName}`;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.model) return;
+    this.model = await pipeline('feature-extraction', this.modelName);
+    this.dimensions = (await this.embedOne('dimension probe')).length;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = [];
+    for (const text of texts) {
+      embeddings.push(await this.embedOne(text));
+    }
+    return embeddings;
+  }
+
+  private async embedOne(text: string): Promise<Float32Array> {
+    const output = await this.model!(text, { pooling: 'mean', normalize: true });
+    return new Float32Array(output.data);
+  }
+}
+
+/**
+ * OpenAI /embeddings, called directly or through an Azure AI Foundry deployment
+ */
+class OpenAIEmbeddingBackend implements EmbeddingBackend {
+  readonly kind: 'openai' | 'azure';
+  readonly version: string;
+  dimensions: number;
+  private url: string;
+  private headers: Record<string, string>;
+
+  /**
+   * @param requestedDimensions - Shortened output size (text-embedding-3 models only)
+   */
+  constructor(readonly modelName: string, private requestedDimensions?: number) {
+    const azure = (process.env.PROVIDER_MODE ?? 'direct').toLowerCase() === 'azure_foundry';
+    this.kind = azure ? 'azure' : 'openai';
+    this.version = `${this.kind}:${modelName}${requestedDimensions ? `@${requestedDimensions}` : ''}`;
+    this.dimensions = requestedDimensions ?? OPENAI_MODEL_DIMENSIONS[modelName] ?? 0;
+
+    if (azure) {
+      const endpoint = process.env.AZURE_ENDPOINT;
+      const apiKey = process.env.AZURE_API_KEY;
+      if (!endpoint || !apiKey) {
+        throw new Error('[EmbeddingService] azure_foundry embeddings require AZURE_ENDPOINT and AZURE_API_KEY');
+      }
+      const deploymentName = (process.env.AZURE_DEPLOYMENT_PREFIX ?? '') + modelName;
+      const apiVersion = process.env.AZURE_API_VERSION ?? '2024-12-01-preview';
+      this.url = `${endpoint}/openai/deployments/${deploymentName}/embeddings?api-version=${apiVersion}`;
+      this.headers = { 'Content-Type': 'application/json', 'api-key': apiKey };
+    } else {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(`[EmbeddingService] OPENAI_API_KEY is required for embedding model ${modelName}`);
+      }
+      this.url = 'https://api.openai.com/v1/embeddings';
+      this.headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` };
+    }
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.dimensions) {
+      this.dimensions = (await this.embed(['dimension probe']))[0].length;
+    }
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += OPENAI_MAX_BATCH) {
+      const input = texts.slice(start, start + OPENAI_MAX_BATCH);
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify({
+          model: this.modelName,
+          input,
+          ...(this.requestedDimensions ? { dimensions: this.requestedDimensions } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embeddings API error (${this.kind}): ${response.status} - ${errorText}`);
+      }
+
+      const data = (await response.json()) as { data: { index: number; embedding: number[] }[] };
+      const ordered = [...data.data].sort((a, b) => a.index - b.index);
+      embeddings.push(...ordered.map(item => normalize(item.embedding)));
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Ollama /api/embeddings (one prompt per request)
+ */
+class OllamaEmbeddingBackend implements EmbeddingBackend {
+  readonly kind = 'ollama';
+  readonly version: string;
+  dimensions = 0;
+
+  constructor(readonly modelName: string, private baseUrl: string) {
+    this.version = `ollama:${modelName}`;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.dimensions) {
+      this.dimensions = (await this.embed(['dimension probe']))[0].length;
+    }
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = [];
+    for (const text of texts) {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}/api/embeddings`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: this.modelName, prompt: text }),
+        });
+      } catch (error) {
+        throw new Error(
+          `Cannot connect to Ollama at ${this.baseUrl}. Make sure Ollama is running ` +
+          `and the model is pulled (ollama pull ${this.modelName}): ${error}`
+        );
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Ollama embeddings API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = (await response.json()) as { embedding: number[] };
+      embeddings.push(normalize(data.embedding));
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Build the backend for the EMBEDDINGS role assignment.
+ *
+ * | Variable              | Effect                                                     |
+ * |-----------------------|------------------------------------------------------------|
+ * | MODEL_EMBEDDINGS      | Model ID (default: Xenova/all-MiniLM-L6-v2, local)         |
+ * | EMBEDDINGS_DIMENSIONS | Shortened output size for OpenAI text-embedding-3 models   |
+ * | PROVIDER_MODE         | "azure_foundry" routes OpenAI models through Azure         |
+ * | OPENAI_API_KEY        | Direct OpenAI credentials                                  |
+ * | AZURE_*               | Azure endpoint, key, API version and deployment prefix     |
+ * | OLLAMA_BASE_URL       | Ollama endpoint (default: http://localhost:11434)          |
+ */
+export function createEmbeddingBackend(modelId: string = process.env.MODEL_EMBEDDINGS || DEFAULT_EMBEDDING_MODEL): EmbeddingBackend {
+  if (modelId.startsWith('ollama/')) {
+    return new OllamaEmbeddingBackend(
+      modelId.substring('ollama/'.length),
+      process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
+    );
+  }
+
+  // Hugging Face repository IDs ("org/model") run locally
+  if (modelId.includes('/')) {
+    return new LocalEmbeddingBackend(modelId);
+  }
+
+  const requestedDimensions = parseInt(process.env.EMBEDDINGS_DIMENSIONS || '', 10);
+  return new OpenAIEmbeddingBackend(modelId, requestedDimensions > 0 ? requestedDimensions : undefined);
+}
+
+function normalize(vector: number[]): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < normalized.length; i++) norm += normalized[i] * normalized[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+  }
+  return normalized;
+}
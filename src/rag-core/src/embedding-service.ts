@@ -1,26 +1,17 @@
 /**
- * Local Embedding Service using Transformers.js
- * Uses 'Xenova/all-MiniLM-L6-v2' model (384 dimensions)
- * - Runs locally without API calls (privacy-preserving)
+ * Embedding Service
+ * Default model: 'Xenova/all-MiniLM-L6-v2' (384 dimensions, local Transformers.js)
+ * - Backend chosen from the EMBEDDINGS role assignment (see embedding-backends.ts):
+ *   local Transformers.js (privacy-preserving, no API calls), OpenAI/Azure or Ollama
  * - Produces embeddings for semantic search
- * - Caches embeddings to disk for performance
+ * - Caches embeddings to disk for performance, keyed by the backend's model version
  */
 
-import { pipeline, env } from '@xenova/transformers';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as os from 'os';
-
-// DETERMINISM: Force ONNX Runtime to single-threaded execution.
-// Multi-threaded float accumulation is non-associative — the order threads
-// sum partial results is non-deterministic, producing different embeddings
-// at the ~1e-6 level across runs.  Single-threaded execution guarantees
-// bit-identical embeddings for the same input on the same machine.
-env.backends.onnx.sessions = {
-  intraOpNumThreads: 1,
-  interOpNumThreads: 1,
-};
+import { EmbeddingBackend, EmbeddingBackendKind, createEmbeddingBackend } from './embedding-backends';
 
 /**
  * Embedding cache entry metadata
@@ -42,15 +33,13 @@ interface CachedEmbedding {
 }
 
 /**
- * Local Embedding Service
+ * Embedding Service
  * Singleton pattern for efficient model reuse
  */
 export class EmbeddingService {
   private static instance: EmbeddingService;
-  private model: any = null;
-  private modelName = 'Xenova/all-MiniLM-L6-v2';
-  private modelVersion = 'v1.0';
-  private dimensions = 384;
+  private backend: EmbeddingBackend;
+  private initialized = false;
   private cacheDir: string;
   private cacheIndex: Map<string, string> = new Map(); // cacheKey -> filename
   
@@ -63,7 +52,9 @@ export class EmbeddingService {
       : 'default';
     
     this.cacheDir = path.join(tempBase, 'phaser-cache', 'embeddings', cacheBaseName);
+    this.backend = createEmbeddingBackend();
     
+    console.log(`[EmbeddingService] Backend: ${this.backend.kind} (${this.backend.modelName})`);
     console.log(`[EmbeddingService] Cache directory will be: ${this.cacheDir}`);
   }
 
@@ -81,20 +72,21 @@ export class EmbeddingService {
    * Initialize the embedding model
    */
   async initialize(): Promise<void> {
-    if (this.model) {
+    if (this.initialized) {
       console.log('[EmbeddingService] Model already loaded');
       return;
     }
 
-    console.log(`[EmbeddingService] Loading model: ${this.modelName}...`);
+    console.log(`[EmbeddingService] Loading model: ${this.backend.modelName} (${this.backend.kind})...`);
     const startTime = Date.now();
 
     try {
-      // Load the feature extraction pipeline
-      this.model = await pipeline('feature-extraction', this.modelName);
+      // Load the local pipeline, or probe the remote model for its vector size
+      await this.backend.initialize();
+      this.initialized = true;
       
       const loadTime = Date.now() - startTime;
-      console.log(`[EmbeddingService] ✓ Model loaded successfully (${loadTime}ms)`);
+      console.log(`[EmbeddingService] ✓ Model loaded successfully (${loadTime}ms, ${this.backend.dimensions} dimensions)`);
       
       // Ensure cache directory exists
       await this.ensureCacheDir();
@@ -177,7 +169,7 @@ export class EmbeddingService {
   private generateCacheKey(text: string, filePath?: string): string {
     const contentHash = crypto.createHash('sha256').update(text).digest('hex');
     const pathHash = filePath ? crypto.createHash('sha256').update(filePath).digest('hex').substring(0, 8) : 'nopath';
-    return `${pathHash}_${contentHash}_${this.modelVersion}`;
+    return `${pathHash}_${contentHash}_${this.backend.version}`;
   }
 
   /**
@@ -202,6 +194,11 @@ export class EmbeddingService {
       const metadataData = await fs.readFile(metadataPath, 'utf8');
       const metadata: EmbeddingMetadata = JSON.parse(metadataData);
 
+      // Files are named by a key prefix, so an entry from another model can share the name
+      if (metadata.cacheKey !== cacheKey) {
+        return null;
+      }
+
       // Load embedding (binary Float32Array)
       const embeddingBuffer = await fs.readFile(embeddingPath);
       const embedding = new Float32Array(embeddingBuffer.buffer, embeddingBuffer.byteOffset, embeddingBuffer.byteLength / 4);
@@ -234,8 +231,8 @@ export class EmbeddingService {
       // Save metadata
       const metadata: EmbeddingMetadata = {
         text: text.substring(0, 200), // Store snippet for debugging
-        modelVersion: this.modelVersion,
-        dimensions: this.dimensions,
+        modelVersion: this.backend.version,
+        dimensions: embedding.length,
         timestamp: new Date().toISOString(),
         cacheKey
       };
@@ -261,7 +258,7 @@ export class EmbeddingService {
    * Generate embedding for a single text
    */
   async embedText(text: string, filePath?: string, useCache: boolean = true): Promise<Float32Array> {
-    if (!this.model) {
+    if (!this.initialized) {
       await this.initialize();
     }
 
@@ -276,10 +273,7 @@ export class EmbeddingService {
     }
 
     // Generate new embedding
-    const output = await this.model!(text, { pooling: 'mean', normalize: true });
-    
-    // Convert to Float32Array
-    const embedding = new Float32Array(output.data);
+    const [embedding] = await this.backend.embed([text]);
 
     // Cache it
     if (useCache) {
@@ -299,7 +293,7 @@ export class EmbeddingService {
     batchSize: number = 32,
     useCache: boolean = true
   ): Promise<Float32Array[]> {
-    if (!this.model) {
+    if (!this.initialized) {
       await this.initialize();
     }
 
@@ -337,14 +331,13 @@ export class EmbeddingService {
       // Generate embeddings for cache misses
       if (needsGeneration.length > 0) {
         const textsToEmbed = needsGeneration.map(idx => batch[idx]);
+        const generated = await this.backend.embed(textsToEmbed);
         
         for (let j = 0; j < textsToEmbed.length; j++) {
           const text = textsToEmbed[j];
           const idx = needsGeneration[j];
           const filePath = batchPaths?.[idx];
-          
-          const output = await this.model!(text, { pooling: 'mean', normalize: true });
-          const embedding = new Float32Array(output.data);
+          const embedding = generated[j];
           
           batchEmbeddings[idx] = embedding;
           
@@ -415,12 +408,15 @@ export class EmbeddingService {
 
   /**
    * Get model information
+   * `version` identifies the backend and model (vector stores built under another
+   * version are rebuilt); `dimensions` is 0 until initialize() has run.
    */
-  getModelInfo(): { name: string; version: string; dimensions: number } {
+  getModelInfo(): { name: string; version: string; dimensions: number; backend: EmbeddingBackendKind } {
     return {
-      name: this.modelName,
-      version: this.modelVersion,
-      dimensions: this.dimensions
+      name: this.backend.modelName,
+      version: this.backend.version,
+      dimensions: this.backend.dimensions,
+      backend: this.backend.kind
     };
   }
 
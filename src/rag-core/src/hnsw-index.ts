@@ -0,0 +1,418 @@
+/**
+ * HNSW Index
+ * Approximate nearest neighbour index (Hierarchical Navigable Small World)
+ * over L2-normalized embeddings, so similarity is a plain dot product.
+ *
+ * - Vectors are packed into one Float32Array (count × dimensions)
+ * - Node levels are derived from a hash of the entry ID and nodes are
+ *   inserted in ID order, so the same entries always produce the same graph
+ * - serialize()/deserialize() give a compact binary form for on-disk storage
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Graph construction / search parameters
+ */
+export interface HnswOptions {
+  M?: number;               // Max neighbours per node on upper layers (default: 16, layer 0 uses 2×M)
+  efConstruction?: number;  // Candidate list size while building (default: 100)
+}
+
+/**
+ * Approximate match: entry ID with its dot-product similarity
+ */
+export interface HnswMatch {
+  id: string;
+  similarity: number;
+}
+
+/** Node index + similarity to the current query */
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+/**
+ * Binary heap ordered by `higherPriority`
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private higherPriority: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.higherPriority(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.higherPriority(items[left], items[best])) best = left;
+        if (right < items.length && this.higherPriority(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+/** Closer first; equal similarities broken by node index for determinism */
+const closer = (a: Candidate, b: Candidate): boolean =>
+  a.similarity > b.similarity || (a.similarity === b.similarity && a.node < b.node);
+const farther = (a: Candidate, b: Candidate): boolean => closer(b, a);
+
+export class HnswIndex {
+  private readonly M: number;
+  private readonly maxLayer0Links: number;
+  private readonly efConstruction: number;
+  private readonly levelMultiplier: number;
+
+  private ids: string[] = [];
+  private levels: number[] = [];
+  private vectors: Float32Array;
+  /** links[node][layer] = neighbour node indices */
+  private links: number[][][] = [];
+  private entryPoint = -1;
+  private maxLevel = -1;
+
+  constructor(readonly dimensions: number, options: HnswOptions = {}) {
+    this.M = options.M ?? 16;
+    this.maxLayer0Links = this.M * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.levelMultiplier = 1 / Math.log(this.M);
+    this.vectors = new Float32Array(0);
+  }
+
+  /**
+   * Build an index over the given entries (inserted in ID order)
+   */
+  static build(
+    items: { id: string; embedding: ArrayLike<number> }[],
+    dimensions: number,
+    options: HnswOptions = {}
+  ): HnswIndex {
+    const index = new HnswIndex(dimensions, options);
+    const sorted = [...items].sort((a, b) => a.id.localeCompare(b.id));
+    index.vectors = new Float32Array(sorted.length * dimensions);
+    sorted.forEach(item => index.insert(item.id, item.embedding));
+    return index;
+  }
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  /**
+   * Approximate top-k by similarity. `ef` (>= k) trades speed for recall.
+   */
+  search(query: ArrayLike<number>, k: number, ef: number = 100): HnswMatch[] {
+    if (this.entryPoint < 0 || k <= 0) return [];
+
+    const q = HnswIndex.normalize(query, this.dimensions);
+    let entry: Candidate = { node: this.entryPoint, similarity: this.similarity(q, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(q, entry, layer);
+    }
+
+    return this.searchLayer(q, [entry], Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(({ node, similarity }) => ({ id: this.ids[node], similarity }));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Construction
+  // ---------------------------------------------------------------------------
+
+  private insert(id: string, embedding: ArrayLike<number>): void {
+    const node = this.ids.length;
+    const level = this.levelFor(id);
+    this.ids.push(id);
+    this.levels.push(level);
+    this.vectors.set(HnswIndex.normalize(embedding, this.dimensions), node * this.dimensions);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    const q = this.vectorOf(node);
+    let entry: Candidate = { node: this.entryPoint, similarity: this.similarity(q, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(q, entry, layer);
+    }
+
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(q, entries, this.efConstruction, layer);
+      const maxLinks = layer === 0 ? this.maxLayer0Links : this.M;
+      const neighbours = this.selectNeighbours(candidates, this.M);
+
+      this.links[node][layer] = neighbours.map(c => c.node);
+      for (const { node: neighbour } of neighbours) {
+        const neighbourLinks = this.links[neighbour][layer];
+        neighbourLinks.push(node);
+        if (neighbourLinks.length > maxLinks) {
+          // Overflow: keep the closest links (cheaper than re-running the heuristic)
+          const base = this.vectorOf(neighbour);
+          this.links[neighbour][layer] = neighbourLinks
+            .map(n => ({ node: n, similarity: this.similarity(base, n) }))
+            .sort((a, b) => (closer(a, b) ? -1 : 1))
+            .slice(0, maxLinks)
+            .map(c => c.node);
+        }
+      }
+      entries = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Neighbour selection heuristic: keep a candidate only if it is closer to
+   * the base node than to any neighbour already kept, then top up with the
+   * closest pruned candidates. `candidates` must be sorted closest first.
+   */
+  private selectNeighbours(candidates: Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const candidateVector = this.vectorOf(candidate.node);
+      const diverse = selected.every(kept => this.similarity(candidateVector, kept.node) < candidate.similarity);
+      (diverse ? selected : pruned).push(candidate);
+    }
+    for (const candidate of pruned) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  /**
+   * Deterministic level: floor(-ln(u) × mL) with u derived from the entry ID
+   */
+  private levelFor(id: string): number {
+    const hash = crypto.createHash('sha256').update(id).digest();
+    const u = (hash.readUInt32BE(0) + 1) / 0x100000001;
+    return Math.min(Math.floor(-Math.log(u) * this.levelMultiplier), 32);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph search
+  // ---------------------------------------------------------------------------
+
+  private greedyClosest(q: Float32Array, entry: Candidate, layer: number): Candidate {
+    let best = entry;
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.links[best.node][layer] ?? []) {
+        const candidate = { node: neighbour, similarity: this.similarity(q, neighbour) };
+        if (closer(candidate, best)) {
+          best = candidate;
+          improved = true;
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Best-first search on one layer; returns up to `ef` nodes, closest first
+   */
+  private searchLayer(q: Float32Array, entries: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>(entries.map(e => e.node));
+    const toVisit = new Heap<Candidate>(closer);
+    const results = new Heap<Candidate>(farther);
+    entries.forEach(e => {
+      toVisit.push(e);
+      results.push(e);
+      if (results.size > ef) results.pop();
+    });
+
+    while (toVisit.size > 0) {
+      const current = toVisit.pop()!;
+      const worst = results.peek()!;
+      if (results.size >= ef && closer(worst, current)) break;
+
+      for (const neighbour of this.links[current.node][layer] ?? []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+
+        const candidate = { node: neighbour, similarity: this.similarity(q, neighbour) };
+        if (results.size < ef || closer(candidate, results.peek()!)) {
+          toVisit.push(candidate);
+          results.push(candidate);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => (closer(a, b) ? -1 : 1));
+  }
+
+  private vectorOf(node: number): Float32Array {
+    return this.vectors.subarray(node * this.dimensions, (node + 1) * this.dimensions);
+  }
+
+  private similarity(q: Float32Array, node: number): number {
+    const offset = node * this.dimensions;
+    let dot = 0;
+    for (let i = 0; i < this.dimensions; i++) {
+      dot += q[i] * this.vectors[offset + i];
+    }
+    return dot;
+  }
+
+  private static normalize(vector: ArrayLike<number>, dimensions: number): Float32Array {
+    if (vector.length !== dimensions) {
+      throw new Error('Embeddings must have the same dimensions');
+    }
+    const normalized = Float32Array.from(vector);
+    let norm = 0;
+    for (let i = 0; i < dimensions; i++) norm += normalized[i] * normalized[i];
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let i = 0; i < dimensions; i++) normalized[i] /= norm;
+    }
+    return normalized;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Binary serialization
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Layout (little-endian):
+   *   u32 count, u32 dimensions, u32 M, u32 efConstruction, i32 entryPoint, i32 maxLevel
+   *   count × (u16 byteLength + UTF-8 id)
+   *   count × u8 level
+   *   count × dimensions × f32 vectors
+   *   per node, per layer 0..level: u32 linkCount + linkCount × u32
+   */
+  serialize(): Buffer {
+    const count = this.ids.length;
+    const idBuffers = this.ids.map(id => Buffer.from(id, 'utf8'));
+    const linkWords = this.links.reduce(
+      (sum, layers) => sum + layers.reduce((layerSum, layer) => layerSum + 1 + layer.length, 0),
+      0
+    );
+    const size =
+      24 +
+      idBuffers.reduce((sum, b) => sum + 2 + b.length, 0) +
+      count +
+      count * this.dimensions * 4 +
+      linkWords * 4;
+
+    const buffer = Buffer.alloc(size);
+    let offset = 0;
+    offset = buffer.writeUInt32LE(count, offset);
+    offset = buffer.writeUInt32LE(this.dimensions, offset);
+    offset = buffer.writeUInt32LE(this.M, offset);
+    offset = buffer.writeUInt32LE(this.efConstruction, offset);
+    offset = buffer.writeInt32LE(this.entryPoint, offset);
+    offset = buffer.writeInt32LE(this.maxLevel, offset);
+
+    for (const idBuffer of idBuffers) {
+      offset = buffer.writeUInt16LE(idBuffer.length, offset);
+      offset += idBuffer.copy(buffer, offset);
+    }
+    for (const level of this.levels) {
+      offset = buffer.writeUInt8(level, offset);
+    }
+    for (let i = 0; i < count * this.dimensions; i++) {
+      offset = buffer.writeFloatLE(this.vectors[i], offset);
+    }
+    for (const layers of this.links) {
+      for (const layer of layers) {
+        offset = buffer.writeUInt32LE(layer.length, offset);
+        for (const neighbour of layer) {
+          offset = buffer.writeUInt32LE(neighbour, offset);
+        }
+      }
+    }
+
+    return buffer;
+  }
+
+  static deserialize(buffer: Buffer): HnswIndex {
+    let offset = 0;
+    const readU32 = () => { const v = buffer.readUInt32LE(offset); offset += 4; return v; };
+    const readI32 = () => { const v = buffer.readInt32LE(offset); offset += 4; return v; };
+
+    const count = readU32();
+    const dimensions = readU32();
+    const M = readU32();
+    const efConstruction = readU32();
+    const index = new HnswIndex(dimensions, { M, efConstruction });
+    index.entryPoint = readI32();
+    index.maxLevel = readI32();
+
+    for (let i = 0; i < count; i++) {
+      const length = buffer.readUInt16LE(offset);
+      offset += 2;
+      index.ids.push(buffer.toString('utf8', offset, offset + length));
+      offset += length;
+    }
+    for (let i = 0; i < count; i++) {
+      index.levels.push(buffer.readUInt8(offset++));
+    }
+    index.vectors = new Float32Array(count * dimensions);
+    for (let i = 0; i < count * dimensions; i++) {
+      index.vectors[i] = buffer.readFloatLE(offset);
+      offset += 4;
+    }
+    for (let node = 0; node < count; node++) {
+      const layers: number[][] = [];
+      for (let layer = 0; layer <= index.levels[node]; layer++) {
+        const linkCount = readU32();
+        const layerLinks: number[] = new Array(linkCount);
+        for (let i = 0; i < linkCount; i++) layerLinks[i] = readU32();
+        layers.push(layerLinks);
+      }
+      index.links.push(layers);
+    }
+
+    if (offset !== buffer.length) {
+      throw new Error(`Corrupt HNSW index: ${buffer.length - offset} trailing bytes`);
+    }
+    return index;
+  }
+}
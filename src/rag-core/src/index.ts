@@ -1,16 +1,20 @@
 // Cache & concurrency primitives
-export { CacheManager, KnowledgeCache } from './cache-manager';
-export { LockManager, getLockManager, resetLockManager, Lock, LockOptions } from './lock-manager';
+export { CacheManager, KnowledgeCache, SourceFingerprints, SourceFileChanges } from './cache-manager';
+export { LockManager, getLockManager, resetLockManager, Lock, LockOptions, CACHE_BUILD_LOCK } from './lock-manager';
 
 // Embedding
 export { EmbeddingService, getEmbeddingService } from './embedding-service';
+export { EmbeddingBackend, EmbeddingBackendKind, createEmbeddingBackend, DEFAULT_EMBEDDING_MODEL } from './embedding-backends';
+export { RerankerService, DEFAULT_RERANK_MODEL } from './reranker-service';
 
 // Vector storage & retrieval
-export { VectorStore, VectorEntry, SearchResult, createVectorStore } from './vector-store';
+export { VectorStore, VectorEntry, SearchResult, HybridSearchOptions, ProcedureCategorySource, createVectorStore } from './vector-store';
+export { HnswIndex, HnswOptions, HnswMatch } from './hnsw-index';
+export { Bm25Index, Bm25Options, Bm25Match, tokenize } from './bm25-index';
 
 // Chunking
 export { chunkSectionAware, chunkWithOverlap } from './chunking-strategy';
 export { DocumentChunker, DocumentChunk, ChunkingOptions } from './document-chunker';
 
 // Vector building
-export { chunkAndEmbedDocument, buildVectorStore, ProcedureDoc } from './vector-builder';
+export { chunkAndEmbedDocument, buildVectorStore, updateVectorStore, ProcedureDoc } from './vector-builder';
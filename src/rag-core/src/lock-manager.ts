@@ -1,6 +1,10 @@
 /**
  * Lock Manager for Cache Operations
  * Prevents concurrent cache rebuilds using file-based locks
+ *
+ * Locks are per project and per lock name. The default name ('cache-build')
+ * guards vector store rebuilds; other subsystems (e.g. the api-server job
+ * queue) use their own names so they never contend with a cache rebuild.
  */
 
 import * as lockfile from 'proper-lockfile';
@@ -27,6 +31,11 @@ export interface LockOptions {
   maxTimeout?: number;      // Max wait between retries (default: 3000ms)
 }
 
+/**
+ * Default lock name — guards cache rebuilds
+ */
+export const CACHE_BUILD_LOCK = 'cache-build';
+
 /**
  * Lock Manager for coordinating cache operations
  */
@@ -46,22 +55,30 @@ export class LockManager {
   /**
    * Get lock file path for a project
    */
-  private getLockFilePath(projectPath: string): string {
+  private getLockFilePath(projectPath: string, lockName: string = CACHE_BUILD_LOCK): string {
     const tempBase = os.tmpdir();
     const cacheBaseName = crypto.createHash('md5').update(projectPath).digest('hex').substring(0, 8);
     const lockDir = path.join(tempBase, 'phaser-cache', 'locks', cacheBaseName);
-    return path.join(lockDir, 'cache-build.lock');
+    return path.join(lockDir, `${lockName}.lock`);
+  }
+
+  /**
+   * In-process tracking key (plain project path for the default lock, for backward compat)
+   */
+  private getLockKey(projectPath: string, lockName: string): string {
+    return lockName === CACHE_BUILD_LOCK ? projectPath : `${projectPath}#${lockName}`;
   }
 
   /**
    * Acquire a lock for cache operations
    * @param projectPath - Project path to lock
    * @param options - Lock options (overrides defaults)
+   * @param lockName - Lock name (default: 'cache-build')
    * @returns Lock handle with release() method
    */
-  async acquireLock(projectPath: string, options?: LockOptions): Promise<Lock> {
-    const lockPath = this.getLockFilePath(projectPath);
-    const lockKey = projectPath;
+  async acquireLock(projectPath: string, options?: LockOptions, lockName: string = CACHE_BUILD_LOCK): Promise<Lock> {
+    const lockPath = this.getLockFilePath(projectPath, lockName);
+    const lockKey = this.getLockKey(projectPath, lockName);
 
     console.log(`[LockManager] 🔒 Attempting to acquire lock for project: ${path.basename(projectPath)}`);
     console.log(`[LockManager] 📁 Lock file: ${lockPath}`);
@@ -73,7 +90,7 @@ export class LockManager {
     }
 
     // Create lock acquisition promise
-    const lockPromise = this.doAcquireLock(projectPath, lockPath, options);
+    const lockPromise = this.doAcquireLock(projectPath, lockPath, lockKey, options);
     this.locks.set(lockKey, lockPromise);
 
     try {
@@ -91,6 +108,7 @@ export class LockManager {
   private async doAcquireLock(
     projectPath: string,
     lockPath: string,
+    lockKey: string,
     options?: LockOptions
   ): Promise<Lock> {
     // Merge options
@@ -131,12 +149,12 @@ export class LockManager {
           release: async () => {
             try {
               await releaseFn();
-              this.locks.delete(projectPath);
+              this.locks.delete(lockKey);
               console.log(`[LockManager] 🔓 Lock released for project: ${path.basename(projectPath)}`);
             } catch (error) {
               console.error(`[LockManager] ⚠️  Error releasing lock:`, error);
               // Still remove from tracking
-              this.locks.delete(projectPath);
+              this.locks.delete(lockKey);
             }
           }
         };
@@ -168,8 +186,8 @@ export class LockManager {
   /**
    * Check if a lock is currently held for a project
    */
-  async isLocked(projectPath: string): Promise<boolean> {
-    const lockPath = this.getLockFilePath(projectPath);
+  async isLocked(projectPath: string, lockName: string = CACHE_BUILD_LOCK): Promise<boolean> {
+    const lockPath = this.getLockFilePath(projectPath, lockName);
     
     try {
       await fs.access(lockPath);
@@ -184,8 +202,8 @@ export class LockManager {
   /**
    * Manually release a stale lock (use with caution)
    */
-  async releaseStale(projectPath: string): Promise<void> {
-    const lockPath = this.getLockFilePath(projectPath);
+  async releaseStale(projectPath: string, lockName: string = CACHE_BUILD_LOCK): Promise<void> {
+    const lockPath = this.getLockFilePath(projectPath, lockName);
     
     try {
       await lockfile.unlock(lockPath);
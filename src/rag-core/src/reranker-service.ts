@@ -0,0 +1,121 @@
+/**
+ * Local Cross-Encoder Reranker using Transformers.js
+ * Default model: 'Xenova/ms-marco-MiniLM-L-6-v2'
+ * - Scores each (query, passage) pair jointly, which ranks far more precisely
+ *   than comparing independently computed embeddings
+ * - Runs locally through the same ONNX runtime as EmbeddingService
+ *   (single-threaded for deterministic scores, configured in embedding-backends.ts)
+ * - Used as an optional second stage over over-fetched retrieval candidates
+ */
+
+import { AutoTokenizer, AutoModelForSequenceClassification } from '@xenova/transformers';
+import { SearchResult } from './vector-store';
+
+/** Pairs scored per forward pass */
+const RERANK_BATCH_SIZE = 16;
+
+/**
+ * Query characters kept for scoring. Query and passage share the model's
+ * 512-token window, so a long prompt would otherwise crowd out the passage.
+ */
+const RERANK_MAX_QUERY_CHARS = 1000;
+
+export const DEFAULT_RERANK_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/**
+ * Cross-encoder reranker
+ * One cached instance per model name
+ */
+export class RerankerService {
+  private static instances: Map<string, RerankerService> = new Map();
+  private tokenizer: any = null;
+  private model: any = null;
+  private loading: Promise<void> | null = null;
+
+  private constructor(private modelName: string) {}
+
+  /**
+   * Get the instance for a model
+   */
+  static getInstance(modelName: string = DEFAULT_RERANK_MODEL): RerankerService {
+    let instance = RerankerService.instances.get(modelName);
+    if (!instance) {
+      instance = new RerankerService(modelName);
+      RerankerService.instances.set(modelName, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Load tokenizer and model (once; concurrent callers share the load)
+   */
+  async initialize(): Promise<void> {
+    if (this.model) return;
+    if (!this.loading) {
+      this.loading = (async () => {
+        console.log(`[RerankerService] Loading model: ${this.modelName}...`);
+        const startTime = Date.now();
+        try {
+          this.tokenizer = await AutoTokenizer.from_pretrained(this.modelName);
+          this.model = await AutoModelForSequenceClassification.from_pretrained(this.modelName);
+          console.log(`[RerankerService] ✓ Model loaded successfully (${Date.now() - startTime}ms)`);
+        } catch (error) {
+          this.loading = null;
+          console.error('[RerankerService] Failed to load model:', error);
+          throw new Error(`Failed to initialize reranker model: ${error}`);
+        }
+      })();
+    }
+    await this.loading;
+  }
+
+  /**
+   * Relevance of each passage to the query, in input order.
+   * Scores are the model logit passed through a sigmoid (0-1, higher = more relevant).
+   */
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) return [];
+    await this.initialize();
+
+    const truncatedQuery = query.length > RERANK_MAX_QUERY_CHARS ? query.substring(0, RERANK_MAX_QUERY_CHARS) : query;
+    const scores: number[] = [];
+    for (let start = 0; start < passages.length; start += RERANK_BATCH_SIZE) {
+      const batch = passages.slice(start, start + RERANK_BATCH_SIZE);
+      const inputs = this.tokenizer(new Array(batch.length).fill(truncatedQuery), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await this.model(inputs);
+
+      // logits: [batch, 1] for relevance cross-encoders
+      const data: Float32Array = logits.data;
+      const labels = data.length / batch.length;
+      for (let i = 0; i < batch.length; i++) {
+        scores.push(1 / (1 + Math.exp(-data[i * labels])));
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Rescore retrieval candidates against the query and keep the best `topK`.
+   * Each result gets `rerankScore`; ties are broken by entry ID for determinism.
+   */
+  async rerank(query: string, candidates: SearchResult[], topK: number): Promise<SearchResult[]> {
+    const startTime = Date.now();
+    const scores = await this.score(query, candidates.map(c => c.entry.metadata.content));
+    const reranked = candidates
+      .map((candidate, i) => ({ ...candidate, rerankScore: scores[i] }))
+      .sort((a, b) => (b.rerankScore - a.rerankScore) || a.entry.id.localeCompare(b.entry.id))
+      .slice(0, topK);
+
+    console.log(`[RerankerService] Reranked ${candidates.length} candidates → top ${reranked.length} (${Date.now() - startTime}ms)`);
+    return reranked;
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
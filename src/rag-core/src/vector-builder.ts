@@ -5,7 +5,7 @@
 
 import { ParsedDocument } from '@phaser/shared-types';
 import { EmbeddingService } from './embedding-service';
-import { VectorStore, VectorEntry } from './vector-store';
+import { VectorStore, VectorEntry, ProcedureCategorySource } from './vector-store';
 
 /**
  * A procedure document with its subcategory metadata.
@@ -16,6 +16,8 @@ export interface ProcedureDoc {
   doc: ParsedDocument;
   procedureSubcategory?: 'sops' | 'quality_policies' | 'project_quality_plans';
   procedureCategoryId?: string;
+  /** How procedureCategoryId was assigned (set by rag-service's ProcedureClassifier) */
+  procedureClassification?: { confidence: number; source: ProcedureCategorySource };
 }
 
 /**
@@ -31,9 +33,10 @@ export async function chunkAndEmbedDocument(
     chunkSectionAware: (content: string, fileName: string, filePath: string) => string[];
     chunkWithOverlap: (content: string, fileName: string, filePath: string) => string[];
   },
-  contextCategory?: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general',
+  contextCategory?: string,
   procedureSubcategory?: 'sops' | 'quality_policies' | 'project_quality_plans',
-  procedureCategoryId?: string
+  procedureCategoryId?: string,
+  procedureClassification?: { confidence: number; source: ProcedureCategorySource }
 ): Promise<VectorEntry[]> {
   // 1. Intelligent chunking based on category
   const contentChunks = category === 'procedure'
@@ -64,7 +67,9 @@ export async function chunkAndEmbedDocument(
         chunkIndex,
         contextCategory,
         procedureSubcategory,
-        procedureCategoryId
+        procedureCategoryId,
+        procedureCategoryConfidence: procedureClassification?.confidence,
+        procedureCategorySource: procedureClassification?.source
       }
     );
   });
@@ -79,7 +84,7 @@ export async function chunkAndEmbedDocument(
  */
 export async function buildVectorStore(
   proceduresFiles: ProcedureDoc[],
-  contextFiles: { doc: ParsedDocument; contextCategory: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general' }[],
+  contextFiles: { doc: ParsedDocument; contextCategory: string }[],
   projectPath: string,
   embeddingService: EmbeddingService,
   chunkingStrategy: {
@@ -125,7 +130,7 @@ export async function buildVectorStore(
   // DETERMINISM: results are collected in the same sorted order as sortedProcedures /
   // sortedContext (Promise.all preserves index order), so vector entry ordering is stable.
   const procedureVectorArrays = await Promise.all(
-    sortedProcedures.map(({ doc, procedureSubcategory, procedureCategoryId }) =>
+    sortedProcedures.map(({ doc, procedureSubcategory, procedureCategoryId, procedureClassification }) =>
       chunkAndEmbedDocument(
         doc,
         'procedure',
@@ -134,7 +139,8 @@ export async function buildVectorStore(
         chunkingStrategy,
         undefined,
         procedureSubcategory,
-        procedureCategoryId
+        procedureCategoryId,
+        procedureClassification
       )
     )
   );
@@ -157,6 +163,9 @@ export async function buildVectorStore(
   // Add to vector store in deterministic order: procedures first, then context
   const allVectors = [...procedureVectors, ...contextVectors];
   allVectors.forEach(entry => vectorStore.addEntry(entry));
+
+  // Lexical (BM25) index for hybrid retrieval, built alongside the vectors
+  vectorStore.buildLexicalIndex();
   
   // Save to disk only if caching is enabled
   if (cacheEnabled) {
@@ -169,3 +178,92 @@ export async function buildVectorStore(
   
   return vectorStore;
 }
+
+/**
+ * Incrementally update a loaded vector store instead of rebuilding it.
+ * Entries for removed and re-indexed files are dropped, then the given
+ * (added/changed) documents are chunked and embedded — unchanged chunks
+ * still hit the embedding cache.
+ */
+export async function updateVectorStore(
+  vectorStore: VectorStore,
+  changes: {
+    /** Files whose entries are dropped without replacement */
+    removedFiles: string[];
+    /** Added/changed procedure documents to (re-)index */
+    proceduresFiles: ProcedureDoc[];
+    /** Added/changed context documents to (re-)index */
+    contextFiles: { doc: ParsedDocument; contextCategory: string }[];
+  },
+  projectPath: string,
+  embeddingService: EmbeddingService,
+  chunkingStrategy: {
+    chunkSectionAware: (content: string, fileName: string, filePath: string) => string[];
+    chunkWithOverlap: (content: string, fileName: string, filePath: string) => string[];
+  },
+  vectorStorePath: string,
+  cacheEnabled: boolean
+): Promise<{ removedEntries: number; addedEntries: number }> {
+  console.log('[VectorBuilder] Updating vector store incrementally...');
+
+  // Drop stale entries: deleted files plus every file about to be re-indexed
+  const staleFiles = [
+    ...changes.removedFiles,
+    ...changes.proceduresFiles.map(({ doc }) => doc.filePath),
+    ...changes.contextFiles.map(({ doc }) => doc.filePath)
+  ];
+  let removedEntries = 0;
+  for (const filePath of staleFiles) {
+    removedEntries += vectorStore.removeEntriesByFile(filePath);
+  }
+
+  // Same sorted, procedures-first order as buildVectorStore
+  const sortedProcedures = [...changes.proceduresFiles].sort((a, b) =>
+    a.doc.fileName.localeCompare(b.doc.fileName)
+  );
+  const sortedContext = [...changes.contextFiles].sort((a, b) =>
+    a.doc.fileName.localeCompare(b.doc.fileName)
+  );
+
+  const procedureVectorArrays = await Promise.all(
+    sortedProcedures.map(({ doc, procedureSubcategory, procedureCategoryId, procedureClassification }) =>
+      chunkAndEmbedDocument(
+        doc,
+        'procedure',
+        projectPath,
+        embeddingService,
+        chunkingStrategy,
+        undefined,
+        procedureSubcategory,
+        procedureCategoryId,
+        procedureClassification
+      )
+    )
+  );
+  const contextVectorArrays = await Promise.all(
+    sortedContext.map(({ doc, contextCategory }) =>
+      chunkAndEmbedDocument(
+        doc,
+        'context',
+        projectPath,
+        embeddingService,
+        chunkingStrategy,
+        contextCategory
+      )
+    )
+  );
+
+  const newVectors = [...procedureVectorArrays.flat(), ...contextVectorArrays.flat()];
+  vectorStore.addEntries(newVectors);
+  vectorStore.buildLexicalIndex();
+
+  if (cacheEnabled) {
+    await vectorStore.save(vectorStorePath);
+  } else {
+    console.log('[VectorBuilder] ⚠️  Skipping vector store save (caching disabled)');
+  }
+
+  console.log(`[VectorBuilder] ✓ Vector store updated: -${removedEntries} / +${newVectors.length} chunks (${vectorStore.getEntryCount()} total)`);
+
+  return { removedEntries, addedEntries: newVectors.length };
+}
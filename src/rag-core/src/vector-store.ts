@@ -2,19 +2,43 @@
  * Simple Vector Store for Document Embeddings
  * File-based storage for embeddings and metadata
  * Supports cosine similarity search
+ *
+ * Categories with at least VECTOR_ANN_MIN_ENTRIES entries (default: 1000) are
+ * searched through an HNSW index, persisted in binary form next to the JSON
+ * (vector-store.hnsw). Smaller categories keep the exact brute-force scan.
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as os from 'os';
+import { HnswIndex } from './hnsw-index';
+import { Bm25Index } from './bm25-index';
+
+type VectorCategory = 'procedure' | 'context';
+
+/** Magic bytes + format version of vector-store.hnsw */
+const ANN_FILE_MAGIC = 'PHNW';
+const ANN_FILE_VERSION = 1;
+
+/** Minimum entries in a category before search goes through the ANN index */
+const ANN_MIN_ENTRIES = parseInt(process.env.VECTOR_ANN_MIN_ENTRIES || '1000', 10);
+
+/** HNSW candidate list size at query time (higher = better recall, slower) */
+const ANN_EF_SEARCH = parseInt(process.env.VECTOR_ANN_EF_SEARCH || '100', 10);
+
+/**
+ * How a procedure's category was assigned at index time:
+ * pinned in the overrides file, by embedding similarity, or by the LLM tie-breaker
+ */
+export type ProcedureCategorySource = 'override' | 'embedding' | 'llm';
 
 /**
  * Vector entry with embedding and metadata
  */
 export interface VectorEntry {
   id: string;                    // Unique identifier
-  embedding: number[];           // 384-dim vector (stored as number[] for JSON serialization)
+  embedding: number[];           // Embedding vector (stored as number[] for JSON serialization)
   metadata: {
     fileName: string;            // Source file name
     filePath: string;            // Full file path
@@ -22,9 +46,11 @@ export interface VectorEntry {
     chunkIndex: number;          // Chunk position in document
     content: string;             // Original text content
     contentHash: string;         // SHA256 of content
-    contextCategory?: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general';  // Context subfolder category
+    contextCategory?: string;  // Context subfolder id declared in primary-context.yaml, or 'primary-context-root'
     procedureSubcategory?: 'sops' | 'quality_policies' | 'project_quality_plans';  // Procedure subfolder subcategory
     procedureCategoryId?: string;  // Procedure category ID from [Procedure|subcategory|categoryId] notation
+    procedureCategoryConfidence?: number;  // Classifier confidence for procedureCategoryId (1 for manual overrides)
+    procedureCategorySource?: ProcedureCategorySource;  // How procedureCategoryId was assigned
   };
 }
 
@@ -34,6 +60,19 @@ export interface VectorEntry {
 export interface SearchResult {
   entry: VectorEntry;
   similarity: number;
+  fusionScore?: number;          // Reciprocal rank fusion score (hybridSearch only)
+  rerankScore?: number;          // Cross-encoder relevance 0-1 (RerankerService only)
+}
+
+/**
+ * Reciprocal rank fusion settings for hybridSearch
+ * (retrieval.hybrid_search in primary-context.yaml)
+ */
+export interface HybridSearchOptions {
+  semanticWeight: number;        // Weight of the embedding ranking
+  lexicalWeight: number;         // Weight of the BM25 ranking
+  rrfK: number;                  // Rank offset k in weight / (k + rank)
+  candidatePool: number;         // Candidates taken from each ranking before fusion
 }
 
 /**
@@ -61,6 +100,9 @@ export class VectorStore {
   private updatedAt: string = new Date().toISOString();
   private modelVersion: string = 'v1.0';
   private entryMap: Map<string, VectorEntry> = new Map(); // Fast lookup by ID
+  private annIndexes: Map<VectorCategory, HnswIndex> = new Map(); // Built lazily per category
+  private annDirty: boolean = true; // Entries changed since the indexes were built
+  private lexicalIndex: Bm25Index | null = null; // Rebuilt when entries change
 
   constructor(projectPath: string, modelVersion: string = 'v1.0') {
     this.projectPath = projectPath;
@@ -88,6 +130,8 @@ export class VectorStore {
     const fingerprintInput = `${this.projectPath}|${this.modelVersion}|${entryHashes}`;
     this.fingerprint = crypto.createHash('sha256').update(fingerprintInput).digest('hex');
     this.updatedAt = new Date().toISOString();
+    this.annDirty = true;
+    this.lexicalIndex = null;
   }
 
   /**
@@ -186,25 +230,39 @@ export class VectorStore {
    * @param queryEmbedding - The query vector to search for
    * @param topK - Number of top results to return
    * @param category - Optional category filter ('procedure' | 'context')
+   * @param filter - Optional entry filter (e.g. a knowledge source scope); filtered
+   *   searches scan the matching entries exactly instead of using the ANN index
    * @returns Array of search results sorted by similarity (highest first)
    */
   search(
     queryEmbedding: number[],
     topK: number = 5,
-    category?: 'procedure' | 'context'
+    category?: 'procedure' | 'context',
+    filter?: (entry: VectorEntry) => boolean
   ): SearchResult[] {
-    // Filter by category if specified
-    let candidates = this.entries;
-    if (category) {
-      candidates = candidates.filter(e => e.metadata.category === category);
+    const categories: VectorCategory[] = category ? [category] : ['procedure', 'context'];
+    const results: SearchResult[] = [];
+
+    for (const cat of categories) {
+      const candidates = this.entries.filter(e => e.metadata.category === cat && (!filter || filter(e)));
+
+      // Large categories: shortlist through the ANN index, then re-score the
+      // shortlist exactly so similarities and ordering match the brute-force path
+      const shortlist = !filter && candidates.length >= ANN_MIN_ENTRIES
+        ? this.getAnnIndex(cat)
+            .search(queryEmbedding, topK, Math.max(ANN_EF_SEARCH, topK))
+            .map(match => this.entryMap.get(match.id))
+            .filter((entry): entry is VectorEntry => entry !== undefined)
+        : candidates;
+
+      for (const entry of shortlist) {
+        results.push({
+          entry,
+          similarity: VectorStore.cosineSimilarity(queryEmbedding, entry.embedding)
+        });
+      }
     }
 
-    // Compute similarity for each candidate
-    const results: SearchResult[] = candidates.map(entry => ({
-      entry,
-      similarity: VectorStore.cosineSimilarity(queryEmbedding, entry.embedding)
-    }));
-
     // Sort by similarity (descending), then by ID (ascending) for determinism
     // CRITICAL: When similarities are equal, we need a stable secondary sort key
     // to ensure consistent ordering across cache rebuilds
@@ -223,6 +281,183 @@ export class VectorStore {
       .slice(0, topK);
   }
 
+  /**
+   * Get (building if needed) the HNSW index for a category
+   */
+  private getAnnIndex(category: VectorCategory): HnswIndex {
+    if (this.annDirty) {
+      this.annIndexes.clear();
+      this.annDirty = false;
+    }
+
+    let index = this.annIndexes.get(category);
+    if (!index) {
+      const entries = this.entries.filter(e => e.metadata.category === category);
+      const buildStart = Date.now();
+      index = HnswIndex.build(entries, entries[0]?.embedding.length ?? 0);
+      this.annIndexes.set(category, index);
+      console.log(`[VectorStore] 🧭 [ANN] Built ${category} index: ${index.size} vectors in ${Date.now() - buildStart}ms`);
+    }
+    return index;
+  }
+
+  /**
+   * Path of the binary ANN index stored next to a vector-store JSON file
+   */
+  static getAnnIndexPath(storePath: string): string {
+    return storePath.replace(/\.json$/, '') + '.hnsw';
+  }
+
+  /**
+   * Write the ANN indexes for all categories above the threshold, tagged with
+   * the store fingerprint so a stale file is never paired with newer entries.
+   * Removes the file when no category needs an index.
+   */
+  private async saveAnnIndex(storePath: string): Promise<void> {
+    const indexPath = VectorStore.getAnnIndexPath(storePath);
+    const categories = (['procedure', 'context'] as VectorCategory[]).filter(
+      cat => this.entries.filter(e => e.metadata.category === cat).length >= ANN_MIN_ENTRIES
+    );
+
+    if (categories.length === 0) {
+      await fs.unlink(indexPath).catch(() => undefined);
+      return;
+    }
+
+    const parts: Buffer[] = [Buffer.from(ANN_FILE_MAGIC, 'ascii'), uint32(ANN_FILE_VERSION)];
+    const fingerprint = Buffer.from(this.fingerprint, 'utf8');
+    parts.push(uint32(fingerprint.length), fingerprint, uint32(categories.length));
+    for (const cat of categories) {
+      const name = Buffer.from(cat, 'utf8');
+      const data = this.getAnnIndex(cat).serialize();
+      parts.push(uint32(name.length), name, uint32(data.length), data);
+    }
+
+    const buffer = Buffer.concat(parts);
+    try {
+      await fs.writeFile(indexPath, buffer);
+      console.log(`[VectorStore] ✅ [ANN] Index saved (${buffer.length} bytes, ${categories.join(' + ')})`);
+    } catch (error) {
+      // Non-fatal: the index is rebuilt from the JSON entries on next load
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(`[VectorStore] ⚠️  [ANN] Failed to save index:`, errorMsg);
+    }
+  }
+
+  /**
+   * Restore ANN indexes from disk if they were built for the current entries.
+   * A missing, stale or corrupt file is ignored; indexes are rebuilt on demand.
+   */
+  private async loadAnnIndex(storePath: string): Promise<void> {
+    const indexPath = VectorStore.getAnnIndexPath(storePath);
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(indexPath);
+    } catch {
+      return;
+    }
+
+    try {
+      let offset = 0;
+      const readU32 = () => { const v = buffer.readUInt32LE(offset); offset += 4; return v; };
+      const readString = () => { const length = readU32(); const v = buffer.toString('utf8', offset, offset + length); offset += length; return v; };
+
+      const magic = buffer.toString('ascii', 0, 4);
+      offset = 4;
+      if (magic !== ANN_FILE_MAGIC || readU32() !== ANN_FILE_VERSION) {
+        console.log('[VectorStore] ⚠️  [ANN] Unrecognized index format, will rebuild');
+        return;
+      }
+      if (readString() !== this.fingerprint) {
+        console.log('[VectorStore] ⚠️  [ANN] Index is stale (fingerprint mismatch), will rebuild');
+        return;
+      }
+
+      const indexes = new Map<VectorCategory, HnswIndex>();
+      const sections = readU32();
+      for (let i = 0; i < sections; i++) {
+        const cat = readString() as VectorCategory;
+        const length = readU32();
+        indexes.set(cat, HnswIndex.deserialize(buffer.subarray(offset, offset + length)));
+        offset += length;
+      }
+
+      this.annIndexes = indexes;
+      this.annDirty = false;
+      console.log(`[VectorStore] ✅ [ANN] Index loaded (${[...indexes.keys()].join(' + ')})`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.log(`[VectorStore] ⚠️  [ANN] Could not read index (${errorMsg}), will rebuild`);
+    }
+  }
+
+  /**
+   * Hybrid search: fuse the embedding ranking with a BM25 keyword ranking using
+   * reciprocal rank fusion, so exact identifiers ("21 CFR 820.30(c)", "SOP-014")
+   * surface even when the embeddings match them poorly.
+   * `similarity` stays the cosine similarity; results are ordered by `fusionScore`
+   * (ties broken by entry ID). `filter` restricts both rankings, as in search().
+   */
+  hybridSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    topK: number = 5,
+    category: 'procedure' | 'context' | undefined,
+    options: HybridSearchOptions,
+    filter?: (entry: VectorEntry) => boolean
+  ): SearchResult[] {
+    const pool = Math.max(options.candidatePool, topK);
+    const semantic = this.search(queryEmbedding, pool, category, filter);
+    const lexicalFilter = filter && ((id: string) => {
+      const entry = this.entryMap.get(id);
+      return entry !== undefined && filter(entry);
+    });
+    const lexical = this.getLexicalIndex().search(queryText, pool, category, lexicalFilter);
+
+    const fused = new Map<string, SearchResult>();
+    const addRank = (entry: VectorEntry, rank: number, weight: number, similarity?: number) => {
+      const result = fused.get(entry.id) ?? {
+        entry,
+        similarity: similarity ?? VectorStore.cosineSimilarity(queryEmbedding, entry.embedding),
+        fusionScore: 0
+      };
+      result.fusionScore! += weight / (options.rrfK + rank);
+      fused.set(entry.id, result);
+    };
+
+    semantic.forEach((result, i) => addRank(result.entry, i + 1, options.semanticWeight, result.similarity));
+    lexical.forEach((match, i) => {
+      const entry = this.entryMap.get(match.id);
+      if (entry) addRank(entry, i + 1, options.lexicalWeight);
+    });
+
+    return [...fused.values()]
+      .sort((a, b) => {
+        const scoreDiff = b.fusionScore! - a.fusionScore!;
+        if (Math.abs(scoreDiff) < 1e-12) {
+          return a.entry.id.localeCompare(b.entry.id);
+        }
+        return scoreDiff;
+      })
+      .slice(0, topK);
+  }
+
+  /**
+   * Build the BM25 lexical index now (otherwise built on first hybridSearch)
+   */
+  buildLexicalIndex(): void {
+    const buildStart = Date.now();
+    this.lexicalIndex = Bm25Index.build(this.entries);
+    console.log(`[VectorStore] 🔤 [BM25] Built lexical index: ${this.lexicalIndex.size} chunks in ${Date.now() - buildStart}ms`);
+  }
+
+  private getLexicalIndex(): Bm25Index {
+    if (!this.lexicalIndex) {
+      this.buildLexicalIndex();
+    }
+    return this.lexicalIndex!;
+  }
+
   /**
    * Search using Float32Array (convenience method)
    */
@@ -321,6 +556,20 @@ export class VectorStore {
     };
   }
 
+  /**
+   * Whether the stored vectors come from the given embedding model: same model
+   * version and, when known, the same vector size. Vectors from another model
+   * live in a different space and cannot be searched with its query embeddings.
+   */
+  isCompatibleWith(modelVersion: string, dimensions: number): boolean {
+    if (this.modelVersion !== modelVersion) return false;
+    return dimensions <= 0 || this.entries.every(entry => entry.embedding.length === dimensions);
+  }
+
+  getModelVersion(): string {
+    return this.modelVersion;
+  }
+
   /**
    * Save vector store to disk
    * Saves to system temp directory to avoid permission issues
@@ -360,6 +609,8 @@ export class VectorStore {
       } catch (verifyError) {
         console.error(`[VectorStore] ⚠️  [VECTOR] File written but verification failed:`, verifyError);
       }
+
+      await this.saveAnnIndex(savePath);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error(`[VectorStore] ❌ [VECTOR] Failed to save vector store:`, errorMsg);
@@ -410,6 +661,8 @@ export class VectorStore {
         store.entryMap.set(entry.id, entry);
       });
 
+      await store.loadAnnIndex(storePath);
+
       console.log(`[VectorStore] ✅ [VECTOR] Vector store loaded successfully`);
       console.log(`[VectorStore] 📊 [VECTOR] Loaded ${data.totalEntries} entries`);
       console.log(`[VectorStore] 📊 [VECTOR] Store fingerprint: ${data.fingerprint.substring(0, 16)}...`);
@@ -486,9 +739,11 @@ export class VectorStore {
       filePath: string;
       category: 'procedure' | 'context';
       chunkIndex: number;
-      contextCategory?: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general';
+      contextCategory?: string;
       procedureSubcategory?: 'sops' | 'quality_policies' | 'project_quality_plans';
       procedureCategoryId?: string;
+      procedureCategoryConfidence?: number;
+      procedureCategorySource?: ProcedureCategorySource;
     }
   ): VectorEntry {
     const contentHash = VectorStore.computeContentHash(content);
@@ -551,3 +806,12 @@ export async function createVectorStore(
 ): Promise<VectorStore> {
   return VectorStore.loadOrCreate(projectPath, modelVersion);
 }
+
+/**
+ * 4-byte little-endian unsigned integer
+ */
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
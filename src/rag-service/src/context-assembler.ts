@@ -9,8 +9,10 @@
  * and any output-specific overrides. Everything else is handled here.
  */
 
-import { SearchResult } from '@phaser/rag-core';
+import { SearchResult, HybridSearchOptions, DEFAULT_RERANK_MODEL } from '@phaser/rag-core';
 import { buildSystemSection } from './prompt-builder';
+import { resolveContextFolders, contextCategoryLabel } from './context-taxonomy';
+import { ScopeSufficiencySettings } from './reference-parser';
 
 /**
  * Extract all external standards from primary-context.yaml.
@@ -30,6 +32,65 @@ export function extractExternalStandards(
   return standards;
 }
 
+/**
+ * Resolve hybrid (BM25 + embedding) retrieval settings from primary-context.yaml.
+ * Maps to: retrieval.hybrid_search. Returns null when hybrid search is disabled,
+ * in which case retrieval is embedding-only.
+ */
+export function resolveHybridSearchOptions(primaryContext: any): HybridSearchOptions | null {
+  const config = primaryContext?.retrieval?.hybrid_search ?? {};
+  if (config.enabled === false) return null;
+
+  const number = (value: unknown, fallback: number, min: number): number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+
+  return {
+    semanticWeight: number(config.semantic_weight, 1.0, 0),
+    lexicalWeight: number(config.lexical_weight, 1.0, 0),
+    rrfK: number(config.rrf_k, 60, 0),
+    candidatePool: Math.floor(number(config.candidate_pool, 50, 1)),
+  };
+}
+
+/**
+ * Cross-encoder reranking settings (retrieval.rerank in primary-context.yaml)
+ */
+export interface RerankSettings {
+  model: string;
+  /** First-stage candidates fetched per requested chunk */
+  candidateMultiplier: number;
+}
+
+/**
+ * Resolve reranking settings from primary-context.yaml.
+ * Maps to: retrieval.rerank. Returns null unless enabled (off by default:
+ * it downloads and runs a second local model).
+ */
+export function resolveRerankSettings(primaryContext: any): RerankSettings | null {
+  const config = primaryContext?.retrieval?.rerank;
+  if (config?.enabled !== true) return null;
+
+  const multiplier = config.candidate_multiplier;
+  return {
+    model: typeof config.model === 'string' && config.model.trim() ? config.model.trim() : DEFAULT_RERANK_MODEL,
+    candidateMultiplier: typeof multiplier === 'number' && multiplier >= 1 ? Math.floor(multiplier) : 4,
+  };
+}
+
+/**
+ * Resolve scope sufficiency thresholds from primary-context.yaml.
+ * Maps to: retrieval.scope_sufficiency (default: 2 chunks, best similarity 0.3).
+ */
+export function resolveScopeSufficiency(primaryContext: any): ScopeSufficiencySettings {
+  const config = primaryContext?.retrieval?.scope_sufficiency ?? {};
+  const minChunks = config.min_chunks;
+  const minTopSimilarity = config.min_top_similarity;
+  return {
+    minChunks: typeof minChunks === 'number' && minChunks >= 1 ? Math.floor(minChunks) : 2,
+    minTopSimilarity: typeof minTopSimilarity === 'number' && minTopSimilarity >= 0 && minTopSimilarity <= 1 ? minTopSimilarity : 0.3,
+  };
+}
+
 export function assembleContext(
   primaryContext: any,
   procedureChunks: SearchResult[],
@@ -139,23 +200,9 @@ export function assembleContext(
   
   if (sortedContextChunks.length > 0) {
     sections.push('--- Detailed Project Context ---\n');
+    const contextFolders = resolveContextFolders(primaryContext);
     sortedContextChunks.forEach((result) => {
-      const contextCategory = result.entry.metadata.contextCategory || 'general';
-      let categoryLabel = '';
-      
-      if (contextCategory === 'primary-context-root') {
-        categoryLabel = 'Primary Context File';
-      } else if (contextCategory === 'initiation') {
-        categoryLabel = 'Initiation';
-      } else if (contextCategory === 'ongoing') {
-        categoryLabel = 'Ongoing';
-      } else if (contextCategory === 'predicates') {
-        categoryLabel = 'Predicate Device';
-      } else if (contextCategory === 'regulatory-strategy') {
-        categoryLabel = 'Regulatory Strategy';
-      } else if (contextCategory === 'general') {
-        categoryLabel = 'General Reference';
-      }
+      const categoryLabel = contextCategoryLabel(result.entry.metadata.contextCategory, contextFolders);
       
       sections.push(`\n[${categoryLabel}: ${result.entry.metadata.fileName}]\n`);
       sections.push(result.entry.metadata.content);
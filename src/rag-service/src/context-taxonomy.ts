@@ -0,0 +1,82 @@
+/**
+ * Context Folder Taxonomy
+ * Resolves the Context/ subfolders declared under
+ * knowledge_sources.project_context.subcategories in primary-context.yaml.
+ *
+ * Each declared subfolder becomes a context category: the loader indexes its
+ * files under the subfolder's id (VectorEntry.metadata.contextCategory), the
+ * assembled prompt labels them with its name, and its retrieval_priority
+ * decides whether it is searched always or only when referenced.
+ * Files directly in Context/ use the built-in CONTEXT_ROOT_CATEGORY.
+ */
+
+/** Category of files directly in Context/ (Master Record, primary context documents) */
+export const CONTEXT_ROOT_CATEGORY = 'primary-context-root';
+
+/**
+ * A Context/ subfolder declared in primary-context.yaml
+ */
+export interface ContextFolder {
+  /** Category id stored on vector entries; also usable as a @{source_id} scope */
+  id: string;
+  /** Label used in the assembled prompt */
+  name: string;
+  /** Subfolder name under Context/ */
+  folder: string;
+  /** on_demand folders are only retrieved when referenced in the prompt */
+  retrievalPriority: 'always' | 'on_demand';
+}
+
+/**
+ * Folders used when primary-context.yaml declares none (older configurations).
+ * The ids are the ones the loader used before the taxonomy was declarable, so
+ * vector stores built from those configurations keep matching them: an
+ * unchanged primary-context.yaml does not invalidate the cache.
+ */
+export const DEFAULT_CONTEXT_FOLDERS: ContextFolder[] = [
+  { id: 'initiation', name: 'Initiation', folder: 'Initiation', retrievalPriority: 'always' },
+  { id: 'ongoing', name: 'Ongoing', folder: 'Ongoing', retrievalPriority: 'always' },
+  { id: 'predicates', name: 'Predicate Device', folder: 'Predicates', retrievalPriority: 'always' },
+  { id: 'regulatory-strategy', name: 'Regulatory Strategy', folder: 'Regulatory Strategy', retrievalPriority: 'on_demand' },
+  { id: 'general', name: 'General Reference', folder: 'General', retrievalPriority: 'on_demand' },
+];
+
+const CONTEXT_LOCATION_PREFIX = '[RAGFolder]/Context/';
+
+/**
+ * Context subfolders declared in primary-context.yaml, in declaration order.
+ * A subcategory's folder is the last part of its location
+ * ("[RAGFolder]/Context/Regulatory Strategy" → "Regulatory Strategy").
+ */
+export function resolveContextFolders(primaryContext: any): ContextFolder[] {
+  const subcategories = primaryContext?.knowledge_sources?.project_context?.subcategories;
+  if (!subcategories || typeof subcategories !== 'object') {
+    return DEFAULT_CONTEXT_FOLDERS;
+  }
+
+  const folders: ContextFolder[] = [];
+  for (const [key, subcategory] of Object.entries<any>(subcategories)) {
+    const id = typeof subcategory?.id === 'string' ? subcategory.id : key;
+    const location = typeof subcategory?.location === 'string' ? subcategory.location : '';
+    if (!location.startsWith(CONTEXT_LOCATION_PREFIX)) {
+      console.warn(`[ContextTaxonomy] ⚠️  Context subcategory "${id}" has no ${CONTEXT_LOCATION_PREFIX}<folder> location, skipped`);
+      continue;
+    }
+    const folder = location.substring(CONTEXT_LOCATION_PREFIX.length).replace(/\/+$/, '');
+    folders.push({
+      id,
+      name: typeof subcategory.name === 'string' ? subcategory.name : folder,
+      folder,
+      retrievalPriority: subcategory.retrieval_priority === 'on_demand' ? 'on_demand' : 'always',
+    });
+  }
+  return folders;
+}
+
+/**
+ * Prompt label for a context category
+ */
+export function contextCategoryLabel(category: string | undefined, folders: ContextFolder[]): string {
+  if (category === CONTEXT_ROOT_CATEGORY) return 'Primary Context File';
+  return folders.find(folder => folder.id === category)?.name ?? category ?? 'Context';
+}
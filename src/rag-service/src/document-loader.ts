@@ -1,12 +1,15 @@
 import { ParsedDocument } from '@phaser/shared-types';
 import { ComprehensiveFileParser } from '@phaser/file-parser';
+import { ProcedureCategorySource } from '@phaser/rag-core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import { ContextFolder, CONTEXT_ROOT_CATEGORY } from './context-taxonomy';
+import { PROCEDURE_CATEGORY_OVERRIDES_FILE } from './procedure-classifier';
 
 export interface CategorizedContextFile {
   doc: ParsedDocument;
-  contextCategory: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general';
+  contextCategory: string;
 }
 
 /**
@@ -17,7 +20,9 @@ export interface CategorizedContextFile {
 export interface CategorizedProcedureFile {
   doc: ParsedDocument;
   procedureSubcategory: 'sops' | 'quality_policies' | 'project_quality_plans';
+  /** Category from the subcategory's declared categories (set by ProcedureClassifier) */
   procedureCategoryId?: string;
+  procedureClassification?: { confidence: number; source: ProcedureCategorySource };
 }
 
 export class DocumentLoader {
@@ -35,7 +40,12 @@ export class DocumentLoader {
     return primaryContext;
   }
 
-  async loadProceduresFolder(folderPath: string): Promise<CategorizedProcedureFile[]> {
+  /**
+   * Load and categorize the Procedures folder.
+   * Pass `onlyFiles` (full paths) to parse just those files, e.g. the files
+   * changed since the last cache build.
+   */
+  async loadProceduresFolder(folderPath: string, onlyFiles?: Set<string>): Promise<CategorizedProcedureFile[]> {
     console.log('[DocumentLoader] Loading Procedures folder:', folderPath);
 
     try {
@@ -55,8 +65,12 @@ export class DocumentLoader {
       'QaPs': 'project_quality_plans',
     };
 
-    // Scan all documents in the Procedures tree once
-    const allDocs = await this.fileParser.scanAndParseFolder(folderPath);
+    // Scan all documents in the Procedures tree once (the category overrides file is configuration, not a procedure)
+    const overridesPath = path.join(folderPath, PROCEDURE_CATEGORY_OVERRIDES_FILE);
+    const allDocs = await this.fileParser.scanAndParseFolder(
+      folderPath,
+      filePath => filePath !== overridesPath && (!onlyFiles || onlyFiles.has(filePath))
+    );
 
     for (const doc of allDocs) {
       const relPath = path.relative(folderPath, doc.filePath);
@@ -100,27 +114,31 @@ export class DocumentLoader {
     }
   }
 
-  async loadContextFolderStructured(contextBasePath: string): Promise<CategorizedContextFile[]> {
+  /**
+   * Load the Context folder with each file tagged by its subfolder category.
+   * Subfolders come from knowledge_sources.project_context in primary-context.yaml
+   * (see resolveContextFolders); undeclared subfolders are not indexed.
+   * Pass `onlyFiles` (full paths) to parse just those files.
+   */
+  async loadContextFolderStructured(
+    contextBasePath: string,
+    contextFolders: ContextFolder[],
+    onlyFiles?: Set<string>
+  ): Promise<CategorizedContextFile[]> {
     console.log('[DocumentLoader] Loading structured Context folder:', contextBasePath);
     
     const categorizedFiles: CategorizedContextFile[] = [];
+    const fileFilter = onlyFiles && ((filePath: string) => onlyFiles.has(filePath));
     
     try {
       await fs.access(contextBasePath);
       
-      const categoryMapping: Record<string, 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy'> = {
-        'Initiation': 'initiation',
-        'Ongoing': 'ongoing',
-        'Predicates': 'predicates',
-        'Regulatory Strategy': 'regulatory-strategy'
-      };
-      
-      for (const [folderName, category] of Object.entries(categoryMapping)) {
+      for (const { folder: folderName, id: category } of contextFolders) {
         const folderPath = path.join(contextBasePath, folderName);
         
         try {
           await fs.access(folderPath);
-          const docs = await this.fileParser.scanAndParseFolder(folderPath);
+          const docs = await this.fileParser.scanAndParseFolder(folderPath, fileFilter);
           
           for (const doc of docs) {
             categorizedFiles.push({ doc, contextCategory: category });
@@ -132,22 +150,22 @@ export class DocumentLoader {
         }
       }
       
-      // Load General subfolder
-      const generalPath = path.join(contextBasePath, 'General');
-      try {
-        await fs.access(generalPath);
-        const generalDocs = await this.fileParser.scanAndParseFolder(generalPath);
-        generalDocs.forEach(doc => {
-          categorizedFiles.push({ doc, contextCategory: 'general' });
-        });
-        console.log(`[DocumentLoader] ✓ Loaded ${generalDocs.length} files from General/ (category: general)`);
-      } catch {
-        console.log('[DocumentLoader] ⏭️  Skipping General/ (not found)');
+      // Subfolders missing from primary-context.yaml have no category or retrieval policy
+      // (Prompt/ holds user prompts and is never indexed)
+      const declaredFolders = new Set([...contextFolders.map(f => f.folder), 'Prompt']);
+      const entries = await fs.readdir(contextBasePath, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !declaredFolders.has(entry.name)) {
+          console.warn(`[DocumentLoader] ⚠️  Skipping ${entry.name}/ (not declared in knowledge_sources.project_context)`);
+        }
       }
       
       // Load root-level files (e.g., Primary Context.docx)
       // We need to scan the base folder and filter for files at root only
-      const allDocs = await this.fileParser.scanAndParseFolder(contextBasePath);
+      const allDocs = await this.fileParser.scanAndParseFolder(
+        contextBasePath,
+        filePath => !path.relative(contextBasePath, filePath).includes(path.sep) && (!fileFilter || fileFilter(filePath))
+      );
       const rootDocs = allDocs.filter(doc => {
         const relPath = path.relative(contextBasePath, doc.filePath);
         // Check if file is at root (no directory separators in relative path)
@@ -156,7 +174,7 @@ export class DocumentLoader {
       
       if (rootDocs.length > 0) {
         rootDocs.forEach(doc => {
-          categorizedFiles.push({ doc, contextCategory: 'primary-context-root' });
+          categorizedFiles.push({ doc, contextCategory: CONTEXT_ROOT_CATEGORY });
         });
         console.log(`[DocumentLoader] ✓ Loaded ${rootDocs.length} root-level files (category: primary-context-root)`);
       }
@@ -467,6 +485,21 @@ export class DocumentLoader {
     return new Map(); // caller should fall back to parseMasterRecordFields(doc.content)
   }
 
+  /**
+   * Load the Master Record and parse its fields (HTML first, raw text as fallback,
+   * composite fields synthesized). Returns null when no Master Record is found.
+   */
+  async loadMasterRecordFields(contextPath: string): Promise<{ doc: ParsedDocument; fields: Map<string, string> } | null> {
+    const doc = await this.loadMasterRecord(contextPath);
+    if (!doc) return null;
+
+    let fields = await DocumentLoader.parseMasterRecordFieldsFromFile(doc.filePath);
+    if (fields.size === 0) {
+      fields = DocumentLoader.synthesizeCompositeFields(DocumentLoader.parseMasterRecordFields(doc.content));
+    }
+    return { doc, fields };
+  }
+
   /**
    * Synthesize composite fields (e.g. TEAM_MEMBERS from individual role fields).
    * Extracted here so both raw-text and HTML parsers share the same logic.
@@ -492,19 +525,38 @@ export class DocumentLoader {
 
   /**
    * Load a bootstrap document by its referenced name.
+   * Candidates come from findBootstrapCandidates(); the first one that parses is returned.
+   *
+   * Maps to: knowledge_sources.document_bootstraps in primary-context.yaml
+   */
+  async loadBootstrapDocument(contextPath: string, bootstrapDocName: string): Promise<ParsedDocument | null> {
+    console.log(`[DocumentLoader] Loading bootstrap document: ${bootstrapDocName}`);
+
+    for (const filePath of await this.findBootstrapCandidates(contextPath, bootstrapDocName)) {
+      try {
+        const doc = await this.loadFile(filePath);
+        console.log(`[DocumentLoader] ✓ Bootstrap doc loaded: ${doc.fileName} (for reference: "${bootstrapDocName}")`);
+        return doc;
+      } catch (err) {
+        console.warn(`[DocumentLoader] Could not parse bootstrap file ${filePath}:`, err);
+      }
+    }
+
+    console.warn(`[DocumentLoader] ⚠️  Bootstrap document not found: "${bootstrapDocName}" (searched in ${contextPath})`);
+    return null;
+  }
+
+  /**
+   * Find the files a bootstrap reference could resolve to, in lookup order.
    * The referenced name (e.g., "DDP-Bootstrap-Phase1.docx") may not match the exact filename
    * on disk (e.g., "DDP-Bootstrap-Phase1-V4.docx"), so this method does fuzzy matching:
    *   1. Exact filename match
    *   2. Filename starts with the base name (handles version suffixes like -V4)
    *   3. Filename contains the base name
    *
-   * Searches the Context root and one level of subdirectories.
-   *
-   * Maps to: knowledge_sources.document_bootstraps in primary-context.yaml
+   * Searches {projectPath}/Bootstrap, the Context root and one level of subdirectories.
    */
-  async loadBootstrapDocument(contextPath: string, bootstrapDocName: string): Promise<ParsedDocument | null> {
-    console.log(`[DocumentLoader] Loading bootstrap document: ${bootstrapDocName}`);
-
+  async findBootstrapCandidates(contextPath: string, bootstrapDocName: string): Promise<string[]> {
     // Normalize: strip extension for matching
     const refBaseLower = bootstrapDocName.replace(/\.docx$/i, '').toLowerCase();
 
@@ -524,6 +576,7 @@ export class DocumentLoader {
       }
     } catch {}
 
+    const candidates: string[] = [];
     for (const searchDir of searchDirs) {
       let entries: import('fs').Dirent[];
       try {
@@ -544,20 +597,12 @@ export class DocumentLoader {
           baseNameLower.includes(refBaseLower);        // contains
 
         if (isMatch) {
-          const filePath = path.join(searchDir, entry.name);
-          try {
-            const doc = await this.loadFile(filePath);
-            console.log(`[DocumentLoader] ✓ Bootstrap doc loaded: ${doc.fileName} (for reference: "${bootstrapDocName}")`);
-            return doc;
-          } catch (err) {
-            console.warn(`[DocumentLoader] Could not parse bootstrap file ${filePath}:`, err);
-          }
+          candidates.push(path.join(searchDir, entry.name));
         }
       }
     }
 
-    console.warn(`[DocumentLoader] ⚠️  Bootstrap document not found: "${bootstrapDocName}" (searched in ${contextPath})`);
-    return null;
+    return candidates;
   }
 
   async loadMasterChecklist(contextPath: string): Promise<ParsedDocument | null> {
@@ -1,20 +1,30 @@
-import { ParsedDocument } from '@phaser/shared-types';
+import { ParsedDocument, GenerationProgressCallback, RerankMetadata, ContextSourceChunk } from '@phaser/shared-types';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Mutex } from 'async-mutex';
-import { EmbeddingService, VectorStore, SearchResult, LockManager, getLockManager, CacheManager, KnowledgeCache, buildVectorStore as buildVectorStoreUtil, chunkSectionAware, chunkWithOverlap } from '@phaser/rag-core';
+import { EmbeddingService, VectorStore, VectorEntry, SearchResult, LockManager, getLockManager, CacheManager, KnowledgeCache, SourceFingerprints, RerankerService, buildVectorStore as buildVectorStoreUtil, updateVectorStore as updateVectorStoreUtil, chunkSectionAware, chunkWithOverlap } from '@phaser/rag-core';
 import { DocumentLoader, CategorizedProcedureFile } from './document-loader';
+import { resolveContextFolders } from './context-taxonomy';
+import {
+  ProcedureClassifier,
+  ProcedureCategoryTieBreaker,
+  PROCEDURE_CATEGORY_OVERRIDES_FILE,
+  resolveProcedureClassificationSettings,
+} from './procedure-classifier';
 import {
   parseExplicitContextReferences,
   parseMasterChecklistReference,
   parseProcedureReferences,
   parseKnowledgeSourceScopes,
+  resolveKnowledgeSourceScope,
+  isInKnowledgeSourceScope,
+  findInsufficientKnowledgeScopes,
   parseBootstrapReferences,
   parseDocFieldReferences,
   filterContextResults,
   filterProcedureResults,
 } from './reference-parser';
-import { assembleContext, estimateTokens, enforceTokenLimit, extractExternalStandards } from './context-assembler';
+import { assembleContext, estimateTokens, enforceTokenLimit, extractExternalStandards, resolveHybridSearchOptions, resolveRerankSettings, resolveScopeSufficiency } from './context-assembler';
 import { generateSOPSummaries as generateSOPSummariesOrch, generateContextSummaries as generateContextSummariesOrch } from './summary-orchestrator';
 
 /**
@@ -24,6 +34,9 @@ import { generateSOPSummaries as generateSOPSummariesOrch, generateContextSummar
  */
 const globalBuildMutex = new Mutex();
 
+/** Procedure subcategories indexed from Procedures/ (SOPs, QPs, QaPs) */
+const PROCEDURE_SUBCATEGORIES = ['sops', 'quality_policies', 'project_quality_plans'];
+
 /**
  * Enhanced RAG Service for Content Generation
  * Retrieves context from multiple knowledge sources to inform LLM generation:
@@ -41,6 +54,7 @@ export class EnhancedRAGService {
   private cacheEnabled: boolean;
   private cacheManager: CacheManager;
   private summaryGenerator: any; // Lazy-loaded when needed
+  private procedureCategoryTieBreaker?: ProcedureCategoryTieBreaker;
   
   constructor() {
     this.documentLoader = new DocumentLoader();
@@ -59,6 +73,34 @@ export class EnhancedRAGService {
     }
   }
 
+  /**
+   * Settle near-tie procedure classifications with an LLM
+   * (only consulted when retrieval.procedure_classification.llm_tie_breaker is true)
+   */
+  setProcedureCategoryTieBreaker(tieBreaker: ProcedureCategoryTieBreaker): void {
+    this.procedureCategoryTieBreaker = tieBreaker;
+  }
+
+  /**
+   * Assign procedure categories (retrieval.procedure_classification)
+   */
+  private async classifyProcedures(
+    proceduresFiles: CategorizedProcedureFile[],
+    proceduresPath: string,
+    primaryContext: any,
+    projectPath: string
+  ): Promise<CategorizedProcedureFile[]> {
+    const settings = resolveProcedureClassificationSettings(primaryContext);
+    if (!settings || proceduresFiles.length === 0) return proceduresFiles;
+
+    const classifier = new ProcedureClassifier(
+      await this.getEmbeddingService(projectPath),
+      settings,
+      this.procedureCategoryTieBreaker
+    );
+    return classifier.classify(proceduresFiles, proceduresPath, primaryContext);
+  }
+
   /**
    * Get or initialize embedding service
    */
@@ -76,7 +118,7 @@ export class EnhancedRAGService {
    */
   private async buildVectorStore(
     proceduresFiles: CategorizedProcedureFile[],
-    contextFiles: { doc: ParsedDocument; contextCategory: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general' }[],
+    contextFiles: { doc: ParsedDocument; contextCategory: string }[],
     projectPath: string
   ): Promise<void> {
     const embeddingService = await this.getEmbeddingService(projectPath);
@@ -94,8 +136,10 @@ export class EnhancedRAGService {
   }
 
   // Cache operations delegate to cacheManager
+  // (a cache built with another embedding backend or model is invalid)
   async isCacheValid(projectPath: string, primaryContextPath: string): Promise<boolean> {
-    return await this.cacheManager.isCacheValid(projectPath, primaryContextPath, this.cache);
+    const embeddingModelVersion = EmbeddingService.getInstance(projectPath).getModelInfo().version;
+    return await this.cacheManager.isCacheValid(projectPath, primaryContextPath, this.cache, embeddingModelVersion);
   }
 
   /**
@@ -105,12 +149,17 @@ export class EnhancedRAGService {
    * 
    * Uses async-mutex to provide TRUE mutual exclusion - only one request
    * can execute the cache build logic at a time within this process.
+   *
+   * @param onProgress - Optional callback receiving `cache` progress events
    */
   async ensureCacheBuilt(
     projectPath: string,
-    primaryContextPath: string
+    primaryContextPath: string,
+    onProgress?: GenerationProgressCallback
   ): Promise<KnowledgeCache> {
     console.log('[EnhancedRAG] 🔐 Ensuring cache is built (with GLOBAL mutex protection)...');
+    const startTime = Date.now();
+    onProgress?.({ type: 'cache', phase: 'checking' });
     
     // Acquire GLOBAL mutex - this BLOCKS until we get exclusive access
     // Using globalBuildMutex ensures ALL instances (even if multiple created) coordinate
@@ -127,12 +176,15 @@ export class EnhancedRAGService {
           const vectorStorePath = this.cacheManager.getVectorStorePath(projectPath);
           this.vectorStore = await VectorStore.load(vectorStorePath, projectPath);
         }
+        onProgress?.({ type: 'cache', phase: 'ready', durationMs: Date.now() - startTime });
         return this.cache.get(projectPath)!;
       }
       
       // Cache invalid, proceed with rebuild (only ONE request does this)
       console.log('[EnhancedRAG] 🏗️  Cache invalid, proceeding with rebuild...');
+      onProgress?.({ type: 'cache', phase: 'rebuilding' });
       const result = await this.doEnsureCacheBuilt(projectPath, primaryContextPath);
+      onProgress?.({ type: 'cache', phase: 'ready', durationMs: Date.now() - startTime });
       return result;
       
     } finally {
@@ -216,6 +268,35 @@ export class EnhancedRAGService {
       return cached;
     }
     
+    const embeddingService = await this.getEmbeddingService(projectPath);
+    const sourceFingerprints = await this.cacheManager.computeSourceFingerprints(
+      projectPath,
+      primaryContextPath,
+      embeddingService.getModelInfo().version
+    );
+    
+    // Only Procedures/Context files changed since the last build: re-index just those.
+    // Edited category overrides can re-categorize any procedure, so they need a full rebuild.
+    const previous = this.cache.get(projectPath);
+    const overridesPath = path.join(projectPath, 'Procedures', PROCEDURE_CATEGORY_OVERRIDES_FILE);
+    if (
+      this.cacheEnabled &&
+      previous?.sourceFingerprints &&
+      previous.sourceFingerprints.primaryContext === sourceFingerprints.primaryContext &&
+      previous.sourceFingerprints.files[overridesPath] === sourceFingerprints.files[overridesPath] &&
+      previous.sourceFingerprints.embeddingModelVersion === sourceFingerprints.embeddingModelVersion &&
+      await fs.access(this.cacheManager.getVectorStorePath(projectPath)).then(() => true, () => false)
+    ) {
+      // The stored vectors must come from the current model (e.g. a re-pulled Ollama tag can change size)
+      const vectorStore = await VectorStore.load(this.cacheManager.getVectorStorePath(projectPath), projectPath);
+      const modelInfo = embeddingService.getModelInfo();
+      if (vectorStore.isCompatibleWith(modelInfo.version, modelInfo.dimensions)) {
+        this.vectorStore = vectorStore;
+        return await this.updateKnowledgeIncrementally(projectPath, primaryContextPath, previous, sourceFingerprints);
+      }
+      console.log(`[EnhancedRAG] ⚠️  Stored vectors do not match ${modelInfo.version} (${modelInfo.dimensions} dims) - full rebuild required`);
+    }
+    
     console.log('[EnhancedRAG] 🔄 Cache invalid or missing - regenerating...\n');
     
     // Clear old cache files before rebuilding
@@ -229,19 +310,20 @@ export class EnhancedRAGService {
     const contextPath = path.join(projectPath, 'Context');
 
     let proceduresFiles: CategorizedProcedureFile[] = [];
-    let contextFiles: { doc: ParsedDocument; contextCategory: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general' }[] = [];
+    let contextFiles: { doc: ParsedDocument; contextCategory: string }[] = [];
     
     try {
       await fs.access(proceduresPath);
       proceduresFiles = await this.documentLoader.loadProceduresFolder(proceduresPath);
       console.log(`[EnhancedRAG] Loaded ${proceduresFiles.length} categorized files from Procedures folder`);
+      proceduresFiles = await this.classifyProcedures(proceduresFiles, proceduresPath, primaryContext, projectPath);
     } catch (error) {
       console.warn('[EnhancedRAG] Procedures folder not found or empty');
     }
     
     try {
       await fs.access(contextPath);
-      contextFiles = await this.documentLoader.loadContextFolderStructured(contextPath);
+      contextFiles = await this.documentLoader.loadContextFolderStructured(contextPath, resolveContextFolders(primaryContext));
       console.log(`[EnhancedRAG] Loaded ${contextFiles.length} files from Context folder (with subfolder structure)`);
     } catch (error) {
       console.warn('[EnhancedRAG] Context folder not found or empty');
@@ -271,7 +353,6 @@ export class EnhancedRAGService {
       console.log(`[EnhancedRAG] ✅ Vector store regenerated in ${buildDuration}s`);
     } else {
       console.log('[EnhancedRAG] ⚠️  No documents to index, creating empty vector store');
-      const embeddingService = await this.getEmbeddingService(projectPath);
       const modelInfo = embeddingService.getModelInfo();
       this.vectorStore = new VectorStore(projectPath, modelInfo.version);
       // Save empty vector store
@@ -289,7 +370,8 @@ export class EnhancedRAGService {
       primaryContext,
       indexedAt: new Date().toISOString(),
       vectorStoreFingerprint,
-      masterChecklist: masterChecklist || undefined
+      masterChecklist: masterChecklist || undefined,
+      sourceFingerprints
     };
     
     // Store in memory cache
@@ -319,11 +401,112 @@ export class EnhancedRAGService {
     return knowledgeCache;
   }
 
+  /**
+   * Re-index only the files added, changed or removed since the previous build.
+   * The primary context and embedding model are unchanged (checked by the caller,
+   * which also loads the stored vector store), so the store is updated in place
+   * and only the summaries of affected files are dropped for regeneration.
+   */
+  private async updateKnowledgeIncrementally(
+    projectPath: string,
+    primaryContextPath: string,
+    previous: KnowledgeCache,
+    sourceFingerprints: SourceFingerprints
+  ): Promise<KnowledgeCache> {
+    const changes = CacheManager.diffSourceFiles(previous.sourceFingerprints!.files, sourceFingerprints.files);
+    console.log('[EnhancedRAG] 🔁 Updating knowledge base incrementally...');
+    console.log(`[EnhancedRAG]    - Added: ${changes.added.length}, Changed: ${changes.changed.length}, Removed: ${changes.removed.length}`);
+    
+    const updateStart = Date.now();
+    const proceduresPath = path.join(projectPath, 'Procedures');
+    const contextPath = path.join(projectPath, 'Context');
+    const vectorStorePath = this.cacheManager.getVectorStorePath(projectPath);
+    
+    // Parse only added/changed files
+    const toIndex = [...changes.added, ...changes.changed];
+    const proceduresToIndex = new Set(toIndex.filter(filePath => filePath.startsWith(proceduresPath + path.sep)));
+    const contextToIndex = new Set(toIndex.filter(filePath => filePath.startsWith(contextPath + path.sep)));
+    
+    const proceduresFiles = proceduresToIndex.size > 0
+      ? await this.classifyProcedures(
+          await this.documentLoader.loadProceduresFolder(proceduresPath, proceduresToIndex),
+          proceduresPath,
+          previous.primaryContext,
+          projectPath
+        )
+      : [];
+    const contextFiles = contextToIndex.size > 0
+      ? await this.documentLoader.loadContextFolderStructured(contextPath, resolveContextFolders(previous.primaryContext), contextToIndex)
+      : [];
+    
+    // Changed files whose new version no longer parses must still lose their old entries
+    const reindexed = new Set([...proceduresFiles, ...contextFiles].map(({ doc }) => doc.filePath));
+    const removedFiles = [...changes.removed, ...changes.changed.filter(filePath => !reindexed.has(filePath))];
+    
+    const embeddingService = await this.getEmbeddingService(projectPath);
+    const { removedEntries, addedEntries } = await updateVectorStoreUtil(
+      this.vectorStore!,
+      { removedFiles, proceduresFiles, contextFiles },
+      projectPath,
+      embeddingService,
+      { chunkSectionAware, chunkWithOverlap },
+      vectorStorePath,
+      this.cacheEnabled
+    );
+    
+    // Summaries are keyed by file name; drop those of changed/removed files
+    await this.cacheManager.pruneSummaryCaches(
+      projectPath,
+      [...changes.changed, ...changes.removed].map(filePath => path.basename(filePath))
+    );
+    
+    // Reload the Master Checklist only if it was touched
+    const masterChecklistPath = path.join(contextPath, 'Project-Master-Checklist.docx');
+    let masterChecklist = previous.masterChecklist;
+    if ([...toIndex, ...changes.removed].includes(masterChecklistPath)) {
+      try {
+        masterChecklist = (await this.documentLoader.loadMasterChecklist(contextPath)) || undefined;
+      } catch (error) {
+        console.log('[EnhancedRAG] Master Checklist not available');
+        masterChecklist = undefined;
+      }
+    }
+    
+    const knowledgeCache: KnowledgeCache = {
+      projectPath,
+      fingerprint: await this.cacheManager.computeCacheFingerprint(projectPath, primaryContextPath),
+      primaryContext: previous.primaryContext,
+      indexedAt: new Date().toISOString(),
+      vectorStoreFingerprint: this.vectorStore!.getFingerprint(),
+      masterChecklist,
+      sourceFingerprints
+    };
+    
+    this.cache.set(projectPath, knowledgeCache);
+    await this.cacheManager.saveCacheMetadata(knowledgeCache);
+    
+    const stats = this.vectorStore!.getStats();
+    const updateDuration = ((Date.now() - updateStart) / 1000).toFixed(1);
+    
+    console.log('[EnhancedRAG] ========================================');
+    console.log(`[EnhancedRAG] ✅ Knowledge Base Updated Incrementally in ${updateDuration}s`);
+    console.log('[EnhancedRAG] ========================================');
+    console.log(`[EnhancedRAG] 📊 Statistics:`);
+    console.log(`[EnhancedRAG]    - Files re-indexed: ${reindexed.size}, dropped: ${removedFiles.length}`);
+    console.log(`[EnhancedRAG]    - Chunks removed: ${removedEntries}, added: ${addedEntries}`);
+    console.log(`[EnhancedRAG]    - Total Vectors: ${stats.totalEntries}`);
+    console.log(`[EnhancedRAG]    - Cache Fingerprint: ${knowledgeCache.fingerprint.substring(0, 16)}...`);
+    console.log('[EnhancedRAG] ========================================\n');
+    
+    return knowledgeCache;
+  }
+
 
   /**
-   * Retrieve relevant context for a prompt using semantic search
+   * Retrieve relevant context for a prompt using semantic search, fused with
+   * BM25 keyword search unless retrieval.hybrid_search.enabled is false
    * Enforces retrieval_priority rules from primary-context.yaml:
-   * - regulatory_strategy and general are ONLY included if explicitly referenced
+   * - on_demand folders (Regulatory Strategy, General) are ONLY included if explicitly referenced
    */
   async retrieveRelevantContext(
     projectPath: string,
@@ -337,6 +520,7 @@ export class EnhancedRAGService {
       maxTokens?: number;         // Maximum tokens for context (default: 150000)
       includeSummaries?: boolean; // Include SOP summaries (default: true)
       summaryWordCount?: number;  // Summary word count (default: 250)
+      onProgress?: GenerationProgressCallback; // Receives cache + retrieval progress events
     } = {}
   ): Promise<{
     ragContext: string;
@@ -348,15 +532,27 @@ export class EnhancedRAGService {
       contextSummariesGenerated: number;
       totalTokensEstimate: number;
       sources: string[];
+      /** Every retrieved chunk with its indexed content hash */
+      contextSources: ContextSourceChunk[];
+      rerank?: RerankMetadata;
     };
     procedureChunks: SearchResult[];
     contextChunks: SearchResult[];
     externalStandards: Array<{ id: string; name: string; scope: string }>;
+    /** [Procedure|...] references that match no indexed procedure document */
+    unmatchedProcedureRefs: Array<{ subcategoryId: string; categoryId?: string }>;
+    /** @{source_id} scopes whose retrieved material fell below retrieval.scope_sufficiency */
+    insufficientKnowledgeScopes: string[];
   }> {
-    // 1. Parse prompt for all explicit references and on-demand scopes
-    const explicitlyReferencedCategories = parseExplicitContextReferences(prompt);
-    const excludeGeneral = !explicitlyReferencedCategories.has('general');
-    const excludeRegStrategy = !explicitlyReferencedCategories.has('regulatory-strategy');
+    // 1. Parse prompt for all explicit references and on-demand scopes.
+    // Context folders and their retrieval_priority come from knowledge_sources.project_context.
+    const primaryContext = await this.documentLoader.loadPrimaryContext(primaryContextPath);
+    const contextFolders = resolveContextFolders(primaryContext);
+    const explicitlyReferencedCategories = parseExplicitContextReferences(prompt, contextFolders);
+    const onDemandContextFolders = contextFolders.filter(f => f.retrievalPriority === 'on_demand');
+    const excludedContextCategories = new Set(
+      onDemandContextFolders.filter(f => !explicitlyReferencedCategories.has(f.id)).map(f => f.id)
+    );
     const includeMasterChecklist = parseMasterChecklistReference(prompt);
 
     // Parse procedure references (new [Procedure|subcategoryId|categoryId] format)
@@ -376,19 +572,34 @@ export class EnhancedRAGService {
     parseBootstrapReferences(prompt);
     parseDocFieldReferences(prompt);
 
-    // Parse knowledge source scopes (@sops, @global_standards, etc.) — for logging
+    // Knowledge source scopes (@sops, @master_record, etc.) restrict retrieval to the
+    // scoped sources (operational_rules.knowledge_source_scoping). Explicit
+    // [Procedure|...] references stay retrievable alongside them.
     const knowledgeScopes = parseKnowledgeSourceScopes(prompt);
+    const scope = knowledgeScopes.size > 0
+      ? resolveKnowledgeSourceScope(knowledgeScopes, primaryContext)
+      : null;
+    if (scope) {
+      referencedProcedureSubcategories.forEach(sub => scope.procedureSubcategories.add(sub));
+      for (const sub of PROCEDURE_SUBCATEGORIES) {
+        if (scope.procedureSubcategories.has(sub)) {
+          excludedProcedureSubcategories.delete(sub);
+        } else {
+          excludedProcedureSubcategories.add(sub);
+        }
+      }
+      // Scoping to an on-demand context folder is an explicit request for it
+      scope.contextCategories.forEach(category => excludedContextCategories.delete(category));
+    }
+    const scopeFilter = scope ? (entry: VectorEntry) => isInKnowledgeSourceScope(entry.metadata, scope) : undefined;
 
     console.log('[EnhancedRAG] 🔒 RETRIEVAL POLICY ENFORCEMENT:');
-    if (excludeGeneral) {
-      console.log('[EnhancedRAG]    ⛔ Context/General/ EXCLUDED (not explicitly referenced in prompt)');
-    } else {
-      console.log('[EnhancedRAG]    ✅ Context/General/ INCLUDED (explicitly referenced in prompt)');
-    }
-    if (excludeRegStrategy) {
-      console.log('[EnhancedRAG]    ⛔ Context/Regulatory Strategy/ EXCLUDED (not explicitly referenced in prompt)');
-    } else {
-      console.log('[EnhancedRAG]    ✅ Context/Regulatory Strategy/ INCLUDED (explicitly referenced in prompt)');
+    for (const folder of onDemandContextFolders) {
+      if (excludedContextCategories.has(folder.id)) {
+        console.log(`[EnhancedRAG]    ⛔ Context/${folder.folder}/ EXCLUDED (not explicitly referenced in prompt)`);
+      } else {
+        console.log(`[EnhancedRAG]    ✅ Context/${folder.folder}/ INCLUDED (explicitly referenced in prompt)`);
+      }
     }
     if (excludedProcedureSubcategories.has('quality_policies')) {
       console.log('[EnhancedRAG]    ⛔ Procedures/QPs/ EXCLUDED (quality_policies not explicitly referenced)');
@@ -405,8 +616,9 @@ export class EnhancedRAGService {
     } else {
       console.log('[EnhancedRAG]    ⛔ Master Checklist EXCLUDED (not explicitly referenced in prompt)');
     }
-    if (knowledgeScopes.size > 0) {
-      console.log(`[EnhancedRAG]    ℹ️  Knowledge source scopes detected: @${Array.from(knowledgeScopes).join(', @')} (logging only — full scope enforcement not yet implemented)`);
+    if (scope) {
+      const allowed = [...scope.procedureSubcategories, ...scope.contextCategories, ...(scope.masterRecord ? ['master_record'] : [])];
+      console.log(`[EnhancedRAG]    🎯 Knowledge source scope: @${[...scope.bySource.keys()].join(', @')} → retrieving only from ${allowed.length > 0 ? allowed.join(', ') : 'no indexed documents'}`);
     }
     
     // 2, 3, 4 & 5 run in parallel — they are independent of each other:
@@ -415,6 +627,9 @@ export class EnhancedRAGService {
     //   - Prompt embedding: runs ONNX inference (CPU bound)
     // We need the results of all four before proceeding to vector search.
 
+    const retrievalStart = Date.now();
+    options.onProgress?.({ type: 'retrieval', phase: 'start' });
+
     // Lazy-load SummaryGenerator before the parallel section (await import is not re-entrant safe)
     if (options.includeSummaries ?? true) {
       if (!this.summaryGenerator) {
@@ -425,7 +640,7 @@ export class EnhancedRAGService {
 
     const [knowledge, [sopSummaries, contextSummaries], promptEmbedding] = await Promise.all([
       // 2. Load vector store (mutex-protected internally)
-      this.ensureCacheBuilt(projectPath, primaryContextPath),
+      this.ensureCacheBuilt(projectPath, primaryContextPath, options.onProgress),
 
       // 3 & 4. Generate SOP and context summaries in parallel (separate mutexes)
       (async (): Promise<[Map<string, string>, Map<string, string>]> => {
@@ -440,14 +655,17 @@ export class EnhancedRAGService {
             this.summaryGenerator!,
             excludedProcedureSubcategories
           ),
-          generateContextSummariesOrch(
-            projectPath,
-            options.summaryWordCount || 250,
-            excludeGeneral,
-            excludeRegStrategy,
-            this.documentLoader,
-            this.summaryGenerator!
-          ),
+          // Context summaries cover files outside any scope (scoped context is retrieved as chunks)
+          scope
+            ? Promise.resolve(new Map<string, string>())
+            : generateContextSummariesOrch(
+                projectPath,
+                options.summaryWordCount || 250,
+                contextFolders,
+                excludedContextCategories,
+                this.documentLoader,
+                this.summaryGenerator!
+              ),
         ]);
         return [sop, ctx];
       })(),
@@ -460,6 +678,39 @@ export class EnhancedRAGService {
     ]);
 
     const promptEmbeddingArray = VectorStore.float32ArrayToNumbers(promptEmbedding);
+
+    // Hybrid retrieval fuses BM25 keyword ranks with embedding ranks (retrieval.hybrid_search)
+    const hybridSearch = resolveHybridSearchOptions(knowledge.primaryContext);
+    const searchChunks = (topK: number, category: 'procedure' | 'context'): SearchResult[] =>
+      hybridSearch
+        ? this.vectorStore!.hybridSearch(promptEmbeddingArray, prompt, topK, category, hybridSearch, scopeFilter)
+        : this.vectorStore!.search(promptEmbeddingArray, topK, category, scopeFilter);
+    if (hybridSearch) {
+      console.log(`[EnhancedRAG] 🔀 Hybrid retrieval: semantic ×${hybridSearch.semanticWeight} + lexical ×${hybridSearch.lexicalWeight} (RRF k=${hybridSearch.rrfK})`);
+    }
+
+    // Optional cross-encoder reranking (retrieval.rerank): over-fetch, apply the
+    // retrieval policy filters, then rescore and keep the requested count
+    const rerank = resolveRerankSettings(knowledge.primaryContext);
+    const candidateCount = (topK: number) => (rerank ? topK * rerank.candidateMultiplier : topK);
+    const rerankStats = { applied: false, candidatesScored: 0, durationMs: 0 };
+    const rerankChunks = async (results: SearchResult[], topK: number): Promise<SearchResult[]> => {
+      if (!rerank || results.length === 0) return results.slice(0, topK);
+      const rerankStart = Date.now();
+      try {
+        const reranked = await RerankerService.getInstance(rerank.model).rerank(prompt, results, topK);
+        rerankStats.applied = true;
+        rerankStats.candidatesScored += results.length;
+        rerankStats.durationMs += Date.now() - rerankStart;
+        return reranked;
+      } catch (error) {
+        console.warn('[EnhancedRAG] ⚠️  Reranking failed, keeping first-stage order:', error);
+        return results.slice(0, topK);
+      }
+    };
+    if (rerank) {
+      console.log(`[EnhancedRAG] 🎯 Reranking enabled: ${rerank.model} (${rerank.candidateMultiplier}× candidates)`);
+    }
     
     // 6. Search procedures with on-demand subcategory filtering
     // CRITICAL: Use explicit undefined check so 0 is respected (0 || 5 would give 5!)
@@ -467,11 +718,12 @@ export class EnhancedRAGService {
     console.log(`[EnhancedRAG] 🔍 Searching for top ${procedureChunksToRetrieve} procedure chunks...`);
 
     let procedureResults = procedureChunksToRetrieve > 0
-      ? this.vectorStore!.search(promptEmbeddingArray, procedureChunksToRetrieve, 'procedure')
+      ? searchChunks(candidateCount(procedureChunksToRetrieve), 'procedure')
       : [];
 
     // ENFORCE RETRIEVAL POLICY: Filter out on-demand procedure subcategories (QPs, QaPs)
     procedureResults = filterProcedureResults(procedureResults, excludedProcedureSubcategories);
+    procedureResults = await rerankChunks(procedureResults, procedureChunksToRetrieve);
 
     if (procedureResults.length > 0) {
       console.log(`[EnhancedRAG] 📄 Procedure files included in context:`);
@@ -491,11 +743,12 @@ export class EnhancedRAGService {
     console.log(`[EnhancedRAG] 🔍 Searching for top ${contextChunksToRetrieve} context chunks...`);
 
     let contextResults = contextChunksToRetrieve > 0
-      ? this.vectorStore!.search(promptEmbeddingArray, contextChunksToRetrieve, 'context')
+      ? searchChunks(candidateCount(contextChunksToRetrieve), 'context')
       : [];
 
     // ENFORCE RETRIEVAL POLICY: Filter out on-demand context categories
-    contextResults = filterContextResults(contextResults, excludeGeneral, excludeRegStrategy);
+    contextResults = filterContextResults(contextResults, excludedContextCategories);
+    contextResults = await rerankChunks(contextResults, contextChunksToRetrieve);
     
     if (contextResults.length > 0) {
       console.log(`[EnhancedRAG] 📄 Context files included in prompt:`);
@@ -557,18 +810,78 @@ export class EnhancedRAGService {
       summariesGenerated: sopSummaries.size,
       contextSummariesGenerated: contextSummaries.size,
       totalTokensEstimate: estimateTokens(ragContext),
-      sources: Array.from(sources)
+      sources: Array.from(sources),
+      contextSources: [...procedureResults, ...contextResults].map(({ entry }): ContextSourceChunk => ({
+        category: entry.metadata.category,
+        fileName: entry.metadata.fileName,
+        filePath: entry.metadata.filePath,
+        chunkIndex: entry.metadata.chunkIndex,
+        contentHash: entry.metadata.contentHash,
+      })),
+      rerank: rerank && rerankStats.applied
+        ? {
+            model: rerank.model,
+            candidatesScored: rerankStats.candidatesScored,
+            durationMs: rerankStats.durationMs,
+            chunks: [...procedureResults, ...contextResults].map(r => ({
+              category: r.entry.metadata.category,
+              fileName: r.entry.metadata.fileName,
+              chunkIndex: r.entry.metadata.chunkIndex,
+              similarity: r.similarity,
+              rerankScore: r.rerankScore ?? 0,
+            })),
+          }
+        : undefined
     };
     
     // 12. Extract external standards for footnote tracking in orchestrator
     const externalStandards = extractExternalStandards(knowledge.primaryContext);
 
+    // 13. Flag procedure references with no indexed documents (resolved by metadata tags, never filename)
+    const indexedProcedures = this.vectorStore!.getEntriesByCategory('procedure');
+    const unmatchedProcedureRefs = procedureRefs.filter(ref =>
+      !indexedProcedures.some(e =>
+        (e.metadata.procedureSubcategory || 'sops') === ref.subcategoryId &&
+        (!ref.categoryId || e.metadata.procedureCategoryId === ref.categoryId)
+      )
+    );
+    for (const ref of unmatchedProcedureRefs) {
+      console.warn(`[EnhancedRAG] ⚠️  [Procedure|${ref.subcategoryId}${ref.categoryId ? '|' + ref.categoryId : ''}] matched no indexed documents`);
+    }
+
+    // 14. Flag scoped sources that yielded too few or too weakly related chunks
+    // (retrieval.scope_sufficiency); retrieval is not widened to other sources
+    const sufficiency = resolveScopeSufficiency(knowledge.primaryContext);
+    const insufficientScopes = findInsufficientKnowledgeScopes(
+      scope,
+      [...procedureResults, ...contextResults],
+      this.vectorStore!.getAllEntries(),
+      { procedureChunks: procedureChunksToRetrieve, contextChunks: contextChunksToRetrieve },
+      sufficiency
+    );
+    for (const { id, chunks, topSimilarity } of insufficientScopes) {
+      console.warn(`[EnhancedRAG] ⚠️  @${id} scope yielded ${chunks} chunk(s), best similarity ${topSimilarity.toFixed(2)} ` +
+        `(needs ${sufficiency.minChunks} and ${sufficiency.minTopSimilarity})`);
+    }
+    const insufficientKnowledgeScopes = insufficientScopes.map(({ id }) => id);
+
+    options.onProgress?.({
+      type: 'retrieval',
+      phase: 'complete',
+      procedureChunks: metadata.procedureChunksRetrieved,
+      contextChunks: metadata.contextChunksRetrieved,
+      totalTokensEstimate: metadata.totalTokensEstimate,
+      durationMs: Date.now() - retrievalStart,
+    });
+
     return {
       ragContext,
       metadata,
       procedureChunks: procedureResults,
       contextChunks: contextResults,
-      externalStandards
+      externalStandards,
+      unmatchedProcedureRefs,
+      insufficientKnowledgeScopes
     };
   }
 
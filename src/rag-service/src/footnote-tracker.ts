@@ -15,6 +15,24 @@ export interface SourceReference {
   procedureCategoryId?: string;   // Procedure category ID from [Procedure|sub|categoryId] notation
 }
 
+/**
+ * Result of {@link FootnoteTracker.resolveCitations}
+ */
+export interface CitationResolution {
+  /** Text with dangling markers removed and valid markers renumbered */
+  text: string;
+  /** Markers that matched no tracked source, as written (e.g. "[7]") */
+  danglingMarkers: string[];
+  /** Tracked sources the text never cited (pruned unless nothing was cited) */
+  unusedSourceCount: number;
+}
+
+/**
+ * Inline citation markers: [1], [2, 3]. Capped at three digits so years such
+ * as [2019] are never mistaken for citations.
+ */
+const CITATION_MARKER = /( ?)\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\]/g;
+
 export class FootnoteTracker {
   private sources: Map<string, SourceReference> = new Map();
   private citationCounter: number = 1;
@@ -93,25 +111,93 @@ export class FootnoteTracker {
     );
     
     sorted.forEach(source => {
-      const categoryLabel = source.category === 'procedure' ? 'Procedure' :
-                           source.category === 'context' ? 'Context' :
-                           'Regulatory Standard';
+      footnotes.push(`[${source.id}] ${FootnoteTracker.describeSource(source)}\n`);
+    });
+    
+    return footnotes.join('');
+  }
+  
+  /**
+   * Numbered source list for the drafter prompt, one "[n] description" per
+   * line, so inline citation markers can refer to tracked sources.
+   */
+  formatSourceList(): string {
+    return this.getSourcesArray()
+      .map(source => `[${source.id}] ${FootnoteTracker.describeSource(source)}`)
+      .join('\n');
+  }
+  
+  /**
+   * Validate the inline [n] markers in generated text against the tracked sources.
+   * - Markers citing no tracked source are removed and reported as dangling.
+   * - Sources the text never cites are pruned, and the remaining sources and
+   *   markers are renumbered 1..n in their original order.
+   * - When the text cites no valid source at all, nothing is pruned (the model
+   *   ignored the citation instruction; keeping every retrieved source is the
+   *   honest attribution).
+   */
+  resolveCitations(text: string): CitationResolution {
+    const danglingMarkers: string[] = [];
+    const cited = new Set<string>();
+    
+    for (const match of text.matchAll(CITATION_MARKER)) {
+      for (const id of match[2].split(',').map(n => String(parseInt(n, 10)))) {
+        if (this.findById(id)) {
+          cited.add(id);
+        } else {
+          danglingMarkers.push(`[${id}]`);
+        }
+      }
+    }
+    
+    const unusedSourceCount = this.sources.size - cited.size;
+    const renumbered = new Map<string, string>();
+    if (cited.size > 0) {
+      const kept = Array.from(this.sources.entries())
+        .filter(([, source]) => cited.has(source.id))
+        .sort(([, a], [, b]) => parseInt(a.id) - parseInt(b.id));
+      
+      this.sources = new Map(kept.map(([key, source], i) => {
+        renumbered.set(source.id, `${i + 1}`);
+        return [key, { ...source, id: `${i + 1}` }];
+      }));
+      this.citationCounter = kept.length + 1;
+    }
+    
+    const resolved = text.replace(CITATION_MARKER, (_match, space: string, ids: string) => {
+      const valid = [...new Set(ids.split(',').map(n => renumbered.get(String(parseInt(n, 10)))))]
+        .filter((id): id is string => id !== undefined);
+      return valid.length > 0 ? `${space}[${valid.join(', ')}]` : '';
+    });
+    
+    return { text: resolved, danglingMarkers: [...new Set(danglingMarkers)], unusedSourceCount };
+  }
+  
+  /**
+   * Human-readable description of a source (footnotes, the drafter's source
+   * list and exported documents)
+   */
+  static describeSource(source: SourceReference): string {
+    const categoryLabel = source.category === 'procedure' ? 'Procedure' :
+                         source.category === 'context' ? 'Context' :
+                         'Regulatory Standard';
 
-      const chunkInfo = source.chunkIndex !== undefined ?
-                       ` (Section ${source.chunkIndex + 1})` : '';
+    const chunkInfo = source.chunkIndex !== undefined ?
+                     ` (Section ${source.chunkIndex + 1})` : '';
 
-      const citationInfo = source.citationText ? ` - ${source.citationText}` : '';
+    const citationInfo = source.citationText ? ` - ${source.citationText}` : '';
 
-      // Per operational_rules.source_tracking: procedure citations include subcategory_id and category_id
-      let subcategoryInfo = '';
-      if (source.category === 'procedure' && source.procedureSubcategory) {
-        subcategoryInfo = ` [${source.procedureSubcategory}${source.procedureCategoryId ? '/' + source.procedureCategoryId : ''}]`;
-      }
+    // Per operational_rules.source_tracking: procedure citations include subcategory_id and category_id
+    let subcategoryInfo = '';
+    if (source.category === 'procedure' && source.procedureSubcategory) {
+      subcategoryInfo = ` [${source.procedureSubcategory}${source.procedureCategoryId ? '/' + source.procedureCategoryId : ''}]`;
+    }
 
-      footnotes.push(`[${source.id}] ${categoryLabel}: ${source.fileName}${subcategoryInfo}${chunkInfo}${citationInfo}\n`);
-    });
-    
-    return footnotes.join('');
+    return `${categoryLabel}: ${source.fileName}${subcategoryInfo}${chunkInfo}${citationInfo}`;
+  }
+  
+  private findById(id: string): SourceReference | undefined {
+    return Array.from(this.sources.values()).find(source => source.id === id);
   }
   
   /**
@@ -164,8 +250,11 @@ tracker.addFromRetrievalResults(procedureChunks, contextChunks);
 tracker.addStandardReference('ISO 13485:2016', 'Quality Management Systems');
 tracker.addStandardReference('21 CFR Part 820', 'FDA Quality System Regulation');
 
-// After generation:
-const generatedText = llmResponse.generatedText;
+// Before generation — give the drafter the numbered IDs to cite:
+const fullPrompt = buildLLMPrompt(ragContext, userPrompt, tracker.formatSourceList());
+
+// After generation — validate [n] markers, prune uncited sources:
+const { text: generatedText, danglingMarkers } = tracker.resolveCitations(llmResponse.generatedText);
 const footnotes = tracker.generateFootnotes();
 const finalText = generatedText + footnotes;
 
@@ -1,6 +1,6 @@
 // Export EnhancedRAGService for semantic retrieval
 export { EnhancedRAGService, enhancedRAGService } from './enhanced-rag-service';
-export { FootnoteTracker, SourceReference } from './footnote-tracker';
+export { FootnoteTracker, SourceReference, CitationResolution } from './footnote-tracker';
 
 // Document loader
 export { DocumentLoader, CategorizedContextFile, CategorizedProcedureFile } from './document-loader';
@@ -12,7 +12,7 @@ export {
   RULE_WRITE_AS_AUTHOR,
   RULE_RESOLVE_BRACKET_NOTATION,
   RULE_USE_PROCEDURAL_LANGUAGE,
-  RULE_NO_INLINE_FOOTNOTES,
+  RULE_CITE_SOURCE_IDS,
   RULE_TONE,
   RULE_MARKDOWN_FORMAT,
   RULE_WRITE_ONLY_REQUESTED,
@@ -24,14 +24,47 @@ export {
   parseMasterChecklistReference,
   parseProcedureReferences,
   parseKnowledgeSourceScopes,
+  parseMasterRecordFieldReferences,
+  isProcedureSubcategoryId,
+  collectKnowledgeSources,
+  resolveKnowledgeSourceScope,
+  isInKnowledgeSourceScope,
+  findInsufficientKnowledgeScopes,
+  KnowledgeSourceScope,
+  ScopeSufficiencySettings,
+  InsufficientKnowledgeScope,
+  KnowledgeSourceTargets,
   parseBootstrapReferences,
   parseDocFieldReferences,
   filterContextResults,
   filterProcedureResults,
+  REFERENCE_PATTERNS,
 } from './reference-parser';
 
+// Prompt linting (bracket notation and @scopes)
+export { lintPrompt, PromptLintProject } from './prompt-linter';
+
+// Context folder taxonomy (knowledge_sources.project_context)
+export { ContextFolder, CONTEXT_ROOT_CATEGORY, DEFAULT_CONTEXT_FOLDERS, resolveContextFolders, contextCategoryLabel } from './context-taxonomy';
+
+// Procedure category classification (retrieval.procedure_classification)
+export {
+  ProcedureClassifier,
+  ProcedureClassificationSettings,
+  ProcedureCategory,
+  ProcedureCategoryTieBreaker,
+  PROCEDURE_CATEGORY_OVERRIDES_FILE,
+  resolveProcedureClassificationSettings,
+  extractProcedureCategories,
+  createLLMTieBreaker,
+  loadProcedureCategoryOverrides,
+} from './procedure-classifier';
+
+// Master Record schema (knowledge_sources.master_record.schema)
+export { resolveMasterRecordSchema, validateMasterRecordFields } from './master-record-schema';
+
 // Context assembly
-export { assembleContext, extractExternalStandards } from './context-assembler';
+export { assembleContext, extractExternalStandards, resolveHybridSearchOptions, resolveRerankSettings, RerankSettings, resolveScopeSufficiency } from './context-assembler';
 
 // Re-export rag-core primitives for consumers that depend on @phaser/rag-service
 export { VectorStore, VectorEntry, SearchResult, EmbeddingService, LockManager, getLockManager } from '@phaser/rag-core';
@@ -0,0 +1,88 @@
+/**
+ * Master Record Schema
+ * Validates parsed Master Record fields against the declaration in
+ * knowledge_sources.master_record.schema.fields (primary-context.yaml),
+ * so intake gaps surface before generation instead of as
+ * "(KEY: not configured in Master Record)" placeholders.
+ */
+
+import { MasterRecordFieldSchema, MasterRecordFieldResult } from '@phaser/shared-types';
+
+/** Values that mark a field as not yet filled in */
+const PLACEHOLDER_VALUES = new Set(['tbd', 'tba', 'todo', 'n/a', '-', '—']);
+
+/**
+ * Declared Master Record fields, in declaration order.
+ * Returns an empty list when primary-context.yaml declares no schema.
+ */
+export function resolveMasterRecordSchema(primaryContext: any): MasterRecordFieldSchema[] {
+  const fields = primaryContext?.knowledge_sources?.master_record?.schema?.fields;
+  if (!Array.isArray(fields)) return [];
+
+  const schema: MasterRecordFieldSchema[] = [];
+  for (const field of fields) {
+    if (typeof field?.key !== 'string') continue;
+    const allowedValues = Array.isArray(field.allowed_values) ? field.allowed_values.map(String) : undefined;
+    const type = ['string', 'number', 'date', 'enum'].includes(field.type) ? field.type : 'string';
+    if (type === 'enum' && !allowedValues) {
+      console.warn(`[MasterRecordSchema] ⚠️  ${field.key} is type enum without allowed_values, validated as string`);
+    }
+    schema.push({
+      key: field.key.trim().toUpperCase(),
+      type: type === 'enum' && !allowedValues ? 'string' : type,
+      required: field.required === true,
+      allowedValues,
+      description: typeof field.description === 'string' ? field.description : undefined,
+    });
+  }
+  return schema;
+}
+
+/**
+ * Check each declared field against the parsed Master Record.
+ * Returns one result per declared field plus the parsed fields the schema does not declare.
+ */
+export function validateMasterRecordFields(
+  fields: Map<string, string>,
+  schema: MasterRecordFieldSchema[]
+): { results: MasterRecordFieldResult[]; undeclaredFields: string[] } {
+  const results = schema.map((field): MasterRecordFieldResult => {
+    const base = { key: field.key, type: field.type, required: field.required };
+    const value = fields.get(field.key);
+
+    if (value === undefined) {
+      return { ...base, status: 'missing', message: 'Not present in the Master Record' };
+    }
+    const trimmed = value.trim();
+    if (!trimmed || PLACEHOLDER_VALUES.has(trimmed.toLowerCase())) {
+      return { ...base, status: 'empty', value, message: 'No value filled in' };
+    }
+
+    const problem = checkValue(trimmed, field);
+    return problem
+      ? { ...base, status: 'invalid', value, message: problem }
+      : { ...base, status: 'ok', value };
+  });
+
+  const declared = new Set(schema.map(field => field.key));
+  const undeclaredFields = [...fields.keys()].filter(key => !declared.has(key)).sort();
+  return { results, undeclaredFields };
+}
+
+/**
+ * Describe why a value fails its declaration, or null when it is valid
+ */
+function checkValue(value: string, field: MasterRecordFieldSchema): string | null {
+  if (field.allowedValues) {
+    const allowed = field.allowedValues.some(option => option.toLowerCase() === value.toLowerCase());
+    if (!allowed) return `Expected one of: ${field.allowedValues.join(', ')}`;
+  }
+  switch (field.type) {
+    case 'number':
+      return /^-?\d[\d,]*(\.\d+)?$/.test(value) ? null : 'Expected a number';
+    case 'date':
+      return Number.isNaN(Date.parse(value)) ? 'Expected a date (e.g. 2025-03-31)' : null;
+    default:
+      return null;
+  }
+}
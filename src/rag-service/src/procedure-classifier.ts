@@ -0,0 +1,274 @@
+/**
+ * Procedure Classifier
+ * Assigns each indexed procedure document a category from
+ * knowledge_sources.company_processes.subcategories.<subcategory>.categories
+ * in primary-context.yaml, so [Procedure|sops|design_control] resolves by
+ * metadata (operational_rules.procedure_category_resolution) rather than by filename.
+ *
+ * Resolution order per document:
+ * 1. Procedures/procedure-categories.yaml — QA-maintained pins (confidence 1)
+ * 2. Embedding similarity between the document's opening text and each
+ *    category's "name. description"
+ * 3. Optional LLM tie-breaker when the two best categories are within tie_margin
+ *
+ * Maps to: retrieval.procedure_classification
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { EmbeddingService, ProcedureCategorySource } from '@phaser/rag-core';
+import { CategorizedProcedureFile } from './document-loader';
+
+/** QA override file at the Procedures/ root; never indexed as a procedure */
+export const PROCEDURE_CATEGORY_OVERRIDES_FILE = 'procedure-categories.yaml';
+
+/** Characters of each document embedded for classification */
+const CLASSIFICATION_EXCERPT_CHARS = 2000;
+
+export interface ProcedureClassificationSettings {
+  /** Minimum cosine similarity for an embedding-based assignment */
+  minSimilarity: number;
+  /** Best and runner-up closer than this count as a tie */
+  tieMargin: number;
+  /** Ask the LLM tie-breaker (when one is configured) to settle ties */
+  llmTieBreaker: boolean;
+}
+
+/**
+ * A procedure category as declared in primary-context.yaml
+ */
+export interface ProcedureCategory {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * Picks one of the tied candidate categories for a document excerpt.
+ * Returns the chosen category id, or null to leave the embedding result in place.
+ */
+export type ProcedureCategoryTieBreaker = (
+  excerpt: string,
+  candidates: ProcedureCategory[]
+) => Promise<string | null>;
+
+/**
+ * Resolve classification settings from primary-context.yaml.
+ * Maps to: retrieval.procedure_classification. Returns null when disabled.
+ */
+export function resolveProcedureClassificationSettings(primaryContext: any): ProcedureClassificationSettings | null {
+  const config = primaryContext?.retrieval?.procedure_classification;
+  if (config?.enabled === false) return null;
+
+  const minSimilarity = config?.min_similarity;
+  const tieMargin = config?.tie_margin;
+  return {
+    minSimilarity: typeof minSimilarity === 'number' ? minSimilarity : 0.3,
+    tieMargin: typeof tieMargin === 'number' && tieMargin >= 0 ? tieMargin : 0.02,
+    llmTieBreaker: config?.llm_tie_breaker === true,
+  };
+}
+
+/**
+ * Categories declared for each procedure subcategory (subcategory id → categories)
+ */
+export function extractProcedureCategories(primaryContext: any): Map<string, ProcedureCategory[]> {
+  const result = new Map<string, ProcedureCategory[]>();
+  const subcategories = primaryContext?.knowledge_sources?.company_processes?.subcategories ?? {};
+  for (const subcategory of Object.values(subcategories) as any[]) {
+    const categories = (subcategory?.categories ?? [])
+      .filter((category: any) => typeof category?.id === 'string')
+      .map((category: any) => ({
+        id: category.id,
+        name: typeof category.name === 'string' ? category.name : category.id,
+        description: typeof category.description === 'string' ? category.description : undefined,
+      }));
+    if (typeof subcategory?.id === 'string' && categories.length > 0) {
+      result.set(subcategory.id, categories);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build a tie-breaker that asks an LLM to choose between the tied categories.
+ * Accepts any service with generateText (e.g. an @phaser/llm-service LLMService).
+ */
+export function createLLMTieBreaker(
+  llm: { generateText(prompt: string): Promise<{ generatedText: string }> }
+): ProcedureCategoryTieBreaker {
+  return async (excerpt, candidates) => {
+    const prompt = [
+      'Classify the quality system procedure below into exactly one category.',
+      'Reply with the category id only, or "none" if no category fits.',
+      '',
+      'Categories:',
+      ...candidates.map(c => `- ${c.id}: ${c.name}${c.description ? ` — ${c.description}` : ''}`),
+      '',
+      'Procedure (opening text):',
+      excerpt,
+    ].join('\n');
+
+    const response = await llm.generateText(prompt);
+    // Tolerate quoting and a trailing period around the id
+    const answer = response.generatedText.trim().toLowerCase().replace(/^["'`*]+|["'`*.]+$/g, '');
+    const exact = candidates.find(c => answer === c.id.toLowerCase());
+    if (exact) return exact.id;
+
+    // Otherwise the longest id mentioned, so "risk-management-plan" wins over "risk-management"
+    const mentioned = candidates
+      .filter(c => answer.includes(c.id.toLowerCase()))
+      .sort((a, b) => b.id.length - a.id.length);
+    return mentioned[0]?.id ?? null;
+  };
+}
+
+/**
+ * Classifies procedure documents into their subcategory's declared categories
+ */
+export class ProcedureClassifier {
+  private categoryEmbeddings = new Map<string, Float32Array>();
+
+  constructor(
+    private embeddingService: EmbeddingService,
+    private settings: ProcedureClassificationSettings,
+    private tieBreaker?: ProcedureCategoryTieBreaker
+  ) {}
+
+  /**
+   * Set procedureCategoryId and procedureClassification on each file whose
+   * subcategory declares categories. Files below min_similarity stay unclassified.
+   */
+  async classify(
+    files: CategorizedProcedureFile[],
+    proceduresPath: string,
+    primaryContext: any
+  ): Promise<CategorizedProcedureFile[]> {
+    const categoriesBySubcategory = extractProcedureCategories(primaryContext);
+    if (categoriesBySubcategory.size === 0 || files.length === 0) return files;
+
+    const overrides = await loadProcedureCategoryOverrides(proceduresPath);
+    if (this.settings.llmTieBreaker && !this.tieBreaker) {
+      console.warn('[ProcedureClassifier] ⚠️  llm_tie_breaker enabled but no LLM tie-breaker is configured; ties keep the embedding result');
+    }
+
+    const classified: CategorizedProcedureFile[] = [];
+    for (const file of files) {
+      const categories = categoriesBySubcategory.get(file.procedureSubcategory);
+      if (!categories) {
+        classified.push(file);
+        continue;
+      }
+
+      const relPath = path.relative(proceduresPath, file.doc.filePath).split(path.sep).join('/');
+      // has() rather than ??, so a null pin on the relative path is not skipped for the bare file name
+      const pinned = overrides.has(relPath) ? overrides.get(relPath) : overrides.get(file.doc.fileName);
+      if (pinned !== undefined) {
+        if (pinned === null) {
+          console.log(`[ProcedureClassifier] 📌 ${relPath} → unclassified (override)`);
+          classified.push({ ...file, procedureCategoryId: undefined, procedureClassification: undefined });
+          continue;
+        }
+        if (categories.some(c => c.id === pinned)) {
+          console.log(`[ProcedureClassifier] 📌 ${relPath} → ${pinned} (override)`);
+          classified.push({ ...file, procedureCategoryId: pinned, procedureClassification: { confidence: 1, source: 'override' } });
+          continue;
+        }
+        console.warn(`[ProcedureClassifier] ⚠️  Override for ${relPath} names unknown ${file.procedureSubcategory} category "${pinned}", classifying instead`);
+      }
+
+      classified.push({ ...file, ...(await this.classifyDocument(file, relPath, categories)) });
+    }
+    return classified;
+  }
+
+  private async classifyDocument(
+    file: CategorizedProcedureFile,
+    relPath: string,
+    categories: ProcedureCategory[]
+  ): Promise<Pick<CategorizedProcedureFile, 'procedureCategoryId' | 'procedureClassification'>> {
+    const excerpt = file.doc.content.substring(0, CLASSIFICATION_EXCERPT_CHARS);
+    const docEmbedding = await this.embeddingService.embedText(excerpt, file.doc.filePath);
+
+    const scored: Array<{ category: ProcedureCategory; similarity: number }> = [];
+    for (const category of categories) {
+      const categoryEmbedding = await this.embedCategory(category);
+      scored.push({ category, similarity: EmbeddingService.cosineSimilarity(docEmbedding, categoryEmbedding) });
+    }
+    // DETERMINISM: ties in similarity fall back to declaration order
+    scored.sort((a, b) => b.similarity - a.similarity);
+
+    const [best, runnerUp] = scored;
+    if (best.similarity < this.settings.minSimilarity) {
+      console.log(`[ProcedureClassifier] ❔ ${relPath} → unclassified (best ${best.category.id} ${best.similarity.toFixed(3)} < ${this.settings.minSimilarity})`);
+      return { procedureCategoryId: undefined, procedureClassification: undefined };
+    }
+
+    let chosen = best;
+    let source: ProcedureCategorySource = 'embedding';
+    if (runnerUp && best.similarity - runnerUp.similarity < this.settings.tieMargin && this.settings.llmTieBreaker && this.tieBreaker) {
+      const tied = scored.filter(s => best.similarity - s.similarity < this.settings.tieMargin);
+      try {
+        const pick = await this.tieBreaker(excerpt, tied.map(s => s.category));
+        const picked = tied.find(s => s.category.id === pick);
+        if (picked) {
+          chosen = picked;
+          source = 'llm';
+        }
+      } catch (error) {
+        console.warn(`[ProcedureClassifier] ⚠️  LLM tie-breaker failed for ${relPath}, keeping embedding result:`, error);
+      }
+    }
+
+    console.log(`[ProcedureClassifier] 🏷️  ${relPath} → ${chosen.category.id} (${source}, similarity ${chosen.similarity.toFixed(3)})`);
+    return {
+      procedureCategoryId: chosen.category.id,
+      procedureClassification: { confidence: chosen.similarity, source },
+    };
+  }
+
+  private async embedCategory(category: ProcedureCategory): Promise<Float32Array> {
+    const text = category.description ? `${category.name}. ${category.description}` : category.name;
+    let embedding = this.categoryEmbeddings.get(text);
+    if (!embedding) {
+      embedding = await this.embeddingService.embedText(text);
+      this.categoryEmbeddings.set(text, embedding);
+    }
+    return embedding;
+  }
+}
+
+/**
+ * Read Procedures/procedure-categories.yaml: a map from a path relative to
+ * Procedures/ (or a bare file name) to a category id, or null to keep the
+ * document unclassified. A missing file means no overrides.
+ */
+export async function loadProcedureCategoryOverrides(proceduresPath: string): Promise<Map<string, string | null>> {
+  const overridesPath = path.join(proceduresPath, PROCEDURE_CATEGORY_OVERRIDES_FILE);
+  const overrides = new Map<string, string | null>();
+
+  let contents: string;
+  try {
+    contents = await fs.readFile(overridesPath, 'utf8');
+  } catch {
+    return overrides;
+  }
+
+  try {
+    const parsed = yaml.load(contents);
+    if (parsed && typeof parsed === 'object') {
+      for (const [file, categoryId] of Object.entries(parsed as Record<string, unknown>)) {
+        if (categoryId === null || typeof categoryId === 'string') {
+          overrides.set(file.split(path.sep).join('/'), categoryId);
+        } else {
+          console.warn(`[ProcedureClassifier] ⚠️  Ignoring override for ${file}: expected a category id or null`);
+        }
+      }
+    }
+    console.log(`[ProcedureClassifier] ✓ Loaded ${overrides.size} category override(s) from ${PROCEDURE_CATEGORY_OVERRIDES_FILE}`);
+  } catch (error) {
+    console.warn(`[ProcedureClassifier] ⚠️  Could not parse ${overridesPath}, ignoring overrides:`, error);
+  }
+  return overrides;
+}
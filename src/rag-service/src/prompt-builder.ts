@@ -43,11 +43,12 @@ export const RULE_USE_PROCEDURAL_LANGUAGE =
   '- Use procedural language as closely as retrieved content allows. If exact wording is unavailable, paraphrase and flag it.\n';
 
 /**
- * Do not include inline footnotes — appended separately by the system.
+ * Cite sources inline with the numeric IDs from the SOURCE IDS list; the
+ * orchestrator validates the markers and builds the reference list itself.
  * Maps to: generation_workflow.output.sections.references
  */
-export const RULE_NO_INLINE_FOOTNOTES =
-  '- Do not include footnotes or citations — these are appended separately.\n';
+export const RULE_CITE_SOURCE_IDS =
+  '- Cite the sources you rely on inline with their numeric IDs from the SOURCE IDS list, e.g. [1] or [2, 3], at the end of the sentence they support. Use only IDs from that list; if no listed source supports a statement, do not add a marker. Do not write a Sources, References or footnotes section — it is appended separately.\n';
 
 /**
  * Default professional tone (third-person, passive voice).
@@ -98,7 +99,7 @@ export function buildSystemSection(primaryContext: any): string {
     RULE_DERIVE_RESPONSIBILITIES_FROM_SOPS,
     RULE_RESOLVE_BRACKET_NOTATION,
     RULE_USE_PROCEDURAL_LANGUAGE,
-    RULE_NO_INLINE_FOOTNOTES,
+    RULE_CITE_SOURCE_IDS,
     RULE_TONE,
     RULE_MARKDOWN_FORMAT,
     RULE_WRITE_ONLY_REQUESTED,
@@ -120,7 +121,10 @@ export function buildSystemSection(primaryContext: any): string {
  *
  * @param ragContext - Assembled context from context-assembler (SECTIONS 1 + 2)
  * @param userPrompt - The user's generation prompt
+ * @param sourceList - Numbered source IDs from FootnoteTracker.formatSourceList()
+ *                     (see RULE_CITE_SOURCE_IDS); omitted when nothing was retrieved
  */
-export function buildLLMPrompt(ragContext: string, userPrompt: string): string {
-  return `${ragContext}=== TASK ===\n\n${userPrompt.trim()}\n`;
+export function buildLLMPrompt(ragContext: string, userPrompt: string, sourceList?: string): string {
+  const sources = sourceList ? `=== SOURCE IDS ===\n${sourceList}\n\n` : '';
+  return `${ragContext}${sources}=== TASK ===\n\n${userPrompt.trim()}\n`;
 }
\ No newline at end of file
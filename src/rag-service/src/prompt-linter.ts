@@ -0,0 +1,210 @@
+/**
+ * Prompt Linter
+ * Checks the bracket notation and @scopes of a prompt against primary-context.yaml
+ * and the project, reporting references that would not resolve at generation time
+ * with line/column positions for highlighting.
+ *
+ * Maps to: reference_notation.procedure, reference_notation.master_record_field,
+ * reference_notation.document_bootstrap and reference_notation.knowledge_source_refs
+ */
+
+import { PromptLintIssue } from '@phaser/shared-types';
+import { REFERENCE_PATTERNS, collectKnowledgeSources, isProcedureSubcategoryId } from './reference-parser';
+import { extractProcedureCategories } from './procedure-classifier';
+
+/**
+ * What the linter needs to know about the project a prompt belongs to
+ */
+export interface PromptLintProject {
+  /** Parsed Master Record fields, or null when the project has no Master Record */
+  masterRecordFields: Map<string, string> | null;
+  /** Whether a [Bootstrap|name] reference finds a file (DocumentLoader.findBootstrapCandidates) */
+  bootstrapExists(name: string): Promise<boolean>;
+}
+
+/**
+ * Lint a prompt. Issues are returned in text order.
+ */
+export async function lintPrompt(
+  prompt: string,
+  primaryContext: any,
+  project: PromptLintProject
+): Promise<PromptLintIssue[]> {
+  const lineStarts = [0];
+  for (let i = 0; i < prompt.length; i++) {
+    if (prompt[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const issues: PromptLintIssue[] = [];
+  const report = (
+    match: RegExpMatchArray,
+    issue: Pick<PromptLintIssue, 'code' | 'severity' | 'message' | 'suggestion'>
+  ) => {
+    const offset = match.index ?? 0;
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > offset) line--;
+    issues.push({
+      ...issue,
+      line: line + 1,
+      column: offset - lineStarts[line] + 1,
+      offset,
+      length: match[0].length,
+      text: match[0],
+    });
+  };
+
+  // [Procedure|subcategory|category] and legacy [Procedure|Name]
+  const subcategories = Object.values(primaryContext?.knowledge_sources?.company_processes?.subcategories ?? {})
+    .map((subcategory: any) => subcategory?.id)
+    .filter((id): id is string => typeof id === 'string');
+  const categoriesBySubcategory = extractProcedureCategories(primaryContext);
+
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.procedure)) {
+    const parts = match[1].split('|').map(part => part.trim());
+
+    if (parts.length === 1 && !isProcedureSubcategoryId(parts[0])) {
+      const name = normalizeName(parts[0]);
+      let suggestion: string | undefined;
+      for (const [subcategoryId, categories] of categoriesBySubcategory) {
+        const category = categories.find(c => normalizeName(c.name) === name || normalizeName(c.id) === name);
+        if (category) {
+          suggestion = `[Procedure|${subcategoryId}|${category.id}]`;
+          break;
+        }
+      }
+      report(match, {
+        code: 'legacy_procedure_syntax',
+        severity: 'warning',
+        message: suggestion
+          ? `Deprecated [Procedure|Name] notation, use ${suggestion}`
+          : 'Deprecated [Procedure|Name] notation, use [Procedure|{subcategory_id}|{category_id}]',
+        suggestion,
+      });
+      continue;
+    }
+
+    const [subcategoryId, categoryId] = parts;
+    if (!subcategories.includes(subcategoryId)) {
+      const closest = closestMatch(subcategoryId, subcategories);
+      report(match, {
+        code: 'unknown_procedure_subcategory',
+        severity: 'error',
+        message: `Unknown procedure subcategory "${subcategoryId}" (declared: ${subcategories.join(', ')})`,
+        suggestion: closest ? match[0].replace(subcategoryId, closest) : undefined,
+      });
+      continue;
+    }
+
+    if (categoryId !== undefined) {
+      const categoryIds = (categoriesBySubcategory.get(subcategoryId) ?? []).map(c => c.id);
+      if (!categoryIds.includes(categoryId)) {
+        const closest = closestMatch(categoryId, categoryIds);
+        report(match, {
+          code: 'unknown_procedure_category',
+          severity: 'error',
+          message: categoryIds.length > 0
+            ? `Unknown ${subcategoryId} category "${categoryId}" (declared: ${categoryIds.join(', ')})`
+            : `${subcategoryId} declares no categories, reference it as [Procedure|${subcategoryId}]`,
+          suggestion: closest
+            ? `[Procedure|${subcategoryId}|${closest}]`
+            : categoryIds.length === 0 ? `[Procedure|${subcategoryId}]` : undefined,
+        });
+      }
+    }
+  }
+
+  // [Master Record|FIELD]
+  const masterRecordMatches = [...prompt.matchAll(REFERENCE_PATTERNS.masterRecordField)];
+  if (masterRecordMatches.length > 0 && !project.masterRecordFields) {
+    report(masterRecordMatches[0], {
+      code: 'master_record_not_found',
+      severity: 'error',
+      message: 'The prompt references Master Record fields but the project has no Master Record in Context/',
+    });
+  } else if (project.masterRecordFields) {
+    const fieldKeys = [...project.masterRecordFields.keys()];
+    for (const match of masterRecordMatches) {
+      const key = match[1].trim().toUpperCase();
+      if (project.masterRecordFields.get(key)?.trim()) continue;
+
+      const present = project.masterRecordFields.has(key);
+      const closest = present ? null : closestMatch(key, fieldKeys);
+      report(match, {
+        code: 'unknown_master_record_field',
+        severity: 'error',
+        message: present
+          ? `Master Record field ${key} has no value`
+          : `Master Record field ${key} is not present in the project's Master Record`,
+        suggestion: closest ? `[Master Record|${closest}]` : undefined,
+      });
+    }
+  }
+
+  // [Bootstrap|Name]
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.bootstrap)) {
+    const name = match[1].trim();
+    if (!(await project.bootstrapExists(name))) {
+      report(match, {
+        code: 'unresolved_bootstrap',
+        severity: 'error',
+        message: `No bootstrap document matches "${name}" in Bootstrap/ or Context/`,
+      });
+    }
+  }
+
+  // @source_id (e-mail addresses such as qa@company.com are not scopes)
+  const sources = collectKnowledgeSources(primaryContext);
+  const sourceIds = [...sources.keys()];
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.knowledgeSourceScope)) {
+    const offset = match.index ?? 0;
+    if (offset > 0 && /[\w.]/.test(prompt[offset - 1])) continue;
+    if (sources.has(match[1])) continue;
+
+    const closest = closestMatch(match[1], sourceIds);
+    report(match, {
+      code: 'unknown_scope',
+      severity: 'warning',
+      message: `@${match[1]} does not name a knowledge source and is ignored for scoping`,
+      suggestion: closest ? `@${closest}` : undefined,
+    });
+  }
+
+  return issues.sort((a, b) => a.offset - b.offset);
+}
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * The candidate within a small edit distance of the value, if any
+ */
+function closestMatch(value: string, candidates: string[]): string | null {
+  const target = value.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = Math.max(2, Math.floor(target.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(target, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -5,33 +5,69 @@
  * in primary-context.yaml.
  */
 
+import { ContextFolder, CONTEXT_ROOT_CATEGORY } from './context-taxonomy';
+
+/**
+ * Reference patterns shared by the parsers below and the prompt linter.
+ * Global regexes: iterate with String.prototype.matchAll, which works on a copy.
+ */
+export const REFERENCE_PATTERNS = {
+  /** [Master Record|{field_name}] */
+  masterRecordField: /\[Master Record\|([^\]]+)\]/gi,
+  /** [Procedure|{subcategory}|{category}] or legacy [Procedure|{name}] */
+  procedure: /\[Procedure\|([^\]]+)\]/gi,
+  /** @{source_id} */
+  knowledgeSourceScope: /@(\w[\w_]*)/g,
+  /** [Bootstrap|{name}] */
+  bootstrap: /\[Bootstrap\|([^\]]+)\]/gi,
+};
+
 /**
  * Parse explicit context references from prompt to determine which on-demand folders are requested.
- * Returns set of context categories that were explicitly referenced.
+ * Returns the ids of the context folders that were explicitly referenced.
+ * The folder part matches a declared folder's directory name, prompt label or id,
+ * ignoring case and separators ("Regulatory Strategy", "regulatory-strategy").
  *
  * Pattern: [Context|{folder}|{filename}]
  * Example: [Context|Regulatory Strategy|FDA Guidelines.pdf]
  * Maps to: reference_notation.context
  */
-export function parseExplicitContextReferences(prompt: string): Set<'regulatory-strategy' | 'general'> {
-  const referenced = new Set<'regulatory-strategy' | 'general'>();
+export function parseExplicitContextReferences(prompt: string, contextFolders: ContextFolder[]): Set<string> {
+  const referenced = new Set<string>();
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
 
   const contextPattern = /\[Context\|([^|\]]+)\|[^\]]+\]/gi;
   let match;
 
   while ((match = contextPattern.exec(prompt)) !== null) {
-    const folder = match[1].trim().toLowerCase();
-
-    if (folder === 'regulatory strategy' || folder === 'regulatory-strategy') {
-      referenced.add('regulatory-strategy');
-    } else if (folder === 'general') {
-      referenced.add('general');
+    const folder = normalize(match[1]);
+    const declared = contextFolders.find(f =>
+      [f.folder, f.name, f.id].some(candidate => normalize(candidate) === folder)
+    );
+    if (declared) {
+      referenced.add(declared.id);
     }
   }
 
   return referenced;
 }
 
+/**
+ * Parse Master Record field references from prompt.
+ * Returns the referenced field names (upper-cased, de-duplicated, in order of first use).
+ *
+ * Pattern: [Master Record|{field_name}]
+ * Maps to: reference_notation.master_record_field
+ */
+export function parseMasterRecordFieldReferences(prompt: string): string[] {
+  const fields = new Set<string>();
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.masterRecordField)) {
+    fields.add(match[1].trim().toUpperCase());
+  }
+
+  return [...fields];
+}
+
 /**
  * Parse Master Checklist reference from prompt.
  * Returns true if [Master Checklist] is explicitly referenced.
@@ -49,6 +85,8 @@ export function parseMasterChecklistReference(prompt: string): boolean {
  *
  * New format:    [Procedure|sops|design_control]
  *   → { subcategoryId: 'sops', categoryId: 'design_control' }
+ * Subcategory:   [Procedure|quality_policies]
+ *   → { subcategoryId: 'quality_policies', categoryId: undefined }
  * Legacy format: [Procedure|Design Control Procedure]
  *   → { subcategoryId: 'sops', categoryId: undefined }  (backward compat, logs deprecation)
  *
@@ -59,16 +97,16 @@ export function parseProcedureReferences(
 ): Array<{ subcategoryId: string; categoryId?: string }> {
   const results: Array<{ subcategoryId: string; categoryId?: string }> = [];
 
-  const procedurePattern = /\[Procedure\|([^\]]+)\]/gi;
-  let match;
-
-  while ((match = procedurePattern.exec(prompt)) !== null) {
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.procedure)) {
     const inner = match[1].trim();
     const parts = inner.split('|').map(p => p.trim());
 
     if (parts.length >= 2) {
       // New format: [Procedure|subcategoryId|categoryId]
       results.push({ subcategoryId: parts[0], categoryId: parts[1] });
+    } else if (isProcedureSubcategoryId(parts[0])) {
+      // Whole subcategory: [Procedure|quality_policies]
+      results.push({ subcategoryId: parts[0] });
     } else {
       // Legacy format: [Procedure|Category Name]
       console.warn(
@@ -82,27 +120,187 @@ export function parseProcedureReferences(
   return results;
 }
 
+/**
+ * Whether a single-part [Procedure|…] value is a subcategory id (snake_case)
+ * rather than a legacy category name
+ */
+export function isProcedureSubcategoryId(value: string): boolean {
+  return /^[a-z][a-z0-9_]*$/.test(value);
+}
+
 /**
  * Parse knowledge source scope references from prompt.
  * Extracts @{source_id} patterns (e.g., @sops, @global_standards).
+ * Resolve them against primary-context.yaml with resolveKnowledgeSourceScope().
  *
  * Maps to: reference_notation.knowledge_source_refs
- *
- * NOTE: Full per-scope retrieval enforcement is not yet implemented.
- * Parsing is done here for logging and future use.
  */
 export function parseKnowledgeSourceScopes(prompt: string): Set<string> {
   const scopes = new Set<string>();
-  const scopePattern = /@(\w[\w_]*)/g;
-  let match;
-
-  while ((match = scopePattern.exec(prompt)) !== null) {
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.knowledgeSourceScope)) {
     scopes.add(match[1]);
   }
 
   return scopes;
 }
 
+/**
+ * Indexed material a knowledge source covers
+ */
+export interface KnowledgeSourceTargets {
+  /** Procedure subcategories (procedureSubcategory metadata) */
+  procedureSubcategories: Set<string>;
+  /** Context folder categories (contextCategory metadata) */
+  contextCategories: Set<string>;
+  /** Whether the Project Master Record's context chunks are covered */
+  masterRecord: boolean;
+}
+
+/**
+ * Retrieval restriction for the @{source_id} scopes of a prompt.
+ * The top-level targets are the union of every scoped source.
+ */
+export interface KnowledgeSourceScope extends KnowledgeSourceTargets {
+  /** Scoped sources with what each covers; sources that are not indexed
+   *  (e.g. external standards, which come from the model) cover nothing */
+  bySource: Map<string, KnowledgeSourceTargets>;
+}
+
+/**
+ * Every knowledge source and subcategory declared in primary-context.yaml, by id
+ */
+export function collectKnowledgeSources(primaryContext: any): Map<string, any> {
+  const sources = new Map<string, any>();
+  const collect = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (typeof node.id === 'string') sources.set(node.id, node);
+    Object.values(node.subcategories ?? {}).forEach(collect);
+  };
+  Object.values(primaryContext?.knowledge_sources ?? {}).forEach(collect);
+  return sources;
+}
+
+/**
+ * Resolve @{source_id} scopes against knowledge_sources in primary-context.yaml.
+ * A source covers its own indexed material and that of its subcategories:
+ * - master_record → the Master Record file in Context/
+ * - sources located under [RAGFolder]/Procedures/ → that procedure subcategory
+ * - sources located under [RAGFolder]/Context/ → that context folder category
+ * Scopes that name no knowledge source (e.g. an e-mail address) are ignored.
+ * Returns null when no scope names a knowledge source (unscoped retrieval).
+ *
+ * Maps to: reference_notation.knowledge_source_refs.resolution
+ */
+export function resolveKnowledgeSourceScope(scopes: Set<string>, primaryContext: any): KnowledgeSourceScope | null {
+  const sources = collectKnowledgeSources(primaryContext);
+
+  const targetsOf = (node: any, targets: KnowledgeSourceTargets): KnowledgeSourceTargets => {
+    if (node.id === 'master_record') {
+      targets.masterRecord = true;
+    } else if (typeof node.location === 'string' && node.location.startsWith('[RAGFolder]/Procedures/')) {
+      targets.procedureSubcategories.add(node.id);
+    } else if (typeof node.location === 'string' && node.location.startsWith('[RAGFolder]/Context/')) {
+      targets.contextCategories.add(node.id);
+    }
+    Object.values(node.subcategories ?? {}).forEach((child: any) => targetsOf(child, targets));
+    return targets;
+  };
+
+  const scope: KnowledgeSourceScope = {
+    procedureSubcategories: new Set(), contextCategories: new Set(), masterRecord: false, bySource: new Map()
+  };
+  for (const id of scopes) {
+    const source = sources.get(id);
+    if (!source) {
+      console.log(`[ReferenceParser] ℹ️  @${id} does not name a knowledge source, ignored for scoping`);
+      continue;
+    }
+    const targets = targetsOf(source, { procedureSubcategories: new Set(), contextCategories: new Set(), masterRecord: false });
+    scope.bySource.set(id, targets);
+    targets.procedureSubcategories.forEach(sub => scope.procedureSubcategories.add(sub));
+    targets.contextCategories.forEach(category => scope.contextCategories.add(category));
+    scope.masterRecord = scope.masterRecord || targets.masterRecord;
+  }
+
+  return scope.bySource.size > 0 ? scope : null;
+}
+
+/**
+ * Whether a vector entry belongs to the indexed material of a scope (or of one scoped source).
+ * Master Record chunks are recognised like DocumentLoader.loadMasterRecord: a
+ * Context/ root file whose name contains "master" and "record".
+ */
+export function isInKnowledgeSourceScope(
+  metadata: { category: 'procedure' | 'context'; fileName: string; contextCategory?: string; procedureSubcategory?: string },
+  targets: KnowledgeSourceTargets
+): boolean {
+  if (metadata.category === 'procedure') {
+    return targets.procedureSubcategories.has(metadata.procedureSubcategory || 'sops');
+  }
+  if (metadata.contextCategory && targets.contextCategories.has(metadata.contextCategory)) {
+    return true;
+  }
+  const nameLower = metadata.fileName.toLowerCase();
+  return targets.masterRecord &&
+    metadata.contextCategory === CONTEXT_ROOT_CATEGORY &&
+    nameLower.includes('master') && nameLower.includes('record');
+}
+
+/**
+ * When a @{source_id} scope counts as insufficient
+ * (retrieval.scope_sufficiency in primary-context.yaml)
+ */
+export interface ScopeSufficiencySettings {
+  /** Fewest chunks the scope must contribute (capped at what was requested and indexed) */
+  minChunks: number;
+  /** Cosine similarity the scope's best retrieved chunk must reach */
+  minTopSimilarity: number;
+}
+
+/**
+ * A scoped source whose retrieved material fell below the sufficiency thresholds
+ */
+export interface InsufficientKnowledgeScope {
+  id: string;
+  /** In-scope chunks among the retrieved ones */
+  chunks: number;
+  /** Best similarity among them (0 when none) */
+  topSimilarity: number;
+}
+
+/**
+ * Scoped sources whose retrieved chunks are too few or too weakly related to the prompt.
+ * Sources that cover no indexed material, or whose chunk kind was not requested, are skipped.
+ * Maps to: operational_rules.knowledge_source_scoping ("If the scoped source is insufficient…")
+ */
+export function findInsufficientKnowledgeScopes<
+  M extends Parameters<typeof isInKnowledgeSourceScope>[0]
+>(
+  scope: KnowledgeSourceScope | null,
+  retrieved: Array<{ entry: { metadata: M }; similarity: number }>,
+  indexed: Array<{ metadata: M }>,
+  requested: { procedureChunks: number; contextChunks: number },
+  sufficiency: ScopeSufficiencySettings
+): InsufficientKnowledgeScope[] {
+  const insufficient: InsufficientKnowledgeScope[] = [];
+  for (const [id, targets] of scope?.bySource ?? []) {
+    const requestedChunks =
+      (targets.procedureSubcategories.size > 0 ? requested.procedureChunks : 0) +
+      (targets.masterRecord || targets.contextCategories.size > 0 ? requested.contextChunks : 0);
+    if (requestedChunks === 0) continue;
+
+    const matches = retrieved.filter(r => isInKnowledgeSourceScope(r.entry.metadata, targets));
+    const indexedChunks = indexed.filter(e => isInKnowledgeSourceScope(e.metadata, targets)).length;
+    const topSimilarity = Math.max(0, ...matches.map(r => r.similarity));
+    if (matches.length === 0 ||
+        matches.length < Math.min(sufficiency.minChunks, requestedChunks, indexedChunks) ||
+        topSimilarity < sufficiency.minTopSimilarity) {
+      insufficient.push({ id, chunks: matches.length, topSimilarity });
+    }
+  }
+  return insufficient;
+}
+
 /**
  * Detect [Bootstrap|{name}] references in the prompt.
  * Returns the list of referenced bootstrap document names.
@@ -114,11 +312,9 @@ export function parseKnowledgeSourceScopes(prompt: string): Set<string> {
  * Resolved by the orchestrator via DocumentLoader.loadBootstrapDocument().
  */
 export function parseBootstrapReferences(prompt: string): string[] {
-  const bootstrapPattern = /\[Bootstrap\|([^\]]+)\]/gi;
   const names: string[] = [];
-  let match;
 
-  while ((match = bootstrapPattern.exec(prompt)) !== null) {
+  for (const match of prompt.matchAll(REFERENCE_PATTERNS.bootstrap)) {
     names.push(match[1].trim());
   }
 
@@ -154,27 +350,21 @@ export function parseDocFieldReferences(
 
 /**
  * Filter context results based on on-demand retrieval policy.
- * Context/General/ and Context/Regulatory Strategy/ are only included when explicitly referenced.
+ * Chunks from on_demand context folders that the prompt did not reference
+ * (`excludedCategories`, context folder ids) are dropped.
  * Maps to: operational_rules.retrieval_scope (context on-demand filtering)
  */
 export function filterContextResults<
   T extends { entry: { metadata: { contextCategory?: string; fileName: string } } }
->(results: T[], excludeGeneral: boolean, excludeRegStrategy: boolean): T[] {
+>(results: T[], excludedCategories: Set<string>): T[] {
   const originalCount = results.length;
 
   const filtered = results.filter(result => {
     const category = result.entry.metadata.contextCategory;
 
-    if (category === 'general' && excludeGeneral) {
-      console.log(
-        `[EnhancedRAG] ⏭️  Filtered out: ${result.entry.metadata.fileName} (General folder, not referenced)`
-      );
-      return false;
-    }
-
-    if (category === 'regulatory-strategy' && excludeRegStrategy) {
+    if (category && excludedCategories.has(category)) {
       console.log(
-        `[EnhancedRAG] ⏭️  Filtered out: ${result.entry.metadata.fileName} (Regulatory Strategy folder, not referenced)`
+        `[EnhancedRAG] ⏭️  Filtered out: ${result.entry.metadata.fileName} (${category} folder, not referenced)`
       );
       return false;
     }
@@ -97,7 +97,8 @@ export class SummaryGenerator {
 
     // Only write the cache file if something new was computed — avoids a disk write every request
     if (newSummariesGenerated) {
-      const cacheData: any = {};
+      // Keep entries for files not in this request; stale ones are pruned on incremental rebuilds
+      const cacheData: any = { ...cached };
       for (const doc of proceduresFiles) {
         const summary = summaryCache.get(doc.fileName);
         if (summary) {
@@ -162,7 +163,8 @@ export class SummaryGenerator {
 
     // Only write the cache file if something new was computed — avoids a disk write every request
     if (newSummariesGenerated) {
-      const cacheData: any = {};
+      // Keep entries for files not in this request; stale ones are pruned on incremental rebuilds
+      const cacheData: any = { ...cached };
       for (const { doc } of contextFiles) {
         const summary = summaryCache.get(doc.fileName);
         if (summary) {
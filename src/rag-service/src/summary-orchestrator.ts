@@ -9,6 +9,7 @@ import * as path from 'path';
 import { Mutex } from 'async-mutex';
 import { SummaryGenerator } from './summary-generator';
 import { DocumentLoader, CategorizedProcedureFile } from './document-loader';
+import { ContextFolder } from './context-taxonomy';
 
 /**
  * Separate mutexes per summary type — SOP and context summaries are independent
@@ -89,8 +90,8 @@ export async function generateSOPSummaries(
 export async function generateContextSummaries(
   projectPath: string,
   summaryWordCount: number,
-  excludeGeneral: boolean,
-  excludeRegStrategy: boolean,
+  contextFolders: ContextFolder[],
+  excludedCategories: Set<string>,
   documentLoader: DocumentLoader,
   summaryGenerator: SummaryGenerator
 ): Promise<Map<string, string>> {
@@ -103,10 +104,10 @@ export async function generateContextSummaries(
   try {
     // Get context files
     const contextPath = path.join(projectPath, 'Context');
-    let contextFilesWithCategory: { doc: ParsedDocument; contextCategory: 'primary-context-root' | 'initiation' | 'ongoing' | 'predicates' | 'regulatory-strategy' | 'general' }[] = [];
+    let contextFilesWithCategory: { doc: ParsedDocument; contextCategory: string }[] = [];
     try {
       await fs.access(contextPath);
-      contextFilesWithCategory = await documentLoader.loadContextFolderStructured(contextPath);
+      contextFilesWithCategory = await documentLoader.loadContextFolderStructured(contextPath, contextFolders);
     } catch {
       // No context folder
     }
@@ -114,12 +115,8 @@ export async function generateContextSummaries(
     if (contextFilesWithCategory.length > 0) {
       // Filter out on-demand categories that weren't explicitly referenced
       const filteredContextFiles = contextFilesWithCategory.filter(cf => {
-        if (cf.contextCategory === 'general' && excludeGeneral) {
-          console.log(`[SummaryOrchestrator] ⏭️  Excluding summary for ${cf.doc.fileName} (General folder, not referenced)`);
-          return false;
-        }
-        if (cf.contextCategory === 'regulatory-strategy' && excludeRegStrategy) {
-          console.log(`[SummaryOrchestrator] ⏭️  Excluding summary for ${cf.doc.fileName} (Regulatory Strategy folder, not referenced)`);
+        if (excludedCategories.has(cf.contextCategory)) {
+          console.log(`[SummaryOrchestrator] ⏭️  Excluding summary for ${cf.doc.fileName} (${cf.contextCategory} folder, not referenced)`);
           return false;
         }
         return true;
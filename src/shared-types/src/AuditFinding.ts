@@ -0,0 +1,50 @@
+/**
+ * Severity of an AUDITOR finding, most severe first.
+ * - critical:    regulatory non-compliance that would block a submission
+ * - major:       missing justification or requirement that must be fixed
+ * - minor:       imprecise wording, incomplete traceability or citation
+ * - observation: suggestion only; never triggers revision on its own
+ */
+export type AuditSeverity = 'critical' | 'major' | 'minor' | 'observation';
+
+/**
+ * One finding from the AUDITOR's structured JSON output.
+ */
+export interface AuditFinding {
+  /** Stable identifier within one audit, e.g. "F1" */
+  id: string;
+  severity: AuditSeverity;
+  /** Cited standard and clause, e.g. "ISO 14971:2019 clause 7.1" or "21 CFR 820.30(c)" */
+  standardClause: string;
+  /** Verbatim passage from the draft the finding refers to (empty if the issue is an omission) */
+  offendingPassage: string;
+  /** What is wrong */
+  issue: string;
+  /** Concrete instruction for the REVISER */
+  suggestedFix: string;
+}
+
+/**
+ * Why the AUDITOR → REVISER loop stopped.
+ * - converged:       the latest audit had no findings at or above the revision severity
+ * - max-iterations:  the configured number of audit passes was reached
+ * - token-budget:    the pipeline's token budget was used up
+ * - revision-disabled: findings remain but the revision step is disabled
+ */
+export type AuditStopReason = 'converged' | 'max-iterations' | 'token-budget' | 'revision-disabled';
+
+/**
+ * One AUDITOR pass of the audit/revise loop and whether a revision followed it.
+ */
+export interface AuditIteration {
+  /** 1-based pass number; matches `iteration` on the pass's pipelineTrace entries */
+  iteration: number;
+  /** Validated findings; absent when the auditor never produced valid JSON */
+  findings?: AuditFinding[];
+  /** Raw AUDITOR response for this pass */
+  rawText: string;
+  /** Whether the REVISER rewrote the draft to address this pass's findings */
+  revised: boolean;
+  /** Tokens used by this pass (audit plus revision) */
+  tokensUsed: number;
+}
@@ -0,0 +1,147 @@
+import type { AuthenticatedUser } from './Auth';
+import type { GenerationOutput } from './GenerationOutput';
+import type { GenerationRunTrigger } from './GenerationHistory';
+import type { ReviewAction, ReviewStatus, SignatureMeaning } from './Review';
+
+/**
+ * Kinds of audit log entries.
+ */
+export type AuditEventType = 'generation' | 'review';
+
+/**
+ * Who performed an audited action.
+ */
+export type AuditActor = Pick<AuthenticatedUser, 'id' | 'username' | 'role' | 'authenticatedBy'>;
+
+/**
+ * Model configuration a generation ran with. In multi-model mode this is the
+ * effective ProviderConfig (environment plus project model assignments),
+ * without credentials.
+ */
+export interface AuditModelConfiguration {
+  /** LLM_MODE the server was running with */
+  llmMode: string;
+  /** ProviderConfig.mode (multi-model only) */
+  providerMode?: string;
+  /** ProviderConfig.azureEndpoint (Azure AI Foundry only) */
+  azureEndpoint?: string;
+  /** ProviderConfig.azureDeploymentPrefix (Azure AI Foundry only) */
+  azureDeploymentPrefix?: string;
+  /**
+   * Model per role: ProviderConfig.roleAssignments in multi-model mode,
+   * a single "single-pass" entry otherwise
+   */
+  roleAssignments: Record<string, {
+    modelId: string;
+    /** Single-model mode: the LLM service used ("anthropic", "ollama", "mock", ...) */
+    provider?: string;
+    maxTokens?: number;
+    temperature?: number;
+  }>;
+}
+
+/**
+ * A source file that fed a generation's context, with the content hash of
+ * each retrieved chunk.
+ */
+export interface AuditSourceFile {
+  filePath: string;
+  fileName: string;
+  category: 'procedure' | 'context';
+  chunks: Array<{ chunkIndex: number; contentHash: string }>;
+}
+
+/**
+ * Payload of a "generation" entry.
+ */
+export interface GenerationAuditRecord {
+  projectPath: string;
+  promptFilePath: string;
+  /** SHA-256 of the prompt text */
+  promptHash: string;
+  trigger: GenerationRunTrigger;
+  /** Generation history run (GET /api/history/:id). The entry is written before the run is recorded, so the run can be missing if recording failed */
+  runId?: string;
+  /** Job id for trigger "job" */
+  jobId?: string;
+  models: AuditModelConfiguration;
+  sources: AuditSourceFile[];
+  status: GenerationOutput['status'];
+  /** SHA-256 of the generated content as returned to the client. Absent when there is none */
+  outputHash?: string;
+}
+
+/**
+ * Payload of a "review" entry: one action on a draft under review.
+ */
+export interface ReviewAuditRecord {
+  projectPath: string;
+  promptFilePath: string;
+  reviewId: string;
+  /** Generation history run the draft was created from */
+  runId: string;
+  action: ReviewAction;
+  revision: number;
+  /** Status after the action */
+  status: ReviewStatus;
+  /** SHA-256 of the draft content after the action */
+  contentHash: string;
+  /** Approvals only */
+  signature?: {
+    meaning: SignatureMeaning;
+    signedAt: string;
+    verifiedBy: 'password' | 'none';
+  };
+  /** Submission note or rejection reason */
+  note?: string;
+}
+
+/**
+ * One line of the append-only audit log. Each entry includes the hash of the
+ * previous one, so changing, removing or reordering entries breaks the chain.
+ */
+export interface AuditLogEntry {
+  /** 1-based position in the log */
+  sequence: number;
+  /** ISO timestamp */
+  timestamp: string;
+  event: AuditEventType;
+  actor: AuditActor;
+  /** GenerationAuditRecord for "generation", ReviewAuditRecord for "review" */
+  data: GenerationAuditRecord | ReviewAuditRecord;
+  /** `hash` of the previous entry; 64 zeros for the first entry */
+  previousHash: string;
+  /** SHA-256 of the canonical JSON of all other fields */
+  hash: string;
+}
+
+/**
+ * Sequence and hash of the last entry, written next to the log (or to
+ * AUDIT_CHECKPOINT_PATH) after every append, so a deleted or truncated log is detected.
+ */
+export interface AuditCheckpoint {
+  sequence: number;
+  hash: string;
+  /** ISO timestamp */
+  updatedAt: string;
+}
+
+/**
+ * Result of verifying the audit log (GET /api/audit/verify, npm run audit:verify).
+ */
+export interface AuditVerificationResult {
+  valid: boolean;
+  /** Entries checked */
+  entries: number;
+  /** Hash of the last valid entry */
+  headHash?: string;
+  /** Head recorded in the checkpoint file that the end of the log was compared against */
+  checkpoint?: AuditCheckpoint;
+  /** First problem found */
+  error?: {
+    /** 1-based line in the log file */
+    line: number;
+    sequence?: number;
+    reason: string;
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * API roles, lowest to highest. Each role can do everything the roles below it can.
+ * - viewer: browse projects, files, history and results
+ * - author: generate content and manage projects
+ * - admin:  project settings, cache clearing and user management
+ */
+export type UserRole = 'viewer' | 'author' | 'admin';
+
+/**
+ * The caller of an API request, as identified by an auth provider.
+ */
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  displayName?: string;
+  role: UserRole;
+  /** Provider that authenticated the request, e.g. "session", "api_token" or "oidc" */
+  authenticatedBy: string;
+}
+
+/**
+ * Body of POST /api/auth/login.
+ */
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+/**
+ * Response of POST /api/auth/login. Send the token as `Authorization: Bearer <token>`.
+ */
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: AuthenticatedUser;
+}
+
+/**
+ * A local user account as returned by the user management endpoints.
+ */
+export interface UserAccount {
+  id: string;
+  username: string;
+  displayName?: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  tokens: ApiTokenInfo[];
+}
+
+/**
+ * An API token, without its secret.
+ */
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Response of POST /api/auth/tokens. The token secret is only returned here.
+ */
+export interface CreatedApiToken {
+  token: string;
+  info: ApiTokenInfo;
+}
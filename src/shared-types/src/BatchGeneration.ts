@@ -0,0 +1,60 @@
+import type { GenerationOptions } from './GenerationInput';
+import type { GenerationOutput, ConfidenceRating } from './GenerationOutput';
+
+/**
+ * Request body for POST /api/generate/batch.
+ * Runs every prompt in `[projectPath]/Prompts` (or the selected subset).
+ */
+export interface BatchGenerationInput {
+  projectPath: string;
+
+  /**
+   * Prompt files to run: absolute paths or file names inside the Prompts folder.
+   * Omit to run every supported file (.txt, .md, .docx) in the folder.
+   */
+  promptFilePaths?: string[];
+
+  /** Maximum prompts generated at the same time (default: BATCH_MAX_CONCURRENCY or 2) */
+  concurrency?: number;
+
+  /** Retrieval options applied to every prompt */
+  options?: GenerationOptions;
+}
+
+/**
+ * Outcome of a single prompt within a batch.
+ */
+export interface BatchGenerationItem {
+  promptFilePath: string;
+  /** File name without extension (as shown in the dashboard dropdown) */
+  promptName: string;
+  status: 'complete' | 'error';
+  message: string;
+  confidence?: ConfidenceRating['level'];
+  tokensUsed: number;
+  cost: number;
+  durationMs: number;
+  /** Full generation output (absent when the prompt could not be read) */
+  output?: GenerationOutput;
+}
+
+/**
+ * Consolidated result of a batch run, one item per prompt in input order.
+ */
+export interface BatchGenerationResult {
+  projectPath: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** Time spent validating (or rebuilding) the knowledge cache before the first prompt */
+  cacheDurationMs: number;
+  concurrency: number;
+  totals: {
+    prompts: number;
+    complete: number;
+    failed: number;
+    tokensUsed: number;
+    cost: number;
+  };
+  items: BatchGenerationItem[];
+}
@@ -0,0 +1,33 @@
+/**
+ * Support assessment for one sentence of the generated content.
+ * Implements primary-context.yaml → rules.source_tracking: every statement
+ * should be traceable to a retrieved source.
+ */
+export interface ClaimSupport {
+  /** The sentence as it appears in the generated content (markdown stripped) */
+  sentence: string;
+  /** Best cosine similarity against any retrieved source, 0–1 (1 = verbatim Master Record value) */
+  supportScore: number;
+  /** True when `supportScore` reaches the verification threshold */
+  supported: boolean;
+  /** Best-matching source; absent when nothing was retrieved */
+  source?: {
+    kind: 'procedure' | 'context' | 'master_record';
+    /** File name for chunks, field name for Master Record values */
+    name: string;
+    /** Chunk position within the file (procedure/context only) */
+    chunkIndex?: number;
+  };
+}
+
+/**
+ * Result of the post-generation claim verification pass.
+ */
+export interface ClaimVerification {
+  /** Minimum support score for a sentence to count as supported */
+  threshold: number;
+  /** Number of sentences at or above the threshold */
+  supportedCount: number;
+  /** One entry per verified sentence, in document order */
+  sentences: ClaimSupport[];
+}
@@ -0,0 +1,83 @@
+import type { GenerationOutput, ConfidenceRating } from './GenerationOutput';
+
+/**
+ * Which api-server entry point produced a recorded run.
+ */
+export type GenerationRunTrigger = 'generate' | 'stream' | 'batch' | 'job';
+
+/**
+ * Model that ran one role/step of a recorded generation.
+ */
+export interface GenerationRunModel {
+  /** ModelRole for multi-model runs ("drafter", "auditor", ...) or "single-pass" */
+  role: string;
+  modelId: string;
+}
+
+/**
+ * One recorded generation, as listed by GET /api/history.
+ * Persisted per project so results survive a page reload or server restart.
+ */
+export interface GenerationRunSummary {
+  id: string;
+  projectPath: string;
+  promptFilePath: string;
+  /** File name without extension (as shown in the dashboard dropdown) */
+  promptName: string;
+  /** SHA-256 of the prompt text the run was generated from */
+  promptHash: string;
+  /**
+   * SHA-256 of the Master Record text when the run was recorded.
+   * Absent when the project has no Master Record.
+   */
+  masterRecordFingerprint?: string;
+  /** LLM_MODE the server was running with */
+  llmMode: string;
+  models: GenerationRunModel[];
+  trigger: GenerationRunTrigger;
+
+  /** ISO timestamp */
+  createdAt: string;
+  status: GenerationOutput['status'];
+  message: string;
+  confidence?: ConfidenceRating['level'];
+  discrepancyCount: number;
+  tokensUsed: number;
+  cost: number;
+  /** Length of the generated content in characters */
+  contentChars: number;
+}
+
+/**
+ * A recorded generation including its full output (GET /api/history/:id).
+ */
+export interface GenerationRun extends GenerationRunSummary {
+  output: GenerationOutput;
+}
+
+/**
+ * One line of a generated-content diff.
+ */
+export interface GenerationDiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff between two runs' generated content (GET /api/history/diff).
+ * `removed` lines exist only in `from`, `added` lines only in `to`.
+ */
+export interface GenerationRunDiff {
+  from: GenerationRunSummary;
+  to: GenerationRunSummary;
+  lines: GenerationDiffLine[];
+  stats: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+  /** Whether the prompt text differed between the two runs */
+  promptChanged: boolean;
+  /** Whether the Master Record differed between the two runs */
+  masterRecordChanged: boolean;
+}
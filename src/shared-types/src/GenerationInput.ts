@@ -16,4 +16,14 @@ export interface GenerationOptions {
   topKProcedures?: number;
   /** Max context chunks to retrieve (default: 2) */
   topKContext?: number;
+  /**
+   * Multi-model only: maximum AUDITOR passes; each revision is re-audited
+   * until this limit (default: AUDIT_MAX_ITERATIONS, else 1)
+   */
+  maxAuditIterations?: number;
+  /**
+   * Multi-model only: stop starting audit/revision steps once the pipeline has
+   * used this many tokens (default: AUDIT_TOKEN_BUDGET, else unlimited)
+   */
+  auditTokenBudget?: number;
 }
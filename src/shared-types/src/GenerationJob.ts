@@ -0,0 +1,44 @@
+import type { AuthenticatedUser } from './Auth';
+import type { GenerationOptions } from './GenerationInput';
+import type { GenerationOutput } from './GenerationOutput';
+import type { GenerationProgressEvent } from './GenerationProgress';
+
+/**
+ * Lifecycle state of an asynchronous generation job.
+ * queued → running → complete | failed, or cancelled from queued/running.
+ */
+export type GenerationJobStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+/**
+ * An asynchronous generation request managed by the api-server job queue
+ * (POST /api/jobs). Persisted to disk so it survives a server restart.
+ */
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+
+  /** Same fields as the POST /api/generate request body */
+  projectPath: string;
+  promptFilePath: string;
+  options?: GenerationOptions;
+
+  /** Who queued the job (recorded in the audit log). Absent with authentication disabled */
+  requestedBy?: AuthenticatedUser;
+
+  /** ISO timestamps */
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+
+  /** Number of times the job has been started (restarts re-queue running jobs) */
+  attempts: number;
+
+  /** Progress events received so far (token deltas are not retained) */
+  progress: GenerationProgressEvent[];
+
+  /** Final output once the job has completed (status "complete" or "failed") */
+  result?: GenerationOutput;
+
+  /** Failure or cancellation reason */
+  error?: string;
+}
@@ -1,3 +1,6 @@
+import type { AuditFinding, AuditIteration, AuditStopReason } from './AuditFinding';
+import type { ClaimVerification } from './ClaimVerification';
+
 /**
  * Output from a content generation request.
  * Maps to primary-context.yaml → generation_workflow.output.sections
@@ -43,6 +46,8 @@ export interface GenerationOutput {
     promptChars: number;
     /** Characters received from this model. */
     responseChars: number;
+    /** Audit/revise loop pass for 'audit' and 'revision' entries (1-based). */
+    iteration?: number;
   }[];
 
   /**
@@ -51,6 +56,48 @@ export interface GenerationOutput {
    * final revised content. Absent when the audit step was skipped.
    */
   auditFindings?: string;
+
+  /**
+   * AUDITOR findings parsed from its structured JSON output.
+   * Absent when the audit step was skipped or the auditor never produced
+   * valid JSON (the raw text is still available in `auditFindings`).
+   */
+  auditFindingList?: AuditFinding[];
+
+  /**
+   * Every pass of the AUDITOR → REVISER loop, oldest first.
+   * `auditFindings` / `auditFindingList` describe the last pass.
+   * Absent when the audit step was skipped.
+   */
+  auditHistory?: AuditIteration[];
+
+  /** Why the audit/revise loop stopped. Absent when the audit step was skipped. */
+  auditStopReason?: AuditStopReason;
+
+  /**
+   * Per-sentence support scores from the post-generation claim verification
+   * pass. Unsupported sentences are also reported as `missing_information`
+   * discrepancies. Absent when verification is disabled or failed.
+   */
+  claimVerification?: ClaimVerification;
+
+  /**
+   * Every retrieved chunk that fed the generation context, with the content
+   * hash it was indexed with. Absent when generation failed before retrieval.
+   */
+  contextSources?: ContextSourceChunk[];
+}
+
+/**
+ * A retrieved chunk as indexed in the vector store (VectorEntry.metadata).
+ */
+export interface ContextSourceChunk {
+  category: 'procedure' | 'context';
+  fileName: string;
+  filePath: string;
+  chunkIndex: number;
+  /** SHA-256 of the chunk text (VectorEntry.metadata.contentHash) */
+  contentHash: string;
 }
 
 export interface Discrepancy {
@@ -58,6 +105,14 @@ export interface Discrepancy {
   description: string;
   /** e.g., "SOP-001 Section 4.2 vs FDA 21 CFR 820.30(c)" */
   location?: string;
+  /**
+   * Signal that raised the discrepancy: an unresolved reference found during
+   * token resolution / retrieval, a @{source_id} scope that yielded no
+   * material, a finding parsed from the AUDITOR output, an inline [n] marker
+   * citing no tracked source, or a generated sentence that no retrieved
+   * source supports.
+   */
+  origin?: 'master_record' | 'document_field' | 'bootstrap' | 'procedure_category' | 'knowledge_scope' | 'audit' | 'citation' | 'claim_verification';
 }
 
 export interface SourceAttribution {
@@ -0,0 +1,70 @@
+import type { GenerationOutput } from './GenerationOutput';
+
+/**
+ * A single entry of {@link GenerationOutput.pipelineTrace}.
+ */
+export type PipelineTraceEntry = NonNullable<GenerationOutput['pipelineTrace']>[number];
+
+/**
+ * Progress event emitted while a generation request is running.
+ * Streamed to the client by POST /api/generate/stream so the UI can render a
+ * live timeline of the pipeline instead of waiting for the final output.
+ */
+export type GenerationProgressEvent =
+  /** Knowledge cache check/rebuild (rag-service ensureCacheBuilt). */
+  | {
+      type: 'cache';
+      phase: 'checking' | 'rebuilding' | 'ready';
+      /** Set on phase "ready": time spent checking and (re)building the cache. */
+      durationMs?: number;
+    }
+  /** Semantic retrieval of procedure and context chunks. */
+  | {
+      type: 'retrieval';
+      phase: 'start' | 'complete';
+      procedureChunks?: number;
+      contextChunks?: number;
+      totalTokensEstimate?: number;
+      durationMs?: number;
+    }
+  /** A pipeline step is about to call its model. */
+  | {
+      type: 'step-start';
+      step: PipelineTraceEntry['step'];
+      modelId: string;
+      promptChars: number;
+      /** Audit/revise loop pass (audit and revision steps only). */
+      iteration?: number;
+    }
+  /** A pipeline step finished — carries the same fields as its pipelineTrace entry. */
+  | ({ type: 'step-complete' } & PipelineTraceEntry)
+  /** A pipeline step was not run (disabled, below threshold, no findings). */
+  | {
+      type: 'step-skipped';
+      step: PipelineTraceEntry['step'];
+      reason: string;
+      /** Audit/revise loop pass (audit and revision steps only). */
+      iteration?: number;
+    }
+  /** Incremental text from a provider that supports streaming. */
+  | {
+      type: 'token';
+      step: PipelineTraceEntry['step'];
+      delta: string;
+    }
+  /** Terminal event: the complete generation output. */
+  | {
+      type: 'complete';
+      output: GenerationOutput;
+    }
+  /** Terminal event: the request failed before producing an output. */
+  | {
+      type: 'error';
+      message: string;
+    };
+
+/**
+ * Callback that receives {@link GenerationProgressEvent}s.
+ * Implementations must not throw — progress reporting is best-effort.
+ */
+export type GenerationProgressCallback = (event: GenerationProgressEvent) => void;
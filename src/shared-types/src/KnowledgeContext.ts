@@ -15,4 +15,28 @@ export interface RetrievalMetadata {
   totalTokensEstimate: number;
   sources: string[];
   primaryContextIncluded: boolean;
+  /** Present when the cross-encoder reranking stage ran (retrieval.rerank in primary-context.yaml) */
+  rerank?: RerankMetadata;
+}
+
+/**
+ * Cross-encoder reranking applied to retrieved chunks
+ */
+export interface RerankMetadata {
+  model: string;
+  /** Candidates scored (over-fetched before reranking) */
+  candidatesScored: number;
+  durationMs: number;
+  /** Kept chunks in final order with their scores */
+  chunks: RerankedChunk[];
+}
+
+export interface RerankedChunk {
+  category: 'procedure' | 'context';
+  fileName: string;
+  chunkIndex: number;
+  /** Cosine similarity from the first-stage search */
+  similarity: number;
+  /** Cross-encoder relevance, 0-1 */
+  rerankScore: number;
 }
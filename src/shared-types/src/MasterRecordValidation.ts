@@ -0,0 +1,70 @@
+/**
+ * Master Record field declaration from
+ * knowledge_sources.master_record.schema.fields in primary-context.yaml.
+ */
+export interface MasterRecordFieldSchema {
+  /** ALL_CAPS field name, as referenced by [Master Record|KEY] */
+  key: string;
+  type: 'string' | 'number' | 'date' | 'enum';
+  required: boolean;
+  /** Accepted values (case-insensitive); required for type "enum" */
+  allowedValues?: string[];
+  description?: string;
+}
+
+/**
+ * Validation outcome for one declared field.
+ * - missing: not present in the Master Record
+ * - empty:   present but blank or a placeholder (TBD, TODO, …)
+ * - invalid: value does not match the declared type or allowed values
+ */
+export interface MasterRecordFieldResult {
+  key: string;
+  type: MasterRecordFieldSchema['type'];
+  required: boolean;
+  status: 'ok' | 'missing' | 'empty' | 'invalid';
+  value?: string;
+  message?: string;
+}
+
+/**
+ * A prompt in `[projectPath]/Prompts` that references Master Record fields
+ * which would not resolve to a valid value at generation time.
+ */
+export interface MasterRecordPromptGap {
+  promptFilePath: string;
+  /** File name without extension */
+  promptName: string;
+  /** Referenced fields that are missing or empty in the Master Record */
+  missingFields: string[];
+  /** Referenced fields whose value fails the schema */
+  invalidFields: string[];
+  /** Referenced fields the schema does not declare */
+  undeclaredFields: string[];
+}
+
+/**
+ * Response of GET /api/master-record/validate.
+ */
+export interface MasterRecordValidationReport {
+  projectPath: string;
+  validatedAt: string;
+  /** Master Record file name, when one was found in Context/ */
+  masterRecordFile?: string;
+  /** True when every required field is present and no field is invalid */
+  valid: boolean;
+  /** One result per declared field, in schema order */
+  fields: MasterRecordFieldResult[];
+  /** Fields found in the Master Record that the schema does not declare */
+  undeclaredFields: string[];
+  /** Prompts whose [Master Record|…] references have gaps (prompts without gaps are omitted) */
+  prompts: MasterRecordPromptGap[];
+  totals: {
+    declared: number;
+    ok: number;
+    missingRequired: number;
+    invalid: number;
+    promptsScanned: number;
+    promptsWithGaps: number;
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Generation pipeline roles a project can assign a model to
+ * (values of ModelRole in @phaser/llm-service, minus embeddings).
+ */
+export type ProjectModelRole = 'ingestion' | 'drafter' | 'auditor' | 'reviser';
+
+/**
+ * Per-project defaults applied to every generation for the project's folder.
+ * Request options still take precedence.
+ */
+export interface ProjectSettings {
+  /** Multi-model only: model id per role, overriding MODEL_<ROLE> */
+  modelAssignments?: Partial<Record<ProjectModelRole, string>>;
+  /** Default for GenerationOptions.topKProcedures */
+  topKProcedures?: number;
+  /** Default for GenerationOptions.topKContext */
+  topKContext?: number;
+  /** Absolute path of a primary-context.yaml used instead of PRIMARY_CONTEXT_PATH */
+  primaryContextPath?: string;
+}
+
+/**
+ * A project in the server-side registry (GET /api/projects).
+ */
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  /** Absolute path to the project's RAG folder */
+  folderPath: string;
+  sourceType: 'local';
+  createdAt: string;
+  updatedAt: string;
+  lastAnalysis?: {
+    timestamp: string;
+    status: 'complete' | 'error' | 'processing';
+    report?: string;
+  };
+  settings?: ProjectSettings;
+}
+
+/**
+ * Body of POST /api/projects and PUT /api/projects/:id (all fields optional for PUT).
+ */
+export type ProjectInput = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Response of POST /api/projects/import.
+ */
+export interface ProjectImportResult {
+  /** Projects added to the registry, with their original ids */
+  imported: Project[];
+  /** Entries that were not added, e.g. because the id is already registered */
+  skipped: Array<{ id?: string; name?: string; reason: string }>;
+}
+
+/**
+ * Response of GET /api/project-roots.
+ */
+export interface ProjectRoots {
+  /** False when PROJECT_ROOTS is unset: only admins can register project folders, anywhere */
+  configured: boolean;
+  /** Directories project folders must lie in */
+  roots: string[];
+}
@@ -0,0 +1,63 @@
+/**
+ * Problem codes reported by the prompt linter.
+ * - unknown_procedure_subcategory: [Procedure|x|…] names no procedure subcategory
+ * - unknown_procedure_category:    [Procedure|sops|x] names no category of that subcategory
+ * - legacy_procedure_syntax:       deprecated single-part [Procedure|Name]
+ * - unknown_master_record_field:   [Master Record|X] not present in the project's Master Record
+ * - master_record_not_found:       Master Record fields referenced but the project has none
+ * - unresolved_bootstrap:          [Bootstrap|Name] matches no file in the project
+ * - unknown_scope:                 @scope names no knowledge source
+ */
+export type PromptLintCode =
+  | 'unknown_procedure_subcategory'
+  | 'unknown_procedure_category'
+  | 'legacy_procedure_syntax'
+  | 'unknown_master_record_field'
+  | 'master_record_not_found'
+  | 'unresolved_bootstrap'
+  | 'unknown_scope';
+
+/**
+ * One lint finding, positioned so the dashboard can highlight it.
+ */
+export interface PromptLintIssue {
+  code: PromptLintCode;
+  /** Errors would not resolve at generation time; warnings still resolve but should be fixed */
+  severity: 'error' | 'warning';
+  message: string;
+  /** 1-based line of the first character of the reference */
+  line: number;
+  /** 1-based column of the first character of the reference */
+  column: number;
+  /** Offset of the reference in the linted text */
+  offset: number;
+  /** Length of the reference in characters */
+  length: number;
+  /** The reference as written, e.g. "[Procedure|sops|desgin_control]" */
+  text: string;
+  /** Replacement reference, when a likely fix is known */
+  suggestion?: string;
+}
+
+/**
+ * Request body of POST /api/prompts/lint.
+ * Provide the prompt text inline, or a prompt file to read from the project.
+ */
+export interface PromptLintRequest {
+  projectPath: string;
+  prompt?: string;
+  promptFilePath?: string;
+}
+
+/**
+ * Response of POST /api/prompts/lint.
+ */
+export interface PromptLintResult {
+  /** The linted text; positions refer to it (.docx prompts are reduced to plain text) */
+  text: string;
+  issues: PromptLintIssue[];
+  counts: {
+    errors: number;
+    warnings: number;
+  };
+}
@@ -0,0 +1,146 @@
+import type { AuthenticatedUser, UserRole } from './Auth';
+import type { GenerationOutput, SourceAttribution } from './GenerationOutput';
+
+/**
+ * Where a draft is in the review workflow:
+ * draft → in_review → approved | rejected; a rejected draft can be reopened as a new revision.
+ */
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+/**
+ * What an electronic signature attests to (21 CFR 11.50(a)(3)).
+ */
+export type SignatureMeaning = 'authorship' | 'review' | 'approval' | 'responsibility';
+
+/**
+ * Recorded actions on a review. Every action is also written to the audit log.
+ */
+export type ReviewAction = 'created' | 'edited' | 'submitted' | 'approved' | 'rejected' | 'reopened';
+
+/**
+ * A user as recorded on a review.
+ */
+export type ReviewParticipant = Pick<AuthenticatedUser, 'id' | 'username' | 'displayName'>;
+
+/**
+ * A reviewer comment anchored to one paragraph of the draft.
+ * Paragraphs are the blocks of `content` separated by blank lines.
+ */
+export interface ReviewComment {
+  id: string;
+  /** 0-based paragraph the comment refers to */
+  paragraphIndex: number;
+  /** The paragraph's text when the comment was made; differs from the current paragraph once it was edited */
+  quote: string;
+  /** Revision the comment was made on */
+  revision: number;
+  text: string;
+  author: ReviewParticipant;
+  /** ISO timestamp */
+  createdAt: string;
+  resolvedBy?: ReviewParticipant;
+  /** ISO timestamp */
+  resolvedAt?: string;
+}
+
+/**
+ * One entry in a review's history.
+ */
+export interface ReviewHistoryEvent {
+  action: ReviewAction;
+  actor: ReviewParticipant;
+  /** ISO timestamp */
+  at: string;
+  revision: number;
+  /** Submission note or rejection reason */
+  note?: string;
+}
+
+/**
+ * Electronic signature applied on approval: the signer's printed name, the
+ * time and the meaning of the signature (21 CFR 11.50), bound to the signed
+ * content by its hash.
+ */
+export interface ReviewSignature {
+  signer: ReviewParticipant & { role: UserRole };
+  meaning: SignatureMeaning;
+  /** ISO timestamp */
+  signedAt: string;
+  /** SHA-256 of the approved content */
+  contentHash: string;
+  /** "password" when the signer re-entered their password; "none" with authentication disabled */
+  verifiedBy: 'password' | 'none';
+}
+
+/**
+ * The approved version of a draft. Written once on approval and never changed.
+ */
+export interface ApprovedVersion {
+  revision: number;
+  content: string;
+  contentHash: string;
+  references: SourceAttribution[];
+  pipelineTrace: NonNullable<GenerationOutput['pipelineTrace']>;
+  signature: ReviewSignature;
+}
+
+/**
+ * A generated draft under review (GET /api/reviews/:id).
+ * Created from a recorded generation run, whose references and pipeline
+ * trace stay attached to the draft.
+ */
+export interface Review {
+  id: string;
+  projectPath: string;
+  promptFilePath: string;
+  /** File name without extension */
+  promptName: string;
+  /** Generation history run the draft was created from */
+  runId: string;
+  status: ReviewStatus;
+  /** Starts at 1; incremented when a rejected draft is reopened */
+  revision: number;
+  /** Draft text; authors may edit it while the status is "draft" */
+  content: string;
+  /** SHA-256 of `content` */
+  contentHash: string;
+  references: SourceAttribution[];
+  pipelineTrace: NonNullable<GenerationOutput['pipelineTrace']>;
+  createdBy: ReviewParticipant;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+  comments: ReviewComment[];
+  history: ReviewHistoryEvent[];
+  /** Set on approval */
+  approvedVersion?: ApprovedVersion;
+}
+
+/**
+ * A review as listed by GET /api/reviews.
+ */
+export interface ReviewSummary {
+  id: string;
+  projectPath: string;
+  promptFilePath: string;
+  promptName: string;
+  runId: string;
+  status: ReviewStatus;
+  revision: number;
+  createdBy: ReviewParticipant;
+  createdAt: string;
+  updatedAt: string;
+  /** Comments not yet resolved */
+  openComments: number;
+  /** Set once approved */
+  signature?: ReviewSignature;
+}
+
+/**
+ * Body of POST /api/reviews/:id/approve.
+ */
+export interface ReviewApprovalRequest {
+  meaning: SignatureMeaning;
+  /** The signer's password, re-entered to sign. Ignored with authentication disabled */
+  password?: string;
+}
@@ -1,6 +1,18 @@
+export * from './AuditFinding';
+export * from './BatchGeneration';
+export * from './GenerationHistory';
 export * from './GenerationInput';
+export * from './GenerationJob';
 export * from './GenerationOutput';
+export * from './GenerationProgress';
 export * from './ParsedDocument';
 export * from './ChunkedDocumentPart';
+export * from './ClaimVerification';
 export * from './KnowledgeContext';
 export * from './LLMResponse';
+export * from './MasterRecordValidation';
+export * from './PromptLint';
+export * from './Project';
+export * from './Auth';
+export * from './AuditLog';
+export * from './Review';
@@ -0,0 +1,144 @@
+import { computed, reactive } from 'vue';
+import { AuthenticatedUser, LoginResponse, UserRole } from '@phaser/shared-types';
+import { getApiEndpoint } from '../config/api';
+
+/** Where the session token is kept between page loads */
+const SESSION_STORAGE_KEY = 'phaser_session';
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'author', 'admin'];
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+/** Shared by every component */
+const state = reactive<{ mode: 'local' | 'none' | null; user: AuthenticatedUser | null }>({
+  mode: null,
+  user: null
+});
+
+let sessionLoad: Promise<void> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+export function useAuth() {
+  const user = computed(() => state.user);
+  /** False when the server runs with AUTH_MODE=none */
+  const authEnabled = computed(() => state.mode !== 'none');
+
+  /**
+   * Whether the signed-in user has at least `role`
+   */
+  const hasRole = (role: UserRole): boolean => {
+    return !!state.user && ROLE_ORDER.indexOf(state.user.role) >= ROLE_ORDER.indexOf(role);
+  };
+
+  /**
+   * Sign in and keep the session token. Throws with the server's message on failure.
+   */
+  const login = async (username: string, password: string): Promise<AuthenticatedUser> => {
+    const response = await fetch(getApiEndpoint('/auth/login'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Sign-in failed (HTTP ${response.status})`);
+    }
+
+    const { token, expiresAt, user: signedIn } = result as LoginResponse;
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ token, expiresAt }));
+    state.user = signedIn;
+    return signedIn;
+  };
+
+  const logout = () => {
+    clearSession();
+  };
+
+  return {
+    user,
+    authEnabled,
+    hasRole,
+    login,
+    logout,
+    loadSession
+  };
+}
+
+/**
+ * Restore the session once per page load: read the auth mode and, with a
+ * stored token, check it is still accepted (GET /api/auth/me). If the server
+ * cannot be reached, nothing is assumed and the next navigation tries again.
+ */
+export function loadSession(): Promise<void> {
+  if (!sessionLoad) {
+    let unreachable = false;
+    sessionLoad = (async () => {
+      try {
+        const response = await fetch(getApiEndpoint('/auth/config'));
+        state.mode = response.ok ? (await response.json()).mode : 'local';
+      } catch (error) {
+        console.error('[Auth] Could not read auth configuration:', error);
+        unreachable = true;
+        return;
+      }
+
+      if (state.mode === 'local' && !getStoredSession()) return;
+      try {
+        const response = await apiFetch('/auth/me');
+        if (response.status === 401) clearSession();
+        state.user = response.ok ? await response.json() : null;
+      } catch (error) {
+        console.error('[Auth] Could not restore session:', error);
+        unreachable = true;
+      }
+    })().finally(() => {
+      if (unreachable) sessionLoad = null;
+    });
+  }
+  return sessionLoad;
+}
+
+/**
+ * Called when the server rejects the session (401), after it has been cleared
+ */
+export function onSessionExpired(handler: () => void): void {
+  sessionExpiredHandler = handler;
+}
+
+/**
+ * fetch() against the API with the session token. A 401 ends the session.
+ */
+export async function apiFetch(endpoint: string, init: RequestInit = {}): Promise<Response> {
+  const session = getStoredSession();
+  const headers = new Headers(init.headers);
+  if (session) headers.set('Authorization', `Bearer ${session.token}`);
+
+  const response = await fetch(getApiEndpoint(endpoint), { ...init, headers });
+  if (response.status === 401 && state.mode !== 'none' && state.user) {
+    clearSession();
+    sessionExpiredHandler?.();
+  }
+  return response;
+}
+
+function getStoredSession(): StoredSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || 'null') as StoredSession | null;
+    if (!session?.token) return null;
+    if (Date.parse(session.expiresAt) <= Date.now()) {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+function clearSession() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  state.user = null;
+}
@@ -1,92 +1,76 @@
-import { Project } from '../models/project.model';
+import { readonly, ref } from 'vue';
+import { Project, ProjectInput, ProjectImportResult, ProjectRoots } from '@phaser/shared-types';
+import { apiFetch } from './useAuth';
 
-const STORAGE_KEY = 'phaser_projects';
+/** Where projects were kept before the server-side registry */
+const LEGACY_STORAGE_KEY = 'phaser_projects';
+
+/** Shared by every component so the localStorage import runs once per page load */
+let legacyImport: Promise<void> | null = null;
+
+/** localStorage projects the server did not import, until the user dismisses the notice */
+const skippedLegacyProjects = ref<ProjectImportResult['skipped']>([]);
 
 export function useProjectService() {
   /**
    * Get all projects
    */
-  const getAllProjects = (): Project[] => {
-    const projectsJson = localStorage.getItem(STORAGE_KEY);
-    if (!projectsJson) {
-      return [];
-    }
-    try {
-      return JSON.parse(projectsJson);
-    } catch (error) {
-      console.error('Error parsing projects from localStorage:', error);
-      return [];
-    }
+  const getAllProjects = async (): Promise<Project[]> => {
+    await importLegacyProjects();
+    const { projects } = await request<{ projects: Project[] }>('/projects');
+    return projects;
   };
 
   /**
    * Get a single project by ID
    */
-  const getProject = (id: string): Project | null => {
-    const projects = getAllProjects();
-    return projects.find(p => p.id === id) || null;
+  const getProject = async (id: string): Promise<Project | null> => {
+    await importLegacyProjects();
+    try {
+      return await request<Project>(`/projects/${encodeURIComponent(id)}`);
+    } catch (error) {
+      if (error instanceof ProjectRequestError && error.status === 404) return null;
+      throw error;
+    }
   };
 
   /**
    * Create a new project
    */
-  const createProject = (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Project => {
-    const newProject: Project = {
-      ...project,
-      id: generateId(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-
-    const projects = getAllProjects();
-    projects.push(newProject);
-    saveProjects(projects);
-
-    return newProject;
+  const createProject = (project: ProjectInput): Promise<Project> => {
+    return request<Project>('/projects', { method: 'POST', body: project });
   };
 
   /**
    * Update an existing project
    */
-  const updateProject = (id: string, updates: Partial<Project>): Project | null => {
-    const projects = getAllProjects();
-    const index = projects.findIndex(p => p.id === id);
-
-    if (index === -1) {
-      return null;
+  const updateProject = async (id: string, updates: Partial<ProjectInput>): Promise<Project | null> => {
+    try {
+      return await request<Project>(`/projects/${encodeURIComponent(id)}`, { method: 'PUT', body: updates });
+    } catch (error) {
+      if (error instanceof ProjectRequestError && error.status === 404) return null;
+      throw error;
     }
-
-    projects[index] = {
-      ...projects[index],
-      ...updates,
-      id, // Ensure ID doesn't change
-      updatedAt: new Date().toISOString()
-    };
-
-    saveProjects(projects);
-    return projects[index];
   };
 
   /**
    * Delete a project
    */
-  const deleteProject = (id: string): boolean => {
-    const projects = getAllProjects();
-    const filteredProjects = projects.filter(p => p.id !== id);
-
-    if (filteredProjects.length === projects.length) {
-      return false; // Project not found
+  const deleteProject = async (id: string): Promise<boolean> => {
+    try {
+      await request<void>(`/projects/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      return true;
+    } catch (error) {
+      if (error instanceof ProjectRequestError && error.status === 404) return false;
+      throw error;
     }
-
-    saveProjects(filteredProjects);
-    return true;
   };
 
   /**
    * Save analysis results to a project
    */
-  const saveAnalysisResult = (projectId: string, status: 'complete' | 'error' | 'processing', report?: string): void => {
-    updateProject(projectId, {
+  const saveAnalysisResult = async (projectId: string, status: 'complete' | 'error' | 'processing', report?: string): Promise<void> => {
+    await updateProject(projectId, {
       lastAnalysis: {
         timestamp: new Date().toISOString(),
         status,
@@ -96,21 +80,10 @@ export function useProjectService() {
   };
 
   /**
-   * Private helper to save projects to localStorage
+   * Directories the server allows project folders in
    */
-  const saveProjects = (projects: Project[]): void => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
-    } catch (error) {
-      console.error('Error saving projects to localStorage:', error);
-    }
-  };
-
-  /**
-   * Generate a unique ID for a project
-   */
-  const generateId = (): string => {
-    return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const getProjectRoots = (): Promise<ProjectRoots> => {
+    return request<ProjectRoots>('/project-roots');
   };
 
   return {
@@ -119,6 +92,90 @@ export function useProjectService() {
     createProject,
     updateProject,
     deleteProject,
-    saveAnalysisResult
+    saveAnalysisResult,
+    getProjectRoots,
+    skippedLegacyProjects: readonly(skippedLegacyProjects),
+    dismissSkippedLegacyProjects
   };
 }
+
+/**
+ * Drop the localStorage projects the server would not import, once the user
+ * has seen the list of them
+ */
+function dismissSkippedLegacyProjects(): void {
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  skippedLegacyProjects.value = [];
+}
+
+/**
+ * Error response from the project registry
+ */
+export class ProjectRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ProjectRequestError';
+  }
+}
+
+/**
+ * One-time move of projects kept in this browser's localStorage into the
+ * server registry. Imported projects are removed from the local copy; the
+ * ones the server skipped (outside PROJECT_ROOTS, duplicates, invalid) stay
+ * there and are listed in skippedLegacyProjects until the user dismisses them.
+ * On failure the local copy is kept and the import is retried on the next page load.
+ */
+function importLegacyProjects(): Promise<void> {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      const projectsJson = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!projectsJson) return;
+
+      let projects: unknown;
+      try {
+        projects = JSON.parse(projectsJson);
+      } catch (error) {
+        console.error('Error parsing projects from localStorage:', error);
+        return;
+      }
+      if (!Array.isArray(projects) || projects.length === 0) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+      }
+
+      try {
+        const result = await request<ProjectImportResult>('/projects/import', { method: 'POST', body: { projects } });
+        console.log(`[Projects] Imported ${result.imported.length} project(s) from localStorage, skipped ${result.skipped.length}`);
+        for (const skipped of result.skipped) {
+          console.warn(`[Projects] Not imported: ${skipped.name ?? skipped.id ?? '(unnamed)'} — ${skipped.reason}`);
+        }
+
+        const importedIds = new Set(result.imported.map(project => project.id));
+        const remaining = projects.filter(entry => !importedIds.has((entry as Partial<Project> | null)?.id ?? ''));
+        if (remaining.length > 0) {
+          localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+          skippedLegacyProjects.value = result.skipped;
+        } else {
+          localStorage.removeItem(LEGACY_STORAGE_KEY);
+        }
+      } catch (error) {
+        console.error('[Projects] Could not import projects from localStorage, will retry on next load:', error);
+      }
+    })();
+  }
+  return legacyImport;
+}
+
+async function request<T>(endpoint: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  const response = await apiFetch(endpoint, {
+    method: init.method ?? 'GET',
+    headers: init.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ProjectRequestError(payload.error || `Request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
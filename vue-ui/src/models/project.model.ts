@@ -1,14 +1,2 @@
-export interface Project {
-  id: string;
-  name: string;
-  description?: string;
-  folderPath: string;
-  sourceType: 'local';
-  createdAt: string;
-  updatedAt: string;
-  lastAnalysis?: {
-    timestamp: string;
-    status: 'complete' | 'error' | 'processing';
-    report?: string;
-  };
-}
+// Projects live in the api-server registry (/api/projects); the model is shared with it
+export type { Project, ProjectInput, ProjectSettings, ProjectModelRole } from '@phaser/shared-types';
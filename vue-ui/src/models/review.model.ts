@@ -0,0 +1,37 @@
+// Reviews live in the api-server (/api/reviews); the model is shared with it
+import type { ReviewStatus, SignatureMeaning } from '@phaser/shared-types';
+export type {
+  Review,
+  ReviewComment,
+  ReviewStatus,
+  ReviewSummary,
+  SignatureMeaning
+} from '@phaser/shared-types';
+
+export const STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+export const STATUS_CLASSES: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+export const SIGNATURE_MEANINGS: Array<{ value: SignatureMeaning; label: string }> = [
+  { value: 'approval', label: 'Approval: I approve this document' },
+  { value: 'review', label: 'Review: I have reviewed this document' },
+  { value: 'responsibility', label: 'Responsibility: I am responsible for this document' },
+  { value: 'authorship', label: 'Authorship: I am the author of this document' }
+];
+
+/**
+ * Paragraphs comments are anchored to. Must match splitParagraphs in the api-server review store.
+ */
+export function splitParagraphs(content: string): string[] {
+  return content.split(/\n[ \t]*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph.length > 0);
+}
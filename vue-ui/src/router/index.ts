@@ -1,31 +1,74 @@
 import { createRouter, createWebHistory } from 'vue-router'
+import { UserRole } from '@phaser/shared-types'
 import ProjectList from '../views/ProjectList.vue'
 import ProjectForm from '../views/ProjectForm.vue'
 import ProjectDashboard from '../views/ProjectDashboard.vue'
 import ProjectEdit from '../views/ProjectEdit.vue'
+import UserList from '../views/UserList.vue'
+import ReviewList from '../views/ReviewList.vue'
+import ReviewDetail from '../views/ReviewDetail.vue'
+import Login from '../views/Login.vue'
+import { loadSession, onSessionExpired, useAuth } from '../composables/useAuth'
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    /** Reachable without signing in */
+    public?: boolean
+    /** Minimum role; signed-in users below it are sent home */
+    role?: UserRole
+  }
+}
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
   routes: [
+    {
+      path: '/login',
+      name: 'login',
+      component: Login,
+      meta: { public: true }
+    },
     {
       path: '/',
       name: 'home',
-      component: ProjectList
+      component: ProjectList,
+      meta: { role: 'viewer' }
     },
     {
       path: '/projects/new',
       name: 'project-new',
-      component: ProjectForm
+      component: ProjectForm,
+      meta: { role: 'author' }
     },
     {
       path: '/projects/:id/edit',
       name: 'project-edit',
-      component: ProjectEdit
+      component: ProjectEdit,
+      meta: { role: 'author' }
     },
     {
       path: '/projects/:id',
       name: 'project-dashboard',
-      component: ProjectDashboard
+      component: ProjectDashboard,
+      meta: { role: 'viewer' }
+    },
+    {
+      path: '/reviews',
+      name: 'reviews',
+      component: ReviewList,
+      meta: { role: 'viewer' }
+    },
+    {
+      path: '/reviews/:id',
+      name: 'review',
+      component: ReviewDetail,
+      meta: { role: 'viewer' }
+    },
+    {
+      path: '/users',
+      name: 'users',
+      component: UserList,
+      meta: { role: 'admin' }
     },
     {
       path: '/:pathMatch(.*)*',
@@ -34,4 +77,29 @@ const router = createRouter({
   ]
 })
 
+router.beforeEach(async (to) => {
+  await loadSession()
+  const auth = useAuth()
+
+  if (to.meta.public) {
+    // Nothing to sign in to when the server has authentication disabled
+    return to.name === 'login' && !auth.authEnabled.value ? { name: 'home' } : true
+  }
+  if (!auth.user.value) {
+    return { name: 'login', query: { redirect: to.fullPath } }
+  }
+  if (to.meta.role && !auth.hasRole(to.meta.role)) {
+    return to.name === 'home' ? true : { name: 'home' }
+  }
+  return true
+})
+
+// A rejected session (expired, revoked, user disabled) sends the user back to sign-in
+onSessionExpired(() => {
+  const current = router.currentRoute.value
+  if (!current.meta.public) {
+    router.push({ name: 'login', query: { redirect: current.fullPath } })
+  }
+})
+
 export default router